@@ -0,0 +1,15 @@
+import { getDb } from "./src/utils/database.ts";
+import RecipeConcept from "./src/concepts/Recipe/RecipeConcept.ts";
+
+const [db, client] = await getDb();
+
+console.log("Backfilling parsed ingredient quantities...");
+
+const result = await new RecipeConcept(db).backfillParsedQuantities();
+if ("error" in result) {
+  console.error(result.error);
+} else {
+  console.log(`Updated ${result.updated} recipe(s).`);
+}
+
+await client.close();
@@ -0,0 +1,143 @@
+import { assertEquals, assertObjectMatch } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import type { ID } from "@utils/types.ts";
+import AIUsageConcept, { quotaError } from "./AIUsageConcept.ts";
+
+Deno.test("AIUsageConcept", async (t) => {
+  const [db, client] = await testDb();
+  const aiUsage = new AIUsageConcept(db, { daily: 2, monthly: 3 });
+
+  const alice = "user:Alice" as ID;
+  const bob = "user:Bob" as ID;
+  const call = {
+    calls: 1,
+    inputTokens: 120,
+    outputTokens: 40,
+    characters: 900,
+  };
+
+  await t.step("reports a full allowance for a new user", async () => {
+    const [result] = await aiUsage._getUsage({ user: alice });
+    if ("error" in result) throw new Error(result.error);
+    assertObjectMatch({ ...result.usage }, {
+      daily: { calls: 0, limit: 2, remaining: 2 },
+      monthly: { calls: 0, limit: 3, remaining: 3 },
+    });
+    assertEquals(quotaError(result.usage), undefined);
+
+    const now = new Date();
+    assertEquals(
+      result.usage.monthly.resetsAt,
+      new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    );
+  });
+
+  await t.step("adds up recorded calls, tokens and characters", async () => {
+    await aiUsage.recordUsage({ user: alice, ...call });
+    await aiUsage.recordUsage({ user: bob, ...call, calls: 2 });
+
+    const [result] = await aiUsage._getUsage({ user: alice });
+    if ("error" in result) throw new Error(result.error);
+    assertObjectMatch({ ...result.usage.daily }, {
+      calls: 1,
+      inputTokens: 120,
+      outputTokens: 40,
+      characters: 900,
+      remaining: 1,
+    });
+  });
+
+  await t.step("reports the quota once a limit is reached", async () => {
+    const [bobUsage] = await aiUsage._getUsage({ user: bob });
+    if ("error" in bobUsage) throw new Error(bobUsage.error);
+    assertEquals(bobUsage.usage.daily.remaining, 0);
+    assertEquals(
+      quotaError(bobUsage.usage),
+      `Daily AI limit of 2 calls reached. It resets at ${bobUsage.usage.daily.resetsAt.toISOString()}.`,
+    );
+
+    // A retry can take a user past the limit; remaining stays at 0
+    await aiUsage.recordUsage({ user: bob, ...call, calls: 2 });
+    const [over] = await aiUsage._getUsage({ user: bob });
+    if ("error" in over) throw new Error(over.error);
+    assertObjectMatch({ ...over.usage }, {
+      daily: { calls: 4, remaining: 0 },
+      monthly: { calls: 4, remaining: 0 },
+    });
+  });
+
+  await t.step("rejects invalid counts", async () => {
+    assertEquals(
+      await aiUsage.recordUsage({ user: alice, ...call, calls: 0 }),
+      { error: "Calls must be a positive integer." },
+    );
+    assertEquals(
+      await aiUsage.recordUsage({ user: alice, ...call, inputTokens: -1 }),
+      { error: "inputTokens must be a non-negative integer." },
+    );
+  });
+
+  await t.step("reserves calls up front, retries included", async () => {
+    const carol = "user:Carol" as ID;
+    const dailyLimitReached = (result: { error: string } | object) =>
+      "error" in result &&
+      result.error.startsWith("Daily AI limit of 2 calls reached.");
+    const reserved = await aiUsage.reserveCalls({ user: carol, calls: 2 });
+    if ("error" in reserved) throw new Error(reserved.error);
+    assertEquals(
+      dailyLimitReached(
+        await aiUsage.reserveCalls({ user: carol, calls: 1 }),
+      ),
+      true,
+    );
+
+    // Settling replaces the reserved calls with the ones actually made
+    assertEquals(
+      await aiUsage.settleUsage({
+        reservation: reserved.reservation,
+        ...call,
+      }),
+      {},
+    );
+    const [settled] = await aiUsage._getUsage({ user: carol });
+    if ("error" in settled) throw new Error(settled.error);
+    assertObjectMatch({ ...settled.usage.daily }, {
+      calls: 1,
+      inputTokens: 120,
+      remaining: 1,
+    });
+    // A settled reservation is not released again
+    assertEquals(
+      await aiUsage.releaseReservation({ reservation: reserved.reservation }),
+      {},
+    );
+
+    // One call left is not enough for a request that may retry
+    assertEquals(
+      dailyLimitReached(
+        await aiUsage.reserveCalls({ user: carol, calls: 2 }),
+      ),
+      true,
+    );
+    const last = await aiUsage.reserveCalls({ user: carol, calls: 1 });
+    if ("error" in last) throw new Error(last.error);
+    await aiUsage.releaseReservation({ reservation: last.reservation });
+    const [released] = await aiUsage._getUsage({ user: carol });
+    if ("error" in released) throw new Error(released.error);
+    assertEquals(released.usage.daily.calls, 1);
+  });
+
+  await t.step("never lets parallel reservations pass the limit", async () => {
+    const dave = "user:Dave" as ID;
+    const results = await Promise.all(
+      [1, 2, 3, 4].map(() => aiUsage.reserveCalls({ user: dave, calls: 2 })),
+    );
+    const granted = results.filter((result) => "reservation" in result);
+    assertEquals(granted.length <= 1, true);
+    const [usage] = await aiUsage._getUsage({ user: dave });
+    if ("error" in usage) throw new Error(usage.error);
+    assertEquals(usage.usage.daily.calls, 2 * granted.length);
+  });
+
+  await client.close();
+});
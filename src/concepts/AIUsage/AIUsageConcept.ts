@@ -0,0 +1,387 @@
+import type { Collection, Db } from "npm:mongodb";
+import { freshID } from "@utils/database.ts";
+import type { Empty, ID } from "@utils/types.ts";
+
+// Declare collection prefix, use concept name
+const PREFIX = "AIUsage" + ".";
+
+// Generic types of this concept (external IDs)
+type User = ID;
+
+/**
+ * a set of UsageRecords with:
+ *   id : UUID
+ *   user : User
+ *   calls : Integer         (provider calls made for one request; a retry counts)
+ *   inputTokens : Integer
+ *   outputTokens : Integer
+ *   characters : Integer    (prompt plus response text)
+ *   at : DateTime
+ *   settled : Flag          (false while the record is a reservation made by reserveCalls)
+ */
+interface UsageRecordDoc {
+  _id: ID;
+  user: User;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  at: Date;
+  settled?: boolean;
+}
+
+/**
+ * The number of AI calls a user may make per UTC day and per UTC month.
+ */
+export interface QuotaLimits {
+  daily: number;
+  monthly: number;
+}
+
+const DEFAULT_LIMITS: QuotaLimits = { daily: 20, monthly: 200 };
+
+/**
+ * A user's usage in one quota period. `remaining` never goes below 0.
+ */
+export interface PeriodUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  limit: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+export interface UsageSummary {
+  daily: PeriodUsage;
+  monthly: PeriodUsage;
+}
+
+// Records are kept a little longer than the longest quota period
+const RECORD_LIFETIME_SECONDS = 62 * 24 * 60 * 60;
+
+/**
+ * Reads AI_DAILY_LIMIT and AI_MONTHLY_LIMIT, falling back to the defaults for
+ * missing or invalid values.
+ */
+export function quotaLimitsFromEnv(): QuotaLimits {
+  const read = (name: string, fallback: number) => {
+    const raw = Deno.env.get(name)?.trim();
+    const value = Number(raw);
+    return raw && Number.isInteger(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    daily: read("AI_DAILY_LIMIT", DEFAULT_LIMITS.daily),
+    monthly: read("AI_MONTHLY_LIMIT", DEFAULT_LIMITS.monthly),
+  };
+}
+
+/**
+ * The reason a user may not make another AI call, or undefined if both periods have calls left.
+ */
+export function quotaError(usage: UsageSummary): string | undefined {
+  if (usage.daily.remaining === 0) {
+    return `Daily AI limit of ${usage.daily.limit} calls reached. It resets at ${usage.daily.resetsAt.toISOString()}.`;
+  }
+  if (usage.monthly.remaining === 0) {
+    return `Monthly AI limit of ${usage.monthly.limit} calls reached. It resets at ${usage.monthly.resetsAt.toISOString()}.`;
+  }
+  return undefined;
+}
+
+/**
+ * Adds up the user's records in the current UTC day and month.
+ */
+async function summarize(
+  records: Collection<UsageRecordDoc>,
+  limits: QuotaLimits,
+  user: User,
+): Promise<UsageSummary> {
+  const now = new Date();
+  const dayStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  const monthStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+  );
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  const monthEnd = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+  );
+
+  const found = await records
+    .find({ user, at: { $gte: monthStart } })
+    .toArray();
+  const period = (
+    since: Date,
+    limit: number,
+    resetsAt: Date,
+  ): PeriodUsage => {
+    const usage = {
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      characters: 0,
+    };
+    for (const record of found) {
+      if (record.at < since) continue;
+      usage.calls += record.calls;
+      usage.inputTokens += record.inputTokens;
+      usage.outputTokens += record.outputTokens;
+      usage.characters += record.characters;
+    }
+    return {
+      ...usage,
+      limit,
+      remaining: Math.max(0, limit - usage.calls),
+      resetsAt,
+    };
+  };
+  return {
+    daily: period(dayStart, limits.daily, dayEnd),
+    monthly: period(monthStart, limits.monthly, monthEnd),
+  };
+}
+
+/**
+ * AIUsageConcept: keep paid AI calls within each user's allowance.
+ *
+ * principle: the calls a request may make are reserved before it runs, and are refused
+ *   when they would take the calls in the current day or month past the limit; once the
+ *   request is done its reservation is settled with the calls, tokens and characters it
+ *   actually used, and further calls are refused until the period resets.
+ */
+export default class AIUsageConcept {
+  private records: Collection<UsageRecordDoc>;
+
+  constructor(
+    private readonly db: Db,
+    private readonly limits: QuotaLimits = quotaLimitsFromEnv(),
+  ) {
+    this.records = this.db.collection(PREFIX + "records");
+    this.records.createIndex({ user: 1, at: -1 });
+    this.records.createIndex({ at: 1 }, {
+      expireAfterSeconds: RECORD_LIFETIME_SECONDS,
+    });
+  }
+
+  /**
+   * recordUsage(user: User, calls: Integer, inputTokens: Integer, outputTokens: Integer, characters: Integer): (record: ID) | (error: String)
+   *
+   * **requires** calls ≥ 1; the counts are non-negative integers
+   *
+   * **effects** adds a usage record for the user at the current time
+   */
+  async recordUsage({
+    user,
+    calls,
+    inputTokens,
+    outputTokens,
+    characters,
+  }: {
+    user: User;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    characters: number;
+  }): Promise<{ record: ID } | { error: string }> {
+    if (!user) return { error: "User ID must be provided." };
+    if (!Number.isInteger(calls) || calls < 1) {
+      return { error: "Calls must be a positive integer." };
+    }
+    const counts = { inputTokens, outputTokens, characters };
+    for (const [name, value] of Object.entries(counts)) {
+      if (!Number.isInteger(value) || value < 0) {
+        return { error: `${name} must be a non-negative integer.` };
+      }
+    }
+
+    const record: UsageRecordDoc = {
+      _id: freshID(),
+      user,
+      calls,
+      ...counts,
+      at: new Date(),
+    };
+    try {
+      await this.records.insertOne(record);
+      return { record: record._id };
+    } catch (e) {
+      console.error(
+        `Failed to record AI usage for ${user}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to record AI usage due to a database error." };
+    }
+  }
+
+  /**
+   * reserveCalls(user: User, calls: Integer): (reservation: ID) | (error: String)
+   *
+   * **requires** calls ≥ 1; the user's calls in the current UTC day and month, with these,
+   *   stay within the limits
+   *
+   * **effects** adds an unsettled usage record of the calls for the user at the current time,
+   *   so concurrent requests count it at once; returns its ID
+   */
+  async reserveCalls({
+    user,
+    calls,
+  }: {
+    user: User;
+    calls: number;
+  }): Promise<{ reservation: ID } | { error: string }> {
+    if (!user) return { error: "User ID must be provided." };
+    if (!Number.isInteger(calls) || calls < 1) {
+      return { error: "Calls must be a positive integer." };
+    }
+
+    const reservation: UsageRecordDoc = {
+      _id: freshID(),
+      user,
+      calls,
+      inputTokens: 0,
+      outputTokens: 0,
+      characters: 0,
+      at: new Date(),
+      settled: false,
+    };
+    try {
+      // Insert first, then count: of two racing reservations, the one counting last sees
+      // both, so the limit is never exceeded (at worst both are refused)
+      await this.records.insertOne(reservation);
+      const usage = await summarize(this.records, this.limits, user);
+      const over = usage.daily.calls > usage.daily.limit
+        ? usage.daily
+        : usage.monthly.calls > usage.monthly.limit
+        ? usage.monthly
+        : undefined;
+      if (over) {
+        await this.records.deleteOne({ _id: reservation._id });
+        const period = over === usage.daily ? "Daily" : "Monthly";
+        return {
+          error:
+            `${period} AI limit of ${over.limit} calls reached. It resets at ${over.resetsAt.toISOString()}.`,
+        };
+      }
+      return { reservation: reservation._id };
+    } catch (e) {
+      console.error(
+        `Failed to reserve AI calls for ${user}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to reserve AI calls due to a database error." };
+    }
+  }
+
+  /**
+   * settleUsage(reservation: ID, calls: Integer, inputTokens: Integer, outputTokens: Integer, characters: Integer): Empty | (error: String)
+   *
+   * **requires** the reservation exists; the counts are non-negative integers
+   *
+   * **effects** replaces the reservation's counts with those the request actually used and
+   *   marks it settled
+   */
+  async settleUsage({
+    reservation,
+    calls,
+    inputTokens,
+    outputTokens,
+    characters,
+  }: {
+    reservation: ID;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    characters: number;
+  }): Promise<Empty | { error: string }> {
+    if (!reservation) return { error: "Reservation ID must be provided." };
+    const counts = { calls, inputTokens, outputTokens, characters };
+    for (const [name, value] of Object.entries(counts)) {
+      if (!Number.isInteger(value) || value < 0) {
+        return { error: `${name} must be a non-negative integer.` };
+      }
+    }
+    try {
+      const result = await this.records.updateOne({ _id: reservation }, {
+        $set: { ...counts, settled: true },
+      });
+      if (result.matchedCount === 0) {
+        return { error: "Reservation not found." };
+      }
+      return {};
+    } catch (e) {
+      console.error(
+        `Failed to settle AI usage ${reservation}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to settle AI usage due to a database error." };
+    }
+  }
+
+  /**
+   * releaseReservation(reservation: ID): Empty | (error: String)
+   *
+   * **requires** the reservation exists
+   *
+   * **effects** if the reservation is not settled, sets its calls to 0, so a request that
+   *   never reached the provider does not count; a settled reservation is left as it is
+   */
+  async releaseReservation({
+    reservation,
+  }: {
+    reservation: ID;
+  }): Promise<Empty | { error: string }> {
+    if (!reservation) return { error: "Reservation ID must be provided." };
+    try {
+      const result = await this.records.updateOne(
+        { _id: reservation, settled: false },
+        { $set: { calls: 0 } },
+      );
+      if (
+        result.matchedCount === 0 &&
+        await this.records.countDocuments({ _id: reservation }) === 0
+      ) {
+        return { error: "Reservation not found." };
+      }
+      return {};
+    } catch (e) {
+      console.error(
+        `Failed to release AI reservation ${reservation}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return {
+        error: "Failed to release AI reservation due to a database error.",
+      };
+    }
+  }
+
+  /**
+   * _getUsage(user: User): (usage: UsageSummary) | (error: String)
+   *
+   * **effects** returns the user's calls, tokens and characters in the current UTC day and month,
+   *   with each period's limit, remaining calls and reset time
+   */
+  async _getUsage({
+    user,
+  }: {
+    user: User;
+  }): Promise<Array<{ usage: UsageSummary }> | Array<{ error: string }>> {
+    if (!user) return [{ error: "User ID must be provided." }];
+    try {
+      return [{ usage: await summarize(this.records, this.limits, user) }];
+    } catch (e) {
+      console.error(
+        `Failed to get AI usage for ${user}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to get AI usage due to a database error." }];
+    }
+  }
+}
@@ -683,6 +683,62 @@ Deno.test("AnnotationConcept Functionality", async (t) => {
     },
   );
 
+  await t.step(
+    "importAnnotations: recreates annotations under the importing author",
+    async () => {
+      const importedRecipe = freshID();
+      const result = await annotationConcept.importAnnotations({
+        author: mockUser2,
+        annotations: [
+          {
+            recipe: importedRecipe,
+            targetKind: "Step",
+            targetIndex: 0,
+            text: "Check at 20 minutes",
+            resolved: true,
+            created: "2024-01-01T00:00:00.000Z",
+          },
+          {
+            recipe: importedRecipe,
+            targetKind: "Ingredient",
+            targetIndex: 1,
+            text: "Any flour works",
+          },
+        ],
+      });
+      if ("error" in result) throw new Error(result.error);
+      assertEquals(result.annotations.length, 2);
+
+      const found = await annotationConcept._getAnnotationsForRecipes({
+        recipes: [importedRecipe],
+      });
+      const annotations = found.map((row) => {
+        if ("error" in row) throw new Error(row.error);
+        return row.annotation;
+      });
+      assertEquals(annotations.map((a) => a.text), [
+        "Check at 20 minutes",
+        "Any flour works",
+      ]);
+      assert(annotations.every((a) => a.author === mockUser2));
+      assertEquals(annotations[0].resolved, true);
+      assertEquals(annotations[1].resolved, false);
+
+      const invalid = await annotationConcept.importAnnotations({
+        author: mockUser2,
+        annotations: [{
+          recipe: importedRecipe,
+          targetKind: "Step",
+          targetIndex: -1,
+          text: "Nowhere",
+        }],
+      });
+      assertEquals(invalid, {
+        error: "Each annotation must target an ingredient or step.",
+      });
+    },
+  );
+
   await client.close();
   console.log("\n--- AnnotationConcept Tests Complete ---");
 });
@@ -1,6 +1,12 @@
 import type { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import type { Empty, ID } from "@utils/types.ts";
+import {
+  type PageOptions,
+  pageQuery,
+  paginate,
+  readPage,
+} from "@utils/pagination.ts";
 
 // Declare collection prefix, use concept name
 const PREFIX = "Annotation" + ".";
@@ -9,6 +15,9 @@ const PREFIX = "Annotation" + ".";
 type User = ID;
 type Recipe = ID;
 
+// Sort keys of _getAnnotationsForRecipe, and the fields they order by
+const ANNOTATION_SORTS = { created: "created" };
+
 /**
  * a set of Annotations with:
  *   id : UUID
@@ -230,28 +239,128 @@ export default class AnnotationConcept {
     }
   }
 
+  /**
+   * importAnnotations(author: User, annotations: List[{recipe, targetKind, targetIndex, text, resolved?, created?}]): (annotations: List[ID]) | (error: string)
+   *
+   * **requires** every annotation has text ≠ "", a targetKind of Ingredient or Step and a non-negative targetIndex
+   *   (as with annotate, that the recipes and targets exist is checked by the caller)
+   *
+   * **effects** adds every annotation with author as its author, keeping its resolved flag and (when given) its
+   *   `created` time; returns the new IDs in the given order. Nothing is added if any annotation is invalid.
+   */
+  async importAnnotations({
+    author,
+    annotations,
+  }: {
+    author: User;
+    annotations: Array<{
+      recipe: Recipe;
+      targetKind: "Ingredient" | "Step";
+      targetIndex: number;
+      text: string;
+      resolved?: boolean;
+      created?: string | Date;
+    }>;
+  }): Promise<{ annotations: ID[] } | { error: string }> {
+    if (!Array.isArray(annotations)) {
+      return { error: "Annotations must be a list." };
+    }
+    const docs: AnnotationDoc[] = [];
+    for (const annotation of annotations) {
+      if (!annotation.text || annotation.text.trim() === "") {
+        return { error: "Annotation text cannot be empty." };
+      }
+      if (
+        (annotation.targetKind !== "Ingredient" &&
+          annotation.targetKind !== "Step") ||
+        !Number.isInteger(annotation.targetIndex) ||
+        annotation.targetIndex < 0
+      ) {
+        return { error: "Each annotation must target an ingredient or step." };
+      }
+      const created = annotation.created
+        ? new Date(annotation.created)
+        : new Date();
+      docs.push({
+        _id: freshID(),
+        author,
+        recipe: annotation.recipe,
+        targetKind: annotation.targetKind,
+        targetIndex: annotation.targetIndex,
+        text: annotation.text.trim(),
+        created: Number.isNaN(created.getTime()) ? new Date() : created,
+        resolved: annotation.resolved === true,
+      });
+    }
+    if (docs.length === 0) return { annotations: [] };
+
+    try {
+      await this.annotations.insertMany(docs);
+      return { annotations: docs.map((doc) => doc._id) };
+    } catch (e) {
+      console.error("Failed to import annotations:", e);
+      return { error: "Failed to import annotations." };
+    }
+  }
+
   // --- Queries ---
   // The concept specification did not explicitly list queries for Annotation,
   // but adding some basic ones for completeness and testability.
 
   /**
-   * _getAnnotationsForRecipe(recipe: ID): (annotation: AnnotationDoc)[] | (error: string)
+   * _getAnnotationsForRecipe(recipe: ID, limit?: number, cursor?: string, sort?: "created", direction?: "asc" | "desc")
+   *   : (annotation: AnnotationDoc, nextCursor?: string)[] | (error: string)
    *
-   * **requires** recipe exists (implicitly, as it will return an empty array if no annotations are found for the given recipe ID)
+   * **requires** recipe exists (implicitly, as it will return an empty array if no annotations are found for the given recipe ID);
+   *   paging options valid (see PageOptions)
    *
-   * **effects** returns all annotations associated with the given recipe.
+   * **effects** returns the annotations associated with the given recipe, oldest first unless sorted otherwise;
+   *   a page of them when a limit or cursor is given.
    */
   async _getAnnotationsForRecipe({
     recipe,
+    ...options
+  }: { recipe: ID } & PageOptions): Promise<
+    | { annotation: AnnotationDoc; nextCursor?: string | null }[]
+    | Array<{ error: string }>
+  > {
+    const page = readPage(options, ANNOTATION_SORTS, "created");
+    if ("error" in page) return [page];
+    try {
+      const { filter, sort, limit } = pageQuery(page);
+      const annotations = await this.annotations.find({ recipe, ...filter })
+        .sort(sort).limit(limit).toArray();
+      return paginate(annotations, page, "annotation");
+    } catch (e) {
+      console.error("Failed to retrieve annotations for recipe:", e);
+      return [{ error: "Failed to retrieve annotations for recipe." }];
+    }
+  }
+
+  /**
+   * _getAnnotationsForRecipes(recipes: ID[]): (annotation: AnnotationDoc)[] | (error: string)
+   *
+   * **requires** recipes is a list
+   *
+   * **effects** returns all annotations on any of the given recipes, oldest first.
+   */
+  async _getAnnotationsForRecipes({
+    recipes,
   }: {
-    recipe: ID;
+    recipes: ID[];
   }): Promise<{ annotation: AnnotationDoc }[] | Array<{ error: string }>> {
+    if (!Array.isArray(recipes)) {
+      return [{ error: "Recipes must be a list." }];
+    }
     try {
-      const annotations = await this.annotations.find({ recipe }).toArray();
+      const annotations = await this.annotations
+        .find({ recipe: { $in: recipes } })
+        .sort({ created: 1 })
+        .toArray();
       return annotations.map((a) => ({ annotation: a }));
     } catch (e) {
-      console.error("Failed to retrieve annotations for recipe:", e);
-      return [{ error: "Failed to retrieve annotations for recipe." }];
+      console.error("Failed to retrieve annotations for recipes:", e);
+      return [{ error: "Failed to retrieve annotations for recipes." }];
     }
   }
 
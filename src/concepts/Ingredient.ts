@@ -3,6 +3,8 @@
 // that will be embedded within other concepts, such as Recipe and Version.
 // It does not manage its own top-level collection or actions.
 
+import type { ParsedQuantity } from "@utils/quantity.ts";
+
 /**
  * concept Ingredient
  * purpose represent a specific item needed for a recipe.
@@ -13,6 +15,8 @@
  * quantity : String (e.g., "1 cup", "2 tablespoons", "to taste")
  * unit : Optional\[String] (e.g., "cup", "tbsp", "g")
  * notes : Optional\[String] (e.g., "freshly chopped")
+ * parsedQuantity : Optional\[ParsedQuantity] (structured amount + canonical unit, derived from quantity/unit)
+ * section : Optional\[String] (e.g., "For the crust"; one of the recipe's section names)
  *
  * actions
  * (Generally managed within Recipe/Version actions)
@@ -22,4 +26,6 @@ export interface Ingredient {
   quantity: string;
   unit?: string; // Optional
   notes?: string; // Optional
+  parsedQuantity?: ParsedQuantity; // Derived from quantity/unit; the original text is kept
+  section?: string; // Optional; absent for ingredients of the recipe itself
 }
@@ -604,5 +604,34 @@ Deno.test("Notebook Concept", async (t) => {
     },
   );
 
+  await t.step(
+    "importNotebook: creates a notebook already holding the recipes",
+    async () => {
+      const result = await notebookConcept.importNotebook({
+        owner: userB,
+        title: " Imported ",
+        recipes: [recipe1, recipe2, recipe1],
+      });
+      if ("error" in result) throw new Error(result.error);
+
+      const [found] = await notebookConcept._getNotebookById({
+        notebook: result.notebook,
+      });
+      if ("error" in found) throw new Error(found.error);
+      assertEquals(found.notebook.title, "Imported");
+      assertEquals(found.notebook.members, [userB]);
+      assertEquals(found.notebook.recipes, [recipe1, recipe2]);
+
+      assertEquals(
+        await notebookConcept.importNotebook({
+          owner: userB,
+          title: "",
+          recipes: [],
+        }),
+        { error: "Notebook title cannot be empty." },
+      );
+    },
+  );
+
   await client.close();
 });
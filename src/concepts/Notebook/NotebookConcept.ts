@@ -1,6 +1,12 @@
 import type { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import type { Empty, ID } from "@utils/types.ts";
+import {
+  type PageOptions,
+  pageQuery,
+  paginate,
+  readPage,
+} from "@utils/pagination.ts";
 
 // Declare collection prefix, use concept name
 const PREFIX = "Notebook" + ".";
@@ -9,6 +15,9 @@ const PREFIX = "Notebook" + ".";
 type User = ID;
 type Recipe = ID;
 
+// Sort keys of the notebook list queries, and the fields they order by
+const NOTEBOOK_SORTS = { created: "created", title: "title" };
+
 /**
  * A notebook is a shared collection of recipes.
  */
@@ -71,6 +80,47 @@ export default class NotebookConcept {
     return { notebook: newNotebookId }; // Return object for sync engine
   }
 
+  /**
+   * importNotebook (owner: User, title: String, description?: String, recipes: List[Recipe]): (notebook: ID)
+   *
+   * **requires** title ≠ ""
+   *
+   * **effects** creates new notebook with owner ∈ members, the given recipes shared into it, sets `created`
+   */
+  async importNotebook({
+    owner,
+    title,
+    description,
+    recipes,
+  }: {
+    owner: User;
+    title: string;
+    description?: string;
+    recipes: Recipe[];
+  }): Promise<{ notebook: ID } | { error: string }> {
+    if (!title || title.trim() === "") {
+      return { error: "Notebook title cannot be empty." };
+    }
+    if (!Array.isArray(recipes)) {
+      return { error: "Recipes must be a list." };
+    }
+
+    const newNotebookId = freshID();
+    const newNotebook: NotebookDocument = {
+      _id: newNotebookId,
+      owner,
+      title: title.trim(),
+      description: description?.trim(),
+      members: [owner],
+      recipes: [...new Set(recipes)],
+      created: new Date(),
+    };
+
+    await this.notebooks.insertOne(newNotebook);
+
+    return { notebook: newNotebookId };
+  }
+
   /**
    * inviteMember (owner: User, notebook: ID, member: User): Empty
    *
@@ -296,56 +346,74 @@ export default class NotebookConcept {
   }
 
   /**
-   * _getNotebooksByOwner (owner: User): (notebook: NotebookDocument)
+   * _getNotebooksByOwner (owner: User, limit?: Number, cursor?: String, sort?: "created" | "title", direction?: "asc" | "desc")
+   *   : (notebook: NotebookDocument, nextCursor?: String)
    *
-   * **requires** owner exists
+   * **requires** owner exists; paging options valid (see PageOptions)
    *
-   * **effects** returns all notebooks owned by the specified user
+   * **effects** returns the notebooks owned by the specified user, oldest first unless sorted otherwise;
+   *   a page of them when a limit or cursor is given
    */
   async _getNotebooksByOwner({
     owner,
-  }: {
-    owner: User;
-  }): Promise<
-    Array<{ notebook: NotebookDocument }> | Array<{ error: string }>
+    ...options
+  }: { owner: User } & PageOptions): Promise<
+    | Array<{ notebook: NotebookDocument; nextCursor?: string | null }>
+    | Array<{ error: string }>
   > {
-    const notebooks = await this.notebooks.find({ owner: owner }).toArray();
-    return notebooks.map((notebook) => ({ notebook }));
+    const page = readPage(options, NOTEBOOK_SORTS, "created");
+    if ("error" in page) return [page];
+    const { filter, sort, limit } = pageQuery(page);
+    const notebooks = await this.notebooks.find({ owner, ...filter })
+      .sort(sort).limit(limit).toArray();
+    return paginate(notebooks, page, "notebook");
   }
 
   /**
-   * _getNotebooksWithMember (member: User): (notebook: NotebookDocument)
+   * _getNotebooksWithMember (member: User, limit?: Number, cursor?: String, sort?: "created" | "title", direction?: "asc" | "desc")
+   *   : (notebook: NotebookDocument, nextCursor?: String)
    *
-   * **requires** member exists
+   * **requires** member exists; paging options valid (see PageOptions)
    *
-   * **effects** returns all notebooks where the user is a member
+   * **effects** returns the notebooks where the user is a member, oldest first unless sorted otherwise;
+   *   a page of them when a limit or cursor is given
    */
   async _getNotebooksWithMember({
     member,
-  }: {
-    member: User;
-  }): Promise<
-    Array<{ notebook: NotebookDocument }> | Array<{ error: string }>
+    ...options
+  }: { member: User } & PageOptions): Promise<
+    | Array<{ notebook: NotebookDocument; nextCursor?: string | null }>
+    | Array<{ error: string }>
   > {
-    const notebooks = await this.notebooks.find({ members: member }).toArray();
-    return notebooks.map((notebook) => ({ notebook }));
+    const page = readPage(options, NOTEBOOK_SORTS, "created");
+    if ("error" in page) return [page];
+    const { filter, sort, limit } = pageQuery(page);
+    const notebooks = await this.notebooks.find({ members: member, ...filter })
+      .sort(sort).limit(limit).toArray();
+    return paginate(notebooks, page, "notebook");
   }
 
   /**
-   * _getNotebooksContainingRecipe (recipe: Recipe): (notebook: NotebookDocument)
+   * _getNotebooksContainingRecipe (recipe: Recipe, limit?: Number, cursor?: String, sort?: "created" | "title", direction?: "asc" | "desc")
+   *   : (notebook: NotebookDocument, nextCursor?: String)
    *
-   * **requires** recipe exists (implicitly)
+   * **requires** recipe exists (implicitly); paging options valid (see PageOptions)
    *
-   * **effects** returns all notebooks that contain the specified recipe
+   * **effects** returns the notebooks that contain the specified recipe, oldest first unless sorted otherwise;
+   *   a page of them when a limit or cursor is given
    */
   async _getNotebooksContainingRecipe({
     recipe,
-  }: {
-    recipe: Recipe;
-  }): Promise<
-    Array<{ notebook: NotebookDocument }> | Array<{ error: string }>
+    ...options
+  }: { recipe: Recipe } & PageOptions): Promise<
+    | Array<{ notebook: NotebookDocument; nextCursor?: string | null }>
+    | Array<{ error: string }>
   > {
-    const notebooks = await this.notebooks.find({ recipes: recipe }).toArray();
-    return notebooks.map((notebook) => ({ notebook }));
+    const page = readPage(options, NOTEBOOK_SORTS, "created");
+    if ("error" in page) return [page];
+    const { filter, sort, limit } = pageQuery(page);
+    const notebooks = await this.notebooks.find({ recipes: recipe, ...filter })
+      .sort(sort).limit(limit).toArray();
+    return paginate(notebooks, page, "notebook");
   }
 }
@@ -0,0 +1,166 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  buildNotebookArchive,
+  type NotebookArchive,
+  readNotebookArchive,
+} from "./archive.ts";
+
+const created = new Date("2024-03-01T10:00:00.000Z");
+const updated = new Date("2024-03-02T10:00:00.000Z");
+
+const notebook = {
+  title: "Family Dinners",
+  description: "Weeknights",
+  created,
+};
+
+const recipes = [
+  {
+    _id: "recipe:base",
+    title: "Pancakes",
+    ingredients: [
+      {
+        name: "flour",
+        quantity: "2 cups",
+        unit: "cup",
+        parsedQuantity: { kind: "exact" as const, amount: 2, unit: "cup" },
+      },
+    ],
+    steps: [{ description: "Mix." }, { description: "Fry." }],
+    tags: ["breakfast"],
+    yield: { servings: 4 },
+    created,
+    updated,
+  },
+  {
+    _id: "recipe:fork",
+    title: "Vegan Pancakes",
+    ingredients: [{ name: "oat milk", quantity: "1 cup", unit: "cup" }],
+    steps: [{ description: "Mix." }],
+    tags: [],
+    forkedFrom: "recipe:base",
+    created,
+    updated,
+  },
+  {
+    _id: "recipe:outside-fork",
+    title: "Waffles",
+    ingredients: [{ name: "flour", quantity: "1 cup" }],
+    steps: [{ description: "Bake." }],
+    tags: [],
+    forkedFrom: "recipe:not-shared",
+    created,
+    updated,
+  },
+];
+
+const annotations = [
+  {
+    recipe: "recipe:base",
+    targetKind: "Step" as const,
+    targetIndex: 1,
+    text: "Medium heat",
+    resolved: false,
+    created,
+  },
+  {
+    recipe: "recipe:elsewhere",
+    targetKind: "Step" as const,
+    targetIndex: 0,
+    text: "Not in this notebook",
+    resolved: false,
+    created,
+  },
+];
+
+function archive(): NotebookArchive {
+  // A round trip through JSON, as a client would send it back
+  return JSON.parse(
+    JSON.stringify(buildNotebookArchive(notebook, recipes, annotations)),
+  );
+}
+
+Deno.test("buildNotebookArchive: bundles the notebook, recipes and annotations", () => {
+  const built = archive();
+  assertEquals(built.format, ARCHIVE_FORMAT);
+  assertEquals(built.version, ARCHIVE_VERSION);
+  assertEquals(built.notebook, {
+    title: "Family Dinners",
+    description: "Weeknights",
+    created: created.toISOString(),
+  });
+  assertEquals(built.recipes.map((recipe) => recipe.id), [
+    "recipe:base",
+    "recipe:fork",
+    "recipe:outside-fork",
+  ]);
+  // Derived fields are left out
+  assertEquals(built.recipes[0].ingredients, [
+    { name: "flour", quantity: "2 cups", unit: "cup" },
+  ]);
+  assertEquals(built.recipes[0].updated, updated.toISOString());
+  assertEquals(built.recipes[0].yield, { servings: 4 });
+});
+
+Deno.test("buildNotebookArchive: keeps only links inside the archive", () => {
+  const built = archive();
+  assertEquals(built.recipes[1].forkedFrom, "recipe:base");
+  assertEquals(built.recipes[2].forkedFrom, undefined);
+  assertEquals(built.annotations.length, 1);
+  assertEquals(built.annotations[0].recipe, "recipe:base");
+  assertEquals(built.annotations[0].created, created.toISOString());
+});
+
+Deno.test("readNotebookArchive: accepts an exported archive", () => {
+  const built = archive();
+  assertEquals(readNotebookArchive(built), built);
+});
+
+Deno.test("readNotebookArchive: rejects other formats and versions", () => {
+  assertEquals(readNotebookArchive({ title: "x" }), {
+    error: "Archive must be a nibble-notebook archive.",
+  });
+  const newer = { ...archive(), version: ARCHIVE_VERSION + 1 };
+  const result = readNotebookArchive(newer);
+  assertStringIncludes(
+    "error" in result ? result.error : "",
+    "Unsupported archive version",
+  );
+});
+
+Deno.test("readNotebookArchive: rejects duplicate ids and malformed recipes", () => {
+  const duplicated = archive();
+  duplicated.recipes[1].id = "recipe:base";
+  assertEquals(readNotebookArchive(duplicated), {
+    error: "Archive recipe 2 repeats the id recipe:base.",
+  });
+
+  const noSteps = archive();
+  noSteps.recipes[0].steps = [];
+  assertEquals(readNotebookArchive(noSteps), {
+    error: "Archive recipe 1 must have well-formed ingredients and steps.",
+  });
+});
+
+Deno.test("readNotebookArchive: rejects links that leave the archive", () => {
+  const danglingFork = archive();
+  danglingFork.recipes[1].forkedFrom = "recipe:missing";
+  assertEquals(readNotebookArchive(danglingFork), {
+    error:
+      "Archive recipe recipe:fork is forked from recipe:missing, which is not in the archive.",
+  });
+
+  const badTarget = archive();
+  badTarget.annotations[0].targetIndex = 2; // the recipe has two steps
+  assertEquals(readNotebookArchive(badTarget), {
+    error: "Archive annotation 1 must target an existing ingredient or step.",
+  });
+
+  const otherRecipe = archive();
+  otherRecipe.annotations[0].recipe = "recipe:missing";
+  assertEquals(readNotebookArchive(otherRecipe), {
+    error: "Archive annotation 1 must be on a recipe in the archive.",
+  });
+});
@@ -0,0 +1,264 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+
+// Identifies a notebook archive; bump ARCHIVE_VERSION when the shape changes
+export const ARCHIVE_FORMAT = "nibble-notebook";
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * A recipe in an archive. `id` is the recipe's ID where it was exported and is
+ * only used to link records within the archive: `forkedFrom` (set only when the
+ * parent is in the archive too), section components and the annotations'
+ * `recipe`.
+ */
+export interface ArchivedRecipe {
+  id: string;
+  title: string;
+  description?: string;
+  ingredients: Array<
+    Pick<Ingredient, "name" | "quantity" | "unit" | "notes" | "section">
+  >;
+  steps: Step[];
+  tags: string[];
+  yield?: { servings?: number; amount?: string };
+  sections?: ArchivedSection[];
+  forkedFrom?: string;
+  created: string; // ISO 8601
+  updated: string;
+}
+
+export interface ArchivedSection {
+  name: string;
+  component?: { recipe: string; scale?: number; missing?: boolean };
+}
+
+export interface ArchivedAnnotation {
+  recipe: string; // an ArchivedRecipe id
+  targetKind: "Ingredient" | "Step";
+  targetIndex: number;
+  text: string;
+  resolved: boolean;
+  created: string;
+}
+
+/**
+ * A whole notebook as one portable JSON document. Users are not carried over:
+ * the importing user owns everything that is recreated from it.
+ */
+export interface NotebookArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  notebook: { title: string; description?: string; created: string };
+  recipes: ArchivedRecipe[];
+  annotations: ArchivedAnnotation[];
+}
+
+// The stored documents an archive is built from (structural, so that this
+// module does not depend on the Recipe or Annotation concepts)
+interface RecipeSource {
+  _id: string;
+  title: string;
+  description?: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  tags: string[];
+  yield?: { servings?: number; amount?: string };
+  sections?: ArchivedSection[];
+  forkedFrom?: string;
+  created: Date;
+  updated: Date;
+}
+
+interface AnnotationSource {
+  recipe: string;
+  targetKind: "Ingredient" | "Step";
+  targetIndex: number;
+  text: string;
+  resolved: boolean;
+  created: Date;
+}
+
+/**
+ * buildNotebookArchive(notebook, recipes, annotations): bundles a notebook, its
+ * recipes and their annotations. Derived fields (parsed quantities) are left
+ * out, and forkedFrom is kept only between recipes in the archive.
+ */
+export function buildNotebookArchive(
+  notebook: { title: string; description?: string; created: Date },
+  recipes: RecipeSource[],
+  annotations: AnnotationSource[],
+): NotebookArchive {
+  const included = new Set(recipes.map((recipe) => recipe._id));
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    notebook: {
+      title: notebook.title,
+      ...(notebook.description ? { description: notebook.description } : {}),
+      created: notebook.created.toISOString(),
+    },
+    recipes: recipes.map((recipe) => {
+      const archived: ArchivedRecipe = {
+        id: recipe._id,
+        title: recipe.title,
+        ingredients: recipe.ingredients.map(
+          ({ parsedQuantity: _derived, ...ingredient }) => ingredient,
+        ),
+        steps: recipe.steps,
+        tags: recipe.tags ?? [],
+        created: recipe.created.toISOString(),
+        updated: recipe.updated.toISOString(),
+      };
+      if (recipe.description) archived.description = recipe.description;
+      if (recipe.yield) archived.yield = recipe.yield;
+      if (recipe.sections && recipe.sections.length > 0) {
+        archived.sections = recipe.sections;
+      }
+      if (recipe.forkedFrom && included.has(recipe.forkedFrom)) {
+        archived.forkedFrom = recipe.forkedFrom;
+      }
+      return archived;
+    }),
+    annotations: annotations
+      .filter((annotation) => included.has(annotation.recipe))
+      .map((annotation) => ({
+        recipe: annotation.recipe,
+        targetKind: annotation.targetKind,
+        targetIndex: annotation.targetIndex,
+        text: annotation.text,
+        resolved: annotation.resolved,
+        created: annotation.created.toISOString(),
+      })),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * readNotebookArchive(value): checks that a client-supplied value is an archive
+ * this version can import: known format and version, well-formed recipes with
+ * unique ids, and links (forkedFrom, annotation targets) that point inside it.
+ */
+export function readNotebookArchive(
+  value: unknown,
+): NotebookArchive | { error: string } {
+  if (!isObject(value) || value.format !== ARCHIVE_FORMAT) {
+    return { error: `Archive must be a ${ARCHIVE_FORMAT} archive.` };
+  }
+  if (
+    typeof value.version !== "number" || !Number.isInteger(value.version) ||
+    value.version < 1 || value.version > ARCHIVE_VERSION
+  ) {
+    return {
+      error:
+        `Unsupported archive version ${value.version}; this server reads versions up to ${ARCHIVE_VERSION}.`,
+    };
+  }
+
+  const { notebook, recipes, annotations } = value;
+  if (
+    !isObject(notebook) || typeof notebook.title !== "string" ||
+    notebook.title.trim() === ""
+  ) {
+    return { error: "Archive notebook must have a title." };
+  }
+  if (!Array.isArray(recipes) || !Array.isArray(annotations)) {
+    return { error: "Archive must list recipes and annotations." };
+  }
+
+  const ids = new Set<string>();
+  for (const [i, recipe] of recipes.entries()) {
+    const where = `Archive recipe ${i + 1}`;
+    if (
+      !isObject(recipe) || typeof recipe.id !== "string" || recipe.id === ""
+    ) {
+      return { error: `${where} must have an id.` };
+    }
+    if (ids.has(recipe.id)) {
+      return { error: `${where} repeats the id ${recipe.id}.` };
+    }
+    ids.add(recipe.id);
+    if (typeof recipe.title !== "string" || recipe.title.trim() === "") {
+      return { error: `${where} must have a title.` };
+    }
+    const wellFormed = Array.isArray(recipe.ingredients) &&
+      recipe.ingredients.length > 0 &&
+      recipe.ingredients.every((ingredient) =>
+        isObject(ingredient) && typeof ingredient.name === "string" &&
+        typeof ingredient.quantity === "string"
+      ) &&
+      Array.isArray(recipe.steps) && recipe.steps.length > 0 &&
+      recipe.steps.every((step) =>
+        isObject(step) && typeof step.description === "string"
+      );
+    if (!wellFormed) {
+      return { error: `${where} must have well-formed ingredients and steps.` };
+    }
+    if (
+      !Array.isArray(recipe.tags) ||
+      !recipe.tags.every((tag) => typeof tag === "string")
+    ) {
+      return { error: `${where} must have a list of tags.` };
+    }
+    if (!isDate(recipe.created) || !isDate(recipe.updated)) {
+      return { error: `${where} must have created and updated dates.` };
+    }
+  }
+
+  for (const recipe of recipes) {
+    if (recipe.forkedFrom !== undefined && !ids.has(recipe.forkedFrom)) {
+      return {
+        error:
+          `Archive recipe ${recipe.id} is forked from ${recipe.forkedFrom}, which is not in the archive.`,
+      };
+    }
+  }
+
+  const targetCounts = new Map<string, [number, number]>(
+    recipes.map((recipe) => [
+      recipe.id,
+      [recipe.ingredients.length, recipe.steps.length],
+    ]),
+  );
+  for (const [i, annotation] of annotations.entries()) {
+    const where = `Archive annotation ${i + 1}`;
+    if (
+      !isObject(annotation) || !targetCounts.has(annotation.recipe as string)
+    ) {
+      return { error: `${where} must be on a recipe in the archive.` };
+    }
+    const [ingredientCount, stepCount] = targetCounts.get(
+      annotation.recipe as string,
+    )!;
+    const count = annotation.targetKind === "Ingredient"
+      ? ingredientCount
+      : annotation.targetKind === "Step"
+      ? stepCount
+      : 0;
+    const index = annotation.targetIndex;
+    if (
+      typeof index !== "number" || !Number.isInteger(index) || index < 0 ||
+      index >= count
+    ) {
+      return {
+        error: `${where} must target an existing ingredient or step.`,
+      };
+    }
+    if (typeof annotation.text !== "string" || annotation.text.trim() === "") {
+      return { error: `${where} must have text.` };
+    }
+    if (!isDate(annotation.created)) {
+      return { error: `${where} must have a created date.` };
+    }
+  }
+
+  return value as unknown as NotebookArchive;
+}
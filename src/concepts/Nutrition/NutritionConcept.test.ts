@@ -0,0 +1,118 @@
+import { assertEquals, assertObjectMatch } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import type { ID } from "@utils/types.ts";
+import NutritionConcept from "./NutritionConcept.ts";
+
+Deno.test("NutritionConcept", async (t) => {
+  const [db, client] = await testDb();
+  const nutrition = new NutritionConcept(db);
+
+  const alice = "user:Alice" as ID;
+  const bob = "user:Bob" as ID;
+  const ingredients = [
+    { name: "Rolled oats", quantity: "1 cup" },
+    { name: "Dragonfruit, cubed", quantity: "100 g" },
+  ];
+
+  await t.step("lists ingredients it cannot match", async () => {
+    const [result] = await nutrition._estimateNutrition({
+      user: alice,
+      ingredients,
+      servings: 2,
+    });
+    if ("error" in result) throw new Error(result.error);
+    assertEquals(result.report.ingredients.map(({ food }) => food), [
+      "rolled oat",
+    ]);
+    assertEquals(result.report.unmatched, [
+      { ingredient: 1, name: "Dragonfruit, cubed", normalized: "dragonfruit" },
+    ]);
+    assertEquals(result.report.perServing?.calories, 170.4);
+  });
+
+  await t.step("uses a user's mapping in their estimates only", async () => {
+    const mapped = await nutrition.mapIngredient({
+      user: alice,
+      name: "Dragonfruit",
+      food: "kiwi",
+    });
+    if ("error" in mapped) throw new Error(mapped.error);
+
+    const [forAlice] = await nutrition._estimateNutrition({
+      user: alice,
+      ingredients,
+    });
+    if ("error" in forAlice) throw new Error(forAlice.error);
+    assertObjectMatch({ ...forAlice.report.ingredients[1] }, {
+      food: "kiwi",
+      matchedBy: "mapping",
+      grams: 100,
+    });
+    assertEquals(forAlice.report.unmatched, []);
+
+    const [forBob] = await nutrition._estimateNutrition({
+      user: bob,
+      ingredients,
+    });
+    if ("error" in forBob) throw new Error(forBob.error);
+    assertEquals(forBob.report.unmatched.length, 1);
+  });
+
+  await t.step("replaces a mapping for the same name", async () => {
+    const first = await nutrition.mapIngredient({
+      user: alice,
+      name: "dragon fruit",
+      food: "kiwi",
+    });
+    const again = await nutrition.mapIngredient({
+      user: alice,
+      name: "Dragon fruits",
+      food: "mango",
+    });
+    assertEquals(again, first);
+    const mappings = await nutrition._listMappings({ user: alice });
+    assertEquals(
+      mappings.map((entry) =>
+        "mapping" in entry ? [entry.mapping.name, entry.mapping.food] : []
+      ),
+      [["dragon fruit", "mango"], ["dragonfruit", "kiwi"]],
+    );
+  });
+
+  await t.step("rejects foods the table lacks and unknown names", async () => {
+    assertEquals(
+      await nutrition.mapIngredient({
+        user: alice,
+        name: "x",
+        food: "ambrosia",
+      }),
+      { error: 'Food "ambrosia" is not in the nutrient table.' },
+    );
+    assertEquals(
+      await nutrition.mapIngredient({ user: alice, name: "  ", food: "kiwi" }),
+      { error: "An ingredient name must be provided." },
+    );
+    assertEquals(
+      await nutrition.unmapIngredient({ user: bob, name: "Dragonfruit" }),
+      { error: 'No mapping for "Dragonfruit" was found.' },
+    );
+  });
+
+  await t.step("removes a mapping", async () => {
+    assertEquals(
+      await nutrition.unmapIngredient({ user: alice, name: "Dragonfruit" }),
+      {},
+    );
+    assertEquals((await nutrition._listMappings({ user: alice })).length, 1);
+  });
+
+  await t.step("searches the nutrient table", () => {
+    const [first] = nutrition._searchFoods({ query: "kiwi" });
+    assertObjectMatch({ ...first.food }, {
+      food: "kiwi",
+      per100g: { calories: 61 },
+    });
+  });
+
+  await client.close();
+});
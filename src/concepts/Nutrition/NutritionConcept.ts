@@ -0,0 +1,244 @@
+import type { Collection, Db } from "npm:mongodb";
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import { normalizeIngredientName } from "@concepts/Recipe/pantry.ts";
+import { freshID } from "@utils/database.ts";
+import type { Empty, ID } from "@utils/types.ts";
+import { estimateNutrition, type NutritionReport } from "./estimate.ts";
+import { foodByKey, type Nutrients, searchFoods } from "./nutrientTable.ts";
+
+// Declare collection prefix, use concept name
+const PREFIX = "Nutrition" + ".";
+
+// Generic types of this concept (external IDs)
+type User = ID;
+
+/**
+ * a set of IngredientMappings with:
+ *   id : UUID
+ *   user : User
+ *   name : String      (a normalized ingredient name, e.g. "dragonfruit")
+ *   food : String      (the key of a food in the nutrient table)
+ *   updated : DateTime
+ */
+interface MappingDoc {
+  _id: ID;
+  user: User;
+  name: string;
+  food: string;
+  updated: Date;
+}
+
+/**
+ * A food of the nutrient table, as clients see it.
+ */
+export interface FoodSummary {
+  food: string;
+  names: string[];
+  per100g: Nutrients;
+}
+
+// Search results are cut off after this many foods
+const SEARCH_LIMIT = 20;
+
+/**
+ * NutritionConcept: estimate the calories and macronutrients of recipes from a
+ *   bundled nutrient table.
+ *
+ * principle: ingredients are matched to foods of the table by their normalized
+ *   name and weighed from their quantities, and a recipe's estimate adds them up,
+ *   per recipe and per serving; ingredients no food is found for are listed, and
+ *   once a user maps such a name to a food the mapping is used in all their
+ *   estimates.
+ */
+export default class NutritionConcept {
+  private mappings: Collection<MappingDoc>;
+
+  constructor(private readonly db: Db) {
+    this.mappings = this.db.collection(PREFIX + "mappings");
+    this.mappings.createIndex({ user: 1, name: 1 }, { unique: true });
+  }
+
+  /**
+   * mapIngredient(user: User, name: String, food: String): (mapping: ID) | (error: String)
+   *
+   * **requires** the name has letters once normalized; food is the key of a food in the
+   *   nutrient table
+   *
+   * **effects** maps the normalized name to the food for the user, replacing any mapping
+   *   the user had for that name
+   */
+  async mapIngredient({
+    user,
+    name,
+    food,
+  }: {
+    user: User;
+    name: string;
+    food: string;
+  }): Promise<{ mapping: ID } | { error: string }> {
+    if (!user) return { error: "User ID must be provided." };
+    const normalized = typeof name === "string"
+      ? normalizeIngredientName(name)
+      : "";
+    if (normalized === "") {
+      return { error: "An ingredient name must be provided." };
+    }
+    if (typeof food !== "string" || !foodByKey(food)) {
+      return { error: `Food "${food}" is not in the nutrient table.` };
+    }
+
+    try {
+      const existing = await this.mappings.findOne({ user, name: normalized });
+      if (existing) {
+        await this.mappings.updateOne({ _id: existing._id }, {
+          $set: { food, updated: new Date() },
+        });
+        return { mapping: existing._id };
+      }
+      const mapping: MappingDoc = {
+        _id: freshID(),
+        user,
+        name: normalized,
+        food,
+        updated: new Date(),
+      };
+      await this.mappings.insertOne(mapping);
+      return { mapping: mapping._id };
+    } catch (e) {
+      console.error(
+        `Failed to map ingredient "${normalized}" for ${user}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to map ingredient due to a database error." };
+    }
+  }
+
+  /**
+   * unmapIngredient(user: User, name: String): Empty | (error: String)
+   *
+   * **requires** the user has a mapping for the normalized name
+   *
+   * **effects** removes that mapping
+   */
+  async unmapIngredient({
+    user,
+    name,
+  }: {
+    user: User;
+    name: string;
+  }): Promise<Empty | { error: string }> {
+    if (!user) return { error: "User ID must be provided." };
+    const normalized = typeof name === "string"
+      ? normalizeIngredientName(name)
+      : "";
+    try {
+      const result = await this.mappings.deleteOne({ user, name: normalized });
+      if (result.deletedCount === 0) {
+        return { error: `No mapping for "${name}" was found.` };
+      }
+      return {};
+    } catch (e) {
+      console.error(
+        `Failed to unmap ingredient "${normalized}" for ${user}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to unmap ingredient due to a database error." };
+    }
+  }
+
+  /**
+   * _listMappings(user: User): (mapping: {name: String, food: String, updated: DateTime})
+   *
+   * **effects** returns the user's mappings, by name
+   */
+  async _listMappings({
+    user,
+  }: {
+    user: User;
+  }): Promise<
+    | Array<{ mapping: { name: string; food: string; updated: Date } }>
+    | Array<{ error: string }>
+  > {
+    if (!user) return [{ error: "User ID must be provided." }];
+    try {
+      const mappings = await this.mappings
+        .find({ user })
+        .sort({ name: 1 })
+        .toArray();
+      return mappings.map(({ name, food, updated }) => ({
+        mapping: { name, food, updated },
+      }));
+    } catch (e) {
+      console.error(
+        `Failed to list ingredient mappings for ${user}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to list ingredient mappings due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _searchFoods(query: String): (food: FoodSummary)
+   *
+   * **effects** returns up to 20 foods of the nutrient table with a name containing the
+   *   query, those whose name starts with it first
+   */
+  _searchFoods({
+    query,
+  }: {
+    query: string;
+  }): Array<{ food: FoodSummary }> {
+    if (typeof query !== "string") return [];
+    return searchFoods(query, SEARCH_LIMIT).map(({ food, names, per100g }) => ({
+      food: { food, names, per100g },
+    }));
+  }
+
+  /**
+   * _estimateNutrition(user?: User, ingredients: Ingredient[], servings?: Number): (report: NutritionReport)
+   *
+   * **requires** servings, if given, is greater than 0
+   *
+   * **effects** estimates the nutrients of the ingredients, using the user's mappings
+   *   before the names of the table, with totals per serving when servings is given;
+   *   the report lists the ingredients that could not be matched or weighed
+   */
+  async _estimateNutrition({
+    user,
+    ingredients,
+    servings,
+  }: {
+    user?: User;
+    ingredients: Ingredient[];
+    servings?: number;
+  }): Promise<Array<{ report: NutritionReport }> | Array<{ error: string }>> {
+    if (!Array.isArray(ingredients)) {
+      return [{ error: "Ingredients must be a list." }];
+    }
+    if (
+      servings !== undefined &&
+      (typeof servings !== "number" || !(servings > 0))
+    ) {
+      return [{ error: "Servings must be greater than 0." }];
+    }
+    try {
+      const mappings = user ? await this.mappings.find({ user }).toArray() : [];
+      const byName = new Map(mappings.map(({ name, food }) => [name, food]));
+      return [{ report: estimateNutrition(ingredients, byName, servings) }];
+    } catch (e) {
+      console.error(
+        `Failed to estimate nutrition: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to estimate nutrition due to a database error.",
+      }];
+    }
+  }
+}
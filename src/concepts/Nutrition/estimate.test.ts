@@ -0,0 +1,85 @@
+import { assertEquals } from "jsr:@std/assert";
+import { normalizeIngredientName } from "@concepts/Recipe/pantry.ts";
+import { estimateNutrition, matchFood } from "./estimate.ts";
+import { findFood, FOODS, searchFoods } from "./nutrientTable.ts";
+
+Deno.test("nutrient table names are normalized and unique", () => {
+  const seen = new Set<string>();
+  for (const row of FOODS) {
+    for (const name of row.names) {
+      assertEquals(normalizeIngredientName(name), name);
+      assertEquals(seen.has(name), false, `${name} is in the table twice`);
+      seen.add(name);
+    }
+  }
+});
+
+Deno.test("findFood prefers exact names, then the most specific", () => {
+  assertEquals(findFood("unsalted butter")?.food, "unsalted butter");
+  assertEquals(findFood("light brown sugar")?.food, "brown sugar");
+  assertEquals(
+    findFood("boneless skinless chicken breast")?.food,
+    "chicken breast",
+  );
+  assertEquals(findFood("garlic salt")?.food, "salt");
+  assertEquals(findFood("dragonfruit"), undefined);
+  assertEquals(findFood(""), undefined);
+});
+
+Deno.test("searchFoods ranks names starting with the query first", () => {
+  const found = searchFoods("rice").map((row) => row.food);
+  assertEquals(found[0], "rice");
+  assertEquals(found.includes("rice noodle"), true);
+  assertEquals(found.includes("brown rice"), true);
+  assertEquals(searchFoods("  "), []);
+});
+
+Deno.test("matchFood uses the user's mapping first", () => {
+  const mappings = new Map([["dragonfruit", "kiwi"], ["garlic salt", "nope"]]);
+  assertEquals(matchFood("Dragonfruit, cubed", mappings)?.row.food, "kiwi");
+  assertEquals(matchFood("Dragonfruit", mappings)?.matchedBy, "mapping");
+  // A mapping to a food the table lacks is ignored
+  assertEquals(matchFood("Garlic salt", mappings)?.row.food, "salt");
+  assertEquals(matchFood("Garlic salt", mappings)?.matchedBy, "name");
+});
+
+Deno.test("estimateNutrition totals, per serving and reports gaps", () => {
+  const report = estimateNutrition(
+    [
+      { name: "All-purpose flour", quantity: "250 g" },
+      { name: "Eggs", quantity: "2 large" },
+      { name: "Unsalted butter, melted", quantity: "1 stick" },
+      { name: "Salt", quantity: "to taste" },
+      { name: "Dragonfruit", quantity: "1" },
+    ],
+    new Map(),
+    4,
+  );
+
+  assertEquals(
+    report.ingredients.map(({ food, grams }) => [food, grams]),
+    [["all purpose flour", 250], ["egg", 100], ["unsalted butter", 113]],
+  );
+  assertEquals(report.ingredients[0].nutrients.calories, 910);
+  assertEquals(report.total.calories, 910 + 143 + 810.2);
+  assertEquals(report.total.protein, 25.8 + 12.6 + 1);
+  assertEquals(report.servings, 4);
+  assertEquals(report.perServing?.calories, 465.8);
+  assertEquals(report.unmeasured, [
+    { ingredient: 3, name: "Salt", food: "salt", quantity: "to taste" },
+  ]);
+  assertEquals(report.unmatched, [
+    { ingredient: 4, name: "Dragonfruit", normalized: "dragonfruit" },
+  ]);
+});
+
+Deno.test("estimateNutrition without servings has no per-serving values", () => {
+  const report = estimateNutrition(
+    [{ name: "Whole milk", quantity: "1 cup" }],
+    new Map(),
+  );
+  assertEquals(report.ingredients[0].food, "milk");
+  assertEquals(report.perServing, undefined);
+  assertEquals(report.servings, undefined);
+  assertEquals(report.unmatched, []);
+});
@@ -0,0 +1,132 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import { normalizeIngredientName } from "@concepts/Recipe/pantry.ts";
+import { toGrams } from "@utils/conversion.ts";
+import {
+  findFood,
+  foodByKey,
+  type FoodRow,
+  NUTRIENT_FIELDS,
+  type Nutrients,
+} from "./nutrientTable.ts";
+
+/**
+ * An estimated ingredient: the food it was matched to, and how (a mapping the
+ * user saved, or its name), its weight and what that weight holds.
+ */
+export interface EstimatedIngredient {
+  ingredient: number; // index in the ingredient list
+  name: string;
+  food: string;
+  matchedBy: "mapping" | "name";
+  grams: number;
+  nutrients: Nutrients;
+}
+
+/**
+ * The nutrition estimate for a list of ingredients. `total` counts the
+ * estimated ingredients only: `unmatched` lists those no food was found for
+ * (with the normalized name a mapping would use), and `unmeasured` those
+ * whose quantity could not be weighed ("to taste", "1 bunch" of an unknown
+ * size).
+ */
+export interface NutritionReport {
+  total: Nutrients;
+  servings?: number;
+  perServing?: Nutrients;
+  ingredients: EstimatedIngredient[];
+  unmatched: Array<{ ingredient: number; name: string; normalized: string }>;
+  unmeasured: Array<
+    { ingredient: number; name: string; food: string; quantity: string }
+  >;
+}
+
+function zero(): Nutrients {
+  return Object.fromEntries(
+    NUTRIENT_FIELDS.map((field) => [field, 0]),
+  ) as unknown as Nutrients;
+}
+
+function round(nutrients: Nutrients, divisor = 1): Nutrients {
+  return Object.fromEntries(
+    NUTRIENT_FIELDS.map((
+      field,
+    ) => [field, Math.round(nutrients[field] / divisor * 10) / 10]),
+  ) as unknown as Nutrients;
+}
+
+/**
+ * matchFood(name, mappings): the table row for an ingredient name. The user's
+ * mapping for its normalized name wins; otherwise the name is looked up in
+ * the table (see findFood).
+ */
+export function matchFood(
+  name: string,
+  mappings: Map<string, string>,
+): { row: FoodRow; matchedBy: "mapping" | "name" } | undefined {
+  const normalized = normalizeIngredientName(name);
+  const mapped = mappings.get(normalized);
+  const row = mapped === undefined ? undefined : foodByKey(mapped);
+  if (row) return { row, matchedBy: "mapping" };
+  const found = findFood(normalized);
+  return found ? { row: found, matchedBy: "name" } : undefined;
+}
+
+/**
+ * estimateNutrition(ingredients, mappings, servings): totals the nutrients of
+ * the ingredients that can be matched and weighed, and per serving when the
+ * number of servings is known. `mappings` maps normalized ingredient names to
+ * table foods. Values are rounded to one decimal.
+ */
+export function estimateNutrition(
+  ingredients: Ingredient[],
+  mappings: Map<string, string>,
+  servings?: number,
+): NutritionReport {
+  const total = zero();
+  const report: NutritionReport = {
+    total,
+    ingredients: [],
+    unmatched: [],
+    unmeasured: [],
+  };
+  ingredients.forEach((ingredient, index) => {
+    const match = matchFood(ingredient.name, mappings);
+    if (!match) {
+      report.unmatched.push({
+        ingredient: index,
+        name: ingredient.name,
+        normalized: normalizeIngredientName(ingredient.name),
+      });
+      return;
+    }
+    const grams = toGrams(ingredient, match.row.weights);
+    if (grams === undefined) {
+      report.unmeasured.push({
+        ingredient: index,
+        name: ingredient.name,
+        food: match.row.food,
+        quantity: ingredient.quantity,
+      });
+      return;
+    }
+    const nutrients = zero();
+    for (const field of NUTRIENT_FIELDS) {
+      nutrients[field] = match.row.per100g[field] * grams / 100;
+      total[field] += nutrients[field];
+    }
+    report.ingredients.push({
+      ingredient: index,
+      name: ingredient.name,
+      food: match.row.food,
+      matchedBy: match.matchedBy,
+      grams: Math.round(grams * 10) / 10,
+      nutrients: round(nutrients),
+    });
+  });
+  report.total = round(total);
+  if (servings !== undefined && servings > 0) {
+    report.servings = servings;
+    report.perServing = round(total, servings);
+  }
+  return report;
+}
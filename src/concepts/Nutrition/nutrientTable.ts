@@ -0,0 +1,520 @@
+import type { GramWeights } from "@utils/conversion.ts";
+
+/**
+ * The bundled nutrient table: approximate values per 100 g for common
+ * ingredients, after USDA FoodData Central (SR Legacy), so estimates work
+ * offline. Raw values unless the name says otherwise; canned goods are
+ * drained.
+ *
+ * One food per line: `names | nutrients | weights`.
+ * - names: the food's key, then other names for it, comma-separated, all
+ *   written normalized (see normalizeIngredientName: singular, lower case,
+ *   no preparation words)
+ * - nutrients: kcal, protein g, carbohydrates g, fat g, fiber g, sugar g,
+ *   sodium mg
+ * - weights (optional): `ml=` grams per millilitre, `each=` grams of one
+ *   item ("2 eggs"), and grams per count unit, e.g. `clove=3`, `can=400`
+ */
+const TABLE = `
+all purpose flour, flour | 364 10.3 76.3 1 2.7 0.3 2 | ml=0.53
+bread flour | 361 12 72.5 1.7 2.4 0.3 2 | ml=0.55
+cake flour | 362 8.2 78 0.9 1.7 0.3 2 | ml=0.48
+wheat flour, wheat pastry flour | 340 13.2 72 2.5 10.7 0.4 2 | ml=0.51
+self rising flour | 354 9.9 74.2 1 2.7 0.2 1270 | ml=0.53
+almond flour, almond meal | 571 21 21 50 10 4 1 | ml=0.41
+rye flour | 325 10.9 68.6 2.5 15.1 1 2 | ml=0.45
+cornmeal, polenta | 370 8.1 79 3.6 7.3 0.6 35 | ml=0.6
+cornstarch | 381 0.3 91.3 0.1 0.9 0 9 | ml=0.54
+rolled oat, oat, oatmeal | 379 13.2 67.7 6.5 10.1 1 6 | ml=0.38
+rice, white rice, long grain rice | 365 7.1 80 0.7 1.3 0.1 5 | ml=0.79
+brown rice | 370 7.9 77.2 2.9 3.5 0.9 7 | ml=0.8
+basmati rice, jasmine rice | 360 7.5 79 0.6 1.3 0.1 1 | ml=0.79
+arborio rice, risotto rice | 358 6.5 79.3 0.5 1.2 0.1 1 | ml=0.84
+wild rice | 357 14.7 75 1.1 6.2 2.5 7 | ml=0.7
+quinoa | 368 14.1 64.2 6.1 7 0 5 | ml=0.72
+couscous | 376 12.8 77.4 0.6 5 0 10 | ml=0.73
+bulgur | 342 12.3 75.9 1.3 18.3 0.4 17 | ml=0.6
+pearl barley, barley | 352 9.9 77.7 1.2 15.6 0.8 9 | ml=0.8
+pasta, spaghetti, penne, macaroni, linguine, fettuccine, rigatoni, fusilli | 371 13 74.7 1.5 3.2 2.7 6 | ml=0.45
+egg noodle, noodle | 384 14.2 71.3 4.4 3.3 1.9 21 | ml=0.35
+rice noodle | 364 6 80 0.6 1.6 0.1 182 | ml=0.35
+soba noodle | 336 14.4 74.6 0.7 4.3 1.6 792
+udon noodle | 270 6.5 56 0.5 2 0.5 650
+lasagna noodle, lasagna sheet | 371 13 74.7 1.5 3.2 2.7 6 | each=20
+bread, white bread, sandwich bread | 266 8.9 49.4 3.3 2.7 5 490 | slice=28 loaf=450
+wheat bread | 247 13 41.3 3.4 7 5.6 450 | slice=32 loaf=450
+sourdough bread, sourdough | 272 10.8 51.9 2.4 2.2 4 602 | slice=40 loaf=600
+baguette | 274 10.8 52 2.5 2.2 4.8 590 | each=250 slice=15
+bun, hamburger bun, roll, dinner roll | 279 9.7 50.1 3.8 2.7 6.3 478 | each=50
+tortilla, flour tortilla | 304 8 50 8 3.5 3.5 600 | each=45
+corn tortilla | 218 5.7 44.6 2.9 6.3 0.9 45 | each=26
+pita, pita bread | 275 9.1 55.7 1.2 2.2 1.3 536 | each=60
+naan | 291 9.6 50.7 5.6 2.2 3.2 465 | each=90
+breadcrumb | 395 13.4 71.9 5.3 4.5 6.2 732 | ml=0.46
+panko | 370 12 76 2 3 3 400 | ml=0.25
+crouton | 407 11.9 73.5 6.6 5.1 3.2 698 | ml=0.13
+graham cracker | 430 6.7 77.7 10.6 3.4 30.5 473 | each=14 ml=0.45
+cracker, saltine | 418 9.5 71.5 8.6 2.8 1.2 938 | each=3
+granola | 471 10 64 20 7 24 25 | ml=0.45
+puff pastry | 558 7.4 45.7 38.5 1.5 0.6 253 | each=245 package=490
+phyllo, phyllo dough, filo | 299 7.1 52.6 6 1.9 0.2 483 | each=19
+pie crust, pie dough | 457 5.5 49 26.5 1.5 3 475 | each=225
+pizza dough | 250 7.5 47 3.5 1.8 1.5 500 | each=450
+wonton wrapper, dumpling wrapper | 291 9.8 57.9 1.5 1.8 0 572 | each=8
+sugar, granulated sugar, white sugar, caster sugar | 387 0 100 0 0 100 1 | ml=0.85
+brown sugar, light brown sugar, dark brown sugar | 380 0.1 98.1 0 0 97 28 | ml=0.93
+powdered sugar | 389 0 99.8 0 0 97.8 2 | ml=0.51
+honey | 304 0.3 82.4 0 0.2 82.1 4 | ml=1.42
+maple syrup | 260 0 67 0.1 0 60.5 12 | ml=1.32
+molasses | 290 0 74.7 0.1 0 74.7 37 | ml=1.4
+corn syrup | 286 0 77.6 0.2 0 77.6 62 | ml=1.38
+agave nectar, agave syrup | 310 0.1 76.4 0.5 0.2 68 4 | ml=1.35
+chocolate chip | 480 4.2 63.2 24 6 52 11 | ml=0.72
+chocolate, dark chocolate, bittersweet chocolate, semisweet chocolate | 546 4.9 61.2 31.3 7 48 24 | ml=0.6
+milk chocolate | 535 7.7 59.4 29.7 3.4 51.5 79
+white chocolate | 539 5.9 59.2 32.1 0.2 59 90
+cocoa powder, cocoa, unsweetened cocoa powder | 228 19.6 57.9 13.7 37 1.8 21 | ml=0.42
+vanilla extract, vanilla | 288 0.1 12.7 0.1 0 12.7 9 | ml=0.88
+almond extract | 288 0 12.7 0 0 12.7 9 | ml=0.88
+jam, jelly, preserve | 278 0.4 68.9 0.1 1.1 48.5 32 | ml=1.33
+marshmallow | 318 1.8 81.3 0.2 0.1 57.6 80 | each=7 ml=0.2
+baking soda | 0 0 0 0 0 0 27360 | ml=0.97
+baking powder | 53 0 27.7 0 0.2 0 10600 | ml=0.81
+yeast, active dry yeast, instant yeast | 325 40.4 41.2 7.6 26.9 0 51 | ml=0.6 package=7
+gelatin | 335 85.6 0 0.1 0 0 196 | ml=0.7 package=7
+salt, sea salt, table salt | 0 0 0 0 0 0 38758 | ml=1.22
+kosher salt | 0 0 0 0 0 0 38758 | ml=0.6
+black pepper, pepper, ground black pepper | 251 10.4 64 3.3 25.3 0.6 20 | ml=0.46
+cinnamon, ground cinnamon | 247 4 80.6 1.2 53.1 2.2 10 | ml=0.53
+nutmeg | 525 5.8 49.3 36.3 20.8 3 16 | ml=0.47
+cumin, ground cumin | 375 17.8 44.2 22.3 10.5 2.3 168 | ml=0.47
+paprika, smoked paprika | 282 14.1 54 12.9 34.9 10.3 68 | ml=0.46
+chili powder | 282 13.5 49.7 14.3 34.8 7.2 1010 | ml=0.54
+cayenne, cayenne pepper | 318 12 56.6 17.3 27.2 10.3 30 | ml=0.48
+red pepper flake, chili flake | 318 12 56.6 17.3 27.2 10.3 30 | ml=0.35
+oregano | 265 9 68.9 4.3 42.5 4.1 25 | ml=0.2
+basil, basil leaf | 23 3.2 2.7 0.6 1.6 0.3 4 | ml=0.1 bunch=60 sprig=1
+thyme | 101 5.6 24.5 1.7 14 0 9 | ml=0.2 sprig=0.5 bunch=20
+rosemary | 131 3.3 20.7 5.9 14.1 0 26 | ml=0.15 sprig=1.5
+parsley, parsley leaf, flat leaf parsley, italian parsley | 36 3 6.3 0.8 3.3 0.9 56 | ml=0.25 bunch=60 sprig=1
+cilantro, cilantro leaf | 23 2.1 3.7 0.5 2.8 0.9 46 | ml=0.07 bunch=50 sprig=1
+dill | 43 3.5 7 1.1 2.1 0 61 | ml=0.04 sprig=1
+mint, mint leaf | 70 3.8 14.9 0.9 8 0 31 | ml=0.08 sprig=1 bunch=30
+sage, sage leaf | 315 10.6 60.7 12.8 40.3 1.7 11 | ml=0.1 each=0.7
+chive | 30 3.3 4.4 0.7 2.5 1.9 3 | ml=0.2
+tarragon | 295 22.8 50.2 7.2 7.4 0 62 | ml=0.15
+bay leaf | 313 7.6 75 8.4 26.3 0 23 | each=0.2
+ginger | 80 1.8 17.8 0.8 2 1.7 13 | ml=0.4 piece=10 each=30
+ground ginger | 335 9 71.6 4.2 14.1 3.4 27 | ml=0.4
+garlic | 149 6.4 33.1 0.5 2.1 1 17 | ml=0.57 clove=3 head=40 each=40
+garlic powder | 331 16.6 72.7 0.7 9 2.4 60 | ml=0.52
+onion powder | 341 10.4 79.1 1 15.2 6.6 73 | ml=0.47
+curry powder | 325 14.3 55.8 14 53.2 2.8 52 | ml=0.4
+garam masala | 379 14 50 15 30 5 96 | ml=0.4
+turmeric | 312 9.7 67.1 3.3 22.7 3.2 27 | ml=0.51
+coriander, ground coriander, coriander seed | 298 12.4 55 17.8 41.9 0 35 | ml=0.34
+cardamom | 311 10.8 68.5 6.7 28 0 18 | ml=0.5
+allspice | 263 6.1 72.1 8.7 21.6 0 77 | ml=0.45
+fennel seed | 345 15.8 52.3 14.9 39.8 0 88 | ml=0.4
+mustard seed | 508 26.1 28.1 36.2 12.2 6.8 13 | ml=0.6
+italian seasoning, herbe de provence | 265 9 68.9 4.3 42.5 4.1 25 | ml=0.2
+mustard, yellow mustard | 60 3.7 5.8 3.3 4 0.9 1120 | ml=1.05
+dijon mustard | 66 4.4 5.8 3.3 3.3 2.2 1135 | ml=1.05
+ketchup | 101 1 27.4 0.1 0.3 22.8 907 | ml=1.15
+mayonnaise, mayo | 680 1 0.6 74.9 0 0.6 635 | ml=0.91
+soy sauce, tamari, shoyu | 53 8.1 4.9 0.6 0.8 0.4 5493 | ml=1.15
+worcestershire sauce | 78 0 19.5 0 0 10 980 | ml=1.1
+hot sauce, tabasco | 11 0.5 1.8 0.4 0.3 1.3 2643 | ml=1
+sriracha | 93 1.9 19.2 0.9 2.2 15 2124 | ml=1.1
+fish sauce | 35 5.1 3.6 0 0 3.6 7851 | ml=1.2
+oyster sauce | 51 1.4 10.9 0.3 0.3 0 2733 | ml=1.2
+hoisin sauce | 220 3.3 44.1 3.4 2.8 27.3 1615 | ml=1.2
+barbecue sauce, bbq sauce | 172 0.8 40.8 0.6 0.9 33.2 1027 | ml=1.1
+teriyaki sauce | 89 5.9 15.6 0 0.1 14.2 3833 | ml=1.15
+vinegar, white vinegar, distilled vinegar, rice vinegar, white wine vinegar, red wine vinegar | 18 0 0.1 0 0 0.1 2 | ml=1.01
+balsamic vinegar | 88 0.5 17 0 0 15 23 | ml=1.06
+apple cider vinegar, cider vinegar | 21 0 0.9 0 0 0.4 5 | ml=1.01
+tomato paste | 82 4.3 18.9 0.5 4.1 12.2 59 | ml=1.1 can=170
+tomato sauce, passata | 24 1.2 5.3 0.3 1.5 3.6 474 | ml=1.03 can=425
+marinara sauce, pasta sauce | 50 1.4 8 1.5 1.9 5.3 430 | ml=1.05
+salsa | 36 1.5 7 0.2 1.9 4 430 | ml=1.05
+pesto | 418 5 6 41 1.5 1 800 | ml=1
+tahini | 595 17 21.2 53.8 9.3 0.5 115 | ml=0.96
+peanut butter | 588 25 20 50 6 9.2 459 | ml=1.08
+almond butter | 614 21 18.8 55.5 10.3 4.4 7 | ml=1
+miso, miso paste, white miso | 198 12 26.5 6 5.4 6.2 3728 | ml=1.1
+caper | 23 2.4 4.9 0.9 3.2 0.4 2348 | ml=0.6
+olive, black olive, kalamata olive, green olive | 115 0.8 6.3 10.7 3.2 0 735 | ml=0.55 each=4
+pickle, dill pickle | 12 0.5 2.4 0.2 1 1.3 875 | each=65
+butter, salted butter | 717 0.9 0.1 81.1 0 0.1 643 | ml=0.96 stick=113
+unsalted butter | 717 0.9 0.1 81.1 0 0.1 11 | ml=0.96 stick=113
+oil, vegetable oil, canola oil, sunflower oil, neutral oil, peanut oil | 884 0 0 100 0 0 0 | ml=0.92
+olive oil, extra virgin olive oil | 884 0 0 100 0 0 2 | ml=0.91
+coconut oil | 892 0 0 99.1 0 0 0 | ml=0.92
+sesame oil, toasted sesame oil | 884 0 0 100 0 0 0 | ml=0.92
+ghee, clarified butter | 900 0.3 0 99.5 0 0 2 | ml=0.91
+lard | 902 0 0 100 0 0 0 | ml=0.92
+shortening, vegetable shortening | 884 0 0 100 0 0 0 | ml=0.82
+milk | 61 3.2 4.8 3.3 0 5.1 43 | ml=1.03
+skim milk, nonfat milk | 34 3.4 5 0.1 0 5 42 | ml=1.03
+low fat milk, reduced fat milk | 50 3.3 4.8 2 0 5.1 47 | ml=1.03
+buttermilk | 40 3.3 4.8 0.9 0 4.8 105 | ml=1.03
+heavy cream, cream | 340 2.8 2.7 36.1 0 2.9 27 | ml=1
+half and half | 130 3.1 4.3 11.5 0 4.1 61 | ml=1.03
+sour cream | 198 2.4 4.6 19.4 0 3.4 31 | ml=1
+creme fraiche | 393 2.4 2.7 41.7 0 2.7 24 | ml=1
+yogurt, plain yogurt | 61 3.5 4.7 3.3 0 4.7 46 | ml=1.04
+greek yogurt | 97 9 3.9 5 0 3.6 35 | ml=1.04
+cream cheese | 350 6.2 5.5 34.4 0 3.8 314 | ml=0.96 package=226
+sweetened condensed milk, condensed milk | 321 7.9 54.4 8.7 0 54.4 127 | ml=1.3 can=397
+evaporated milk | 134 6.8 10 7.6 0 10 106 | ml=1.07 can=354
+coconut milk | 230 2.3 5.5 23.8 2.2 3.3 15 | ml=0.98 can=400
+coconut cream | 330 3.6 6.7 34.7 2.2 3.3 4 | ml=1 can=400
+almond milk | 15 0.6 0.6 1.2 0.2 0 72 | ml=1.03
+oat milk | 50 0.8 7 2.5 0.8 4 42 | ml=1.03
+soy milk | 54 3.3 6.3 1.8 0.6 4 51 | ml=1.03
+ice cream, vanilla ice cream | 207 3.5 23.6 11 0.7 21.2 80 | ml=0.55
+cheese, cheddar cheese, cheddar | 403 24.9 1.3 33.1 0 0.5 621 | ml=0.47 slice=28
+mozzarella cheese, mozzarella | 300 22.2 2.2 22.4 0 1 627 | ml=0.47 slice=28 each=125
+parmesan, parmesan cheese, parmigiano reggiano | 431 38.5 4.1 28.6 0 0.9 1529 | ml=0.42
+pecorino, pecorino romano | 387 31.8 3.6 26.9 0 0.8 1200 | ml=0.42
+feta cheese, feta | 264 14.2 4.1 21.3 0 4.1 917 | ml=0.6
+goat cheese, chevre | 364 21.6 0.1 29.8 0 0.1 515 | ml=0.6
+ricotta cheese, ricotta | 174 11.3 3 13 0 0.3 84 | ml=1.02
+swiss cheese, emmental | 380 27 5.4 27.8 0 1.3 192 | ml=0.45 slice=28
+monterey jack cheese, monterey jack, jack cheese, pepper jack | 373 24.5 0.7 30.3 0 0.5 600 | ml=0.45 slice=28
+provolone cheese, provolone | 351 25.6 2.1 26.6 0 0.6 727 | slice=28
+gruyere cheese, gruyere | 413 29.8 0.4 32.3 0 0.4 714 | ml=0.45
+blue cheese, gorgonzola | 353 21.4 2.3 28.7 0 0.5 1146 | ml=0.5
+cottage cheese | 98 11.1 3.4 4.3 0 2.7 364 | ml=1
+mascarpone | 429 4.6 4.6 44 0 3 30 | ml=1
+brie | 334 20.8 0.5 27.7 0 0.5 629
+halloumi | 321 21 2.2 25 0 2.2 1300 | slice=30
+egg | 143 12.6 0.7 9.5 0 0.4 142 | each=50 ml=1.03
+egg white | 52 10.9 0.7 0.2 0 0.7 166 | each=33 ml=1.03
+egg yolk | 322 15.9 3.6 26.5 0 0.6 48 | each=17 ml=1.03
+chicken breast, boneless skinless chicken breast | 120 22.5 0 2.6 0 0 45 | each=175
+chicken thigh, boneless skinless chicken thigh | 121 19.7 0 4.1 0 0 95 | each=110
+chicken | 215 18.6 0 15.1 0 0 70 | each=1400
+chicken wing | 191 17.5 0 12.8 0 0 73 | each=45
+chicken drumstick | 161 18.1 0 9.2 0 0 89 | each=75
+ground chicken | 143 17.4 0 8.1 0 0 60
+rotisserie chicken, cooked chicken | 190 27 0 8.5 0 0 400 | ml=0.6
+ground turkey | 148 19.7 0 7.7 0 0 69
+turkey breast, turkey | 114 23.7 0.1 1.5 0 0.1 113 | slice=28
+ground beef | 254 17.2 0 20 0 0 66
+lean ground beef | 176 20 0 10 0 0 66
+beef, stew beef, beef chuck, chuck roast | 198 19.4 0 12.7 0 0 63
+steak, sirloin steak, ribeye steak, flank steak, skirt steak | 183 20.6 0 10.6 0 0 56 | each=225
+beef tenderloin | 158 20.8 0 7.7 0 0 53
+pork, pork shoulder, pork butt | 186 17.2 0 12.4 0 0 67
+pork chop | 172 21.2 0 9.1 0 0 56 | each=180
+pork loin | 143 21.4 0 5.7 0 0 50
+pork tenderloin | 120 21 0 3.5 0 0 53 | each=450
+ground pork | 263 16.9 0 21.2 0 0 56
+pork belly | 518 9.3 0 53 0 0 32
+bacon | 417 12.6 1.3 40 0 0 833 | slice=23 each=23
+pancetta | 458 13 0 45 0 0 1600 | ml=0.6
+ham | 145 20.9 1.5 5.5 0 1.2 1203 | slice=28
+sausage, pork sausage | 301 14 1.3 26.6 0 0 731 | each=75
+italian sausage | 346 14.3 0.7 31.3 0 0 731 | each=90
+chorizo | 455 24.1 1.9 38.3 0 0 1235 | each=60
+pepperoni | 504 19.3 1.2 46.3 0 0 1582 | slice=2
+prosciutto | 195 25.9 0.3 9.8 0 0 2340 | slice=15
+hot dog, frankfurter | 290 10.3 4.2 25.8 0 1.5 1090 | each=45
+lamb, leg lamb, lamb shoulder, ground lamb | 282 16.6 0 23.4 0 0 59
+lamb chop | 235 18 0 17.5 0 0 65 | each=100
+veal | 144 19.4 0 6.8 0 0 82
+duck breast | 132 18.3 0 6 0 0 74 | each=200
+salmon, salmon fillet | 208 20.4 0 13.4 0 0 59 | each=170
+smoked salmon, lox | 117 18.3 0 4.3 0 0 2000 | slice=15
+tuna, canned tuna | 116 25.5 0 0.8 0 0 338 | can=142
+tuna steak, ahi tuna | 109 24.4 0 0.5 0 0 45 | each=170
+cod, cod fillet | 82 17.8 0 0.7 0 0 54 | each=170
+white fish, halibut, haddock, pollock | 91 18.6 0 1.3 0 0 68 | each=170
+tilapia | 96 20.1 0 1.7 0 0 52 | each=115
+trout | 141 20.5 0 6.2 0 0 52 | each=170
+shrimp | 85 20.1 0 0.5 0 0 119 | each=12
+scallop | 69 12.1 3.2 0.5 0 0 392 | each=30
+crab, crab meat | 84 18.1 0 0.6 0 0 293 | can=170
+lobster | 77 16.5 0 0.8 0 0 423 | each=150
+mussel | 86 11.9 3.7 2.2 0 0 286 | each=8
+clam | 86 14.7 3.6 1 0 0 601 | each=10 can=185
+anchovy | 210 28.9 0 9.7 0 0 3668 | each=4
+sardine | 208 24.6 0 11.5 0 0 307 | can=92 each=12
+tofu, firm tofu, extra firm tofu | 144 17.3 2.8 8.7 2.3 0.6 14 | package=400 ml=1
+silken tofu, soft tofu | 55 4.8 2.9 2.7 0.1 1.3 5 | package=340 ml=1
+tempeh | 192 20.3 7.6 10.8 0 0 9 | package=227
+seitan | 370 75 14 1.9 0.6 0 29
+chickpea | 139 7 22.5 2.6 6.3 0.4 246 | ml=0.66 can=240
+black bean | 91 6 16.6 0.3 6.9 0.3 384 | ml=0.75 can=250
+kidney bean, red kidney bean | 84 5.2 15 0.6 5.4 0.3 258 | ml=0.75 can=250
+white bean, cannellini bean, navy bean, great northern bean | 114 7.3 20.6 0.3 5 0.3 230 | ml=0.75 can=250
+pinto bean | 86 4.9 15.3 0.8 5.5 0.3 260 | ml=0.75 can=250
+refried bean | 91 5.5 15.5 1.2 5.3 0.5 449 | ml=1 can=450
+lentil, red lentil, green lentil, brown lentil | 352 24.6 63.4 1.1 10.7 2 6 | ml=0.83
+split pea | 341 24.6 60.4 1.2 25.5 8 15 | ml=0.85
+pea, green pea | 77 5.2 13.6 0.4 4.5 4.7 108 | ml=0.6
+edamame | 121 11.9 8.9 5.2 5.2 2.2 6 | ml=0.6
+green bean, string bean | 31 1.8 7 0.2 2.7 3.3 6 | ml=0.45
+snow pea, snap pea, sugar snap pea | 42 2.8 7.6 0.2 2.6 4 4 | ml=0.4
+hummus | 166 7.9 14.3 9.6 6 0.3 379 | ml=1
+peanut | 567 25.8 16.1 49.2 8.5 4.7 18 | ml=0.6
+almond | 579 21.2 21.6 49.9 12.5 4.4 1 | ml=0.6
+walnut | 654 15.2 13.7 65.2 6.7 2.6 2 | ml=0.5
+pecan | 691 9.2 13.9 72 9.6 4 0 | ml=0.45
+cashew | 553 18.2 30.2 43.9 3.3 5.9 12 | ml=0.6
+pistachio | 560 20.2 27.2 45.3 10.6 7.7 1 | ml=0.52
+hazelnut | 628 15 16.7 60.8 9.7 4.3 0 | ml=0.57
+pine nut | 673 13.7 13.1 68.4 3.7 3.6 2 | ml=0.57
+macadamia, macadamia nut | 718 7.9 13.8 75.8 8.6 4.6 5 | ml=0.56
+nut, mixed nut | 607 20 21 54 7 4.5 6 | ml=0.55
+sesame seed | 573 17.7 23.5 49.7 11.8 0.3 11 | ml=0.6
+sunflower seed | 584 20.8 20 51.5 8.6 2.6 9 | ml=0.58
+pumpkin seed, pepita | 559 30.2 10.7 49 6 1.4 7 | ml=0.54
+chia seed | 486 16.5 42.1 30.7 34.4 0 16 | ml=0.65
+flaxseed, flax seed, ground flaxseed | 534 18.3 28.9 42.2 27.3 1.6 30 | ml=0.55
+coconut, desiccated coconut | 660 6.9 23.7 64.5 16.3 7.4 37 | ml=0.35
+sweetened coconut, flaked coconut | 456 3.1 51.9 27.8 4.5 47.7 20 | ml=0.33
+apple | 52 0.3 13.8 0.2 2.4 10.4 1 | each=182 ml=0.5
+banana | 89 1.1 22.8 0.3 2.6 12.2 1 | each=118 ml=0.75
+orange | 47 0.9 11.8 0.1 2.4 9.4 0 | each=131
+lemon | 29 1.1 9.3 0.3 2.8 2.5 2 | each=84
+lemon juice | 22 0.4 6.9 0.2 0.3 2.5 1 | ml=1.03
+lemon zest, lemon peel | 47 1.5 16 0.3 10.6 4.2 6 | ml=0.4
+lime | 30 0.7 10.5 0.2 2.8 1.7 2 | each=67
+lime juice | 25 0.4 8.4 0.1 0.4 1.7 2 | ml=1.03
+lime zest | 47 1.5 16 0.3 10.6 4.2 6 | ml=0.4
+orange juice | 45 0.7 10.4 0.2 0.2 8.4 1 | ml=1.04
+orange zest, orange peel | 97 1.5 25 0.2 10.6 0 3 | ml=0.4
+apple juice, apple cider | 46 0.1 11.3 0.1 0.2 9.6 4 | ml=1.04
+strawberry | 32 0.7 7.7 0.3 2 4.9 1 | ml=0.6 each=12
+blueberry | 57 0.7 14.5 0.3 2.4 10 1 | ml=0.6
+raspberry | 52 1.2 11.9 0.7 6.5 4.4 1 | ml=0.52
+blackberry | 43 1.4 9.6 0.5 5.3 4.9 1 | ml=0.6
+cranberry | 46 0.5 12.2 0.1 4.6 4 2 | ml=0.42
+cherry | 63 1.1 16 0.2 2.1 12.8 0 | ml=0.65 each=8
+grape | 69 0.7 18.1 0.2 0.9 15.5 2 | ml=0.65 each=5
+raisin, golden raisin, sultana | 299 3.1 79.2 0.5 3.7 59.2 11 | ml=0.63
+date, medjool date | 277 1.8 75 0.2 6.7 66.5 1 | each=24 ml=0.6
+fig | 74 0.8 19.2 0.3 2.9 16.3 1 | each=50
+peach, nectarine | 39 0.9 9.5 0.3 1.5 8.4 0 | each=150 ml=0.65
+pear | 57 0.4 15.2 0.1 3.1 9.8 1 | each=178
+plum | 46 0.7 11.4 0.3 1.4 9.9 0 | each=66
+apricot | 48 1.4 11.1 0.4 2 9.2 1 | each=35
+mango | 60 0.8 15 0.4 1.6 13.7 1 | each=200 ml=0.7
+pineapple | 50 0.5 13.1 0.1 1.4 9.9 1 | ml=0.7 each=900 can=425
+watermelon | 30 0.6 7.6 0.2 0.4 6.2 1 | ml=0.65
+cantaloupe, melon | 34 0.8 8.2 0.2 0.9 7.9 16 | ml=0.68 each=550
+kiwi | 61 1.1 14.7 0.5 3 9 3 | each=69
+pomegranate | 83 1.7 18.7 1.2 4 13.7 3 | each=280
+pomegranate seed, pomegranate aril | 83 1.7 18.7 1.2 4 13.7 3 | ml=0.73
+avocado | 160 2 8.5 14.7 6.7 0.7 7 | each=150 ml=0.6
+applesauce | 42 0.2 11.3 0.1 1.1 9.4 2 | ml=1.05
+coconut water | 19 0.7 3.7 0.2 1.1 2.6 105 | ml=1
+onion, yellow onion, white onion, red onion, sweet onion | 40 1.1 9.3 0.1 1.7 4.2 4 | each=110 ml=0.68
+scallion | 32 1.8 7.3 0.2 2.6 2.3 16 | each=15 ml=0.42 bunch=100
+shallot | 72 2.5 16.8 0.1 3.2 7.9 12 | each=45 ml=0.68
+leek | 61 1.5 14.2 0.3 1.8 3.9 20 | each=90
+tomato, roma tomato, plum tomato | 18 0.9 3.9 0.2 1.2 2.6 5 | each=123 ml=0.76 can=400
+cherry tomato, grape tomato | 18 0.9 3.9 0.2 1.2 2.6 5 | each=17 ml=0.62
+potato, russet potato, yukon gold potato, red potato | 77 2 17.5 0.1 2.2 0.8 6 | each=213 ml=0.65
+sweet potato, yam | 86 1.6 20.1 0.1 3 4.2 55 | each=130 ml=0.57
+carrot | 41 0.9 9.6 0.2 2.8 4.7 69 | each=61 ml=0.55
+celery | 16 0.7 3 0.2 1.6 1.3 80 | each=40 ml=0.5
+bell pepper, red bell pepper, green bell pepper, yellow bell pepper | 26 1 6 0.3 2.1 4.2 4 | each=120 ml=0.6
+jalapeno, jalapeno pepper | 29 0.9 6.5 0.4 2.8 4.1 3 | each=14
+chili, chili pepper, red chili, green chili, serrano | 40 1.9 8.8 0.4 1.5 5.3 9 | each=45
+broccoli | 34 2.8 6.6 0.4 2.6 1.7 33 | ml=0.38 head=500 each=500
+broccoli floret | 34 2.8 6.6 0.4 2.6 1.7 33 | ml=0.38
+cauliflower | 25 1.9 5 0.3 2 1.9 30 | ml=0.45 head=575 each=575
+cauliflower floret | 25 1.9 5 0.3 2 1.9 30 | ml=0.45
+cabbage, green cabbage, napa cabbage | 25 1.3 5.8 0.1 2.5 3.2 18 | ml=0.38 head=900 each=900
+red cabbage | 31 1.4 7.4 0.2 2.1 3.8 27 | ml=0.38 head=900 each=900
+brussel sprout | 43 3.4 9 0.3 3.8 2.2 25 | ml=0.38 each=19
+spinach, baby spinach | 23 2.9 3.6 0.4 2.2 0.4 79 | ml=0.13 bunch=340 package=280
+kale, lacinato kale | 35 2.9 4.4 1.5 4.1 1 53 | ml=0.09 bunch=200
+swiss chard, chard | 19 1.8 3.7 0.2 1.6 1.1 213 | ml=0.15 bunch=300
+collard green | 32 3 5.4 0.6 4 0.5 17 | ml=0.15 bunch=300
+arugula | 25 2.6 3.7 0.7 1.6 2.1 27 | ml=0.08
+lettuce, iceberg lettuce, butter lettuce, mixed green | 15 1.4 2.9 0.2 1.3 0.8 28 | ml=0.15 head=360 each=360
+romaine | 17 1.2 3.3 0.3 2.1 1.2 8 | ml=0.2 head=626 each=626
+mushroom, button mushroom, cremini mushroom, white mushroom | 22 3.1 3.3 0.3 1 2 5 | ml=0.3 each=18
+portobello mushroom, portobello | 22 2.1 3.9 0.4 1.3 2.5 9 | each=85
+shiitake mushroom, shiitake | 34 2.2 6.8 0.5 2.5 2.4 9 | each=19 ml=0.3
+zucchini | 17 1.2 3.1 0.3 1 2.5 8 | each=196 ml=0.52
+squash, yellow squash, summer squash | 16 1.2 3.4 0.2 1.1 2.2 2 | each=200 ml=0.52
+butternut squash | 45 1 11.7 0.1 2 2.2 4 | ml=0.59 each=1200
+acorn squash | 40 0.8 10.4 0.1 1.5 0 3 | each=430
+pumpkin | 26 1 6.5 0.1 0.5 2.8 1 | ml=0.5
+pumpkin puree, canned pumpkin | 34 1.1 8.1 0.3 2.9 3.3 5 | ml=1 can=425
+eggplant | 25 1 5.9 0.2 3 3.5 2 | each=458 ml=0.35
+cucumber, english cucumber | 15 0.7 3.6 0.1 0.5 1.7 2 | each=300 ml=0.55
+corn, corn kernel, sweet corn | 86 3.3 18.7 1.4 2 6.3 15 | ml=0.66 each=90 can=250
+asparagus | 20 2.2 3.9 0.1 2.1 1.9 2 | each=16 bunch=450
+artichoke | 47 3.3 10.5 0.2 5.4 1 94 | each=128
+artichoke heart | 45 3 9 0.3 4.5 0.9 400 | each=20 can=240
+beet | 43 1.6 9.6 0.2 2.8 6.8 78 | each=82 ml=0.6
+radish | 16 0.7 3.4 0.1 1.6 1.9 39 | each=4.5 ml=0.5
+turnip | 28 0.9 6.4 0.1 1.8 3.8 67 | each=122
+parsnip | 75 1.2 18 0.3 4.9 4.8 10 | each=133
+fennel, fennel bulb | 31 1.2 7.3 0.2 3.1 3.9 52 | each=234
+okra | 33 1.9 7.5 0.2 3.2 1.5 7 | ml=0.42
+bok choy, baby bok choy | 13 1.5 2.2 0.2 1 1.2 65 | ml=0.3 head=500 each=100
+bean sprout | 30 3 5.9 0.2 1.8 4.1 6 | ml=0.44
+water chestnut | 97 1.4 23.9 0.1 3 4.8 14 | ml=0.6 can=140
+bamboo shoot | 19 1.7 3.2 0.4 1.4 1.1 7 | ml=0.55 can=130
+nori, seaweed | 35 5.8 5.1 0.3 0.3 0.5 48 | each=2.6
+kimchi | 15 1.1 2.4 0.5 1.6 1.1 498 | ml=0.63
+sauerkraut | 19 0.9 4.3 0.1 2.9 1.8 661 | ml=0.6
+broth, stock, chicken broth, chicken stock, bone broth | 15 1.6 0.9 0.5 0 0.4 372 | ml=1
+vegetable broth, vegetable stock | 6 0.2 1.2 0.1 0 0.5 290 | ml=1
+beef broth, beef stock | 7 1.1 0.1 0.2 0 0 372 | ml=1
+water | 0 0 0 0 0 0 0 | ml=1
+ice | 0 0 0 0 0 0 0 | ml=0.92 each=30
+wine, red wine | 85 0.1 2.6 0 0 0.6 4 | ml=0.99
+white wine, dry white wine | 82 0.1 2.6 0 0 1 5 | ml=0.99
+beer | 43 0.5 3.6 0 0 0 4 | ml=1.01 can=355
+rum, vodka, gin, tequila | 231 0 0 0 0 0 1 | ml=0.95
+bourbon, whiskey, brandy | 250 0 0.1 0 0 0.1 1 | ml=0.94
+coffee, brewed coffee | 1 0.1 0 0 0 0 2 | ml=1
+espresso | 9 0.1 1.7 0.2 0 0 14 | ml=1
+tea, brewed tea | 1 0 0.3 0 0 0 3 | ml=1
+tortilla chip | 489 7.5 63 23.5 5.3 1 394 | ml=0.1
+potato chip | 536 7 53 35 4.8 0.3 525 | ml=0.08
+popcorn, popped popcorn | 387 12.9 77.8 4.5 14.5 0.9 8 | ml=0.05
+`;
+
+/**
+ * Nutrients per 100 g of a food, or in total for an estimate. Energy is in
+ * kcal, sodium in mg and everything else in grams.
+ */
+export interface Nutrients {
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+}
+
+export const NUTRIENT_FIELDS = [
+  "calories",
+  "protein",
+  "carbohydrates",
+  "fat",
+  "fiber",
+  "sugar",
+  "sodium",
+] as const;
+
+/**
+ * A row of the nutrient table. `food` is its key; `names` are every normalized
+ * name it goes by, the key first.
+ */
+export interface FoodRow {
+  food: string;
+  names: string[];
+  per100g: Nutrients;
+  weights: GramWeights;
+}
+
+function parseRow(line: string): FoodRow {
+  const [names, values, weightText = ""] = line.split("|").map((part) =>
+    part.trim()
+  );
+  const numbers = values.split(/\s+/).map(Number);
+  if (
+    numbers.length !== NUTRIENT_FIELDS.length ||
+    numbers.some((n) => !Number.isFinite(n))
+  ) {
+    throw new Error(`Bad nutrient table row: ${line}`);
+  }
+  const weights: GramWeights = {};
+  for (const pair of weightText.split(/\s+/).filter(Boolean)) {
+    const [unit, grams] = pair.split("=");
+    if (unit === "ml") weights.gPerMl = Number(grams);
+    else if (unit === "each") weights.each = Number(grams);
+    else weights.units = { ...weights.units, [unit]: Number(grams) };
+  }
+  const all = names.split(",").map((name) => name.trim());
+  return {
+    food: all[0],
+    names: all,
+    per100g: Object.fromEntries(
+      NUTRIENT_FIELDS.map((field, i) => [field, numbers[i]]),
+    ) as unknown as Nutrients,
+    weights,
+  };
+}
+
+export const FOODS: FoodRow[] = TABLE.trim().split("\n").map(parseRow);
+
+// Every name a food goes by, to its row
+const BY_NAME = new Map<string, FoodRow>();
+for (const row of FOODS) {
+  for (const name of row.names) {
+    if (!BY_NAME.has(name)) BY_NAME.set(name, row);
+  }
+}
+
+/**
+ * foodByKey(food): the table row with that key.
+ */
+export function foodByKey(food: string): FoodRow | undefined {
+  const row = BY_NAME.get(food);
+  return row?.food === food ? row : undefined;
+}
+
+/**
+ * findFood(normalized): the row for a normalized ingredient name. A name the
+ * table has wins; otherwise the most specific table name whose words are all
+ * in the ingredient's name and that ends in the same word, so "light brown
+ * sugar" is brown sugar and "unsalted butter" butter, but "garlic salt" is not
+ * garlic.
+ */
+export function findFood(normalized: string): FoodRow | undefined {
+  if (normalized === "") return undefined;
+  const exact = BY_NAME.get(normalized);
+  if (exact) return exact;
+  const words = normalized.split(" ");
+  const last = words[words.length - 1];
+  let best: { row: FoodRow; size: number } | undefined;
+  for (const [name, row] of BY_NAME) {
+    const nameWords = name.split(" ");
+    if (
+      nameWords[nameWords.length - 1] !== last ||
+      !nameWords.every((word) => words.includes(word))
+    ) {
+      continue;
+    }
+    if (!best || nameWords.length > best.size) {
+      best = { row, size: nameWords.length };
+    }
+  }
+  return best?.row;
+}
+
+/**
+ * searchFoods(query, limit): table rows with a name containing the query,
+ * those whose name starts with it first, for users mapping an ingredient by
+ * hand.
+ */
+export function searchFoods(query: string, limit = 20): FoodRow[] {
+  const text = query.trim().toLowerCase();
+  if (text === "") return [];
+  const ranked: Array<{ row: FoodRow; rank: number }> = [];
+  for (const row of FOODS) {
+    const ranks = row.names.flatMap((name) => {
+      if (name === text) return [0];
+      if (name.startsWith(text)) return [1];
+      return name.includes(text) ? [2] : [];
+    });
+    if (ranks.length > 0) ranked.push({ row, rank: Math.min(...ranks) });
+  }
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ row }) => row);
+}
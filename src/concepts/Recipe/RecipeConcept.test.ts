@@ -6,6 +6,8 @@ import {
 import { freshID, testDb } from "@utils/database.ts";
 import type { Empty, ID } from "@utils/types.ts";
 import RecipeConcept from "./RecipeConcept.ts";
+import { LocalRuleProvider } from "./localProvider.ts";
+import type { DraftRequest, LLMProvider } from "./llm.ts";
 
 Deno.test("RecipeConcept", async (t) => {
   const [db, client] = await testDb();
@@ -24,6 +26,36 @@ Deno.test("RecipeConcept", async (t) => {
     { description: "Combine with wet ingredients until smooth." },
   ];
 
+  // Stores a pending draft directly, standing in for draftRecipeWithAI (which calls the LLM)
+  const drafts = db.collection<{ _id: ID; [field: string]: unknown }>(
+    "Recipe.drafts",
+  );
+  const insertDraft = async (
+    baseRecipe: ID,
+    requester: ID,
+    content: {
+      ingredients: Array<{ name: string; quantity: string }>;
+      steps: Array<{ description: string }>;
+      notes: string;
+    },
+    expiresInMs = 60 * 60 * 1000,
+  ) => {
+    const draftId = freshID();
+    const created = new Date();
+    await drafts.insertOne({
+      _id: draftId,
+      baseRecipe,
+      requester,
+      goal: content.notes,
+      title: "Draft",
+      ...content,
+      status: "pending",
+      created,
+      expires: new Date(created.getTime() + expiresInMs),
+    });
+    return draftId;
+  };
+
   await t.step(
     "Principle: A recipe is authored once and remains the stable source.",
     async () => {
@@ -1260,5 +1292,1633 @@ Deno.test("RecipeConcept", async (t) => {
     console.log("--- Recipe Forking Tests Completed Successfully ---");
   });
 
+  await t.step("stores parsed quantities alongside the original text", async () => {
+    console.log("\n--- Test: Structured ingredient quantities ---");
+
+    const createResult = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Parsed Pancakes",
+      ingredients: [
+        { name: "Flour", quantity: "1 1/2 cups" },
+        { name: "Milk", quantity: "2-3", unit: "tbsp" },
+        { name: "Salt", quantity: "to taste" },
+      ],
+      steps: [{ description: "Whisk and cook." }],
+    });
+    if ("error" in createResult) {
+      throw new Error(`Failed to create recipe: ${createResult.error}`);
+    }
+
+    const [fetched] = await recipeConcept._getRecipeById({
+      recipe: createResult.recipe,
+    });
+    if ("error" in fetched) throw new Error(fetched.error);
+    const [flour, milk, salt] = fetched.recipe.ingredients;
+    assertEquals(flour.quantity, "1 1/2 cups", "Original text is kept.");
+    assertEquals(flour.parsedQuantity?.amount, 1.5);
+    assertEquals(flour.parsedQuantity?.unit, "cup");
+    assertEquals(milk.parsedQuantity?.kind, "range");
+    assertEquals(milk.parsedQuantity?.maxAmount, 3);
+    assertEquals(salt.parsedQuantity?.kind, "toTaste");
+
+    // Updating ingredients re-derives the parse
+    await recipeConcept.updateRecipeDetails({
+      owner: testUser1,
+      recipe: createResult.recipe,
+      newIngredients: [{ name: "Flour", quantity: "200", unit: "grams" }],
+    });
+    const [updated] = await recipeConcept._getRecipeById({
+      recipe: createResult.recipe,
+    });
+    if ("error" in updated) throw new Error(updated.error);
+    assertEquals(updated.recipe.ingredients[0].parsedQuantity?.unit, "g");
+
+    // The backfill is idempotent once every recipe is parsed
+    await recipeConcept.backfillParsedQuantities();
+    const secondRun = await recipeConcept.backfillParsedQuantities();
+    assertEquals(secondRun, { updated: 0 });
+  });
+
+  await t.step("scales a recipe from its yield", async () => {
+    console.log("\n--- Test: Recipe yield and scaling ---");
+
+    const createResult = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Party Shortbread",
+      ingredients: [
+        { name: "Butter", quantity: "8 tbsp" },
+        { name: "Flour", quantity: "1 1/2 cups" },
+        { name: "Salt", quantity: "to taste" },
+      ],
+      steps: [{ description: "Cream, mix and bake." }],
+      yield: { servings: 4 },
+    });
+    if ("error" in createResult) {
+      throw new Error(`Failed to create recipe: ${createResult.error}`);
+    }
+
+    const [scaled] = await recipeConcept._scaleRecipe({
+      recipe: createResult.recipe,
+      targetServings: 8,
+    });
+    if ("error" in scaled) throw new Error(scaled.error);
+    assertEquals(scaled.factor, 2);
+    assertEquals(scaled.yield, { servings: 8 });
+    assertEquals(scaled.ingredients[0].quantity, "1 cup");
+    assertEquals(scaled.ingredients[1].quantity, "3 cups");
+    assertEquals(
+      scaled.ingredients[2].quantity,
+      "to taste",
+      "Non-scalable items pass through untouched.",
+    );
+
+    // Scaling does not modify the stored recipe
+    const [stored] = await recipeConcept._getRecipeById({
+      recipe: createResult.recipe,
+    });
+    if ("error" in stored) throw new Error(stored.error);
+    assertEquals(stored.recipe.ingredients[0].quantity, "8 tbsp");
+
+    // Recipes without a yield cannot be scaled
+    const noYield = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Unsized Soup",
+      ingredients: [{ name: "Water", quantity: "1 l" }],
+      steps: [{ description: "Boil." }],
+    });
+    if ("error" in noYield) throw new Error(noYield.error);
+    assertEquals(
+      await recipeConcept._scaleRecipe({
+        recipe: noYield.recipe,
+        targetServings: 2,
+      }),
+      [{ error: "Recipe has no yield to scale from." }],
+    );
+
+    // Invalid yields are rejected on update
+    const badUpdate = await recipeConcept.updateRecipeDetails({
+      owner: testUser1,
+      recipe: noYield.recipe,
+      newYield: { servings: 0 },
+    });
+    assertObjectMatch(badUpdate, {
+      error: "Yield servings must be a positive number.",
+    });
+  });
+
+  await t.step("converts a recipe between unit systems", async () => {
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Shortbread",
+      ingredients: [
+        { name: "All-purpose flour", quantity: "2 cups" },
+        { name: "Butter", quantity: "227 g" },
+        { name: "Milk", quantity: "1/2 cup" },
+        { name: "Eggs", quantity: "2 large" },
+      ],
+      steps: [{ description: "Mix and bake." }],
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    const [metric] = await recipeConcept._convertRecipe({
+      recipe: created.recipe,
+      system: "metric",
+    });
+    if ("error" in metric) throw new Error(metric.error);
+    assertEquals(
+      metric.ingredients.map((ing) => ing.quantity),
+      ["250 g", "227 g", "120 ml", "2 large"],
+      "Dry goods become grams, liquids millilitres, counts stay put.",
+    );
+    assertEquals(metric.ingredients[0].originalQuantity, "2 cups");
+
+    const [imperial] = await recipeConcept._convertRecipe({
+      recipe: created.recipe,
+      system: "imperial",
+    });
+    if ("error" in imperial) throw new Error(imperial.error);
+    assertEquals(imperial.ingredients[1].quantity, "1 cup");
+
+    // The stored recipe is unchanged
+    const [stored] = await recipeConcept._getRecipeById({
+      recipe: created.recipe,
+    });
+    if ("error" in stored) throw new Error(stored.error);
+    assertEquals(stored.recipe.ingredients[0].quantity, "2 cups");
+
+    assertEquals(
+      await recipeConcept._convertRecipe({
+        recipe: created.recipe,
+        system: "cubits",
+      }),
+      [{ error: 'Unit system must be "metric" or "imperial".' }],
+    );
+  });
+
+  await t.step("records revisions and reverts to an earlier one", async () => {
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Pancakes",
+      ingredients: [
+        { name: "Flour", quantity: "1 cup" },
+        { name: "Milk", quantity: "1 cup" },
+      ],
+      steps: [{ description: "Whisk." }, { description: "Fry." }],
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    await recipeConcept.updateRecipeDetails({
+      owner: testUser1,
+      recipe: created.recipe,
+      newIngredients: [
+        { name: "Flour", quantity: "1 1/2 cups" },
+        { name: "Milk", quantity: "1 cup" },
+        { name: "Egg", quantity: "1" },
+      ],
+    });
+    const draft = await insertDraft(created.recipe, testUser1, {
+      ingredients: [
+        { name: "Flour", quantity: "1 1/2 cups" },
+        { name: "Oat milk", quantity: "1 cup" },
+      ],
+      steps: [{ description: "Whisk." }, { description: "Fry." }],
+      notes: "Dairy-free",
+    });
+    await recipeConcept.applyDraft({ owner: testUser1, draft });
+
+    const revisions = await recipeConcept._listRevisions({
+      recipe: created.recipe,
+    });
+    assertEquals(
+      revisions.map((r) => "revision" in r && r.revision.cause),
+      ["create", "manualEdit", "aiDraft"],
+    );
+
+    const [diff] = await recipeConcept._diffRevisions({
+      recipe: created.recipe,
+      from: 1,
+      to: 2,
+    });
+    if ("error" in diff) throw new Error(diff.error);
+    assertEquals(
+      diff.diff.ingredients.map((c) => [c.kind, c.after?.name]),
+      [["modified", "Flour"], ["added", "Egg"]],
+    );
+    assertEquals(diff.diff.steps, []);
+
+    // Non-owners cannot revert
+    const denied = await recipeConcept.revertToRevision({
+      owner: testUser2,
+      recipe: created.recipe,
+      revision: 1,
+    });
+    assertObjectMatch(denied, {
+      error:
+        "Provided owner is not the actual owner of the recipe and cannot revert it.",
+    });
+
+    const reverted = await recipeConcept.revertToRevision({
+      owner: testUser1,
+      recipe: created.recipe,
+      revision: 1,
+    });
+    assertEquals(reverted, { revision: 4 });
+
+    const [fetched] = await recipeConcept._getRecipeById({
+      recipe: created.recipe,
+    });
+    if ("error" in fetched) throw new Error(fetched.error);
+    assertEquals(
+      fetched.recipe.ingredients.map((ing) => ing.quantity),
+      ["1 cup", "1 cup"],
+    );
+    assertEquals(fetched.recipe.description, undefined);
+
+    const [latest] = await recipeConcept._getRevision({
+      recipe: created.recipe,
+      revision: 4,
+    });
+    if ("error" in latest) throw new Error(latest.error);
+    assertEquals(latest.revision.cause, "revert");
+    assertEquals(latest.revision.revertedFrom, 1);
+
+    assertEquals(
+      await recipeConcept._getRevision({ recipe: created.recipe, revision: 9 }),
+      [{ error: "Revision not found." }],
+    );
+  });
+
+  await t.step("builds fork trees and reports upstream changes", async () => {
+    const ingredients = [
+      { name: "Flour", quantity: "2 cups" },
+      { name: "Butter", quantity: "1/2 cup" },
+    ];
+    const steps = [{ description: "Mix." }, { description: "Bake." }];
+    const original = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Grandma's Biscuits",
+      ingredients,
+      steps,
+    });
+    if ("error" in original) throw new Error(original.error);
+    const child = await recipeConcept.createRecipe({
+      owner: testUser2,
+      title: "Bob's Biscuits",
+      ingredients,
+      steps,
+      forkedFrom: original.recipe,
+    });
+    if ("error" in child) throw new Error(child.error);
+    const grandchild = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Vegan Biscuits",
+      ingredients,
+      steps,
+      forkedFrom: child.recipe,
+    });
+    if ("error" in grandchild) throw new Error(grandchild.error);
+
+    const [tree] = await recipeConcept._getForkTree({
+      recipe: child.recipe,
+    });
+    if ("error" in tree) throw new Error(tree.error);
+    assertEquals(
+      tree.ancestors.map((a) => a.recipe),
+      [original.recipe],
+    );
+    assertEquals(tree.root.forks.map((f) => f.recipe), [grandchild.recipe]);
+    assertEquals(tree.root.forks[0].depth, 1);
+
+    const [limited] = await recipeConcept._getForkTree({
+      recipe: original.recipe,
+      maxDescendantDepth: 1,
+    });
+    if ("error" in limited) throw new Error(limited.error);
+    assertEquals(limited.root.forks[0].forks, []);
+    assertEquals(limited.root.forks[0].truncated, true);
+
+    // The parent improves after the fork
+    await recipeConcept.updateRecipeDetails({
+      owner: testUser1,
+      recipe: original.recipe,
+      newIngredients: [
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Butter", quantity: "1/2 cup", notes: "very cold" },
+        { name: "Buttermilk", quantity: "3/4 cup" },
+      ],
+    });
+
+    const [upstream] = await recipeConcept._getUpstreamChanges({
+      recipe: child.recipe,
+    });
+    if ("error" in upstream) throw new Error(upstream.error);
+    assertEquals(upstream.parent, original.recipe);
+    assertEquals(upstream.baseRevision, 1);
+    assertEquals(upstream.parentRevision, 2);
+    assertEquals(upstream.hasChanges, true);
+    assertEquals(
+      upstream.changes.ingredients.map((c) => [c.kind, c.after?.name]),
+      [["modified", "Butter"], ["added", "Buttermilk"]],
+    );
+
+    const [unchanged] = await recipeConcept._getUpstreamChanges({
+      recipe: grandchild.recipe,
+    });
+    if ("error" in unchanged) throw new Error(unchanged.error);
+    assertEquals(unchanged.hasChanges, false);
+
+    assertEquals(
+      await recipeConcept._getUpstreamChanges({ recipe: original.recipe }),
+      [{ error: "Recipe is not a fork." }],
+    );
+  });
+
+  await t.step("merges parent changes into a fork", async () => {
+    const parent = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Tomato Soup",
+      ingredients: [
+        { name: "Tomatoes", quantity: "2 lb" },
+        { name: "Onion", quantity: "1" },
+        { name: "Salt", quantity: "1 tsp" },
+      ],
+      steps: [{ description: "Roast tomatoes." }, { description: "Blend." }],
+    });
+    if ("error" in parent) throw new Error(parent.error);
+    const fork = await recipeConcept.createRecipe({
+      owner: testUser2,
+      title: "Bob's Tomato Soup",
+      ingredients: [
+        { name: "Tomatoes", quantity: "2 lb" },
+        { name: "Onion", quantity: "1" },
+        { name: "Salt", quantity: "1 tsp" },
+      ],
+      steps: [{ description: "Roast tomatoes." }, { description: "Blend." }],
+      forkedFrom: parent.recipe,
+    });
+    if ("error" in fork) throw new Error(fork.error);
+
+    assertObjectMatch(
+      await recipeConcept.mergeFromParent({
+        owner: testUser2,
+        recipe: fork.recipe,
+      }),
+      { error: "No upstream changes to merge." },
+    );
+
+    // Both sides change the salt; only the parent adds garlic
+    await recipeConcept.updateRecipeDetails({
+      owner: testUser1,
+      recipe: parent.recipe,
+      newIngredients: [
+        { name: "Tomatoes", quantity: "2 lb" },
+        { name: "Onion", quantity: "1" },
+        { name: "Garlic", quantity: "3 cloves" },
+        { name: "Salt", quantity: "2 tsp" },
+      ],
+    });
+    await recipeConcept.updateRecipeDetails({
+      owner: testUser2,
+      recipe: fork.recipe,
+      newIngredients: [
+        { name: "Tomatoes", quantity: "2 lb" },
+        { name: "Onion", quantity: "1" },
+        { name: "Salt", quantity: "1/2 tsp" },
+      ],
+    });
+
+    assertObjectMatch(
+      await recipeConcept.mergeFromParent({
+        owner: testUser1,
+        recipe: fork.recipe,
+      }),
+      {
+        error:
+          "Provided owner is not the actual owner of the recipe and cannot merge into it.",
+      },
+    );
+
+    // A parent the fork's owner cannot see is neither shown nor merged
+    const outsider = { viewer: testUser2 };
+    assertEquals(
+      await recipeConcept._getUpstreamChanges({
+        recipe: fork.recipe,
+        access: outsider,
+      }),
+      [{ error: "Parent recipe not found." }],
+    );
+    assertEquals(
+      await recipeConcept.mergeFromParent({
+        owner: testUser2,
+        recipe: fork.recipe,
+        access: outsider,
+      }),
+      { error: "Parent recipe not found." },
+    );
+
+    const firstTry = await recipeConcept.mergeFromParent({
+      owner: testUser2,
+      recipe: fork.recipe,
+      access: { viewer: testUser2, shared: [parent.recipe] },
+    });
+    if (!("conflicts" in firstTry)) {
+      throw new Error("Expected conflicts on the first merge attempt.");
+    }
+    assertEquals(firstTry.conflicts.map((c) => c.id), ["ingredient:salt"]);
+
+    const merged = await recipeConcept.mergeFromParent({
+      owner: testUser2,
+      recipe: fork.recipe,
+      resolutions: [{ conflict: "ingredient:salt", take: "ours" }],
+    });
+    if (!("revision" in merged)) {
+      throw new Error(`Expected a merge revision: ${JSON.stringify(merged)}`);
+    }
+
+    const [fetched] = await recipeConcept._getRecipeById({
+      recipe: fork.recipe,
+    });
+    if ("error" in fetched) throw new Error(fetched.error);
+    assertEquals(
+      fetched.recipe.ingredients.map((ing) => `${ing.quantity} ${ing.name}`),
+      ["2 lb Tomatoes", "1 Onion", "3 cloves Garlic", "1/2 tsp Salt"],
+    );
+    assertEquals(fetched.recipe.title, "Bob's Tomato Soup");
+
+    // The fork's base moved forward, so there is nothing left to merge
+    const [upstream] = await recipeConcept._getUpstreamChanges({
+      recipe: fork.recipe,
+    });
+    if ("error" in upstream) throw new Error(upstream.error);
+    assertEquals(upstream.hasChanges, false);
+  });
+
+  await t.step("stores drafts until applied, rejected or expired", async () => {
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Tomato Soup",
+      ingredients: [
+        { name: "Tomatoes", quantity: "1 kg" },
+        { name: "Cream", quantity: "1/2 cup" },
+      ],
+      steps: [{ description: "Simmer." }, { description: "Blend." }],
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    const content = {
+      ingredients: [
+        { name: "Tomatoes", quantity: "1 kg" },
+        { name: "Coconut milk", quantity: "1/2 cup" },
+      ],
+      steps: [{ description: "Simmer." }, { description: "Blend." }],
+      notes: "Swapped cream for coconut milk",
+    };
+    const older = await insertDraft(created.recipe, testUser2, content);
+    const newer = await insertDraft(created.recipe, testUser1, content);
+    const expired = await insertDraft(created.recipe, testUser1, content, -1);
+
+    const listed = await recipeConcept._listDraftsForRecipe({
+      recipe: created.recipe,
+    });
+    assertEquals(
+      listed.map((d) => "draft" in d && d.draft._id),
+      [newer, older],
+      "Expired drafts are not listed; newest first.",
+    );
+
+    // Drafts are private to their requester and the recipe owner
+    const shared = [created.recipe];
+    const ownerListed = await recipeConcept._listDraftsForRecipe({
+      recipe: created.recipe,
+      access: { viewer: testUser1 },
+    });
+    assertEquals(ownerListed.map((d) => "draft" in d && d.draft._id), [
+      newer,
+      older,
+    ]);
+    const requesterListed = await recipeConcept._listDraftsForRecipe({
+      recipe: created.recipe,
+      access: { viewer: testUser2, shared },
+    });
+    assertEquals(requesterListed.map((d) => "draft" in d && d.draft._id), [
+      older,
+    ]);
+    const stranger = { viewer: "user:Mallory", shared };
+    assertEquals(
+      await recipeConcept._listDraftsForRecipe({
+        recipe: created.recipe,
+        access: stranger,
+      }),
+      [],
+    );
+    assertEquals(
+      await recipeConcept._listDraftsForRecipe({
+        recipe: created.recipe,
+        access: { shared },
+      }),
+      [],
+    );
+    assertObjectMatch(
+      (await recipeConcept._getDraft({
+        draft: older,
+        access: { viewer: testUser1 },
+      }))[0],
+      { draft: { _id: older } },
+    );
+    assertEquals(
+      await recipeConcept._getDraft({ draft: newer, access: stranger }),
+      [{ error: "Draft not found or expired." }],
+    );
+    assertEquals(
+      await recipeConcept._getDraft({
+        draft: newer,
+        access: { viewer: testUser2, shared },
+      }),
+      [{ error: "Draft not found or expired." }],
+    );
+    assertEquals(
+      await recipeConcept._diffDraft({ draft: older, access: stranger }),
+      [{ error: "Draft not found or expired." }],
+    );
+
+    assertEquals(await recipeConcept._getDraft({ draft: expired }), [
+      { error: "Draft not found or expired." },
+    ]);
+    assertObjectMatch(
+      await recipeConcept.applyDraft({ owner: testUser1, draft: expired }),
+      { error: "Draft not found or expired." },
+    );
+
+    // Only the recipe owner may apply a draft, even one they did not request
+    assertObjectMatch(
+      await recipeConcept.applyDraft({ owner: testUser2, draft: older }),
+      {
+        error:
+          "Provided owner is not the actual owner of the recipe and cannot update it.",
+      },
+    );
+
+    // The requester can reject their own draft; strangers cannot
+    assertObjectMatch(
+      await recipeConcept.rejectDraft({
+        requester: "user:Mallory" as ID,
+        draft: older,
+      }),
+      {
+        error: "Only the draft's requester or the recipe owner can reject it.",
+      },
+    );
+    assertEquals(
+      await recipeConcept.rejectDraft({ requester: testUser2, draft: older }),
+      {},
+    );
+    assertObjectMatch(
+      await recipeConcept.applyDraft({ owner: testUser1, draft: older }),
+      { error: "Draft has already been rejected." },
+    );
+
+    assertEquals(
+      await recipeConcept.applyDraft({ owner: testUser1, draft: newer }),
+      { recipe: created.recipe },
+    );
+    assertObjectMatch(
+      await recipeConcept.applyDraft({ owner: testUser1, draft: newer }),
+      { error: "Draft has already been applied." },
+    );
+    const [applied] = await recipeConcept._getDraft({ draft: newer });
+    assertObjectMatch(applied, { draft: { status: "applied" } });
+
+    const [revision] = await recipeConcept._getRevision({
+      recipe: created.recipe,
+      revision: 2,
+    });
+    assertObjectMatch(revision, {
+      revision: { cause: "aiDraft", draft: newer },
+    });
+    assertEquals(
+      await recipeConcept._listDraftsForRecipe({ recipe: created.recipe }),
+      [],
+    );
+
+    // Deleting the recipe removes its drafts
+    await recipeConcept.deleteRecipe({
+      requester: testUser1,
+      recipe: created.recipe,
+    });
+    assertEquals(await recipeConcept._getDraft({ draft: newer }), [
+      { error: "Draft not found or expired." },
+    ]);
+  });
+
+  await t.step("drafts offline and applies the draft", async () => {
+    const offline = new RecipeConcept(db, new LocalRuleProvider());
+    const created = await offline.createRecipe({
+      owner: testUser1,
+      title: "Custard",
+      ingredients: [
+        { name: "Milk", quantity: "2 cups" },
+        { name: "Sugar", quantity: "1/2 cup" },
+        { name: "Eggs", quantity: "3" },
+      ],
+      steps: [
+        { description: "Heat the milk." },
+        { description: "Whisk the eggs and sugar into the milk." },
+      ],
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    const drafted = await offline.draftRecipeWithAI({
+      author: testUser1,
+      recipe: created.recipe,
+      goal: "Make it vegan and halve the sugar",
+    });
+    if ("error" in drafted) throw new Error(drafted.error);
+    assertEquals(drafted.title, "Vegan Custard");
+    assertEquals(
+      drafted.ingredients.map((ing) => `${ing.quantity} ${ing.name}`),
+      ["2 cups Oat milk", "1/4 cup Sugar", "3 Flax eggs"],
+    );
+
+    const [stored] = await offline._getDraft({ draft: drafted.draftId });
+    assertObjectMatch(stored, { draft: { status: "pending" } });
+
+    assertEquals(
+      await offline.applyDraft({ owner: testUser1, draft: drafted.draftId }),
+      { recipe: created.recipe },
+    );
+    const [fetched] = await offline._getRecipeById({ recipe: created.recipe });
+    if ("error" in fetched) throw new Error(fetched.error);
+    assertEquals(
+      fetched.recipe.steps[1].description,
+      "Whisk the flax eggs and sugar into the oat milk.",
+    );
+    assertEquals(fetched.recipe.ingredients[1].parsedQuantity?.amount, 0.25);
+  });
+
+  await t.step("re-prompts once for an invalid draft", async () => {
+    // Answers with the scripted responses in order and records the prompts
+    const scripted = (responses: string[]) => {
+      const prompts: string[] = [];
+      const provider: LLMProvider = {
+        name: "scripted",
+        complete: ({ prompt }: DraftRequest) => {
+          prompts.push(prompt);
+          return Promise.resolve({
+            text: responses[prompts.length - 1],
+            usage: { inputTokens: 100, outputTokens: 10 },
+          });
+        },
+      };
+      return { provider, prompts };
+    };
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Toast",
+      ingredients: [{ name: "Bread", quantity: "2 slices" }],
+      steps: [{ description: "Toast the bread." }],
+    });
+    if ("error" in created) throw new Error(created.error);
+    const goal = { author: testUser1, recipe: created.recipe, goal: "Fancier" };
+
+    const fixed = scripted([
+      '{"ingredients": [{"name": "Brioche"}], "steps": []}',
+      "```json\n" + JSON.stringify({
+        ingredients: [{ name: "Brioche", quantity: 2, brand: "any" }],
+        steps: [{ description: "Toast the brioche." }],
+        notes: "Used brioche.",
+      }) + "\n```",
+    ]);
+    const drafted = await new RecipeConcept(db, fixed.provider)
+      .draftRecipeWithAI(goal);
+    if ("error" in drafted) throw new Error(drafted.error);
+    assertEquals(drafted.ingredients, [{ name: "Brioche", quantity: "2" }]);
+    assertEquals(drafted.title, "Toast (AI Draft)");
+    assertEquals(fixed.prompts.length, 2);
+    assertObjectMatch({ ...drafted.usage }, {
+      calls: 2,
+      inputTokens: 200,
+      outputTokens: 20,
+    });
+    assertEquals(
+      fixed.prompts[1].includes("- ingredients[0].quantity: Required."),
+      true,
+    );
+
+    const broken = scripted(["not json", '{"notes": "Sorry."}']);
+    const failed = await new RecipeConcept(db, broken.provider)
+      .draftRecipeWithAI(goal);
+    assertEquals(failed, {
+      error: "The AI returned a draft that is not valid.",
+      fieldErrors: [
+        { path: "ingredients", message: "Required." },
+        { path: "steps", message: "Required." },
+      ],
+      usage: {
+        calls: 2,
+        inputTokens: 200,
+        outputTokens: 20,
+        characters: broken.prompts.join("").length + 27,
+      },
+    });
+    assertEquals(broken.prompts.length, 2, "Only one retry.");
+    const stored = await recipeConcept._listDraftsForRecipe({
+      recipe: created.recipe,
+    });
+    assertEquals(
+      stored.map((d) => "draft" in d && d.draft._id),
+      [drafted.draftId],
+      "Only the valid draft was stored.",
+    );
+  });
+
+  await t.step("diffs a draft against its recipe", async () => {
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Shortbread",
+      ingredients: [
+        { name: "Butter", quantity: "1 cup" },
+        { name: "Sugar", quantity: "1/2 cup" },
+        { name: "Flour", quantity: "2 cups" },
+      ],
+      steps: [
+        { description: "Preheat the oven." },
+        { description: "Cream the butter and sugar." },
+        { description: "Mix in the flour." },
+      ],
+    });
+    if ("error" in created) throw new Error(created.error);
+    const draft = await insertDraft(created.recipe, testUser1, {
+      ingredients: [
+        { name: "Butter", quantity: "1 cup" },
+        { name: "Sugar", quantity: "1/4 cup" },
+        { name: "Flour", quantity: "2 cups" },
+      ],
+      steps: [
+        { description: "Cream the butter and sugar." },
+        { description: "Mix in the flour." },
+        { description: "Preheat the oven." },
+      ],
+      notes: "Less sugar; preheat while the dough rests",
+    });
+
+    const [result] = await recipeConcept._diffDraft({ draft });
+    if ("error" in result) throw new Error(result.error);
+    assertEquals(result.baseRecipe, created.recipe);
+    assertEquals(
+      result.diff.ingredients.map((c) => [c.id, c.quantity?.factor]),
+      [["ingredient:sugar", 0.5]],
+    );
+    assertEquals(
+      result.diff.steps.map((c) => [c.id, c.kind, c.toIndex]),
+      [["step:0", "moved", 2]],
+    );
+
+    assertEquals(
+      await recipeConcept._diffDraft({ draft: "draft:missing" as ID }),
+      [{ error: "Draft not found or expired." }],
+    );
+  });
+
+  await t.step("applies only the accepted draft changes", async () => {
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Scones",
+      ingredients: [
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Sugar", quantity: "1/4 cup" },
+        { name: "Milk", quantity: "3/4 cup" },
+      ],
+      steps: [
+        { description: "Rub the butter into the flour." },
+        { description: "Stir in the milk." },
+      ],
+    });
+    if ("error" in created) throw new Error(created.error);
+    const draft = await insertDraft(created.recipe, testUser1, {
+      ingredients: [
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Sugar", quantity: "2 tbsp" },
+        { name: "Oat milk", quantity: "3/4 cup" },
+      ],
+      steps: [
+        { description: "Rub the butter into the flour." },
+        { description: "Stir in the oat milk." },
+        { description: "Bake for 15 minutes." },
+      ],
+      notes: "Less sugar, dairy-free",
+    });
+
+    assertEquals(
+      await recipeConcept.applyDraft({
+        owner: testUser1,
+        draft,
+        accepted: ["ingredient:sugar", "step:9"],
+      }),
+      { error: "Unknown change ID(s): step:9." },
+    );
+    assertEquals(
+      await recipeConcept.applyDraft({ owner: testUser1, draft, accepted: [] }),
+      { error: "Accept at least one change, or reject the draft." },
+    );
+
+    const accepted = ["ingredient:sugar", "step:new:2"];
+    const applied = await recipeConcept.applyDraft({
+      owner: testUser1,
+      draft,
+      accepted,
+    });
+    assertEquals(applied, { recipe: created.recipe });
+    const [fetched] = await recipeConcept._getRecipeById({
+      recipe: created.recipe,
+    });
+    if ("error" in fetched) throw new Error(fetched.error);
+    assertEquals(
+      fetched.recipe.ingredients.map((ing) => [ing.name, ing.quantity]),
+      [["Flour", "2 cups"], ["Sugar", "2 tbsp"], ["Milk", "3/4 cup"]],
+    );
+    assertEquals(fetched.recipe.steps.map((step) => step.description), [
+      "Rub the butter into the flour.",
+      "Stir in the milk.",
+      "Bake for 15 minutes.",
+    ]);
+
+    const revisions = await recipeConcept._listRevisions({
+      recipe: created.recipe,
+    });
+    const latest = revisions[revisions.length - 1];
+    if ("error" in latest) throw new Error(latest.error);
+    assertEquals(latest.revision.cause, "aiDraft");
+    assertEquals(latest.revision.acceptedChanges, accepted);
+  });
+
+  await t.step("drafts with goal presets and records claims", async () => {
+    const requests: DraftRequest[] = [];
+    const provider: LLMProvider = {
+      name: "scripted",
+      complete: (request: DraftRequest) => {
+        requests.push(request);
+        return Promise.resolve({
+          text: JSON.stringify({
+            ingredients: [{ name: "Tofu", quantity: "200 g" }],
+            steps: [{ description: "Air-fry the tofu at 200°C." }],
+            notes: "Swapped chicken for tofu.",
+            satisfies: ["vegan.no-meat", "air-fryer.method", "keto.low-carb"],
+          }),
+        });
+      },
+    };
+    const concept = new RecipeConcept(db, provider);
+    const created = await concept.createRecipe({
+      owner: testUser1,
+      title: "Fried Chicken",
+      ingredients: [{ name: "Chicken", quantity: "500 g" }],
+      steps: [{ description: "Deep-fry the chicken." }],
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    const drafted = await concept.draftRecipeWithAI({
+      author: testUser1,
+      recipe: created.recipe,
+      presets: ["vegan", "air-fryer"],
+      goal: "Keep it crispy",
+    });
+    if ("error" in drafted) throw new Error(drafted.error);
+    assertEquals(
+      drafted.goal,
+      "Make it vegan; Adapt it for an air fryer; Keep it crispy",
+    );
+    assertEquals(drafted.presets, ["vegan", "air-fryer"]);
+    assertEquals(drafted.constraints.length, 7);
+    assertEquals(
+      drafted.satisfies,
+      ["vegan.no-meat", "air-fryer.method"],
+      "Claims for constraints that were not asked for are dropped.",
+    );
+    assertEquals(requests[0].constraints, drafted.constraints);
+    assertEquals(requests[0].prompt.includes("[vegan.no-dairy]"), true);
+
+    const [stored] = await concept._getDraft({ draft: drafted.draftId });
+    assertObjectMatch(stored, {
+      draft: { satisfies: ["vegan.no-meat", "air-fryer.method"] },
+    });
+
+    assertEquals(
+      await concept.draftRecipeWithAI({
+        author: testUser1,
+        recipe: created.recipe,
+        presets: ["keto"],
+      }),
+      {
+        error:
+          "Unknown goal preset(s): keto. Expected any of: vegan, gluten-free, lower-sodium, halve, high-protein, air-fryer.",
+      },
+    );
+    assertEquals(
+      await concept.draftRecipeWithAI({
+        author: testUser1,
+        recipe: created.recipe,
+      }),
+      { error: "Goal cannot be empty." },
+    );
+    // Someone who cannot see the recipe cannot send it to the provider
+    assertEquals(
+      await concept.draftRecipeWithAI({
+        author: testUser2,
+        recipe: created.recipe,
+        presets: ["vegan"],
+        access: { viewer: testUser2 },
+      }),
+      { error: "Failed to fetch recipe: Recipe not found." },
+    );
+    assertEquals(requests.length, 1);
+    assertEquals(concept._listGoalPresets().length, 6);
+  });
+
+  await t.step("imports a schema.org recipe with its tags", async () => {
+    const document = `<html><head><script type="application/ld+json">${
+      JSON.stringify({
+        "@context": "https://schema.org",
+        "@type": "Recipe",
+        name: "Lemon Bars",
+        keywords: "dessert, baking",
+        recipeYield: "16 bars",
+        recipeIngredient: ["1 cup sugar", "2 lemons, juiced"],
+        recipeInstructions: [{ "@type": "HowToStep", text: "Bake." }],
+      })
+    }</script></head></html>`;
+
+    const [preview] = recipeConcept._previewImport({ document });
+    if ("error" in preview) throw new Error(preview.error);
+    assertEquals(preview.preview.tags, ["dessert", "baking"]);
+
+    const imported = await recipeConcept.importRecipe({
+      owner: testUser1,
+      document,
+    });
+    if ("error" in imported) throw new Error(imported.error);
+    assertEquals(imported.warnings, []);
+
+    const [stored] = await recipeConcept._getRecipeById({
+      recipe: imported.recipe,
+    });
+    assertObjectMatch(stored, {
+      recipe: {
+        owner: testUser1,
+        title: "Lemon Bars",
+        tags: ["dessert", "baking"],
+        yield: { amount: "16 bars" },
+        ingredients: [
+          { name: "sugar", quantity: "1 cup", unit: "cup" },
+          { name: "lemons", quantity: "2", notes: "juiced" },
+        ],
+        steps: [{ description: "Bake." }],
+      },
+    });
+
+    assertEquals(
+      await recipeConcept.importRecipe({
+        owner: testUser1,
+        document: "<p></p>",
+      }),
+      { error: "No schema.org Recipe found in the document." },
+    );
+  });
+
+  await t.step("creates a recipe from pasted text", async () => {
+    const text = `Garlic Rice
+Serves 2
+
+Ingredients
+1 cup rice
+3 cloves garlic, minced
+
+Method
+1. Fry the garlic.
+2. Add the rice and 2 cups of water; simmer for 15 minutes.`;
+
+    const [preview] = recipeConcept._parseText({ text });
+    if ("error" in preview) throw new Error(preview.error);
+    assertEquals(preview.parsed.lines.length, 8);
+
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Weeknight Garlic Rice",
+      text,
+    });
+    if ("error" in created) throw new Error(created.error);
+    const [stored] = await recipeConcept._getRecipeById({
+      recipe: created.recipe,
+    });
+    assertObjectMatch(stored, {
+      recipe: {
+        title: "Weeknight Garlic Rice",
+        yield: { servings: 2 },
+        ingredients: [
+          { name: "rice", quantity: "1 cup", unit: "cup" },
+          { name: "garlic", quantity: "3 cloves", notes: "minced" },
+        ],
+        steps: [
+          { description: "Fry the garlic." },
+          {
+            description:
+              "Add the rice and 2 cups of water; simmer for 15 minutes.",
+          },
+        ],
+      },
+    });
+
+    assertEquals(
+      await recipeConcept.createRecipe({ owner: testUser1, text: " " }),
+      { error: "Text cannot be empty." },
+    );
+  });
+
+  await t.step("exports a recipe with annotations", async () => {
+    const created = await recipeConcept.createRecipe({
+      owner: testUser1,
+      title: "Iced Tea",
+      ingredients: [{ name: "Black tea", quantity: "2 bags" }],
+      steps: [{ description: "Steep and chill." }],
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    const [markdown] = await recipeConcept._exportRecipe({
+      recipe: created.recipe,
+      format: "markdown",
+      annotations: [{
+        targetKind: "Step",
+        targetIndex: 0,
+        text: "Add lemon",
+      }],
+    });
+    if ("error" in markdown) throw new Error(markdown.error);
+    assertObjectMatch({ ...markdown.file }, {
+      format: "markdown",
+      filename: "iced-tea.md",
+      contentType: "text/markdown; charset=utf-8",
+    });
+    assertEquals(
+      markdown.file.content.includes("1. Steep and chill.\n   > Add lemon"),
+      true,
+    );
+
+    const [html] = await recipeConcept._exportRecipe({
+      recipe: created.recipe,
+      format: "html",
+    });
+    if ("error" in html) throw new Error(html.error);
+    assertEquals(html.file.filename, "iced-tea.html");
+
+    assertEquals(
+      await recipeConcept._exportRecipe({
+        recipe: created.recipe,
+        format: "pdf" as "html",
+      }),
+      [{ error: "Format must be one of: markdown, jsonld, html." }],
+    );
+  });
+
+  await t.step("imports recipes with fresh IDs and links", async () => {
+    const result = await recipeConcept.importRecipes({
+      owner: testUser2,
+      recipes: [
+        {
+          id: "archived:base",
+          title: "Shortbread",
+          ingredients: [{ name: "butter", quantity: "200 g", unit: "g" }],
+          steps: [{ description: "Rub in and bake." }],
+          tags: ["baking"],
+          created: "2024-01-01T00:00:00.000Z",
+          updated: "2024-01-02T00:00:00.000Z",
+        },
+        {
+          id: "archived:fork",
+          title: "Lemon Shortbread",
+          ingredients: [{ name: "lemon zest", quantity: "1 tbsp" }],
+          steps: [{ description: "Add zest and bake." }],
+          forkedFrom: "archived:base",
+        },
+      ],
+    });
+    if ("error" in result) throw new Error(result.error);
+    const base = result.recipes["archived:base"];
+    const fork = result.recipes["archived:fork"];
+    assertNotEquals(base, "archived:base");
+
+    const [baseResult] = await recipeConcept._getRecipeById({ recipe: base });
+    if ("error" in baseResult) throw new Error(baseResult.error);
+    assertEquals(baseResult.recipe.owner, testUser2);
+    assertEquals(baseResult.recipe.tags, ["baking"]);
+    assertEquals(
+      baseResult.recipe.updated.toISOString(),
+      "2024-01-02T00:00:00.000Z",
+    );
+
+    const [forkResult] = await recipeConcept._getRecipeById({ recipe: fork });
+    if ("error" in forkResult) throw new Error(forkResult.error);
+    assertEquals(forkResult.recipe.forkedFrom, base);
+    assertEquals(forkResult.recipe.forkedFromRevision, 1);
+
+    const both = await recipeConcept._getRecipesByIds({
+      recipes: [fork, base, "recipe:missing" as ID],
+    });
+    assertEquals(
+      both.map((row) => "recipe" in row ? row.recipe._id : row.error),
+      [fork, base],
+    );
+
+    assertEquals(
+      await recipeConcept.importRecipes({
+        owner: testUser2,
+        recipes: [{
+          id: "archived:orphan",
+          title: "Orphan",
+          ingredients: [{ name: "flour", quantity: "1 cup" }],
+          steps: [{ description: "Bake." }],
+          forkedFrom: "archived:missing",
+        }],
+      }),
+      {
+        error:
+          "Recipe archived:orphan is forked from archived:missing, which is not being imported.",
+      },
+    );
+  });
+
+  await t.step("searches recipes by text with filters", async () => {
+    const make = async (
+      title: string,
+      ingredients: string[],
+      forkedFrom?: ID,
+    ) => {
+      const created = await recipeConcept.createRecipe({
+        owner: testUser2,
+        title,
+        ingredients: ingredients.map((name) => ({ name, quantity: "1 cup" })),
+        steps: [{ description: "Combine and cook gently." }],
+        forkedFrom,
+      });
+      if ("error" in created) throw new Error(created.error);
+      return created.recipe;
+    };
+    const soup = await make("Tomato Basil Soup", ["tomatoes", "basil"]);
+    const pasta = await make("Summer Pasta", ["pasta", "cherry tomatoes"]);
+    const spicy = await make("Spicy Tomato Soup", ["tomatoes", "chili"], soup);
+    await recipeConcept.addTag({ recipe: soup, tag: "soup" });
+    await recipeConcept.addTag({ recipe: spicy, tag: "soup" });
+    await recipeConcept.addTag({ recipe: spicy, tag: "spicy" });
+
+    const ids = (rows: Array<{ recipe: { _id: ID } } | { error: string }>) =>
+      rows.map((row) => "recipe" in row ? row.recipe._id : row.error);
+
+    // A title match outranks an ingredient-only match
+    const byText = await recipeConcept._searchRecipes({
+      text: "tomato",
+      owner: testUser2,
+    });
+    assertEquals(ids(byText).slice(-1), [pasta]);
+    assertEquals(
+      byText.every((row) => "score" in row && row.score! > 0),
+      true,
+    );
+
+    assertEquals(
+      ids(
+        await recipeConcept._searchRecipes({
+          text: "soup",
+          tags: ["soup", "spicy"],
+          tagMode: "all",
+        }),
+      ),
+      [spicy],
+    );
+    assertEquals(
+      ids(
+        await recipeConcept._searchRecipes({
+          owner: testUser2,
+          includeIngredients: ["Tomato"],
+          excludeIngredients: ["chili"],
+        }),
+      ).sort(),
+      [soup, pasta].sort(),
+    );
+    assertEquals(
+      ids(
+        await recipeConcept._searchRecipes({
+          owner: testUser2,
+          forksOnly: true,
+          text: "soup",
+        }),
+      ),
+      [spicy],
+    );
+    assertEquals(
+      await recipeConcept._searchRecipes({ createdFrom: "not a date" }),
+      [{ error: "Created range must use valid dates." }],
+    );
+  });
+
+  await t.step("pages through a user's recipes with a cursor", async () => {
+    const pager = "user:Pager" as ID;
+    for (const title of ["Bagels", "Apple Pie", "Crumpets"]) {
+      const created = await recipeConcept.createRecipe({
+        owner: pager,
+        title,
+        ingredients: createTestIngredients(),
+        steps: createTestSteps(),
+      });
+      if ("error" in created) throw new Error(created.error);
+    }
+    const titles = (rows: Array<{ recipe: { title: string } }>) =>
+      rows.map((row) => row.recipe.title);
+
+    const first = await recipeConcept._listRecipesByOwner({
+      owner: pager,
+      limit: 2,
+      sort: "title",
+    });
+    if ("error" in first[0]) throw new Error(first[0].error);
+    const firstPage = first as Array<
+      { recipe: { title: string }; nextCursor?: string | null }
+    >;
+    assertEquals(titles(firstPage), ["Apple Pie", "Bagels"]);
+    const cursor = firstPage[0].nextCursor;
+    if (!cursor) throw new Error("Expected a next page");
+
+    const second = await recipeConcept._listRecipesByOwner({
+      owner: pager,
+      limit: 2,
+      sort: "title",
+      cursor,
+    });
+    if ("error" in second[0]) throw new Error(second[0].error);
+    assertEquals(second.length, 1);
+    assertObjectMatch({ ...second[0] }, { nextCursor: null });
+
+    // Without paging options every recipe is returned, without cursors
+    const all = await recipeConcept._listRecipesByOwner({ owner: pager });
+    assertEquals(all.length, 3);
+    assertEquals("nextCursor" in all[0], false);
+
+    assertEquals(
+      await recipeConcept._listRecipesByOwner({
+        owner: pager,
+        cursor,
+        sort: "updated",
+      }),
+      [{ error: "Cursor does not match the requested sort." }],
+    );
+  });
+
+  await t.step("ranks recipes by the ingredients on hand", async () => {
+    const cook = "user:PantryCook" as ID;
+    const make = async (title: string, ingredients: string[]) => {
+      const created = await recipeConcept.createRecipe({
+        owner: cook,
+        title,
+        ingredients: ingredients.map((name) => ({ name, quantity: "2" })),
+        steps: [{ description: "Cook everything together." }],
+      });
+      if ("error" in created) throw new Error(created.error);
+      return created.recipe;
+    };
+    const omelette = await make("Omelette", ["Eggs", "green onions", "salt"]);
+    const frittata = await make("Frittata", ["eggs", "potatoes", "cheddar"]);
+    await make("Lentil Stew", ["lentils", "carrots"]);
+
+    const results = await recipeConcept._whatCanICook({
+      ingredients: ["egg", "Scallion"],
+      owner: cook,
+    });
+    if ("error" in results[0]) throw new Error(results[0].error);
+    const ranked = results as Array<
+      { recipe: { _id: ID }; coverage: number; missing: string[] }
+    >;
+    assertEquals(ranked.map((row) => row.recipe._id), [omelette, frittata]);
+    assertEquals(ranked[0].coverage, 1);
+    assertEquals(ranked[1].missing, ["potatoes", "cheddar"]);
+
+    // Restricted to listed recipes and a minimum coverage
+    assertEquals(
+      (await recipeConcept._whatCanICook({
+        ingredients: ["eggs"],
+        recipes: [frittata],
+        minCoverage: 0.5,
+      })).length,
+      0,
+    );
+    assertEquals(
+      await recipeConcept._whatCanICook({ ingredients: [" "] }),
+      [{ error: "At least one ingredient on hand must be given." }],
+    );
+  });
+
+  await t.step("hides recipes by visibility and shares by link", async () => {
+    const author = "user:Author" as ID;
+    const reader = "user:Reader" as ID;
+    const made = await recipeConcept.createRecipe({
+      owner: author,
+      title: "Family Stew",
+      ingredients: createTestIngredients(),
+      steps: createTestSteps(),
+      visibility: "private",
+    });
+    if ("error" in made) throw new Error(made.error);
+    const stew = made.recipe;
+
+    const asOwner = { viewer: author };
+    const asMember = { viewer: reader, shared: [stew] };
+    assertEquals(
+      (await recipeConcept._getRecipeById({ recipe: stew, access: asOwner }))
+        .length,
+      1,
+    );
+    assertEquals(
+      await recipeConcept._getRecipeById({ recipe: stew, access: asMember }),
+      [{ error: "Recipe not found." }],
+    );
+    assertEquals(
+      await recipeConcept.setVisibility({
+        owner: reader,
+        recipe: stew,
+        visibility: "public",
+      }),
+      { error: "Only the owner of the recipe can change who can see it." },
+    );
+
+    await recipeConcept.setVisibility({
+      owner: author,
+      recipe: stew,
+      visibility: "notebook",
+    });
+    const listed = await recipeConcept._listRecipesByOwner({
+      owner: author,
+      access: asMember,
+    });
+    assertEquals(listed.length, 1);
+    assertEquals(
+      await recipeConcept._listRecipesByOwner({ owner: author, access: {} }),
+      [],
+    );
+
+    // Only unlisted or public recipes get links; a link stops working once the recipe is private
+    assertEquals(
+      await recipeConcept.createShareLink({ owner: author, recipe: stew }),
+      { error: "Only unlisted or public recipes can be shared by link." },
+    );
+    await recipeConcept.setVisibility({
+      owner: author,
+      recipe: stew,
+      visibility: "unlisted",
+    });
+    const link = await recipeConcept.createShareLink({
+      owner: author,
+      recipe: stew,
+    });
+    if ("error" in link) throw new Error(link.error);
+    const shared = await recipeConcept._getSharedRecipe({ token: link.token });
+    assertEquals("recipe" in shared[0] && shared[0].recipe._id, stew);
+
+    await recipeConcept.setVisibility({
+      owner: author,
+      recipe: stew,
+      visibility: "private",
+    });
+    assertEquals(await recipeConcept._getSharedRecipe({ token: link.token }), [
+      { error: "Share link is not valid." },
+    ]);
+  });
+
+  await t.step("times steps and builds a cook timeline", async () => {
+    const cook = "user:TimedCook" as ID;
+    const created = await recipeConcept.createRecipe({
+      owner: cook,
+      title: "Roast Vegetables",
+      ingredients: createTestIngredients(),
+      steps: [
+        { description: "Preheat the oven to 200°C." },
+        { description: "Chop the vegetables, about 15 minutes." },
+        { description: "Roast for 30-35 minutes." },
+        {
+          description: "Meanwhile, whisk the dressing.",
+          activeTime: { minutes: 5 },
+        },
+      ],
+    });
+    if ("error" in created) throw new Error(created.error);
+    const recipe = created.recipe;
+
+    const [stored] = await recipeConcept._getRecipeById({ recipe });
+    if ("error" in stored) throw new Error(stored.error);
+    const { steps, times } = stored.recipe;
+    assertEquals(steps[2].passiveTime, { minutes: 30, maxMinutes: 35 });
+    assertEquals(steps[2].timingSource, "text");
+    assertEquals(steps[3].timingSource, "manual");
+    assertEquals(times, { prepMinutes: 20, cookMinutes: 35, totalMinutes: 50 });
+
+    const [timeline] = await recipeConcept._getCookTimeline({ recipe });
+    if ("error" in timeline) throw new Error(timeline.error);
+    assertEquals(timeline.totalMinutes, 50);
+    assertEquals(timeline.entries[2].parallelWith, [3]);
+
+    // Editing a step's text extracts its timing again
+    await recipeConcept.updateRecipeDetails({
+      owner: cook,
+      recipe,
+      newSteps: [{ description: "Bake 1 hour at 350°F." }],
+    });
+    const [edited] = await recipeConcept._getCookTimeline({ recipe });
+    if ("error" in edited) throw new Error(edited.error);
+    assertEquals(edited.times.cookMinutes, 60);
+
+    assertEquals(
+      await recipeConcept.updateRecipeDetails({
+        owner: cook,
+        recipe,
+        newSteps: [{ description: "Rest.", passiveTime: { minutes: -1 } }],
+      }),
+      {
+        error:
+          "Step passiveTime must have minutes of at least 0, and maxMinutes no less than minutes.",
+      },
+    );
+  });
+
+  await t.step("links steps to the ingredients they use", async () => {
+    const baker = "user:LinkedBaker" as ID;
+    const created = await recipeConcept.createRecipe({
+      owner: baker,
+      title: "Shortbread",
+      ingredients: [
+        { name: "Butter", quantity: "1 cup" },
+        { name: "Sugar", quantity: "1/2 cup" },
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Raisins", quantity: "1/4 cup" },
+      ],
+      steps: [
+        {
+          description: "Cream half the butter with the sugar and vanilla.",
+          ingredients: [{ ingredient: 0, portion: 0.5 }, { ingredient: 1 }],
+        },
+        {
+          description: "Work in the rest of the butter and the flour.",
+          ingredients: [{ ingredient: 0, portion: 0.5 }, { ingredient: 2 }],
+        },
+      ],
+    });
+    if ("error" in created) throw new Error(created.error);
+    const recipe = created.recipe;
+
+    const [usage] = await recipeConcept._checkIngredientUsage({ recipe });
+    if ("error" in usage) throw new Error(usage.error);
+    assertEquals(usage.unused, [{ ingredient: 3, name: "Raisins" }]);
+    assertEquals(usage.unlisted, [{ step: 0, name: "vanilla" }]);
+
+    const [timeline] = await recipeConcept._getCookTimeline({ recipe });
+    if ("error" in timeline) throw new Error(timeline.error);
+    assertEquals(
+      timeline.entries[0].ingredients.map((use) => use.quantity),
+      ["1/2 cup", "1/2 cup"],
+    );
+
+    // Reordering and removing ingredients keeps the steps pointing at the same ones
+    await recipeConcept.updateRecipeDetails({
+      owner: baker,
+      recipe,
+      newIngredients: [
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Butter", quantity: "1 cup" },
+      ],
+    });
+    const [updated] = await recipeConcept._getRecipeById({ recipe });
+    if ("error" in updated) throw new Error(updated.error);
+    assertEquals(updated.recipe.steps.map((step) => step.ingredients), [
+      [{ ingredient: 1, portion: 0.5 }],
+      [{ ingredient: 1, portion: 0.5 }, { ingredient: 0 }],
+    ]);
+
+    assertEquals(
+      await recipeConcept.updateRecipeDetails({
+        owner: baker,
+        recipe,
+        newSteps: [{ description: "Bake.", ingredients: [{ ingredient: 5 }] }],
+      }),
+      {
+        error:
+          "Each step ingredient must be the index of one of the recipe's ingredients.",
+      },
+    );
+  });
+
+  await t.step("groups sections and expands components", async () => {
+    const baker = "user:PieBaker" as ID;
+    const dough = await recipeConcept.createRecipe({
+      owner: baker,
+      title: "Pie Dough",
+      ingredients: [
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Butter", quantity: "1/2 cup" },
+      ],
+      steps: [{
+        description: "Cut the butter into the flour.",
+        ingredients: [{ ingredient: 1 }, { ingredient: 0 }],
+      }],
+    });
+    if ("error" in dough) throw new Error(dough.error);
+    const pie = await recipeConcept.createRecipe({
+      owner: baker,
+      title: "Apple Pie",
+      ingredients: [
+        { name: "Apples", quantity: "6", section: "For the filling" },
+      ],
+      steps: [
+        { description: "Roll out the crusts." },
+        { description: "Fill and bake.", section: "For the filling" },
+      ],
+      sections: [
+        {
+          name: "For the crust",
+          component: { recipe: dough.recipe, scale: 2 },
+        },
+        { name: "For the filling" },
+      ],
+    });
+    if ("error" in pie) throw new Error(pie.error);
+
+    const [expanded] = await recipeConcept._getExpandedRecipe({
+      recipe: pie.recipe,
+    });
+    if ("error" in expanded) throw new Error(expanded.error);
+    assertEquals(
+      expanded.ingredients.map((
+        { name, quantity, section },
+      ) => [name, quantity, section]),
+      [
+        ["Flour", "4 cups", "For the crust"],
+        ["Butter", "1 cup", "For the crust"],
+        ["Apples", "6", "For the filling"],
+      ],
+    );
+    assertEquals(
+      expanded.steps.map((step) => step.description),
+      [
+        "Roll out the crusts.",
+        "Cut the butter into the flour.",
+        "Fill and bake.",
+      ],
+    );
+    assertEquals(expanded.warnings, []);
+
+    // The dough cannot use the pie it is a component of
+    assertEquals(
+      await recipeConcept.updateRecipeDetails({
+        owner: baker,
+        recipe: dough.recipe,
+        newSections: [{ name: "Filling", component: { recipe: pie.recipe } }],
+      }),
+      { error: "Recipe components cannot form a cycle." },
+    );
+    assertEquals(
+      await recipeConcept.updateRecipeDetails({
+        owner: baker,
+        recipe: pie.recipe,
+        newSteps: [{ description: "Bake.", section: "For the top" }],
+      }),
+      {
+        error:
+          "Ingredients and steps can only be put in sections the recipe has.",
+      },
+    );
+
+    // Deleting the dough leaves the pie with a missing component
+    const [using] = await recipeConcept._listRecipesUsingComponent({
+      component: dough.recipe,
+    });
+    if ("error" in using) throw new Error(using.error);
+    assertEquals(using.recipe._id, pie.recipe);
+    await recipeConcept.deleteRecipe({
+      requester: baker,
+      recipe: dough.recipe,
+    });
+    assertEquals(
+      await recipeConcept.markComponentMissing({
+        recipe: pie.recipe,
+        component: dough.recipe,
+      }),
+      {},
+    );
+    const [withoutDough] = await recipeConcept._getExpandedRecipe({
+      recipe: pie.recipe,
+    });
+    if ("error" in withoutDough) throw new Error(withoutDough.error);
+    assertEquals(
+      withoutDough.ingredients.map((ingredient) => ingredient.name),
+      ["Apples"],
+    );
+    assertEquals(withoutDough.warnings, [
+      `Component "For the crust" is missing: recipe ${dough.recipe} was deleted or cannot be seen.`,
+    ]);
+  });
+
   await client.close();
 });
@@ -1,7 +1,122 @@
-import { GoogleGenAI } from "npm:@google/genai";
 import type { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import type { Empty, ID } from "@utils/types.ts";
+import { type ParsedQuantity, withParsedQuantity } from "@utils/quantity.ts";
+import {
+  asUnitSystem,
+  type ConvertedIngredient,
+  convertIngredient,
+} from "@utils/conversion.ts";
+import {
+  baseYieldCount,
+  type RecipeYield,
+  type ScaledIngredient,
+  scaleIngredient,
+  scaleYield,
+  validateYield,
+} from "./scaling.ts";
+import {
+  diffHasChanges,
+  diffSnapshots,
+  type RecipeDiff,
+  type RecipeSnapshot,
+  type RevisionCause,
+  snapshotOf,
+} from "./revisions.ts";
+import {
+  type MergeConflict,
+  type MergeResolution,
+  threeWayMerge,
+} from "./merge.ts";
+import {
+  buildDraftPrompt,
+  createLLMProvider,
+  type LLMCompletion,
+  type LLMProvider,
+} from "./llm.ts";
+import {
+  buildRetryPrompt,
+  type DraftFieldError,
+  INVALID_DRAFT_ERROR,
+  parseDraftResponse,
+} from "./draftSchema.ts";
+import { applyDraftChanges, diffDraft, type DraftDiff } from "./draftDiff.ts";
+import {
+  GOAL_PRESETS,
+  type GoalConstraint,
+  type GoalPreset,
+  resolveGoal,
+} from "./goalPresets.ts";
+import { extractSchemaRecipe, type ImportedRecipe } from "./schemaOrg.ts";
+import { type ParsedRecipeText, parseRecipeText } from "./textParser.ts";
+import {
+  EXPORT_FORMATS,
+  type ExportAnnotation,
+  type ExportFormat,
+  exportRecipe,
+  type RecipeExport,
+} from "./exportFormats.ts";
+import {
+  buildSearchFilter,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  type RecipeSearch,
+  TEXT_INDEX_FIELDS,
+  TEXT_INDEX_NAME,
+  TEXT_INDEX_WEIGHTS,
+} from "./search.ts";
+import {
+  matchPantry,
+  normalizeIngredientName,
+  type PantryMatch,
+  pantryPattern,
+} from "./pantry.ts";
+import {
+  accessFilter,
+  canView,
+  DEFAULT_VISIBILITY,
+  isVisibility,
+  newShareToken,
+  type RecipeAccess,
+  VISIBILITIES,
+  type Visibility,
+  visibleOnly,
+} from "./visibility.ts";
+import {
+  buildTimeline,
+  type RecipeTimes,
+  recipeTimes,
+  type StepDuration,
+  type StepTemperature,
+  type TimelineEntry,
+  validateStepTiming,
+  withStepTiming,
+} from "./timing.ts";
+import {
+  checkIngredientUsage,
+  type IngredientUsage,
+  linkedOnly,
+  relinkSteps,
+  type StepIngredientRef,
+  type StepIngredientUse,
+  stepIngredientUses,
+  validateStepIngredients,
+} from "./stepIngredients.ts";
+import {
+  checkComponents,
+  type ComposableRecipe,
+  type ExpandedIngredient,
+  type ExpandedStep,
+  expandRecipe,
+  type RecipeSection,
+  validateSections,
+} from "./composition.ts";
+import {
+  type PageOptions,
+  pageQuery,
+  paginate,
+  readPage,
+} from "@utils/pagination.ts";
 import "jsr:@std/dotenv/load";
 
 // Declare collection prefix, use concept name
@@ -12,6 +127,10 @@ type User = ID; // Refers to the User concept's ID
 type RecipeId = ID; // The ID of a Recipe instance
 type IngredientId = ID; // Not explicitly used as a top-level ID here, as Ingredient is embedded
 type StepId = ID; // Not explicitly used as a top-level ID here, as Step is embedded
+type DraftId = ID; // The ID of a stored AI draft
+
+// Sort keys of the paged recipe list queries, and the fields they order by
+const RECIPE_SORTS = { created: "created", updated: "updated", title: "title" };
 
 /**
  * concept Ingredient
@@ -24,6 +143,8 @@ interface Ingredient {
   quantity: string; // e.g., "1 cup", "2 tablespoons", "to taste"
   unit?: string; // e.g., "cup", "tbsp", "g"
   notes?: string; // e.g., "freshly chopped"
+  parsedQuantity?: ParsedQuantity; // Derived from quantity/unit on every write; quantity keeps the original text
+  section?: string; // The name of the recipe section it is in, e.g. "For the crust"
 }
 
 /**
@@ -35,6 +156,12 @@ interface Step {
   // _id: StepId; // Steps are embedded, so no top-level ID needed in this context
   description: string;
   notes?: string; // e.g., "stir until golden brown"
+  activeTime?: StepDuration; // Hands-on time, e.g. "knead for 10 minutes"
+  passiveTime?: StepDuration; // Unattended time, e.g. "bake 25-30 minutes"
+  temperature?: StepTemperature; // e.g., { value: 180, unit: "C" }
+  timingSource?: "manual" | "text"; // "text" timing is extracted from the description again on every write
+  ingredients?: StepIngredientRef[]; // The ingredients the step uses, by index, e.g. half the butter
+  section?: string; // The name of the recipe section it is in, e.g. "For the filling"
 }
 
 /**
@@ -49,26 +176,351 @@ interface RecipeDoc {
   description?: string;
   ingredients: Ingredient[];
   steps: Step[];
+  sections?: RecipeSection[]; // Named groups of ingredients and steps, some standing for component recipes
   tags: string[]; // Representing Set[String]
+  yield?: RecipeYield; // Optional: servings and/or an amount like "1 loaf"
   forkedFrom?: RecipeId; // Optional: ID of the recipe this was forked from
+  forkedFromRevision?: number; // Optional: the parent's revision number at fork time (absent for legacy forks)
+  visibility?: Visibility; // Who may read it; absent on legacy recipes, which count as DEFAULT_VISIBILITY
+  times?: RecipeTimes; // Prep, cook and total minutes, derived from the steps on every write
   created: Date;
   updated: Date;
 }
 
+/**
+ * A share link to an unlisted recipe: anyone holding the token may read it.
+ * A recipe has at most one link; making a new one replaces the old.
+ */
+interface ShareLinkDoc {
+  _id: string; // the token
+  recipe: RecipeId;
+  created: Date;
+}
+
+/**
+ * An immutable record of a recipe's content after one mutation.
+ * Revisions are numbered 1, 2, 3, ... per recipe.
+ */
+interface RevisionDoc {
+  _id: ID;
+  recipe: RecipeId;
+  number: number;
+  author: User;
+  cause: RevisionCause;
+  created: Date;
+  snapshot: RecipeSnapshot;
+  revertedFrom?: number; // For cause "revert": the revision that was restored
+  draft?: DraftId; // For cause "aiDraft": the draft that was applied
+  acceptedChanges?: string[]; // For a selective "aiDraft": the accepted DraftChange ids
+}
+
+type RevisionSummary = Omit<RevisionDoc, "_id" | "snapshot">;
+
+/**
+ * An AI-suggested modification of a recipe, stored until it is applied, rejected, or expires.
+ * Expired drafts are removed by a TTL index on `expires`.
+ */
+interface DraftDoc {
+  _id: DraftId;
+  baseRecipe: RecipeId;
+  requester: User; // who asked for the draft
+  goal: string; // preset goals and free text, combined
+  presets?: string[]; // goal preset ids the draft was requested with
+  constraints?: GoalConstraint[]; // the presets' constraints, as given to the AI
+  satisfies?: string[]; // ids of the constraints the AI claims the draft meets
+  title: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  notes: string;
+  confidence?: number;
+  status: "pending" | "applied" | "rejected";
+  created: Date;
+  expires: Date;
+}
+
+/**
+ * A recipe to recreate with importRecipes, e.g. from a notebook archive. `id` only links
+ * recipes of the same batch: `forkedFrom` names another entry's `id`.
+ */
+export interface RecipeImport {
+  id: string;
+  title: string;
+  description?: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  tags?: string[];
+  yield?: RecipeYield;
+  forkedFrom?: string;
+  created?: string | Date;
+  updated?: string | Date;
+  sections?: RecipeSection[];
+}
+
+const DRAFT_LIFETIME_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * What one draftRecipeWithAI request cost: provider calls (2 when the answer was retried),
+ * tokens as reported by the provider (0 if it reports none) and prompt plus response characters.
+ */
+export interface DraftUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+}
+
+// The most provider calls one draftRecipeWithAI request makes: the first and one retry
+export const MAX_DRAFT_CALLS = 2;
+
+/**
+ * Returns the number of the recipe's latest revision. Recipes created before revision
+ * history existed have none; for those the current state is stored first as a
+ * "baseline" revision, so later changes can still be diffed and reverted.
+ * Module-level rather than a method so it is not exposed as a passthrough route.
+ */
+async function latestRevisionNumber(
+  revisions: Collection<RevisionDoc>,
+  recipe: RecipeDoc,
+): Promise<number> {
+  const latest = await revisions.findOne(
+    { recipe: recipe._id },
+    { sort: { number: -1 }, projection: { number: 1 } },
+  );
+  if (latest) return latest.number;
+  await revisions.insertOne({
+    _id: freshID(),
+    recipe: recipe._id,
+    number: 1,
+    author: recipe.owner,
+    cause: "baseline",
+    created: recipe.updated,
+    snapshot: snapshotOf(recipe),
+  });
+  return 1;
+}
+
+/**
+ * Appends a revision for `current` (the recipe's state after a mutation).
+ * `previous` is the state before the mutation, used as the baseline for legacy recipes;
+ * it is omitted only when the recipe is new.
+ */
+async function recordRevision(
+  revisions: Collection<RevisionDoc>,
+  current: RecipeDoc,
+  author: User,
+  cause: RevisionCause,
+  previous?: RecipeDoc,
+  details: Pick<RevisionDoc, "revertedFrom" | "draft" | "acceptedChanges"> = {},
+): Promise<number> {
+  const number = previous
+    ? await latestRevisionNumber(revisions, previous) + 1
+    : 1;
+  const revision: RevisionDoc = {
+    _id: freshID(),
+    recipe: current._id,
+    number,
+    author,
+    cause,
+    created: current.updated,
+    snapshot: snapshotOf(current),
+  };
+  if (details.revertedFrom !== undefined) {
+    revision.revertedFrom = details.revertedFrom;
+  }
+  if (details.draft !== undefined) revision.draft = details.draft;
+  if (details.acceptedChanges !== undefined) {
+    revision.acceptedChanges = details.acceptedChanges;
+  }
+  await revisions.insertOne(revision);
+  return number;
+}
+
+/**
+ * The steps with their timing filled in, and the recipe times derived from them,
+ * as stored on every write of a recipe's steps.
+ */
+function timedSteps(steps: Step[]): { steps: Step[]; times: RecipeTimes } {
+  const timed = steps.map(withStepTiming);
+  return { steps: timed, times: recipeTimes(timed) };
+}
+
+/**
+ * Overwrites a recipe's versioned content with `snapshot` (plus any `extra` fields) and
+ * returns the resulting document. Optional fields the snapshot lacks are removed.
+ */
+async function replaceContent(
+  recipes: Collection<RecipeDoc>,
+  current: RecipeDoc,
+  snapshot: RecipeSnapshot,
+  extra: Partial<RecipeDoc> = {},
+): Promise<RecipeDoc> {
+  const setFields: Partial<RecipeDoc> = {
+    ...snapshot,
+    ingredients: snapshot.ingredients.map(withParsedQuantity),
+    ...timedSteps(linkedOnly(snapshot.steps, snapshot.ingredients.length)),
+    ...extra,
+    updated: new Date(),
+  };
+  const unsetFields: Record<string, ""> = {};
+  if (snapshot.description == null) unsetFields.description = "";
+  if (snapshot.yield == null) unsetFields.yield = "";
+  if (snapshot.sections == null) unsetFields.sections = "";
+  await recipes.updateOne(
+    { _id: current._id },
+    Object.keys(unsetFields).length > 0
+      ? { $set: setFields, $unset: unsetFields }
+      : { $set: setFields },
+  );
+  return {
+    ...current,
+    description: undefined,
+    yield: undefined,
+    sections: undefined,
+    ...setFields,
+  };
+}
+
+/**
+ * Loads component recipes for composition; with an access, only those it may see.
+ */
+function componentLoader(
+  recipes: Collection<RecipeDoc>,
+  access?: RecipeAccess,
+): (id: string) => Promise<ComposableRecipe | undefined> {
+  return async (id) => {
+    const doc = await recipes.findOne({ _id: id as RecipeId });
+    if (!doc || (access && !canView(doc, access))) return undefined;
+    return doc;
+  };
+}
+
+/**
+ * Whether an access may read a draft: drafts are private to the user who asked for
+ * them and the owner of their recipe.
+ */
+async function canReadDraft(
+  recipes: Collection<RecipeDoc>,
+  draft: DraftDoc,
+  access: RecipeAccess,
+): Promise<boolean> {
+  if (access.viewer === undefined) return false;
+  if (draft.requester === access.viewer) return true;
+  const baseRecipe = await recipes.findOne(
+    { _id: draft.baseRecipe },
+    { projection: { owner: 1 } },
+  );
+  return baseRecipe?.owner === access.viewer;
+}
+
+/**
+ * Finds the parent's content as it was when `fork` was created: the recorded
+ * forkedFromRevision, or for legacy forks the parent's last revision made before the fork.
+ * A parent with no revisions that has not changed since the fork is its own base.
+ * Returns undefined when the fork-time state cannot be known.
+ */
+async function forkBase(
+  revisions: Collection<RevisionDoc>,
+  fork: RecipeDoc,
+  parent: RecipeDoc,
+): Promise<{ snapshot: RecipeSnapshot; revision?: number } | undefined> {
+  const revision = fork.forkedFromRevision !== undefined
+    ? await revisions.findOne({
+      recipe: parent._id,
+      number: fork.forkedFromRevision,
+    })
+    : await revisions.findOne(
+      { recipe: parent._id, created: { $lte: fork.created } },
+      { sort: { number: -1 } },
+    );
+  if (revision) {
+    return { snapshot: revision.snapshot, revision: revision.number };
+  }
+  const hasHistory = await revisions.countDocuments({ recipe: parent._id }) > 0;
+  if (!hasHistory && parent.updated <= fork.created) {
+    return { snapshot: snapshotOf(parent) };
+  }
+  return undefined;
+}
+
+/**
+ * A recipe in a fork tree. `forks` holds its direct forks; `truncated` is set when
+ * it has forks below the requested depth limit that were not loaded.
+ */
+interface ForkNode {
+  recipe: RecipeId;
+  title: string;
+  owner: User;
+  depth: number;
+  forks: ForkNode[];
+  truncated?: boolean;
+}
+
+/**
+ * An entry in a fork's ancestry chain, nearest parent first (depth 1).
+ * `deleted` marks a parent that no longer exists; the chain stops there.
+ * `hidden` marks a parent the reader may not see; the chain goes on past it.
+ */
+type ForkAncestor =
+  | { recipe: RecipeId; title: string; owner: User; depth: number }
+  | { recipe: RecipeId; depth: number; deleted: true }
+  | { recipe: RecipeId; depth: number; hidden: true };
+
+const VISIBILITY_ERROR = `Visibility must be one of: ${
+  VISIBILITIES.join(", ")
+}.`;
+
+const DEFAULT_FORK_TREE_DEPTH = 10;
+const MAX_FORK_TREE_DEPTH = 50;
+
 export default class RecipeConcept {
   private recipes: Collection<RecipeDoc>;
+  private revisions: Collection<RevisionDoc>;
+  private drafts: Collection<DraftDoc>;
+  private shareLinks: Collection<ShareLinkDoc>;
 
-  constructor(private readonly db: Db) {
+  /**
+   * @param llm the provider that writes AI drafts; by default the one named by LLM_PROVIDER
+   */
+  constructor(
+    private readonly db: Db,
+    private readonly llm: LLMProvider = createLLMProvider(),
+  ) {
     this.recipes = this.db.collection(PREFIX + "recipes");
+    this.revisions = this.db.collection(PREFIX + "revisions");
+    this.drafts = this.db.collection(PREFIX + "drafts");
+    this.shareLinks = this.db.collection(PREFIX + "shareLinks");
+    // One revision per number per recipe; also serves "latest revision" lookups
+    this.revisions.createIndex({ recipe: 1, number: 1 }, { unique: true });
+    // Full-text search for _searchRecipes, plus the fields its filters and default order use
+    this.recipes.createIndex(TEXT_INDEX_FIELDS, {
+      name: TEXT_INDEX_NAME,
+      weights: TEXT_INDEX_WEIGHTS,
+    });
+    this.recipes.createIndex({ tags: 1 });
+    this.recipes.createIndex({ owner: 1, updated: -1 });
+    this.recipes.createIndex({ updated: -1 });
+    this.shareLinks.createIndex({ recipe: 1 }, { unique: true });
+    // Create TTL index to auto-delete expired drafts
+    this.drafts.createIndex({ expires: 1 }, { expireAfterSeconds: 0 });
   }
 
   /**
-   * createRecipe(owner: User, title: String, ingredients: List[Ingredient], steps: List[Step], description?: String, forkedFrom?: RecipeId)
+   * createRecipe(owner: User, title: String, ingredients: List[Ingredient], steps: List[Step], description?: String, forkedFrom?: RecipeId, yield?: RecipeYield, text?: String,
+   *   visibility?: "private" | "notebook" | "unlisted" | "public")
    *   : (recipe: RecipeId) | (error: String)
    *
-   * **requires** owner exists; title ≠ ""; ingredients and steps well-formed; if forkedFrom is provided, that recipe must exist
+   * **requires** owner exists; title ≠ ""; ingredients and steps well-formed; if forkedFrom is provided, that recipe must exist;
+   *   if yield is provided, it has positive servings and/or a non-empty amount; visibility, if given, is one of the four levels;
+   *   sections, if given, have unique names, every ingredient and step's section is one of them, and each component
+   *   names a recipe the owner can see (their own or a public one) that does not use this one;
+   *   if text is provided, title, ingredients, steps, description and yield may be left out and are taken from
+   *   the text as _parseText reads it (fields that are given win)
    *
-   * **effects** adds new recipe with empty tag set, sets creation/update times; optionally tracks the parent recipe if forkedFrom is provided; returns the new recipe's ID
+   * **effects** adds new recipe with empty tag set and the given visibility (default "notebook"), sets creation/update times;
+   *   derives each ingredient's parsedQuantity, each step's timing (see withStepTiming) and the recipe's times;
+   *   optionally tracks the parent recipe
+   *   and its current revision number (forkedFromRevision) if forkedFrom is provided;
+   *   records revision 1 (cause "create", author owner); returns the new recipe's ID
    */
   async createRecipe({
     owner,
@@ -77,18 +529,35 @@ export default class RecipeConcept {
     steps,
     description,
     forkedFrom,
+    yield: recipeYield,
+    text,
+    visibility = DEFAULT_VISIBILITY,
+    sections,
   }: {
     owner: User;
-    title: string;
-    ingredients: Ingredient[];
-    steps: Step[];
+    title?: string;
+    ingredients?: Ingredient[];
+    steps?: Step[];
     description?: string;
     forkedFrom?: RecipeId;
+    yield?: RecipeYield;
+    text?: string;
+    visibility?: Visibility;
+    sections?: RecipeSection[];
   }): Promise<{ recipe: RecipeId } | { error: string }> {
     // Requires: owner exists (assumed valid ID for this concept's scope, actual check in sync)
     if (!owner) {
       return { error: "Owner ID must be provided." };
     }
+    if (text !== undefined) {
+      const parsed = parseRecipeText(text);
+      if ("error" in parsed) return parsed;
+      if (!title || title.trim() === "") title = parsed.title;
+      ingredients ??= parsed.ingredients;
+      steps ??= parsed.steps;
+      description ??= parsed.description;
+      recipeYield ??= parsed.yield;
+    }
     if (!title || title.trim() === "") {
       return { error: "Recipe title cannot be empty." };
     }
@@ -108,15 +577,34 @@ export default class RecipeConcept {
       if (!step.description) {
         return { error: "Each step must have a description." };
       }
+      const timingError = validateStepTiming(step);
+      if (timingError) return { error: timingError };
+    }
+    const linkError = validateStepIngredients(steps, ingredients.length);
+    if (linkError) return { error: linkError };
+    const sectionError = validateSections(sections ?? [], ingredients, steps);
+    if (sectionError) return { error: sectionError };
+    if (recipeYield !== undefined) {
+      const yieldError = validateYield(recipeYield);
+      if (yieldError) return { error: yieldError };
+    }
+    if (!isVisibility(visibility)) {
+      return { error: VISIBILITY_ERROR };
     }
 
     // If forkedFrom is provided, validate that the parent recipe exists
+    // and remember which of its revisions the fork started from
+    let forkedFromRevision: number | undefined;
     if (forkedFrom) {
       try {
         const parentRecipe = await this.recipes.findOne({ _id: forkedFrom });
         if (!parentRecipe) {
           return { error: "Parent recipe (forkedFrom) does not exist." };
         }
+        forkedFromRevision = await latestRevisionNumber(
+          this.revisions,
+          parentRecipe,
+        );
       } catch (e) {
         console.error(
           `Failed to validate parent recipe: ${
@@ -127,6 +615,24 @@ export default class RecipeConcept {
       }
     }
 
+    if (sections && sections.length > 0) {
+      try {
+        const componentError = await checkComponents(
+          undefined,
+          sections,
+          componentLoader(this.recipes, { viewer: owner }),
+        );
+        if (componentError) return { error: componentError };
+      } catch (e) {
+        console.error(
+          `Failed to check recipe components: ${
+            e instanceof Error ? e.message : String(e)
+          }`,
+        );
+        return { error: "Failed to check recipe components." };
+      }
+    }
+
     const now = new Date();
     const newRecipeId = freshID();
     const newRecipe: RecipeDoc = {
@@ -134,16 +640,21 @@ export default class RecipeConcept {
       owner,
       title,
       description,
-      ingredients,
-      steps,
+      ingredients: ingredients.map(withParsedQuantity),
+      ...timedSteps(steps),
       tags: [], // Start with an empty tag set
+      yield: recipeYield, // Will be undefined if not provided
       forkedFrom, // Will be undefined if not provided
+      forkedFromRevision,
+      visibility,
       created: now,
       updated: now,
     };
+    if (sections && sections.length > 0) newRecipe.sections = sections;
 
     try {
       await this.recipes.insertOne(newRecipe);
+      await recordRevision(this.revisions, newRecipe, owner, "create");
       return { recipe: newRecipeId };
     } catch (e) {
       console.error(
@@ -155,6 +666,256 @@ export default class RecipeConcept {
     }
   }
 
+  /**
+   * _parseText(text: String): (parsed: ParsedRecipeText) | (error: String)
+   *
+   * **requires** text is not blank
+   *
+   * **effects** splits pasted recipe text into a title, description, yield, ingredients (name, quantity, unit, notes)
+   *   and steps, without creating anything; returns how each non-blank line was read with a confidence from 0 to 1
+   */
+  _parseText({
+    text,
+  }: {
+    text: string;
+  }): Array<{ parsed: ParsedRecipeText }> | Array<{ error: string }> {
+    const parsed = parseRecipeText(text);
+    if ("error" in parsed) return [parsed];
+    return [{ parsed }];
+  }
+
+  /**
+   * _previewImport(document: String): (preview: ImportedRecipe) | (error: String)
+   *
+   * **requires** document is a schema.org Recipe as JSON-LD, or an HTML page containing one in a JSON-LD script
+   *
+   * **effects** returns the title, description, parsed ingredients, steps, tags (from keywords, category and cuisine),
+   *   yield and any warnings that importRecipe would use, without creating anything
+   */
+  _previewImport({
+    document,
+  }: {
+    document: string;
+  }): Array<{ preview: ImportedRecipe }> | Array<{ error: string }> {
+    const preview = extractSchemaRecipe(document);
+    if ("error" in preview) return [preview];
+    return [{ preview }];
+  }
+
+  /**
+   * importRecipe(owner: User, document: String): (recipe: RecipeId, warnings: List[String]) | (error: String)
+   *
+   * **requires** owner exists; document holds a schema.org Recipe (see _previewImport) with a name,
+   *   at least one ingredient and at least one instruction
+   *
+   * **effects** creates the recipe as createRecipe does, then sets its tags to the imported ones;
+   *   returns the new recipe's ID and the import warnings
+   */
+  async importRecipe({
+    owner,
+    document,
+  }: {
+    owner: User;
+    document: string;
+  }): Promise<{ recipe: RecipeId; warnings: string[] } | { error: string }> {
+    const imported = extractSchemaRecipe(document);
+    if ("error" in imported) return imported;
+
+    const { tags, warnings, ...content } = imported;
+    const created = await this.createRecipe({ owner, ...content });
+    if ("error" in created) return created;
+    if (tags.length === 0) return { recipe: created.recipe, warnings };
+
+    try {
+      await this.recipes.updateOne({ _id: created.recipe }, { $set: { tags } });
+      return { recipe: created.recipe, warnings };
+    } catch (e) {
+      console.error(
+        `Failed to tag imported recipe ${created.recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return {
+        recipe: created.recipe,
+        warnings: [...warnings, "The recipe was created without its tags."],
+      };
+    }
+  }
+
+  /**
+   * importRecipes(owner: User, recipes: List[RecipeImport]): (recipes: Map[String, RecipeId]) | (error: String)
+   *
+   * **requires** owner exists; recipes is a list with unique ids, each valid as for createRecipe;
+   *   every forkedFrom names the id of another recipe in the list; components do not form a cycle
+   *
+   * **effects** creates every recipe under owner with a fresh ID, keeping its tags and (when given) its
+   *   created/updated times; forkedFrom is pointed at the new ID of the named recipe, at its revision 1;
+   *   a component naming a recipe in the list is pointed at its new ID, and one naming a recipe that does not
+   *   exist or owner cannot see is marked missing;
+   *   records revision 1 (cause "create", author owner) for each; returns the new IDs keyed by the given ids.
+   *   Nothing is created if any recipe fails validation or the insert fails.
+   */
+  async importRecipes({
+    owner,
+    recipes,
+  }: {
+    owner: User;
+    recipes: RecipeImport[];
+  }): Promise<{ recipes: Record<string, RecipeId> } | { error: string }> {
+    if (!owner) {
+      return { error: "Owner ID must be provided." };
+    }
+    if (!Array.isArray(recipes)) {
+      return { error: "Recipes must be a list." };
+    }
+
+    const ids: Record<string, RecipeId> = {};
+    for (const recipe of recipes) {
+      if (!recipe?.id || ids[recipe.id]) {
+        return { error: "Each imported recipe must have a unique id." };
+      }
+      ids[recipe.id] = freshID();
+    }
+
+    const now = new Date();
+    const docs: RecipeDoc[] = [];
+    for (const recipe of recipes) {
+      if (!recipe.title || recipe.title.trim() === "") {
+        return { error: "Recipe title cannot be empty." };
+      }
+      if (
+        !Array.isArray(recipe.ingredients) || recipe.ingredients.length === 0
+      ) {
+        return { error: "Recipe must have at least one ingredient." };
+      }
+      if (!Array.isArray(recipe.steps) || recipe.steps.length === 0) {
+        return { error: "Recipe must have at least one step." };
+      }
+      if (recipe.ingredients.some((ing) => !ing.name || !ing.quantity)) {
+        return { error: "Each ingredient must have a name and quantity." };
+      }
+      if (recipe.steps.some((step) => !step.description)) {
+        return { error: "Each step must have a description." };
+      }
+      for (const step of recipe.steps) {
+        const timingError = validateStepTiming(step);
+        if (timingError) return { error: timingError };
+      }
+      const linkError = validateStepIngredients(
+        recipe.steps,
+        recipe.ingredients.length,
+      );
+      if (linkError) return { error: linkError };
+      const sectionError = validateSections(
+        recipe.sections ?? [],
+        recipe.ingredients,
+        recipe.steps,
+      );
+      if (sectionError) return { error: sectionError };
+      if (recipe.yield !== undefined) {
+        const yieldError = validateYield(recipe.yield);
+        if (yieldError) return { error: yieldError };
+      }
+      if (recipe.forkedFrom !== undefined && !ids[recipe.forkedFrom]) {
+        return {
+          error:
+            `Recipe ${recipe.id} is forked from ${recipe.forkedFrom}, which is not being imported.`,
+        };
+      }
+
+      const created = recipe.created ? new Date(recipe.created) : now;
+      const updated = recipe.updated ? new Date(recipe.updated) : created;
+      const doc: RecipeDoc = {
+        _id: ids[recipe.id],
+        owner,
+        title: recipe.title,
+        ingredients: recipe.ingredients.map(withParsedQuantity),
+        ...timedSteps(recipe.steps),
+        tags: [...new Set(recipe.tags ?? [])],
+        visibility: DEFAULT_VISIBILITY,
+        created: Number.isNaN(created.getTime()) ? now : created,
+        updated: Number.isNaN(updated.getTime()) ? now : updated,
+      };
+      if (recipe.description) doc.description = recipe.description;
+      if (recipe.yield) doc.yield = recipe.yield;
+      if (recipe.forkedFrom !== undefined) {
+        doc.forkedFrom = ids[recipe.forkedFrom];
+        doc.forkedFromRevision = 1;
+      }
+      if (recipe.sections && recipe.sections.length > 0) {
+        doc.sections = recipe.sections;
+      }
+      docs.push(doc);
+    }
+
+    if (docs.length === 0) return { recipes: ids };
+
+    try {
+      // Components are recipes of the batch or ones already stored
+      const batch = new Map(docs.map((doc) => [doc._id as string, doc]));
+      const stored = componentLoader(this.recipes, { viewer: owner });
+      const load = async (id: string) => batch.get(id) ?? await stored(id);
+      for (const doc of docs) {
+        if (!doc.sections) continue;
+        doc.sections = await Promise.all(doc.sections.map(async (section) => {
+          if (!section.component) return section;
+          const id = ids[section.component.recipe] ??
+            section.component.recipe;
+          const found = await load(id);
+          return {
+            ...section,
+            component: found
+              ? { ...section.component, recipe: id }
+              : { ...section.component, missing: true },
+          };
+        }));
+      }
+      for (const doc of docs) {
+        if (!doc.sections) continue;
+        const componentError = await checkComponents(
+          doc._id,
+          doc.sections,
+          load,
+        );
+        if (componentError) return { error: componentError };
+      }
+    } catch (e) {
+      console.error(
+        `Failed to check recipe components: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to check recipe components." };
+    }
+
+    try {
+      await this.recipes.insertMany(docs);
+      await this.revisions.insertMany(docs.map((doc) => ({
+        _id: freshID(),
+        recipe: doc._id,
+        number: 1,
+        author: owner,
+        cause: "create" as const,
+        created: doc.updated,
+        snapshot: snapshotOf(doc),
+      })));
+      return { recipes: ids };
+    } catch (e) {
+      console.error(
+        `Failed to import recipes: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      // Leave nothing half-imported
+      const created = Object.values(ids);
+      await this.recipes.deleteMany({ _id: { $in: created } }).catch(() => {});
+      await this.revisions.deleteMany({ recipe: { $in: created } }).catch(
+        () => {},
+      );
+      return { error: "Failed to import recipes due to a database error." };
+    }
+  }
+
   /**
    * addTag(recipe: RecipeId, tag: String): Empty | (error: String)
    *
@@ -254,7 +1015,7 @@ export default class RecipeConcept {
    *
    * **requires** requester = recipe.owner
    *
-   * **effects** removes recipe and triggers cascade deletion of related Versions and Annotations (via sync)
+   * **effects** removes recipe, its revision history and its AI drafts, and triggers cascade deletion of related Annotations (via sync)
    */
   async deleteRecipe({
     requester,
@@ -285,6 +1046,9 @@ export default class RecipeConcept {
       if (result.deletedCount === 0) {
         return { error: "Failed to delete recipe (might not exist)." };
       }
+      await this.revisions.deleteMany({ recipe });
+      await this.drafts.deleteMany({ baseRecipe: recipe });
+      await this.shareLinks.deleteMany({ recipe });
       return {};
     } catch (e) {
       console.error(
@@ -296,14 +1060,60 @@ export default class RecipeConcept {
     }
   }
 
+  /**
+   * markComponentMissing(recipe: RecipeId, component: RecipeId): Empty | (error: String)
+   *
+   * **requires** recipe exists
+   *
+   * **effects** marks the sections of recipe that use component as missing, e.g. after component was deleted;
+   *   _getExpandedRecipe then warns about them instead of inlining them
+   */
+  async markComponentMissing({
+    recipe,
+    component,
+  }: {
+    recipe: RecipeId;
+    component: RecipeId;
+  }): Promise<Empty | { error: string }> {
+    if (!recipe || !component) {
+      return { error: "Recipe ID and component recipe ID must be provided." };
+    }
+
+    try {
+      const result = await this.recipes.updateOne(
+        { _id: recipe },
+        { $set: { "sections.$[s].component.missing": true } },
+        { arrayFilters: [{ "s.component.recipe": component }] },
+      );
+      if (result.matchedCount === 0) {
+        return { error: "Recipe not found." };
+      }
+      return {};
+    } catch (e) {
+      console.error(
+        `Failed to mark component ${component} of recipe ${recipe} missing: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return {
+        error: "Failed to mark component missing due to a database error.",
+      };
+    }
+  }
+
   /**
    * updateRecipeDetails(owner: User, recipe: RecipeId, newTitle?: String, newDescription?: String,
-   *   newIngredients?: List[Ingredient], newSteps?: List[Step])
+   *   newIngredients?: List[Ingredient], newSteps?: List[Step], newYield?: RecipeYield, newSections?: List[RecipeSection])
    *   : Empty | (error: String)
    *
-   * **requires** owner = recipe.owner
+   * **requires** owner = recipe.owner; steps' ingredient references, if any, point into the (new) ingredients;
+   *   the (new) ingredients and steps are in the (new) sections; new components are recipes the owner can see
+   *   and do not use this recipe, directly or through their own components
    *
-   * **effects** updates specified fields and `updated` timestamp.
+   * **effects** updates specified fields and `updated` timestamp; new ingredients get a freshly derived parsedQuantity;
+   *   new steps get their timing and the recipe its times derived again; new ingredients without new steps
+   *   move the steps' ingredient references to where the same ingredients now are (dropping removed ones);
+   *   if any content field changed, records a revision (cause "manualEdit", author owner).
    */
   async updateRecipeDetails({
     owner,
@@ -312,6 +1122,8 @@ export default class RecipeConcept {
     newDescription,
     newIngredients,
     newSteps,
+    newYield,
+    newSections,
   }: {
     owner: User;
     recipe: RecipeId;
@@ -319,6 +1131,8 @@ export default class RecipeConcept {
     newDescription?: string;
     newIngredients?: Ingredient[];
     newSteps?: Step[];
+    newYield?: RecipeYield;
+    newSections?: RecipeSection[];
   }): Promise<Empty | { error: string }> {
     if (!owner || !recipe) {
       return { error: "Owner ID and Recipe ID must be provided." };
@@ -358,7 +1172,7 @@ export default class RecipeConcept {
             };
           }
         }
-        updateFields.ingredients = newIngredients;
+        updateFields.ingredients = newIngredients.map(withParsedQuantity);
       }
       if (newSteps !== undefined) {
         if (!Array.isArray(newSteps) || newSteps.length === 0) {
@@ -368,8 +1182,47 @@ export default class RecipeConcept {
           if (!step.description) {
             return { error: "Each new step must have a description." };
           }
+          const timingError = validateStepTiming(step);
+          if (timingError) return { error: timingError };
         }
-        updateFields.steps = newSteps;
+        const linkError = validateStepIngredients(
+          newSteps,
+          (newIngredients ?? existingRecipe.ingredients).length,
+        );
+        if (linkError) return { error: linkError };
+        Object.assign(updateFields, timedSteps(newSteps));
+      } else if (newIngredients !== undefined) {
+        // Steps keep using the same ingredients wherever the new list puts them
+        updateFields.steps = relinkSteps(
+          existingRecipe.steps,
+          existingRecipe.ingredients,
+          newIngredients,
+        );
+      }
+      if (newYield !== undefined) {
+        const yieldError = validateYield(newYield);
+        if (yieldError) return { error: yieldError };
+        updateFields.yield = newYield;
+      }
+      if (
+        newSections !== undefined || newIngredients !== undefined ||
+        newSteps !== undefined
+      ) {
+        const sectionError = validateSections(
+          newSections ?? existingRecipe.sections ?? [],
+          updateFields.ingredients ?? existingRecipe.ingredients,
+          updateFields.steps ?? existingRecipe.steps,
+        );
+        if (sectionError) return { error: sectionError };
+      }
+      if (newSections !== undefined) {
+        const componentError = await checkComponents(
+          recipe,
+          newSections,
+          componentLoader(this.recipes, { viewer: owner }),
+        );
+        if (componentError) return { error: componentError };
+        updateFields.sections = newSections;
       }
 
       // If no actual fields were passed for update other than 'owner' and 'recipe',
@@ -392,6 +1245,15 @@ export default class RecipeConcept {
         // Should not happen if existingRecipe was found, but good check
         return { error: "Recipe not found during update." };
       }
+      if (Object.keys(updateFields).length > 1) {
+        await recordRevision(
+          this.revisions,
+          { ...existingRecipe, ...updateFields },
+          owner,
+          "manualEdit",
+          existingRecipe,
+        );
+      }
       return {};
     } catch (e) {
       console.error(
@@ -403,58 +1265,289 @@ export default class RecipeConcept {
     }
   }
 
-  // Example Query (not explicitly requested in 'implement: Recipe' but useful for completeness)
   /**
-   * _getRecipeById(recipe: RecipeId): { recipe: RecipeDoc } | { error: String }
+   * setVisibility(owner: User, recipe: RecipeId, visibility: "private" | "notebook" | "unlisted" | "public")
+   *   : Empty | (error: String)
    *
-   * **requires** recipe exists
+   * **requires** owner = recipe.owner; visibility is one of the four levels
    *
-   * **effects** returns the full Recipe document
+   * **effects** sets who may read the recipe; making it private or notebook-only also removes its share link
    */
-  async _getRecipeById({
+  async setVisibility({
+    owner,
     recipe,
+    visibility,
   }: {
+    owner: User;
     recipe: RecipeId;
-  }): Promise<Array<{ recipe: RecipeDoc }> | Array<{ error: string }>> {
-    if (!recipe) {
-      return [{ error: "Recipe ID must be provided." }];
+    visibility: Visibility;
+  }): Promise<Empty | { error: string }> {
+    if (!owner || !recipe) {
+      return { error: "Owner ID and Recipe ID must be provided." };
+    }
+    if (!isVisibility(visibility)) {
+      return { error: VISIBILITY_ERROR };
     }
 
     try {
-      const foundRecipe = await this.recipes.findOne({ _id: recipe });
-      if (!foundRecipe) {
-        return [{ error: "Recipe not found." }];
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return { error: "Recipe not found." };
       }
-      return [{ recipe: foundRecipe }]; // Queries return an array
+      if (existingRecipe.owner !== owner) {
+        return {
+          error: "Only the owner of the recipe can change who can see it.",
+        };
+      }
+      await this.recipes.updateOne({ _id: recipe }, { $set: { visibility } });
+      if (visibility === "private" || visibility === "notebook") {
+        await this.shareLinks.deleteMany({ recipe });
+      }
+      return {};
     } catch (e) {
       console.error(
-        `Failed to retrieve recipe ${recipe}: ${
+        `Failed to set visibility of recipe ${recipe}: ${
           e instanceof Error ? e.message : String(e)
         }`,
       );
-      return [{ error: "Failed to retrieve recipe due to a database error." }];
+      return { error: "Failed to set visibility due to a database error." };
     }
   }
 
   /**
-   * _listRecipesByOwner(owner: User): { recipe: RecipeDoc }[] | { error: String }
+   * createShareLink(owner: User, recipe: RecipeId): (token: String) | (error: String)
    *
-   * **requires** owner exists
+   * **requires** owner = recipe.owner; recipe is unlisted or public
    *
-   * **effects** returns all recipes owned by the specified user
+   * **effects** makes a new share link token for the recipe, replacing any earlier one (old links stop working)
    */
-  async _listRecipesByOwner({
+  async createShareLink({
+    owner,
+    recipe,
+  }: {
+    owner: User;
+    recipe: RecipeId;
+  }): Promise<{ token: string } | { error: string }> {
+    if (!owner || !recipe) {
+      return { error: "Owner ID and Recipe ID must be provided." };
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return { error: "Recipe not found." };
+      }
+      if (existingRecipe.owner !== owner) {
+        return { error: "Only the owner of the recipe can share it by link." };
+      }
+      const visibility = existingRecipe.visibility ?? DEFAULT_VISIBILITY;
+      if (visibility !== "unlisted" && visibility !== "public") {
+        return {
+          error: "Only unlisted or public recipes can be shared by link.",
+        };
+      }
+      const token = newShareToken();
+      await this.shareLinks.deleteMany({ recipe });
+      await this.shareLinks.insertOne({
+        _id: token,
+        recipe,
+        created: new Date(),
+      });
+      return { token };
+    } catch (e) {
+      console.error(
+        `Failed to create share link for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to create share link due to a database error." };
+    }
+  }
+
+  /**
+   * revokeShareLink(owner: User, recipe: RecipeId): Empty | (error: String)
+   *
+   * **requires** owner = recipe.owner
+   *
+   * **effects** removes the recipe's share link, if it has one
+   */
+  async revokeShareLink({
     owner,
+    recipe,
   }: {
     owner: User;
+    recipe: RecipeId;
+  }): Promise<Empty | { error: string }> {
+    if (!owner || !recipe) {
+      return { error: "Owner ID and Recipe ID must be provided." };
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return { error: "Recipe not found." };
+      }
+      if (existingRecipe.owner !== owner) {
+        return { error: "Only the owner of the recipe can revoke its link." };
+      }
+      await this.shareLinks.deleteMany({ recipe });
+      return {};
+    } catch (e) {
+      console.error(
+        `Failed to revoke share link for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to revoke share link due to a database error." };
+    }
+  }
+
+  /**
+   * _getSharedRecipe(token: String): { recipe: RecipeDoc } | { error: String }
+   *
+   * **requires** token is the recipe's current share link; the recipe is still unlisted or public
+   *
+   * **effects** returns the full Recipe document the link points to
+   */
+  async _getSharedRecipe({
+    token,
+  }: {
+    token: string;
   }): Promise<Array<{ recipe: RecipeDoc }> | Array<{ error: string }>> {
+    if (!token || typeof token !== "string") {
+      return [{ error: "Share link token must be provided." }];
+    }
+
+    try {
+      const link = await this.shareLinks.findOne({ _id: token });
+      const found = link
+        ? await this.recipes.findOne({
+          _id: link.recipe,
+          visibility: { $in: ["unlisted", "public"] },
+        })
+        : null;
+      if (!found) {
+        return [{ error: "Share link is not valid." }];
+      }
+      return [{ recipe: found }];
+    } catch (e) {
+      console.error(
+        `Failed to retrieve shared recipe: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to retrieve shared recipe due to a database error.",
+      }];
+    }
+  }
+
+  // Example Query (not explicitly requested in 'implement: Recipe' but useful for completeness)
+  /**
+   * _getRecipeById(recipe: RecipeId, access?: RecipeAccess): { recipe: RecipeDoc } | { error: String }
+   *
+   * **requires** recipe exists; if access is given, it may see the recipe (otherwise the recipe counts as not found)
+   *
+   * **effects** returns the full Recipe document
+   */
+  async _getRecipeById({
+    recipe,
+    access,
+  }: {
+    recipe: RecipeId;
+    access?: RecipeAccess;
+  }): Promise<Array<{ recipe: RecipeDoc }> | Array<{ error: string }>> {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const foundRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!foundRecipe || (access && !canView(foundRecipe, access))) {
+        return [{ error: "Recipe not found." }];
+      }
+      return [{ recipe: foundRecipe }]; // Queries return an array
+    } catch (e) {
+      console.error(
+        `Failed to retrieve recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to retrieve recipe due to a database error." }];
+    }
+  }
+
+  /**
+   * _getRecipesByIds(recipes: List[RecipeId], access?: RecipeAccess): { recipe: RecipeDoc }[] | { error: String }
+   *
+   * **requires** recipes is a list
+   *
+   * **effects** returns the full Recipe document of each listed recipe that exists, in list order.
+   *   With access, only the recipes it may see (see visibility.ts)
+   */
+  async _getRecipesByIds({
+    recipes,
+    access,
+  }: {
+    recipes: RecipeId[];
+    access?: RecipeAccess;
+  }): Promise<Array<{ recipe: RecipeDoc }> | Array<{ error: string }>> {
+    if (!Array.isArray(recipes)) {
+      return [{ error: "Recipes must be a list." }];
+    }
+
+    try {
+      const found = await this.recipes
+        .find(visibleOnly({ _id: { $in: recipes } }, access))
+        .toArray();
+      const byId = new Map(found.map((recipe) => [recipe._id, recipe]));
+      return recipes.filter((id) => byId.has(id)).map((id) => ({
+        recipe: byId.get(id)!,
+      }));
+    } catch (e) {
+      console.error(
+        `Failed to retrieve recipes: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to retrieve recipes due to a database error." }];
+    }
+  }
+
+  /**
+   * _listRecipesByOwner(owner: User, limit?: Number, cursor?: String, sort?: "created" | "updated" | "title", direction?: "asc" | "desc",
+   *   access?: RecipeAccess)
+   *   : { recipe: RecipeDoc, nextCursor?: String }[] | { error: String }
+   *
+   * **requires** owner exists; paging options valid (see PageOptions)
+   *
+   * **effects** returns the recipes owned by the specified user, oldest first unless sorted otherwise;
+   *   a page of them when a limit or cursor is given.
+   *   With access, only the recipes it may see (see visibility.ts)
+   */
+  async _listRecipesByOwner({
+    owner,
+    access,
+    ...options
+  }: { owner: User; access?: RecipeAccess } & PageOptions): Promise<
+    | Array<{ recipe: RecipeDoc; nextCursor?: string | null }>
+    | Array<{
+      error: string;
+    }>
+  > {
     if (!owner) {
       return [{ error: "Owner ID must be provided." }];
     }
+    const page = readPage(options, RECIPE_SORTS, "created");
+    if ("error" in page) return [page];
 
     try {
-      const recipes = await this.recipes.find({ owner }).toArray();
-      return recipes.map((recipe) => ({ recipe }));
+      const { filter, sort, limit } = pageQuery(page);
+      const recipes = await this.recipes.find(
+        visibleOnly({ owner, ...filter }, access),
+      )
+        .sort(sort).limit(limit).toArray();
+      return paginate(recipes, page, "recipe");
     } catch (e) {
       console.error(
         `Failed to list recipes for owner ${owner}: ${
@@ -466,132 +1559,1297 @@ export default class RecipeConcept {
   }
 
   /**
-   * _searchRecipesByTag(tag: String): { recipe: RecipeDoc }[] | { error: String }
+   * _searchRecipesByTag(tag: String, limit?: Number, cursor?: String, sort?: "created" | "updated" | "title", direction?: "asc" | "desc",
+   *   access?: RecipeAccess)
+   *   : { recipe: RecipeDoc, nextCursor?: String }[] | { error: String }
    *
-   * **requires** tag is non-empty
+   * **requires** tag is non-empty; paging options valid (see PageOptions)
    *
-   * **effects** returns all recipes containing the specified tag
+   * **effects** returns the recipes containing the specified tag, oldest first unless sorted otherwise;
+   *   a page of them when a limit or cursor is given.
+   *   With access, only the recipes it may see (see visibility.ts)
    */
   async _searchRecipesByTag({
     tag,
-  }: {
-    tag: string;
-  }): Promise<Array<{ recipe: RecipeDoc }> | Array<{ error: string }>> {
+    access,
+    ...options
+  }: { tag: string; access?: RecipeAccess } & PageOptions): Promise<
+    | Array<{ recipe: RecipeDoc; nextCursor?: string | null }>
+    | Array<{
+      error: string;
+    }>
+  > {
     if (!tag || tag.trim() === "") {
       return [{ error: "Tag cannot be empty for search." }];
     }
+    const page = readPage(options, RECIPE_SORTS, "created");
+    if ("error" in page) return [page];
+
+    try {
+      const { filter, sort, limit } = pageQuery(page);
+      const recipes = await this.recipes.find(
+        visibleOnly({ tags: tag, ...filter }, access),
+      )
+        .sort(sort).limit(limit).toArray();
+      return paginate(recipes, page, "recipe");
+    } catch (e) {
+      console.error(
+        `Failed to search recipes by tag '${tag}': ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to search recipes due to a database error." }];
+    }
+  }
+
+  /**
+   * _searchRecipes(text?: String, tags?: List[String], tagMode?: "any" | "all", owner?: User,
+   *   includeIngredients?: List[String], excludeIngredients?: List[String], forksOnly?: Boolean,
+   *   createdFrom?: Date, createdTo?: Date, updatedFrom?: Date, updatedTo?: Date, limit?: Number, access?: RecipeAccess)
+   *   : { recipe: RecipeDoc, score?: Number }[] | { error: String }
+   *
+   * **requires** tags and ingredient lists are lists of strings; tagMode is "any" or "all";
+   *   each date range has valid dates and starts before it ends; 1 ≤ limit ≤ 100 (default 20)
+   *
+   * **effects** returns the recipes matching every given filter. With text, only recipes whose title,
+   *   description, ingredient names or step text match it are returned, best match first, each with its
+   *   relevance score (title words weigh most, then ingredient names, description and steps);
+   *   without text, the most recently updated come first. tags match any (default) or all of the given tags;
+   *   every included ingredient and no excluded one must appear in an ingredient name (case-insensitive);
+   *   forksOnly keeps only forks. With access, only the recipes it may see (see visibility.ts)
+   */
+  async _searchRecipes(
+    { access, ...search }: RecipeSearch & { access?: RecipeAccess },
+  ): Promise<
+    Array<{ recipe: RecipeDoc; score?: number }> | Array<{ error: string }>
+  > {
+    const built = buildSearchFilter<RecipeDoc>(search);
+    if ("error" in built) return [built];
+    const ranked = typeof search.text === "string" && search.text.trim() !== "";
+    if (access) {
+      // Added to $and, since $text has to stay at the top level
+      built.filter.$and = [...(built.filter.$and ?? []), accessFilter(access)];
+    }
+
+    try {
+      const cursor = ranked
+        ? this.recipes.find(built.filter, {
+          projection: { score: { $meta: "textScore" } },
+          sort: { score: { $meta: "textScore" }, updated: -1 },
+        })
+        : this.recipes.find(built.filter, { sort: { updated: -1 } });
+      const found = await cursor.limit(built.limit).toArray();
+      return found.map((doc) => {
+        if (!ranked) return { recipe: doc };
+        const { score, ...recipe } = doc as RecipeDoc & { score: number };
+        return { recipe: recipe as RecipeDoc, score };
+      });
+    } catch (e) {
+      console.error(
+        `Failed to search recipes: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to search recipes due to a database error." }];
+    }
+  }
+
+  /**
+   * _whatCanICook(ingredients: List[String], owner?: User, recipes?: List[RecipeId], minCoverage?: Number, limit?: Number,
+   *   access?: RecipeAccess)
+   *   : { recipe: RecipeDoc, coverage: Number, matched: List[String], missing: List[String] }[] | { error: String }
+   *
+   * **requires** ingredients is a non-empty list of strings; recipes, if given, is a list;
+   *   0 < minCoverage ≤ 1 (default: any coverage above 0); 1 ≤ limit ≤ 100 (default 20)
+   *
+   * **effects** returns the recipes that can be made from the given ingredients, the best covered first
+   *   (then the fewest missing, then the most recently updated). coverage is the share of a recipe's ingredients
+   *   on hand; matched and missing list the recipe's own ingredient names. Names are compared after
+   *   normalizing case, plurals, preparation words and common synonyms (see pantry.ts); water, salt,
+   *   black pepper and ice count as on hand. Only the owner's recipes, or only the listed recipes, when given.
+   *   With access, only the recipes it may see (see visibility.ts)
+   */
+  async _whatCanICook({
+    ingredients,
+    owner,
+    recipes,
+    minCoverage,
+    limit = DEFAULT_SEARCH_LIMIT,
+    access,
+  }: {
+    ingredients: string[];
+    owner?: User;
+    recipes?: RecipeId[];
+    minCoverage?: number;
+    limit?: number;
+    access?: RecipeAccess;
+  }): Promise<
+    | Array<{ recipe: RecipeDoc } & PantryMatch>
+    | Array<{ error: string }>
+  > {
+    if (
+      !Array.isArray(ingredients) ||
+      !ingredients.every((name) => typeof name === "string")
+    ) {
+      return [{ error: "Ingredients must be a list of strings." }];
+    }
+    const onHand = [
+      ...new Set(ingredients.map(normalizeIngredientName).filter(Boolean)),
+    ];
+    const pattern = pantryPattern(onHand);
+    if (!pattern) {
+      return [{ error: "At least one ingredient on hand must be given." }];
+    }
+    if (recipes !== undefined && !Array.isArray(recipes)) {
+      return [{ error: "Recipes must be a list." }];
+    }
+    if (
+      minCoverage !== undefined &&
+      (typeof minCoverage !== "number" || !(minCoverage > 0) ||
+        minCoverage > 1)
+    ) {
+      return [{
+        error: "Minimum coverage must be greater than 0 and at most 1.",
+      }];
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return [{
+        error: `Limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}.`,
+      }];
+    }
+
+    try {
+      // Only recipes with at least one ingredient that might be on hand are worth scoring
+      const filter: Record<string, unknown> = { "ingredients.name": pattern };
+      if (owner) filter.owner = owner;
+      if (recipes) filter._id = { $in: recipes };
+      const candidates = await this.recipes.find(visibleOnly(filter, access))
+        .toArray();
+      return candidates
+        .map((recipe) => ({
+          recipe,
+          ...matchPantry(onHand, recipe.ingredients.map((ing) => ing.name)),
+        }))
+        .filter((result) =>
+          result.coverage > 0 && result.coverage >= (minCoverage ?? 0)
+        )
+        .sort((a, b) =>
+          b.coverage - a.coverage ||
+          a.missing.length - b.missing.length ||
+          b.recipe.updated.getTime() - a.recipe.updated.getTime()
+        )
+        .slice(0, limit);
+    } catch (e) {
+      console.error(
+        `Failed to match recipes to ingredients: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error:
+          "Failed to match recipes to ingredients due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _getForkCount(recipe: RecipeId): { count: number } | { error: String }
+   *
+   * **requires** recipe exists
+   *
+   * **effects** returns the count of recipes that have been forked from the specified recipe
+   */
+  async _getForkCount({
+    recipe,
+  }: {
+    recipe: RecipeId;
+  }): Promise<{ count: number } | { error: string }> {
+    if (!recipe) {
+      return { error: "Recipe ID must be provided." };
+    }
+
+    try {
+      // First check if the recipe exists
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return { error: "Recipe not found." };
+      }
+
+      // Count all recipes that have this recipe as their forkedFrom value
+      const forkCount = await this.recipes.countDocuments({
+        forkedFrom: recipe,
+      });
+      return { count: forkCount };
+    } catch (e) {
+      console.error(
+        `Failed to get fork count for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return { error: "Failed to get fork count due to a database error." };
+    }
+  }
+
+  /**
+   * _listForksOfRecipe(recipe: RecipeId, limit?: Number, cursor?: String, sort?: "created" | "updated" | "title", direction?: "asc" | "desc",
+   *   access?: RecipeAccess)
+   *   : { recipe: RecipeDoc, nextCursor?: String }[] | { error: String }
+   *
+   * **requires** recipe exists; paging options valid (see PageOptions)
+   *
+   * **effects** returns the recipes that have been forked from the specified recipe, oldest first unless
+   *   sorted otherwise; a page of them when a limit or cursor is given.
+   *   With access, only the recipes it may see (see visibility.ts)
+   */
+  async _listForksOfRecipe({
+    recipe,
+    access,
+    ...options
+  }: { recipe: RecipeId; access?: RecipeAccess } & PageOptions): Promise<
+    | Array<{ recipe: RecipeDoc; nextCursor?: string | null }>
+    | Array<{
+      error: string;
+    }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+    const page = readPage(options, RECIPE_SORTS, "created");
+    if ("error" in page) return [page];
+
+    try {
+      // First check if the recipe exists
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+
+      // Find all recipes that have this recipe as their forkedFrom value
+      const { filter, sort, limit } = pageQuery(page);
+      const forks = await this.recipes.find(
+        visibleOnly({ forkedFrom: recipe, ...filter }, access),
+      )
+        .sort(sort).limit(limit).toArray();
+      return paginate(forks, page, "recipe");
+    } catch (e) {
+      console.error(
+        `Failed to list forks for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to list forks due to a database error." }];
+    }
+  }
+
+  /**
+   * _getForkTree(recipe: RecipeId, maxAncestorDepth?: Number, maxDescendantDepth?: Number, access?: RecipeAccess)
+   *   : (ancestors: List[ForkAncestor], root: ForkNode, ancestorsTruncated: Flag) | (error: String)
+   *
+   * **requires** recipe exists; depth limits, if given, are integers between 0 and 50 (default 10)
+   *
+   * **effects** returns the chain of recipes this one was forked from (nearest first, up to maxAncestorDepth)
+   *   and the tree of its forks, forks of forks, etc. (up to maxDescendantDepth levels).
+   *   Nodes whose forks were cut off by the depth limit are marked `truncated`.
+   *   With access, forks it may not see are left out along with their own forks, and ancestors it may not see
+   *   are marked `hidden`
+   */
+  async _getForkTree({
+    recipe,
+    maxAncestorDepth,
+    maxDescendantDepth,
+    access,
+  }: {
+    recipe: RecipeId;
+    maxAncestorDepth?: number;
+    maxDescendantDepth?: number;
+    access?: RecipeAccess;
+  }): Promise<
+    | Array<{
+      ancestors: ForkAncestor[];
+      root: ForkNode;
+      ancestorsTruncated: boolean;
+    }>
+    | Array<{ error: string }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+    const depthLimits = [maxAncestorDepth, maxDescendantDepth].map((limit) =>
+      limit === undefined ? DEFAULT_FORK_TREE_DEPTH : Number(limit)
+    );
+    if (
+      depthLimits.some((limit) =>
+        !Number.isInteger(limit) || limit < 0 || limit > MAX_FORK_TREE_DEPTH
+      )
+    ) {
+      return [{
+        error:
+          `Depth limits must be whole numbers between 0 and ${MAX_FORK_TREE_DEPTH}.`,
+      }];
+    }
+    const [ancestorLimit, descendantLimit] = depthLimits;
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      const visited = new Set<RecipeId>([recipe]);
+
+      // Walk up the forkedFrom links
+      const ancestors: ForkAncestor[] = [];
+      let parentId = existingRecipe.forkedFrom;
+      while (
+        parentId && !visited.has(parentId) && ancestors.length < ancestorLimit
+      ) {
+        visited.add(parentId);
+        const depth = ancestors.length + 1;
+        const parent = await this.recipes.findOne(
+          { _id: parentId },
+          { projection: { title: 1, owner: 1, forkedFrom: 1, visibility: 1 } },
+        );
+        if (!parent) {
+          ancestors.push({ recipe: parentId, depth, deleted: true });
+          parentId = undefined;
+          break;
+        }
+        if (access && !canView(parent, access)) {
+          ancestors.push({ recipe: parent._id, depth, hidden: true });
+          parentId = parent.forkedFrom;
+          continue;
+        }
+        ancestors.push({
+          recipe: parent._id,
+          title: parent.title,
+          owner: parent.owner,
+          depth,
+        });
+        parentId = parent.forkedFrom;
+      }
+      const ancestorsTruncated = parentId !== undefined &&
+        !visited.has(parentId);
+
+      // Walk down one level of forks at a time
+      const root: ForkNode = {
+        recipe,
+        title: existingRecipe.title,
+        owner: existingRecipe.owner,
+        depth: 0,
+        forks: [],
+      };
+      let level = new Map<RecipeId, ForkNode>([[recipe, root]]);
+      for (let depth = 1; level.size > 0; depth++) {
+        const children = await this.recipes
+          .find(
+            visibleOnly({ forkedFrom: { $in: [...level.keys()] } }, access),
+            { projection: { title: 1, owner: 1, forkedFrom: 1 } },
+          )
+          .toArray();
+        const nextLevel = new Map<RecipeId, ForkNode>();
+        for (const child of children) {
+          if (visited.has(child._id)) continue;
+          const parentNode = level.get(child.forkedFrom as RecipeId);
+          if (!parentNode) continue;
+          if (depth > descendantLimit) {
+            parentNode.truncated = true;
+            continue;
+          }
+          visited.add(child._id);
+          const node: ForkNode = {
+            recipe: child._id,
+            title: child.title,
+            owner: child.owner,
+            depth,
+            forks: [],
+          };
+          parentNode.forks.push(node);
+          nextLevel.set(child._id, node);
+        }
+        if (depth > descendantLimit) break;
+        level = nextLevel;
+      }
+
+      return [{ ancestors, root, ancestorsTruncated }];
+    } catch (e) {
+      console.error(
+        `Failed to build fork tree for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to build fork tree due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _getUpstreamChanges(recipe: RecipeId, access?: RecipeAccess)
+   *   : (parent: RecipeId, baseRevision?: Number, parentRevision?: Number, hasChanges: Flag, changes: RecipeDiff)
+   *     | (error: String)
+   *
+   * **requires** recipe exists and is a fork of a recipe that still exists; the parent's state at fork time is known;
+   *   with an access, the parent is visible to it (otherwise it is reported as not found)
+   *
+   * **effects** returns how the parent's title, description, yield, ingredients and steps have changed since the
+   *   fork was created, as a diff from the parent's fork-time revision (baseRevision) to its current content
+   *   (parentRevision is the parent's latest revision). The fork's own edits are not part of the diff.
+   */
+  async _getUpstreamChanges({
+    recipe,
+    access,
+  }: {
+    recipe: RecipeId;
+    access?: RecipeAccess;
+  }): Promise<
+    | Array<{
+      parent: RecipeId;
+      baseRevision?: number;
+      parentRevision?: number;
+      hasChanges: boolean;
+      changes: RecipeDiff;
+    }>
+    | Array<{ error: string }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const fork = await this.recipes.findOne({ _id: recipe });
+      if (!fork) {
+        return [{ error: "Recipe not found." }];
+      }
+      if (!fork.forkedFrom) {
+        return [{ error: "Recipe is not a fork." }];
+      }
+      const parent = await this.recipes.findOne({ _id: fork.forkedFrom });
+      if (!parent) {
+        return [{ error: "Parent recipe no longer exists." }];
+      }
+      if (access && !canView(parent, access)) {
+        return [{ error: "Parent recipe not found." }];
+      }
+      const base = await forkBase(this.revisions, fork, parent);
+      if (!base) {
+        return [{
+          error:
+            "The parent's state at fork time is unknown (the fork predates revision history).",
+        }];
+      }
+
+      const latest = await this.revisions.findOne(
+        { recipe: parent._id },
+        { sort: { number: -1 }, projection: { number: 1 } },
+      );
+      const changes = diffSnapshots(base.snapshot, snapshotOf(parent));
+      return [{
+        parent: parent._id,
+        baseRevision: base.revision,
+        parentRevision: latest?.number,
+        hasChanges: diffHasChanges(changes),
+        changes,
+      }];
+    } catch (e) {
+      console.error(
+        `Failed to get upstream changes for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to get upstream changes due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _exportRecipe(recipe: RecipeId, format: "markdown" | "jsonld" | "html", annotations?: List[ExportAnnotation])
+   *   : (file: RecipeExport) | (error: String)
+   *
+   * **requires** recipe exists; format is one of the export formats; annotations, if given, is a list
+   *
+   * **effects** renders the recipe as Markdown, a schema.org JSON-LD document or a standalone print-friendly
+   *   HTML page, with the given annotations next to the ingredients and steps they are on; returns the
+   *   content with its content type and a filename based on the title. Does not modify the recipe.
+   */
+  async _exportRecipe({
+    recipe,
+    format,
+    annotations = [],
+  }: {
+    recipe: RecipeId;
+    format: ExportFormat;
+    annotations?: ExportAnnotation[];
+  }): Promise<Array<{ file: RecipeExport }> | Array<{ error: string }>> {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+      return [{
+        error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}.`,
+      }];
+    }
+    if (!Array.isArray(annotations)) {
+      return [{ error: "Annotations must be a list." }];
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      return [{ file: exportRecipe(existingRecipe, format, annotations) }];
+    } catch (e) {
+      console.error(
+        `Failed to export recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to export recipe due to a database error." }];
+    }
+  }
+
+  /**
+   * _scaleRecipe(recipe: RecipeId, targetServings: Number)
+   *   : (recipe: RecipeId, factor: Number, yield: RecipeYield, ingredients: List[ScaledIngredient]) | (error: String)
+   *
+   * **requires** recipe exists and has a yield; targetServings > 0
+   *
+   * **effects** returns the recipe's ingredients scaled from its yield to targetServings, rounded to
+   *   kitchen-friendly amounts and promoted to readable units (e.g. 16 tbsp -> 1 cup);
+   *   "to taste" and other non-numeric quantities pass through unchanged. Does not modify the recipe.
+   */
+  async _scaleRecipe({
+    recipe,
+    targetServings,
+  }: {
+    recipe: RecipeId;
+    targetServings: number;
+  }): Promise<
+    | Array<{
+      recipe: RecipeId;
+      factor: number;
+      yield: RecipeYield;
+      ingredients: ScaledIngredient<Ingredient>[];
+    }>
+    | Array<{ error: string }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+    const target = Number(targetServings);
+    if (!Number.isFinite(target) || target <= 0) {
+      return [{ error: "Target servings must be a positive number." }];
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      const base = existingRecipe.yield
+        ? baseYieldCount(existingRecipe.yield)
+        : undefined;
+      if (!existingRecipe.yield || base === undefined) {
+        return [{ error: "Recipe has no yield to scale from." }];
+      }
+
+      const factor = target / base;
+      return [{
+        recipe,
+        factor,
+        yield: scaleYield(existingRecipe.yield, factor),
+        ingredients: existingRecipe.ingredients.map((ing) =>
+          scaleIngredient(ing, factor)
+        ),
+      }];
+    } catch (e) {
+      console.error(
+        `Failed to scale recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to scale recipe due to a database error." }];
+    }
+  }
+
+  /**
+   * _convertRecipe(recipe: RecipeId, system: "metric" | "imperial")
+   *   : (recipe: RecipeId, system: String, ingredients: List[ConvertedIngredient]) | (error: String)
+   *
+   * **requires** recipe exists; system is "metric" or "imperial"
+   *
+   * **effects** returns the recipe's ingredients expressed in the given unit system. Volume and mass are
+   *   converted directly; dry goods with a known density switch between cups and grams. Count units,
+   *   "to taste" and amounts already in the target system pass through with `converted: false`.
+   *   Does not modify the recipe.
+   */
+  async _convertRecipe({
+    recipe,
+    system,
+  }: {
+    recipe: RecipeId;
+    system: string;
+  }): Promise<
+    | Array<{
+      recipe: RecipeId;
+      system: string;
+      ingredients: ConvertedIngredient<Ingredient>[];
+    }>
+    | Array<{ error: string }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+    const unitSystem = asUnitSystem(system);
+    if (!unitSystem) {
+      return [{ error: 'Unit system must be "metric" or "imperial".' }];
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      return [{
+        recipe,
+        system: unitSystem,
+        ingredients: existingRecipe.ingredients.map((ing) =>
+          convertIngredient(ing, unitSystem)
+        ),
+      }];
+    } catch (e) {
+      console.error(
+        `Failed to convert recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to convert recipe due to a database error." }];
+    }
+  }
+
+  /**
+   * _getCookTimeline(recipe: RecipeId)
+   *   : (recipe: RecipeId, times: RecipeTimes, entries: List[TimelineEntry], totalMinutes: Number) | (error: String)
+   *
+   * **requires** recipe exists
+   *
+   * **effects** returns the recipe's steps scheduled for cook mode: when each starts, when the cook's hands are
+   *   free again and when it is done, in minutes from the start, with the steps it overlaps (`parallelWith`)
+   *   and the ingredients that go in (partial portions scaled, e.g. half of "1/2 cup" is "1/4 cup").
+   *   Steps run in order, except that steps opening with "meanwhile" (or "while", ...) start during the previous
+   *   step's passive time and a preheat runs in the background until an oven step needs it. Ranges count at
+   *   their upper end; untimed steps take no time. Does not modify the recipe.
+   */
+  async _getCookTimeline({
+    recipe,
+  }: {
+    recipe: RecipeId;
+  }): Promise<
+    | Array<{
+      recipe: RecipeId;
+      times: RecipeTimes;
+      entries: Array<TimelineEntry & { ingredients: StepIngredientUse[] }>;
+      totalMinutes: number;
+    }>
+    | Array<{ error: string }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      // Recipes stored before step timing existed get it on the fly
+      const { steps, times } = timedSteps(existingRecipe.steps);
+      const { entries, totalMinutes } = buildTimeline(steps);
+      return [{
+        recipe,
+        times,
+        entries: entries.map((entry) => ({
+          ...entry,
+          ingredients: stepIngredientUses(
+            steps[entry.step],
+            existingRecipe.ingredients,
+          ),
+        })),
+        totalMinutes,
+      }];
+    } catch (e) {
+      console.error(
+        `Failed to build cook timeline for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to build cook timeline due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _checkIngredientUsage(recipe: RecipeId)
+   *   : (recipe: RecipeId, unused: List[{ingredient, name}], unlisted: List[{step, name}],
+   *     overused: List[{ingredient, name, portion}]) | (error: String)
+   *
+   * **requires** recipe exists
+   *
+   * **effects** returns the ingredients no step uses (by reference or by naming them in its text), the common
+   *   ingredients steps mention that the ingredient list lacks, and the ingredients whose step portions add up
+   *   to more than all of it. Does not modify the recipe.
+   */
+  async _checkIngredientUsage({
+    recipe,
+  }: {
+    recipe: RecipeId;
+  }): Promise<
+    | Array<{
+      recipe: RecipeId;
+      unused: IngredientUsage["unused"];
+      unlisted: IngredientUsage["unlisted"];
+      overused: IngredientUsage["overused"];
+    }>
+    | Array<{ error: string }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      return [{
+        recipe,
+        ...checkIngredientUsage(
+          existingRecipe.ingredients,
+          existingRecipe.steps,
+        ),
+      }];
+    } catch (e) {
+      console.error(
+        `Failed to check ingredient usage of recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to check ingredient usage due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _getExpandedRecipe(recipe: RecipeId, access?: RecipeAccess)
+   *   : (recipe: RecipeId, title: String, ingredients: List[ExpandedIngredient], steps: List[ExpandedStep],
+   *     warnings: List[String]) | (error: String)
+   *
+   * **requires** recipe exists; if access is given, it may see the recipe; its components do not form a cycle
+   *   and nest at most MAX_COMPONENT_DEPTH deep
+   *
+   * **effects** returns the recipe with every component recipe inlined in its section, recursively, with the
+   *   component's quantities multiplied by its scale. Each ingredient and step carries its section path
+   *   ("For the crust / Dough") and the recipe it comes from; step ingredient references point into the
+   *   expanded list. Components that were deleted, or that access may not see, are left out with a warning.
+   *   Does not modify the recipe.
+   */
+  async _getExpandedRecipe({
+    recipe,
+    access,
+  }: {
+    recipe: RecipeId;
+    access?: RecipeAccess;
+  }): Promise<
+    | Array<{
+      recipe: RecipeId;
+      title: string;
+      ingredients: ExpandedIngredient[];
+      steps: ExpandedStep[];
+      warnings: string[];
+    }>
+    | Array<{ error: string }>
+  > {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe || (access && !canView(existingRecipe, access))) {
+        return [{ error: "Recipe not found." }];
+      }
+      const expanded = await expandRecipe(
+        existingRecipe,
+        componentLoader(this.recipes, access),
+      );
+      if ("error" in expanded) return [expanded];
+      return [{ recipe, title: existingRecipe.title, ...expanded }];
+    } catch (e) {
+      console.error(
+        `Failed to expand recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to expand recipe due to a database error." }];
+    }
+  }
+
+  /**
+   * _listRecipesUsingComponent(component: RecipeId): (recipe: RecipeDoc) | (error: String)
+   *
+   * **requires** true
+   *
+   * **effects** returns every recipe with a section using component as its component recipe
+   */
+  async _listRecipesUsingComponent({
+    component,
+  }: {
+    component: RecipeId;
+  }): Promise<Array<{ recipe: RecipeDoc }> | Array<{ error: string }>> {
+    if (!component) {
+      return [{ error: "Component recipe ID must be provided." }];
+    }
+
+    try {
+      const users = await this.recipes.find({
+        "sections.component.recipe": component,
+      }).toArray();
+      return users.map((doc) => ({ recipe: doc }));
+    } catch (e) {
+      console.error(
+        `Failed to list recipes using component ${component}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error:
+          "Failed to list recipes using component due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _listRevisions(recipe: RecipeId): (revision: RevisionSummary) | (error: String)
+   *
+   * **requires** recipe exists
+   *
+   * **effects** returns the recipe's revisions (number, author, cause, created, revertedFrom) oldest first,
+   *   without their snapshots. Recipes created before revision history existed have none until their next change.
+   */
+  async _listRevisions({
+    recipe,
+  }: {
+    recipe: RecipeId;
+  }): Promise<Array<{ revision: RevisionSummary }> | Array<{ error: string }>> {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      const revisions = await this.revisions
+        .find({ recipe }, { projection: { _id: 0, snapshot: 0 } })
+        .sort({ number: 1 })
+        .toArray();
+      return revisions.map((revision) => ({ revision }));
+    } catch (e) {
+      console.error(
+        `Failed to list revisions for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to list revisions due to a database error." }];
+    }
+  }
+
+  /**
+   * _getRevision(recipe: RecipeId, revision: Number): (revision: RevisionDoc) | (error: String)
+   *
+   * **requires** the recipe has a revision with this number
+   *
+   * **effects** returns the revision, including its full snapshot
+   */
+  async _getRevision({
+    recipe,
+    revision,
+  }: {
+    recipe: RecipeId;
+    revision: number;
+  }): Promise<Array<{ revision: RevisionDoc }> | Array<{ error: string }>> {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const found = await this.revisions.findOne({
+        recipe,
+        number: Number(revision),
+      });
+      if (!found) {
+        return [{ error: "Revision not found." }];
+      }
+      return [{ revision: found }];
+    } catch (e) {
+      console.error(
+        `Failed to retrieve revision ${revision} of recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{
+        error: "Failed to retrieve revision due to a database error.",
+      }];
+    }
+  }
+
+  /**
+   * _diffRevisions(recipe: RecipeId, from: Number, to: Number): (diff: RecipeDiff) | (error: String)
+   *
+   * **requires** the recipe has revisions numbered from and to
+   *
+   * **effects** returns a structured diff from one revision to the other: changed title/description/yield,
+   *   and ingredient and step changes (added, removed, modified with the changed fields).
+   *   Ingredients are matched by name; steps are aligned by their text. `from` may be later than `to`.
+   */
+  async _diffRevisions({
+    recipe,
+    from,
+    to,
+  }: {
+    recipe: RecipeId;
+    from: number;
+    to: number;
+  }): Promise<Array<{ diff: RecipeDiff }> | Array<{ error: string }>> {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
+
+    try {
+      const [fromRevision, toRevision] = await Promise.all([
+        this.revisions.findOne({ recipe, number: Number(from) }),
+        this.revisions.findOne({ recipe, number: Number(to) }),
+      ]);
+      if (!fromRevision || !toRevision) {
+        return [{ error: "Revision not found." }];
+      }
+      return [{
+        diff: diffSnapshots(fromRevision.snapshot, toRevision.snapshot),
+      }];
+    } catch (e) {
+      console.error(
+        `Failed to diff revisions of recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to diff revisions due to a database error." }];
+    }
+  }
+
+  /**
+   * revertToRevision(owner: User, recipe: RecipeId, revision: Number): (revision: Number) | (error: String)
+   *
+   * **requires** owner = recipe.owner; the recipe has a revision with this number
+   *
+   * **effects** restores the recipe's title, description, ingredients, steps and yield from that revision's
+   *   snapshot, updates the timestamp, and records a new revision (cause "revert", revertedFrom = revision).
+   *   Earlier revisions are kept. Returns the new revision's number.
+   */
+  async revertToRevision({
+    owner,
+    recipe,
+    revision,
+  }: {
+    owner: User;
+    recipe: RecipeId;
+    revision: number;
+  }): Promise<{ revision: number } | { error: string }> {
+    if (!owner || !recipe) {
+      return { error: "Owner ID and Recipe ID must be provided." };
+    }
+
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe) {
+        return { error: "Recipe not found." };
+      }
+      if (existingRecipe.owner !== owner) {
+        return {
+          error:
+            "Provided owner is not the actual owner of the recipe and cannot revert it.",
+        };
+      }
+
+      const target = await this.revisions.findOne({
+        recipe,
+        number: Number(revision),
+      });
+      if (!target) {
+        return { error: "Revision not found." };
+      }
 
-    try {
-      const recipes = await this.recipes.find({ tags: tag }).toArray();
-      return recipes.map((recipe) => ({ recipe }));
+      const restored = await replaceContent(
+        this.recipes,
+        existingRecipe,
+        target.snapshot,
+      );
+      const number = await recordRevision(
+        this.revisions,
+        restored,
+        owner,
+        "revert",
+        existingRecipe,
+        { revertedFrom: target.number },
+      );
+      return { revision: number };
     } catch (e) {
       console.error(
-        `Failed to search recipes by tag '${tag}': ${
+        `Failed to revert recipe ${recipe}: ${
           e instanceof Error ? e.message : String(e)
         }`,
       );
-      return [{ error: "Failed to search recipes due to a database error." }];
+      return { error: "Failed to revert recipe due to a database error." };
     }
   }
 
   /**
-   * _getForkCount(recipe: RecipeId): { count: number } | { error: String }
+   * mergeFromParent(owner: User, recipe: RecipeId, resolutions?: List[MergeResolution], access?: RecipeAccess)
+   *   : (revision: Number) | (conflicts: List[MergeConflict]) | (error: String)
    *
-   * **requires** recipe exists
+   * **requires** owner = recipe.owner; recipe is a fork of a recipe that still exists; with an access, the parent
+   *   is visible to it (otherwise it is reported as not found); the parent's state at fork time is known; the parent
+   *   changed since then; every resolution names a current conflict
    *
-   * **effects** returns the count of recipes that have been forked from the specified recipe
+   * **effects** three-way merges the parent's changes since the fork (base: the parent's fork-time revision) into
+   *   the fork's title, description, yield, ingredients, steps and sections. Changes made on one side only are applied.
+   *   If both sides changed the same item differently and no resolution covers it, nothing is written and the
+   *   conflicts are returned for the owner to resolve in a follow-up call. Otherwise the merged content is saved,
+   *   the fork's base moves to the parent's latest revision, a revision (cause "merge") is recorded, and its number
+   *   is returned.
    */
-  async _getForkCount({
+  async mergeFromParent({
+    owner,
     recipe,
+    resolutions,
+    access,
   }: {
+    owner: User;
     recipe: RecipeId;
-  }): Promise<{ count: number } | { error: string }> {
-    if (!recipe) {
-      return { error: "Recipe ID must be provided." };
+    resolutions?: MergeResolution[];
+    access?: RecipeAccess;
+  }): Promise<
+    { revision: number } | { conflicts: MergeConflict[] } | { error: string }
+  > {
+    if (!owner || !recipe) {
+      return { error: "Owner ID and Recipe ID must be provided." };
+    }
+    if (resolutions !== undefined && !Array.isArray(resolutions)) {
+      return { error: "Resolutions must be a list." };
     }
 
     try {
-      // First check if the recipe exists
-      const existingRecipe = await this.recipes.findOne({ _id: recipe });
-      if (!existingRecipe) {
+      const fork = await this.recipes.findOne({ _id: recipe });
+      if (!fork) {
         return { error: "Recipe not found." };
       }
+      if (fork.owner !== owner) {
+        return {
+          error:
+            "Provided owner is not the actual owner of the recipe and cannot merge into it.",
+        };
+      }
+      if (!fork.forkedFrom) {
+        return { error: "Recipe is not a fork." };
+      }
+      const parent = await this.recipes.findOne({ _id: fork.forkedFrom });
+      if (!parent) {
+        return { error: "Parent recipe no longer exists." };
+      }
+      if (access && !canView(parent, access)) {
+        return { error: "Parent recipe not found." };
+      }
+      const base = await forkBase(this.revisions, fork, parent);
+      if (!base) {
+        return {
+          error:
+            "The parent's state at fork time is unknown (the fork predates revision history).",
+        };
+      }
+      const theirs = snapshotOf(parent);
+      if (!diffHasChanges(diffSnapshots(base.snapshot, theirs))) {
+        return { error: "No upstream changes to merge." };
+      }
 
-      // Count all recipes that have this recipe as their forkedFrom value
-      const forkCount = await this.recipes.countDocuments({
-        forkedFrom: recipe,
+      const ours = snapshotOf(fork);
+      const known = new Set(
+        threeWayMerge(base.snapshot, ours, theirs).conflicts.map((c) => c.id),
+      );
+      const unknown = (resolutions ?? []).find((r) => !known.has(r?.conflict));
+      if (unknown) {
+        return {
+          error:
+            `Resolution for unknown conflict "${unknown?.conflict}"; fetch the current conflicts and try again.`,
+        };
+      }
+
+      const { merged, conflicts } = threeWayMerge(
+        base.snapshot,
+        ours,
+        theirs,
+        resolutions,
+      );
+      if (conflicts.length > 0) {
+        return { conflicts };
+      }
+
+      if (!merged.title || merged.title.trim() === "") {
+        return { error: "Merged title cannot be empty." };
+      }
+      if (
+        merged.ingredients.length === 0 ||
+        merged.ingredients.some((ing) => !ing?.name || !ing?.quantity)
+      ) {
+        return {
+          error:
+            "Merged ingredients must be non-empty, each with a name and quantity.",
+        };
+      }
+      if (
+        merged.steps.length === 0 ||
+        merged.steps.some((step) => !step?.description)
+      ) {
+        return {
+          error: "Merged steps must be non-empty, each with a description.",
+        };
+      }
+      if (merged.sections) {
+        const sectionError = validateSections(
+          merged.sections,
+          merged.ingredients,
+          merged.steps,
+        ) ?? await checkComponents(
+          recipe,
+          merged.sections,
+          componentLoader(this.recipes),
+        );
+        if (sectionError) return { error: sectionError };
+      }
+
+      const mergedDoc = await replaceContent(this.recipes, fork, merged, {
+        forkedFromRevision: await latestRevisionNumber(this.revisions, parent),
       });
-      return { count: forkCount };
+      const number = await recordRevision(
+        this.revisions,
+        mergedDoc,
+        owner,
+        "merge",
+        fork,
+      );
+      return { revision: number };
     } catch (e) {
       console.error(
-        `Failed to get fork count for recipe ${recipe}: ${
+        `Failed to merge parent into recipe ${recipe}: ${
           e instanceof Error ? e.message : String(e)
         }`,
       );
-      return { error: "Failed to get fork count due to a database error." };
+      return { error: "Failed to merge recipe due to a database error." };
     }
   }
 
   /**
-   * _listForksOfRecipe(recipe: RecipeId): { recipe: RecipeDoc[] } | { error: String }
+   * backfillParsedQuantities(): (updated: Number) | (error: String)
    *
-   * **requires** recipe exists
+   * **requires** true
    *
-   * **effects** returns all recipes that have been forked from the specified recipe
+   * **effects** re-derives parsedQuantity for every ingredient of every recipe from its quantity/unit text;
+   *   returns how many recipes were changed. Safe to run repeatedly. Does not touch `updated`.
    */
-  async _listForksOfRecipe({
-    recipe,
-  }: {
-    recipe: RecipeId;
-  }): Promise<Array<{ recipe: RecipeDoc }> | Array<{ error: string }>> {
-    if (!recipe) {
-      return [{ error: "Recipe ID must be provided." }];
-    }
-
+  async backfillParsedQuantities(): Promise<
+    { updated: number } | { error: string }
+  > {
     try {
-      // First check if the recipe exists
-      const existingRecipe = await this.recipes.findOne({ _id: recipe });
-      if (!existingRecipe) {
-        return [{ error: "Recipe not found." }];
+      let updated = 0;
+      const cursor = this.recipes.find(
+        {},
+        { projection: { _id: 1, ingredients: 1 } },
+      );
+      for await (const doc of cursor) {
+        const ingredients = (doc.ingredients ?? []).map(withParsedQuantity);
+        if (
+          JSON.stringify(ingredients) === JSON.stringify(doc.ingredients ?? [])
+        ) {
+          continue;
+        }
+        await this.recipes.updateOne({ _id: doc._id }, {
+          $set: { ingredients },
+        });
+        updated++;
       }
-
-      // Find all recipes that have this recipe as their forkedFrom value
-      const forks = await this.recipes.find({ forkedFrom: recipe }).toArray();
-      return forks.map((recipe) => ({ recipe }));
+      return { updated };
     } catch (e) {
       console.error(
-        `Failed to list forks for recipe ${recipe}: ${
+        `Failed to backfill parsed quantities: ${
           e instanceof Error ? e.message : String(e)
         }`,
       );
-      return [{ error: "Failed to list forks due to a database error." }];
+      return {
+        error: "Failed to backfill parsed quantities due to a database error.",
+      };
     }
   }
 
   /**
-   * draftRecipeWithAI (author: User, recipe: RecipeId, goal: String):
-   *   (draftId: ID, baseRecipe: RecipeId, requester: User, goal: String, title: String, ingredients: List[Ingredient], steps: Step[], notes: String, confidence?: number, created: Date, expires: Date) | (error: String)
+   * _listGoalPresets(): (preset: GoalPreset)
+   *
+   * **effects** returns the named AI goal presets with their constraints, for use as draftRecipeWithAI presets
+   */
+  _listGoalPresets(): Array<{ preset: GoalPreset }> {
+    return GOAL_PRESETS.map((preset) => ({ preset }));
+  }
+
+  /**
+   * draftRecipeWithAI (author: User, recipe: RecipeId, goal?: String, presets?: List[String], access?: RecipeAccess):
+   *   (draftId: ID, baseRecipe: RecipeId, requester: User, goal: String, presets: List[String], constraints: List[GoalConstraint], satisfies: List[String], title: String, ingredients: List[Ingredient], steps: Step[], notes: String, confidence?: number, created: Date, expires: Date, usage: DraftUsage)
+   *   | (error: String, fieldErrors?: List[{path: String, message: String}], usage?: DraftUsage)
    *
    * **purpose** Uses AI to suggest modifications to a recipe based on a user's goal.
    *
-   * **requires** recipe exists; goal ≠ ""; GEMINI_API_KEY is set
+   * **requires** recipe exists and, with an access, is visible to it (otherwise it is reported as not found);
+   *   goal ≠ "" or at least one preset is given; every preset is in GOAL_PRESETS;
+   *   the configured LLM provider is available (for Gemini, GEMINI_API_KEY is set)
    *
-   * **effects** Calls Gemini AI with the recipe data and goal; returns draft data for creating a VersionDraft
+   * **effects** Combines the presets' goals with the free-text goal and compiles the presets' constraints into the prompt.
+   *   Asks the configured LLM provider to rewrite the recipe for the goal and validates the answer, repairing
+   *   small problems (code fences, numbers for strings, unknown fields). An answer that is still invalid is sent back to
+   *   the provider once with its errors; if the second answer is invalid too, returns INVALID_DRAFT_ERROR with
+   *   fieldErrors. Otherwise stores the suggestion, with the constraints it claims to satisfy (ids of other constraints
+   *   are dropped), as a pending draft that expires after 24 hours and returns it.
+   *   Once the provider has answered, the result carries the request's usage so it can be counted against quotas
    */
   async draftRecipeWithAI({
     author,
     recipe,
     goal,
+    presets,
+    access,
   }: {
     author: User;
     recipe: RecipeId;
-    goal: string;
+    goal?: string;
+    presets?: string[];
+    access?: RecipeAccess;
   }): Promise<
     | {
       draftId: ID;
       baseRecipe: RecipeId;
       requester: User;
       goal: string;
+      presets: string[];
+      constraints: GoalConstraint[];
+      satisfies: string[];
       title: string;
       ingredients: Ingredient[];
       steps: Step[];
@@ -599,15 +2857,26 @@ export default class RecipeConcept {
       confidence?: number;
       created: Date;
       expires: Date;
+      usage: DraftUsage;
     }
-    | { error: string }
+    | { error: string; fieldErrors?: DraftFieldError[]; usage?: DraftUsage }
   > {
     if (!author) return { error: "Author ID must be provided." };
     if (!recipe) return { error: "Recipe ID must be provided." };
-    if (!goal || goal.trim() === "") return { error: "Goal cannot be empty." };
+    if (
+      presets !== undefined &&
+      (!Array.isArray(presets) || presets.some((id) => typeof id !== "string"))
+    ) {
+      return { error: "Presets must be a list of goal preset IDs." };
+    }
+    if (goal !== undefined && typeof goal !== "string") {
+      return { error: "Goal must be a string." };
+    }
+    const resolved = resolveGoal(presets, goal);
+    if ("error" in resolved) return resolved;
 
     // Fetch the actual recipe data
-    const recipeResult = await this._getRecipeById({ recipe });
+    const recipeResult = await this._getRecipeById({ recipe, access });
     if (recipeResult.length === 0 || "error" in recipeResult[0]) {
       return {
         error: `Failed to fetch recipe: ${
@@ -621,163 +2890,364 @@ export default class RecipeConcept {
       return { error: "Recipe not found." };
     }
 
-    // --- Real LLM call using Gemini ---
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-    const GEMINI_MODEL = Deno.env.get("GEMINI_MODEL") || "gemini-2.0-flash-exp";
-
-    if (!GEMINI_API_KEY) {
-      return {
-        error:
-          "GEMINI_API_KEY environment variable is not set. Cannot generate AI draft.",
-      };
-    }
-
     const draftId = freshID();
     const created = new Date();
-    const expires = new Date(created.getTime() + 24 * 60 * 60 * 1000); // 24 hours
+    const expires = new Date(created.getTime() + DRAFT_LIFETIME_MS);
+    const usage: DraftUsage = {
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      characters: 0,
+    };
+    const count = (prompt: string, completion: LLMCompletion) => {
+      usage.calls++;
+      usage.inputTokens += completion.usage?.inputTokens ?? 0;
+      usage.outputTokens += completion.usage?.outputTokens ?? 0;
+      usage.characters += prompt.length + completion.text.length;
+    };
 
     try {
-      const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
-
-      // Format the recipe data for the prompt
-      const ingredientsText = recipeData.ingredients
-        .map((ing: Ingredient) => {
-          let text = `- ${ing.name}: ${ing.quantity}`;
-          if (ing.unit) text += ` ${ing.unit}`;
-          if (ing.notes) text += ` (${ing.notes})`;
-          return text;
-        })
-        .join("\n");
+      const snapshot = snapshotOf(recipeData);
+      const request = {
+        recipe: snapshot,
+        goal: resolved.goal,
+        constraints: resolved.constraints,
+        prompt: buildDraftPrompt(snapshot, resolved.goal, resolved.constraints),
+      };
+      const completion = await this.llm.complete(request);
+      if ("error" in completion) {
+        return { error: completion.error };
+      }
+      count(request.prompt, completion);
+
+      // Validate (and repair) the response; ask once more if it is still unusable
+      let validation = parseDraftResponse(completion.text);
+      if ("errors" in validation) {
+        console.warn(
+          `AI draft for recipe ${recipe} was invalid, retrying:`,
+          validation.errors,
+        );
+        const retryPrompt = buildRetryPrompt(
+          request.prompt,
+          completion.text,
+          validation.errors,
+        );
+        const retry = await this.llm.complete({
+          ...request,
+          prompt: retryPrompt,
+        });
+        if ("error" in retry) {
+          return { error: retry.error, usage };
+        }
+        count(retryPrompt, retry);
+        validation = parseDraftResponse(retry.text);
+        if ("errors" in validation) {
+          console.error(
+            `AI draft for recipe ${recipe} was still invalid:`,
+            validation.errors,
+          );
+          return {
+            error: INVALID_DRAFT_ERROR,
+            fieldErrors: validation.errors,
+            usage,
+          };
+        }
+      }
+      if (validation.repairs.length > 0) {
+        console.log(
+          `Repaired AI draft for recipe ${recipe}:`,
+          validation.repairs,
+        );
+      }
+      const content = validation.draft;
+
+      // Only constraints that were asked for can be claimed
+      const requested = new Set(resolved.constraints.map((c) => c.id));
+      const satisfies = [...new Set(content.satisfies ?? [])]
+        .filter((id) => requested.has(id));
+      if (satisfies.length < (content.satisfies?.length ?? 0)) {
+        console.log(
+          `Dropped unknown constraint claims from AI draft for recipe ${recipe}:`,
+          content.satisfies?.filter((id) => !requested.has(id)),
+        );
+      }
 
-      const stepsText = recipeData.steps
-        .map((step: Step, idx: number) => {
-          let text = `${idx + 1}. ${step.description}`;
-          if (step.notes) text += ` (${step.notes})`;
-          return text;
-        })
-        .join("\n");
+      const draft: DraftDoc = {
+        _id: draftId,
+        baseRecipe: recipe,
+        requester: author,
+        goal: resolved.goal,
+        presets: resolved.presets,
+        constraints: resolved.constraints,
+        satisfies,
+        title: content.title ?? `${recipeData.title} (AI Draft)`,
+        ingredients: content.ingredients,
+        steps: content.steps,
+        notes: content.notes,
+        confidence: content.confidence ?? 0.75,
+        status: "pending",
+        created,
+        expires,
+      };
+      await this.drafts.insertOne(draft);
 
-      const prompt =
-        `You are a professional chef assistant. A user wants to modify the following recipe.
+      const { _id, status: _status, ...details } = draft;
+      return {
+        draftId: _id,
+        ...details,
+        presets: resolved.presets,
+        constraints: resolved.constraints,
+        satisfies,
+        usage,
+      };
+    } catch (e) {
+      console.error(
+        `Failed to store draft for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      const error = "Failed to store draft due to a database error.";
+      return usage.calls > 0 ? { error, usage } : { error };
+    }
+  }
 
-ORIGINAL RECIPE: "${recipeData.title}"
-${recipeData.description ? `Description: ${recipeData.description}` : ""}
+  /**
+   * _listDraftsForRecipe(recipe: RecipeId, access?: RecipeAccess): (draft: DraftDoc) | (error: String)
+   *
+   * **requires** recipe exists (and, with an access, is visible to it)
+   *
+   * **effects** returns the recipe's pending, unexpired drafts, newest first; with an
+   *   access, only those its viewer asked for, or all of them when the viewer owns the recipe
+   */
+  async _listDraftsForRecipe({
+    recipe,
+    access,
+  }: {
+    recipe: RecipeId;
+    access?: RecipeAccess;
+  }): Promise<Array<{ draft: DraftDoc }> | Array<{ error: string }>> {
+    if (!recipe) {
+      return [{ error: "Recipe ID must be provided." }];
+    }
 
-INGREDIENTS:
-${ingredientsText}
+    try {
+      const existingRecipe = await this.recipes.findOne({ _id: recipe });
+      if (!existingRecipe || (access && !canView(existingRecipe, access))) {
+        return [{ error: "Recipe not found." }];
+      }
+      if (access && access.viewer === undefined) return [];
+      const filter: Record<string, unknown> = {
+        baseRecipe: recipe,
+        status: "pending",
+        expires: { $gt: new Date() },
+      };
+      if (access && existingRecipe.owner !== access.viewer) {
+        filter.requester = access.viewer;
+      }
+      const drafts = await this.drafts
+        .find(filter)
+        .sort({ created: -1 })
+        .toArray();
+      return drafts.map((draft) => ({ draft }));
+    } catch (e) {
+      console.error(
+        `Failed to list drafts for recipe ${recipe}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to list drafts due to a database error." }];
+    }
+  }
 
-STEPS:
-${stepsText}
+  /**
+   * _getDraft(draft: DraftId, access?: RecipeAccess): (draft: DraftDoc) | (error: String)
+   *
+   * **requires** draft exists and has not expired; with an access, its viewer asked for
+   *   the draft or owns its recipe
+   *
+   * **effects** returns the draft, whatever its status
+   */
+  async _getDraft({
+    draft,
+    access,
+  }: {
+    draft: DraftId;
+    access?: RecipeAccess;
+  }): Promise<Array<{ draft: DraftDoc }> | Array<{ error: string }>> {
+    if (!draft) {
+      return [{ error: "Draft ID must be provided." }];
+    }
 
-USER'S GOAL: ${goal}
+    try {
+      const found = await this.drafts.findOne({ _id: draft });
+      // The TTL monitor runs periodically, so an expired draft may still be present
+      if (
+        !found || found.expires <= new Date() ||
+        (access && !await canReadDraft(this.recipes, found, access))
+      ) {
+        return [{ error: "Draft not found or expired." }];
+      }
+      return [{ draft: found }];
+    } catch (e) {
+      console.error(
+        `Failed to retrieve draft ${draft}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to retrieve draft due to a database error." }];
+    }
+  }
 
-Please provide a modified version of this recipe that achieves the user's goal. Return ONLY a JSON object with this exact structure (no markdown, no explanation):
-{
-  "title": "string",
-  "ingredients": [{"name": "string", "quantity": "string", "unit": "string (optional)", "notes": "string (optional)"}],
-  "steps": [{"description": "string", "notes": "string (optional)"}],
-  "notes": "Brief summary of changes made",
-  "confidence": 0.0-1.0
-}`;
+  /**
+   * _diffDraft(draft: DraftId, access?: RecipeAccess): (baseRecipe: RecipeId, diff: DraftDiff) | (error: String)
+   *
+   * **requires** draft exists and has not expired; its recipe exists; with an access,
+   *   its viewer asked for the draft or owns its recipe
+   *
+   * **effects** returns what applying the draft would change in the recipe as it is now:
+   *   added/removed/modified ingredients (with quantity changes highlighted) and
+   *   added/removed/modified/moved steps. Each change has an id.
+   */
+  async _diffDraft({
+    draft,
+    access,
+  }: {
+    draft: DraftId;
+    access?: RecipeAccess;
+  }): Promise<
+    Array<{ baseRecipe: RecipeId; diff: DraftDiff }> | Array<{ error: string }>
+  > {
+    if (!draft) {
+      return [{ error: "Draft ID must be provided." }];
+    }
 
-      const result = await ai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: prompt,
-      });
+    try {
+      const found = await this.drafts.findOne({ _id: draft });
+      if (
+        !found || found.expires <= new Date() ||
+        (access && !await canReadDraft(this.recipes, found, access))
+      ) {
+        return [{ error: "Draft not found or expired." }];
+      }
+      const baseRecipe = await this.recipes.findOne({ _id: found.baseRecipe });
+      if (!baseRecipe) {
+        return [{ error: "Recipe not found." }];
+      }
+      return [{
+        baseRecipe: found.baseRecipe,
+        diff: diffDraft(baseRecipe, found),
+      }];
+    } catch (e) {
+      console.error(
+        `Failed to diff draft ${draft}: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return [{ error: "Failed to diff draft due to a database error." }];
+    }
+  }
 
-      // Extract text from Gemini API response
-      const responseText = result.candidates?.[0]?.content?.parts?.[0]?.text ||
-        result.text;
+  /**
+   * rejectDraft(requester: User, draft: DraftId): Empty | (error: String)
+   *
+   * **requires** draft exists, is pending and has not expired; requester asked for the draft or owns its recipe
+   *
+   * **effects** marks the draft rejected so it can no longer be applied; it is removed when it expires
+   */
+  async rejectDraft({
+    requester,
+    draft,
+  }: {
+    requester: User;
+    draft: DraftId;
+  }): Promise<Empty | { error: string }> {
+    if (!requester || !draft) {
+      return { error: "Requester ID and Draft ID must be provided." };
+    }
 
-      if (!responseText) {
-        console.error(
-          "Failed to extract text from response. Full result:",
-          JSON.stringify(result, null, 2),
-        );
-        return {
-          error: `No response from AI model. Debug info logged to console.`,
-        };
+    try {
+      const existingDraft = await this.drafts.findOne({ _id: draft });
+      if (!existingDraft || existingDraft.expires <= new Date()) {
+        return { error: "Draft not found or expired." };
       }
-
-      // Parse the JSON response
-      let llmResponse: {
-        title?: string;
-        ingredients?: Ingredient[];
-        steps?: Step[];
-        notes?: string;
-        confidence?: number;
-      };
-      try {
-        // Remove markdown code blocks if present
-        const cleanedResponse = responseText
-          .replace(/```json\n?/g, "")
-          .replace(/```\n?/g, "")
-          .trim();
-        llmResponse = JSON.parse(cleanedResponse);
-      } catch (_error) {
-        console.error("Failed to parse LLM response:", responseText);
-        return {
-          error:
-            "Failed to parse AI response. The AI returned invalid JSON. Please try again.",
-        };
+      if (existingDraft.status !== "pending") {
+        return { error: `Draft has already been ${existingDraft.status}.` };
+      }
+      if (existingDraft.requester !== requester) {
+        const baseRecipe = await this.recipes.findOne(
+          { _id: existingDraft.baseRecipe },
+          { projection: { owner: 1 } },
+        );
+        if (baseRecipe?.owner !== requester) {
+          return {
+            error:
+              "Only the draft's requester or the recipe owner can reject it.",
+          };
+        }
       }
 
-      const suggestedTitle = typeof llmResponse.title === "string" &&
-          llmResponse.title.trim().length > 0
-        ? llmResponse.title.trim()
-        : `${recipeData.title} (AI Draft)`;
-
-      return {
-        draftId,
-        baseRecipe: recipe,
-        requester: author,
-        goal,
-        title: suggestedTitle,
-        ingredients: llmResponse.ingredients || [],
-        steps: llmResponse.steps || [],
-        notes: llmResponse.notes ||
-          `AI-generated draft based on goal: "${goal}"`,
-        confidence: llmResponse.confidence || 0.75,
-        created,
-        expires,
-      };
-    } catch (error) {
-      console.error("Error calling Gemini API:", error);
-      return {
-        error: `Failed to call AI service: ${
-          error instanceof Error ? error.message : String(error)
+      await this.drafts.updateOne(
+        { _id: draft, status: "pending" },
+        { $set: { status: "rejected" } },
+      );
+      return {};
+    } catch (e) {
+      console.error(
+        `Failed to reject draft ${draft}: ${
+          e instanceof Error ? e.message : String(e)
         }`,
-      };
+      );
+      return { error: "Failed to reject draft due to a database error." };
     }
   }
 
   /**
-   * applyDraft (owner: User, recipe: RecipeId, draftDetails: { ingredients: List[Ingredient], steps: Step[], notes: String }): Empty | (error: String)
+   * applyDraft (owner: User, draft: DraftId, accepted?: String[]): (recipe: RecipeId) | (error: String)
    *
    * **purpose** Applies an approved AI draft to the original recipe, modifying it directly.
    *
-   * **requires** owner = recipe.owner; draft details must be well-formed
+   * **requires** draft exists, is pending and has not expired; owner = owner of the draft's recipe;
+   *   the stored draft is well-formed; if given, accepted is a non-empty list of change ids from _diffDraft
    *
-   * **effects** Updates the recipe's ingredients and steps with the draft content; adds notes to description; updates timestamp
+   * **effects** Updates the recipe's ingredients (with derived parsedQuantity) and steps (with derived timing and times)
+   *   with the stored draft content,
+   *   or, if accepted is given, with only those changes applied to the current recipe;
+   *   adds notes to description; updates timestamp; records a revision (cause "aiDraft", author owner, draft,
+   *   and acceptedChanges for a selective apply); marks the draft applied. Returns the updated recipe's ID.
    */
   async applyDraft({
     owner,
-    recipe,
-    draftDetails,
+    draft,
+    accepted,
   }: {
     owner: User;
-    recipe: RecipeId;
-    draftDetails: {
-      ingredients: Ingredient[];
-      steps: Step[];
-      notes: string;
-    };
-  }): Promise<Empty | { error: string }> {
-    if (!owner || !recipe) {
-      return { error: "Owner ID and Recipe ID must be provided." };
+    draft: DraftId;
+    accepted?: string[];
+  }): Promise<{ recipe: RecipeId } | { error: string }> {
+    if (!owner || !draft) {
+      return { error: "Owner ID and Draft ID must be provided." };
+    }
+    if (
+      accepted !== undefined &&
+      (!Array.isArray(accepted) ||
+        accepted.some((id) => typeof id !== "string"))
+    ) {
+      return { error: "Accepted changes must be a list of change IDs." };
+    }
+    if (accepted !== undefined && accepted.length === 0) {
+      return { error: "Accept at least one change, or reject the draft." };
     }
 
     try {
+      const storedDraft = await this.drafts.findOne({ _id: draft });
+      if (!storedDraft || storedDraft.expires <= new Date()) {
+        return { error: "Draft not found or expired." };
+      }
+      if (storedDraft.status !== "pending") {
+        return { error: `Draft has already been ${storedDraft.status}.` };
+      }
+
+      const recipe = storedDraft.baseRecipe;
       const existingRecipe = await this.recipes.findOne({ _id: recipe });
       if (!existingRecipe) {
         return { error: "Recipe not found." };
@@ -792,43 +3262,72 @@ Please provide a modified version of this recipe that achieves the user's goal.
 
       // Validate draft details
       if (
-        !Array.isArray(draftDetails.ingredients) ||
-        draftDetails.ingredients.length === 0
+        !Array.isArray(storedDraft.ingredients) ||
+        storedDraft.ingredients.length === 0
       ) {
         return { error: "Draft must have at least one ingredient." };
       }
       if (
-        !Array.isArray(draftDetails.steps) ||
-        draftDetails.steps.length === 0
+        !Array.isArray(storedDraft.steps) ||
+        storedDraft.steps.length === 0
       ) {
         return { error: "Draft must have at least one step." };
       }
 
       // Validate ingredients and steps structure
-      for (const ing of draftDetails.ingredients) {
+      for (const ing of storedDraft.ingredients) {
         if (!ing.name || !ing.quantity) {
           return { error: "Each ingredient must have a name and quantity." };
         }
       }
-      for (const step of draftDetails.steps) {
+      for (const step of storedDraft.steps) {
         if (!step.description) {
           return { error: "Each step must have a description." };
         }
       }
 
+      // A selective apply merges only the accepted changes into the current recipe
+      let content: { ingredients: Ingredient[]; steps: Step[] } = storedDraft;
+      if (accepted !== undefined) {
+        const { unknown, ...merged } = applyDraftChanges(
+          existingRecipe,
+          storedDraft,
+          accepted,
+        );
+        if (unknown.length > 0) {
+          return { error: `Unknown change ID(s): ${unknown.join(", ")}.` };
+        }
+        content = merged;
+      }
+
+      // Claim the draft first so it cannot be applied twice
+      const claimed = await this.drafts.updateOne(
+        { _id: draft, status: "pending" },
+        { $set: { status: "applied" } },
+      );
+      if (claimed.modifiedCount === 0) {
+        return { error: "Draft has already been applied or rejected." };
+      }
+
       // Apply the draft changes to the recipe
       const updateFields: Partial<RecipeDoc> = {
-        ingredients: draftDetails.ingredients,
-        steps: draftDetails.steps,
+        ingredients: content.ingredients.map(withParsedQuantity),
+        ...timedSteps(
+          relinkSteps(
+            content.steps,
+            existingRecipe.ingredients,
+            content.ingredients,
+          ),
+        ),
         updated: new Date(),
       };
 
       // Optionally append the AI notes to the description
-      if (draftDetails.notes) {
+      if (storedDraft.notes) {
         const currentDesc = existingRecipe.description || "";
         const separator = currentDesc ? "\n\n" : "";
         updateFields.description =
-          `${currentDesc}${separator}[AI Modification] ${draftDetails.notes}`;
+          `${currentDesc}${separator}[AI Modification] ${storedDraft.notes}`;
       }
 
       const result = await this.recipes.updateOne(
@@ -839,11 +3338,21 @@ Please provide a modified version of this recipe that achieves the user's goal.
       if (result.matchedCount === 0) {
         return { error: "Recipe not found during update." };
       }
+      await recordRevision(
+        this.revisions,
+        { ...existingRecipe, ...updateFields },
+        owner,
+        "aiDraft",
+        existingRecipe,
+        accepted === undefined
+          ? { draft }
+          : { draft, acceptedChanges: [...new Set(accepted)] },
+      );
 
-      return {};
+      return { recipe };
     } catch (e) {
       console.error(
-        `Failed to apply draft to recipe ${recipe}: ${
+        `Failed to apply draft ${draft}: ${
           e instanceof Error ? e.message : String(e)
         }`,
       );
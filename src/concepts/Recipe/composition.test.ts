@@ -0,0 +1,189 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  checkComponents,
+  type ComposableRecipe,
+  expandRecipe,
+  MAX_COMPONENT_DEPTH,
+  validateSections,
+} from "./composition.ts";
+
+const dough: ComposableRecipe = {
+  _id: "recipe:dough",
+  title: "Pie Dough",
+  ingredients: [
+    { name: "flour", quantity: "2 cups" },
+    { name: "butter", quantity: "1 cup" },
+  ],
+  steps: [{
+    description: "Rub the butter into the flour.",
+    ingredients: [{ ingredient: 1 }, { ingredient: 0 }],
+  }],
+};
+
+const pie: ComposableRecipe = {
+  _id: "recipe:pie",
+  title: "Apple Pie",
+  ingredients: [
+    { name: "apples", quantity: "6", section: "For the filling" },
+    { name: "sugar", quantity: "1/2 cup", section: "For the filling" },
+  ],
+  steps: [
+    { description: "Roll out the dough.", section: "For the crust" },
+    {
+      description: "Toss the apples with the sugar.",
+      section: "For the filling",
+      ingredients: [{ ingredient: 0 }, { ingredient: 1 }],
+    },
+    { description: "Fill the crust and bake." },
+  ],
+  sections: [
+    {
+      name: "For the crust",
+      component: { recipe: "recipe:dough", scale: 0.5 },
+    },
+    { name: "For the filling" },
+  ],
+};
+
+function loader(recipes: ComposableRecipe[]) {
+  return (id: string) =>
+    Promise.resolve(recipes.find((recipe) => recipe._id === id));
+}
+
+Deno.test("validateSections: names, components and item sections", () => {
+  assertEquals(
+    validateSections(pie.sections, pie.ingredients, pie.steps),
+    undefined,
+  );
+  assertEquals(
+    validateSections([{ name: "A" }, { name: "A" }], [], []),
+    "Section names must be unique.",
+  );
+  assertEquals(
+    validateSections(
+      [{ name: "A", component: { recipe: "x", scale: 0 } }],
+      [],
+      [],
+    ),
+    "A section's component must name a recipe, with a scale greater than 0.",
+  );
+  assertEquals(
+    validateSections([], pie.ingredients, []),
+    "Ingredients and steps can only be put in sections the recipe has.",
+  );
+});
+
+Deno.test("expandRecipe: inlines scaled components where their section is", async () => {
+  const expanded = await expandRecipe(pie, loader([dough]));
+  if ("error" in expanded) throw new Error(expanded.error);
+  assertEquals(
+    expanded.ingredients.map(({ name, quantity, section, source }) => ({
+      name,
+      quantity,
+      section,
+      source,
+    })),
+    [
+      {
+        name: "flour",
+        quantity: "1 cup",
+        section: "For the crust",
+        source: "recipe:dough",
+      },
+      {
+        name: "butter",
+        quantity: "1/2 cup",
+        section: "For the crust",
+        source: "recipe:dough",
+      },
+      {
+        name: "apples",
+        quantity: "6",
+        section: "For the filling",
+        source: "recipe:pie",
+      },
+      {
+        name: "sugar",
+        quantity: "1/2 cup",
+        section: "For the filling",
+        source: "recipe:pie",
+      },
+    ],
+  );
+  assertEquals(
+    expanded.steps.map((step) => [step.description, step.section]),
+    [
+      ["Fill the crust and bake.", ""],
+      ["Rub the butter into the flour.", "For the crust"],
+      ["Roll out the dough.", "For the crust"],
+      ["Toss the apples with the sugar.", "For the filling"],
+    ],
+  );
+  // References follow their ingredients into the expanded list
+  assertEquals(expanded.steps[1].ingredients, [
+    { ingredient: 1 },
+    { ingredient: 0 },
+  ]);
+  assertEquals(expanded.steps[3].ingredients, [
+    { ingredient: 2 },
+    { ingredient: 3 },
+  ]);
+  assertEquals(expanded.warnings, []);
+});
+
+Deno.test("expandRecipe: warns about missing components, rejects cycles", async () => {
+  const missing = await expandRecipe(pie, loader([]));
+  if ("error" in missing) throw new Error(missing.error);
+  assertEquals(missing.ingredients.length, 2);
+  assertEquals(missing.warnings, [
+    'Component "For the crust" is missing: recipe recipe:dough was deleted or cannot be seen.',
+  ]);
+
+  const loop: ComposableRecipe = {
+    ...dough,
+    sections: [{ name: "Pie", component: { recipe: "recipe:pie" } }],
+  };
+  assertEquals(await expandRecipe(pie, loader([loop, pie])), {
+    error:
+      "Recipe components form a cycle: Apple Pie -> Pie Dough -> Apple Pie.",
+  });
+
+  const deep = (n: number): ComposableRecipe => ({
+    _id: `recipe:${n}`,
+    title: `Level ${n}`,
+    ingredients: [],
+    steps: [],
+    sections: [{ name: "Next", component: { recipe: `recipe:${n + 1}` } }],
+  });
+  const levels = Array.from(
+    { length: MAX_COMPONENT_DEPTH + 2 },
+    (_, n) => deep(n),
+  );
+  assertEquals(await expandRecipe(levels[0], loader(levels)), {
+    error:
+      `Recipe components are nested more than ${MAX_COMPONENT_DEPTH} deep.`,
+  });
+});
+
+Deno.test("checkComponents: components must exist and not lead back", async () => {
+  assertEquals(
+    await checkComponents("recipe:pie", pie.sections!, loader([dough])),
+    undefined,
+  );
+  assertEquals(
+    await checkComponents(undefined, pie.sections!, loader([])),
+    "Component recipe recipe:dough was not found.",
+  );
+  assertEquals(
+    await checkComponents("recipe:dough", pie.sections!, loader([dough])),
+    "A recipe cannot be a component of itself.",
+  );
+  const usesPie = {
+    ...dough,
+    sections: [{ name: "Pie", component: { recipe: "recipe:pie" } }],
+  };
+  assertEquals(
+    await checkComponents("recipe:pie", pie.sections!, loader([usesPie])),
+    "Recipe components cannot form a cycle.",
+  );
+});
@@ -0,0 +1,238 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import { scaleIngredient } from "./scaling.ts";
+
+/**
+ * A recipe's ingredients and steps can be grouped into named sections ("For
+ * the crust", "For the filling"); each ingredient and step names its section
+ * in `section`, and those without one belong to the recipe itself. A section
+ * can also stand for a whole other recipe, a component, made at `scale` times
+ * its yield: a pie uses one pie dough recipe instead of repeating it.
+ */
+export interface RecipeSection {
+  name: string;
+  component?: RecipeComponent;
+}
+
+export interface RecipeComponent {
+  recipe: string; // the component's RecipeId
+  scale?: number; // how many times the component recipe to make (default 1)
+  missing?: boolean; // set when the component recipe was deleted
+}
+
+// Components of components of ... are followed this deep at most
+export const MAX_COMPONENT_DEPTH = 5;
+
+/**
+ * The stored fields composition works with (structural, so tests can use
+ * plain objects).
+ */
+export interface ComposableRecipe {
+  _id: string;
+  title: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  sections?: RecipeSection[];
+}
+
+/**
+ * An ingredient or step of an expanded recipe: `section` is its section, with
+ * the sections of components under the section that uses them ("For the
+ * crust / Dough"; "" for the recipe's own unsectioned items), and `source`
+ * the recipe it comes from.
+ */
+export type ExpandedIngredient = Ingredient & {
+  section: string;
+  source: string;
+};
+export type ExpandedStep = Step & { section: string; source: string };
+
+/**
+ * A recipe with its components inlined. Step ingredient references point into
+ * the expanded ingredient list.
+ */
+export interface ExpandedRecipe {
+  ingredients: ExpandedIngredient[];
+  steps: ExpandedStep[];
+  warnings: string[]; // components that could not be inlined
+}
+
+/**
+ * validateSections(sections, ingredients, steps): checks the sections supplied
+ * by a client and that every ingredient and step is in one of them.
+ * @returns an error message, or undefined if the sections are well-formed
+ */
+export function validateSections(
+  sections: unknown,
+  ingredients: Array<{ section?: unknown }>,
+  steps: Array<{ section?: unknown }>,
+): string | undefined {
+  if (!Array.isArray(sections)) return "Sections must be a list.";
+  const names = new Set<string>();
+  for (const section of sections as RecipeSection[]) {
+    if (typeof section?.name !== "string" || section.name.trim() === "") {
+      return "Each section must have a name.";
+    }
+    if (names.has(section.name)) return "Section names must be unique.";
+    names.add(section.name);
+    const component = section.component;
+    if (component === undefined) continue;
+    if (
+      typeof component?.recipe !== "string" || component.recipe === "" ||
+      (component.scale !== undefined &&
+        (typeof component.scale !== "number" ||
+          !Number.isFinite(component.scale) || component.scale <= 0))
+    ) {
+      return "A section's component must name a recipe, with a scale greater than 0.";
+    }
+  }
+  const inSection = ({ section }: { section?: unknown }) =>
+    section === undefined || names.has(section as string);
+  if (!ingredients.every(inSection) || !steps.every(inSection)) {
+    return "Ingredients and steps can only be put in sections the recipe has.";
+  }
+  return undefined;
+}
+
+/**
+ * componentIds(sections): the recipes the sections use as components.
+ */
+export function componentIds(sections: RecipeSection[] | undefined): string[] {
+  return (sections ?? []).flatMap((section) =>
+    section.component && !section.component.missing
+      ? [section.component.recipe]
+      : []
+  );
+}
+
+/**
+ * checkComponents(self, sections, load): checks that `load` finds each
+ * component, and that using them would not make `self` (undefined for a new
+ * recipe) a component of itself, directly or through other components.
+ * @returns an error message, or undefined if the components can be used
+ */
+export async function checkComponents(
+  self: string | undefined,
+  sections: RecipeSection[],
+  load: (id: string) => Promise<ComposableRecipe | undefined>,
+): Promise<string | undefined> {
+  const seen = new Set<string>();
+  const pending = componentIds(sections).map((id) => ({ id, direct: true }));
+  while (pending.length > 0) {
+    const { id, direct } = pending.pop()!;
+    if (id === self) {
+      return direct
+        ? "A recipe cannot be a component of itself."
+        : "Recipe components cannot form a cycle.";
+    }
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const component = await load(id);
+    if (!component) {
+      if (direct) return `Component recipe ${id} was not found.`;
+      continue;
+    }
+    for (const next of componentIds(component.sections)) {
+      pending.push({ id: next, direct: false });
+    }
+  }
+  return undefined;
+}
+
+function sectionPath(prefix: string, name: string | undefined): string {
+  if (name === undefined) return prefix;
+  return prefix === "" ? name : `${prefix} / ${name}`;
+}
+
+/**
+ * expandRecipe(recipe, load): the recipe with every component inlined where
+ * its section is, recursively, and the component's quantities scaled by its
+ * scale (and the scales of the components above it). A component that is
+ * missing or that `load` cannot find is left out with a warning.
+ * @returns an error if components form a cycle or nest too deep
+ */
+export async function expandRecipe(
+  recipe: ComposableRecipe,
+  load: (id: string) => Promise<ComposableRecipe | undefined>,
+): Promise<ExpandedRecipe | { error: string }> {
+  const expanded: ExpandedRecipe = { ingredients: [], steps: [], warnings: [] };
+  const error = await expandInto(expanded, recipe, "", 1, [recipe], load);
+  return error ? { error } : expanded;
+}
+
+async function expandInto(
+  out: ExpandedRecipe,
+  recipe: ComposableRecipe,
+  prefix: string,
+  scale: number,
+  path: ComposableRecipe[],
+  load: (id: string) => Promise<ComposableRecipe | undefined>,
+): Promise<string | undefined> {
+  // Where each of this recipe's ingredients lands, to move step references
+  const moved = new Map<number, number>();
+  const ownSteps: number[] = [];
+  const emit = (section: string | undefined) => {
+    const name = sectionPath(prefix, section);
+    recipe.ingredients.forEach((ingredient, index) => {
+      if (ingredient.section !== section) return;
+      moved.set(index, out.ingredients.length);
+      out.ingredients.push({
+        ...(scale === 1 ? ingredient : scaleIngredient(ingredient, scale)),
+        section: name,
+        source: recipe._id,
+      });
+    });
+    recipe.steps.forEach((step) => {
+      if (step.section !== section) return;
+      ownSteps.push(out.steps.length);
+      out.steps.push({ ...step, section: name, source: recipe._id });
+    });
+  };
+
+  emit(undefined);
+  for (const section of recipe.sections ?? []) {
+    const component = section.component;
+    if (component) {
+      const name = sectionPath(prefix, section.name);
+      const cycle = path.findIndex((entry) => entry._id === component.recipe);
+      if (cycle !== -1) {
+        const titles = [...path.slice(cycle), path[cycle]].map((entry) =>
+          entry.title
+        );
+        return `Recipe components form a cycle: ${titles.join(" -> ")}.`;
+      }
+      if (path.length > MAX_COMPONENT_DEPTH) {
+        return `Recipe components are nested more than ${MAX_COMPONENT_DEPTH} deep.`;
+      }
+      const loaded = component.missing
+        ? undefined
+        : await load(component.recipe);
+      if (!loaded) {
+        out.warnings.push(
+          `Component "${name}" is missing: recipe ${component.recipe} was deleted or cannot be seen.`,
+        );
+      } else {
+        const error = await expandInto(
+          out,
+          loaded,
+          name,
+          scale * (component.scale ?? 1),
+          [...path, loaded],
+          load,
+        );
+        if (error) return error;
+      }
+    }
+    emit(section.name);
+  }
+
+  for (const index of ownSteps) {
+    const step = out.steps[index];
+    if (!step.ingredients) continue;
+    step.ingredients = step.ingredients.flatMap((ref) => {
+      const to = moved.get(ref.ingredient);
+      return to === undefined ? [] : [{ ...ref, ingredient: to }];
+    });
+  }
+  return undefined;
+}
@@ -0,0 +1,241 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  applyDraftChanges,
+  compareQuantities,
+  diffDraft,
+} from "./draftDiff.ts";
+
+const base = {
+  ingredients: [
+    { name: "Flour", quantity: "2 cups" },
+    { name: "Sugar", quantity: "1 cup" },
+    { name: "Butter", quantity: "1/2 cup" },
+    { name: "Salt", quantity: "to taste" },
+  ],
+  steps: [
+    { description: "Preheat the oven." },
+    { description: "Cream the butter and sugar." },
+    { description: "Fold in the flour." },
+    { description: "Bake for 20 minutes." },
+  ],
+};
+
+Deno.test("compareQuantities", async (t) => {
+  await t.step("reports the factor across units", () => {
+    assertEquals(
+      compareQuantities(
+        { name: "Sugar", quantity: "1 cup" },
+        { name: "Sugar", quantity: "8 tbsp" },
+      ),
+      {
+        before: "1 cup",
+        after: "8 tbsp",
+        direction: "decreased",
+        factor: 0.5,
+      },
+    );
+    assertEquals(
+      compareQuantities(
+        { name: "Eggs", quantity: "2" },
+        { name: "Eggs", quantity: "3" },
+      ),
+      { before: "2", after: "3", direction: "increased", factor: 1.5 },
+    );
+  });
+
+  await t.step("treats equivalent amounts as unchanged", () => {
+    assertEquals(
+      compareQuantities(
+        { name: "Milk", quantity: "1 cup" },
+        { name: "Milk", quantity: "16 tbsp" },
+      ),
+      undefined,
+    );
+  });
+
+  await t.step("falls back to text for unmeasurable quantities", () => {
+    assertEquals(
+      compareQuantities(
+        { name: "Salt", quantity: "to taste" },
+        { name: "Salt", quantity: "1 tsp" },
+      ),
+      { before: "to taste", after: "1 tsp", direction: "changed" },
+    );
+  });
+});
+
+Deno.test("diffDraft", async (t) => {
+  await t.step("highlights ingredient quantity changes", () => {
+    const diff = diffDraft(base, {
+      ...base,
+      ingredients: [
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Sugar", quantity: "1/2 cup" },
+        { name: "Vegan butter", quantity: "1/2 cup" },
+        { name: "Salt", quantity: "to taste" },
+      ],
+    });
+    assertEquals(diff.steps, []);
+    assertEquals(diff.ingredients, [
+      {
+        id: "ingredient:sugar",
+        kind: "modified",
+        fromIndex: 1,
+        toIndex: 1,
+        before: { name: "Sugar", quantity: "1 cup" },
+        after: { name: "Sugar", quantity: "1/2 cup" },
+        fields: ["quantity"],
+        quantity: {
+          before: "1 cup",
+          after: "1/2 cup",
+          direction: "decreased",
+          factor: 0.5,
+        },
+      },
+      {
+        id: "ingredient:vegan butter",
+        kind: "added",
+        toIndex: 2,
+        after: { name: "Vegan butter", quantity: "1/2 cup" },
+      },
+      {
+        id: "ingredient:butter",
+        kind: "removed",
+        fromIndex: 2,
+        before: { name: "Butter", quantity: "1/2 cup" },
+      },
+    ]);
+  });
+
+  await t.step("detects moved steps", () => {
+    const diff = diffDraft(base, {
+      ...base,
+      steps: [
+        { description: "Cream the butter and sugar." },
+        { description: "Fold in the flour." },
+        { description: "Preheat the oven.", notes: "to 180°C" },
+        { description: "Bake for 25 minutes." },
+      ],
+    });
+    assertEquals(
+      diff.steps.map((c) => [c.id, c.kind, c.fromIndex, c.toIndex, c.fields]),
+      [
+        ["step:0", "moved", 0, 2, ["notes"]],
+        ["step:3", "modified", 3, 3, ["description"]],
+      ],
+    );
+  });
+
+  await t.step(
+    "separates a move from an insertion at the same position",
+    () => {
+      const diff = diffDraft(base, {
+        ...base,
+        steps: [
+          { description: "Preheat the oven." },
+          { description: "Sift the flour." },
+          { description: "Fold in the flour." },
+          { description: "Cream the butter and sugar." },
+          { description: "Bake for 20 minutes." },
+        ],
+      });
+      assertEquals(
+        diff.steps.map((c) => [c.id, c.kind, c.fromIndex, c.toIndex]),
+        [
+          ["step:new:1", "added", undefined, 1],
+          ["step:1", "moved", 1, 3],
+        ],
+      );
+    },
+  );
+
+  await t.step("numbers repeated ingredient names", () => {
+    const diff = diffDraft(
+      {
+        ...base,
+        ingredients: [
+          { name: "Salt", quantity: "1 tsp" },
+          { name: "Salt", quantity: "1 pinch" },
+        ],
+      },
+      { ...base, ingredients: [{ name: "Salt", quantity: "1 tsp" }] },
+    );
+    assertEquals(diff.ingredients.map((c) => [c.id, c.kind]), [
+      ["ingredient:salt#2", "removed"],
+    ]);
+  });
+});
+
+Deno.test("applyDraftChanges", async (t) => {
+  const draft = {
+    ingredients: [
+      { name: "Flour", quantity: "2 cups" },
+      { name: "Sugar", quantity: "1/2 cup" },
+      { name: "Vegan butter", quantity: "1/2 cup" },
+      { name: "Salt", quantity: "to taste" },
+    ],
+    steps: [
+      { description: "Cream the butter and sugar." },
+      { description: "Fold in the flour." },
+      { description: "Preheat the oven." },
+      { description: "Bake for 25 minutes." },
+      { description: "Cool on a rack." },
+    ],
+  };
+
+  await t.step("applies every change when all are accepted", () => {
+    const diff = diffDraft(base, draft);
+    const ids = [...diff.ingredients, ...diff.steps].map((c) => c.id);
+    const { unknown, ...merged } = applyDraftChanges(base, draft, ids);
+    assertEquals(merged, draft);
+    assertEquals(unknown, []);
+  });
+
+  await t.step("keeps the base where a change is not accepted", () => {
+    const merged = applyDraftChanges(base, draft, [
+      "ingredient:vegan butter",
+      "step:3",
+      "step:new:4",
+    ]);
+    assertEquals(merged.ingredients.map((ing) => ing.name), [
+      "Flour",
+      "Sugar",
+      "Vegan butter",
+      "Butter",
+      "Salt",
+    ]);
+    assertEquals(merged.ingredients[1].quantity, "1 cup");
+    assertEquals(merged.steps.map((step) => step.description), [
+      "Preheat the oven.",
+      "Cream the butter and sugar.",
+      "Fold in the flour.",
+      "Bake for 25 minutes.",
+      "Cool on a rack.",
+    ]);
+  });
+
+  await t.step("moves a step and drops a removal", () => {
+    const merged = applyDraftChanges(base, draft, [
+      "step:0",
+      "ingredient:butter",
+    ]);
+    assertEquals(merged.steps.map((step) => step.description), [
+      "Cream the butter and sugar.",
+      "Fold in the flour.",
+      "Preheat the oven.",
+      "Bake for 20 minutes.",
+    ]);
+    assertEquals(merged.ingredients.map((ing) => ing.name), [
+      "Flour",
+      "Sugar",
+      "Salt",
+    ]);
+  });
+
+  await t.step("reports ids that are not in the diff", () => {
+    assertEquals(
+      applyDraftChanges(base, draft, ["step:9", "ingredient:sugar"]).unknown,
+      ["step:9"],
+    );
+  });
+});
@@ -0,0 +1,326 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import { parseQuantity, unitByName } from "@utils/quantity.ts";
+import { diffIngredients, diffSteps, ingredientKey } from "./revisions.ts";
+
+/**
+ * How an ingredient's quantity changed. `factor` is after / before when both
+ * quantities are measurable in the same dimension ("1 cup" -> "1/2 cup" is 0.5).
+ */
+export interface QuantityChange {
+  before: string;
+  after: string;
+  direction: "increased" | "decreased" | "changed";
+  factor?: number;
+}
+
+/**
+ * One change a draft makes to its base recipe.
+ *
+ * `id` names the change for selective application and is stable for a given
+ * draft and base recipe:
+ * - "ingredient:<name>" (lower-cased; "#2", "#3", ... for repeated names)
+ * - "step:<n>" for a removed, modified or moved base step (0-based index in the base)
+ * - "step:new:<n>" for an added step (0-based index in the draft)
+ *
+ * Indices follow ListChange: fromIndex in the base recipe, toIndex in the draft.
+ */
+export interface DraftChange<T> {
+  id: string;
+  kind: "added" | "removed" | "modified" | "moved";
+  fromIndex?: number;
+  toIndex?: number;
+  before?: T;
+  after?: T;
+  fields?: string[]; // for "modified" (and "moved" steps whose notes changed)
+  quantity?: QuantityChange; // ingredients whose quantity or unit changed
+}
+
+export interface DraftDiff {
+  ingredients: DraftChange<Ingredient>[];
+  steps: DraftChange<Step>[];
+}
+
+/**
+ * Compares two quantities; undefined if they read the same.
+ */
+export function compareQuantities(
+  before: Ingredient,
+  after: Ingredient,
+): QuantityChange | undefined {
+  const beforeText = [before.quantity, before.unit].filter(Boolean).join(" ");
+  const afterText = [after.quantity, after.unit].filter(Boolean).join(" ");
+  const from = parseQuantity(before.quantity, before.unit);
+  const to = parseQuantity(after.quantity, after.unit);
+  const base = (amount: number | undefined, unit: string | undefined) => {
+    if (amount === undefined) return undefined;
+    if (!unit) return amount;
+    const definition = unitByName(unit);
+    return definition ? amount * definition.toBase : undefined;
+  };
+
+  const measurable = (from.kind === "exact" || from.kind === "range") &&
+    (to.kind === "exact" || to.kind === "range") &&
+    from.dimension === to.dimension && Boolean(from.unit) === Boolean(to.unit);
+  const fromAmount = measurable ? base(from.amount, from.unit) : undefined;
+  const toAmount = measurable ? base(to.amount, to.unit) : undefined;
+  if (fromAmount === undefined || toAmount === undefined || fromAmount === 0) {
+    return beforeText === afterText
+      ? undefined
+      : { before: beforeText, after: afterText, direction: "changed" };
+  }
+
+  const factor = Math.round((toAmount / fromAmount) * 100) / 100;
+  if (factor === 1 && from.maxAmount === to.maxAmount) return undefined;
+  return {
+    before: beforeText,
+    after: afterText,
+    direction: factor > 1 ? "increased" : factor < 1 ? "decreased" : "changed",
+    factor,
+  };
+}
+
+function numberedKeys(list: Ingredient[]): string[] {
+  const seen = new Map<string, number>();
+  return list.map((ing) => {
+    const key = ingredientKey(ing);
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return count === 1 ? key : `${key}#${count}`;
+  });
+}
+
+function diffDraftIngredients(
+  base: Ingredient[],
+  draft: Ingredient[],
+): DraftChange<Ingredient>[] {
+  const baseKeys = numberedKeys(base);
+  const draftKeys = numberedKeys(draft);
+  return diffIngredients(base, draft).map((change) => {
+    const id = change.fromIndex !== undefined
+      ? `ingredient:${baseKeys[change.fromIndex]}`
+      : `ingredient:${draftKeys[change.toIndex!]}`;
+    const result: DraftChange<Ingredient> = { id, ...change };
+    if (change.kind === "modified" && change.before && change.after) {
+      const quantity = compareQuantities(change.before, change.after);
+      if (quantity) result.quantity = quantity;
+    }
+    return result;
+  });
+}
+
+/**
+ * A removed base step and an added draft step with the same description are
+ * one "moved" step. Moves are found first; the remaining steps are then
+ * diffed as in revisions, so a rewrite next to a move is still a modification.
+ */
+function diffDraftSteps(base: Step[], draft: Step[]): DraftChange<Step>[] {
+  const text = (step: Step) => step.description.trim();
+
+  // Steps left unaligned by a plain diff: removals, additions and rewrites
+  const unalignedFrom: number[] = [];
+  const unalignedTo: number[] = [];
+  for (const change of diffSteps(base, draft)) {
+    const rewritten = change.kind === "modified" &&
+      change.fields?.includes("description");
+    if (change.kind === "removed" || rewritten) {
+      unalignedFrom.push(change.fromIndex!);
+    }
+    if (change.kind === "added" || rewritten) unalignedTo.push(change.toIndex!);
+  }
+
+  const moves: DraftChange<Step>[] = [];
+  const movedFrom = new Set<number>();
+  const movedTo = new Set<number>();
+  for (const fromIndex of unalignedFrom) {
+    const toIndex = unalignedTo.find((j) =>
+      !movedTo.has(j) && text(draft[j]) === text(base[fromIndex])
+    );
+    if (toIndex === undefined) continue;
+    movedFrom.add(fromIndex);
+    movedTo.add(toIndex);
+    const move: DraftChange<Step> = {
+      id: `step:${fromIndex}`,
+      kind: "moved",
+      fromIndex,
+      toIndex,
+      before: base[fromIndex],
+      after: draft[toIndex],
+    };
+    if ((base[fromIndex].notes ?? "") !== (draft[toIndex].notes ?? "")) {
+      move.fields = ["notes"];
+    }
+    moves.push(move);
+  }
+
+  // Diff what is left, then map indices back to the full lists
+  const keptFrom = base.map((_, i) => i).filter((i) => !movedFrom.has(i));
+  const keptTo = draft.map((_, j) => j).filter((j) => !movedTo.has(j));
+  const rest = diffSteps(
+    keptFrom.map((i) => base[i]),
+    keptTo.map((j) => draft[j]),
+  ).map((change): DraftChange<Step> => {
+    const fromIndex = change.fromIndex === undefined
+      ? undefined
+      : keptFrom[change.fromIndex];
+    const toIndex = change.toIndex === undefined
+      ? undefined
+      : keptTo[change.toIndex];
+    const mapped: DraftChange<Step> = {
+      id: fromIndex === undefined ? `step:new:${toIndex}` : `step:${fromIndex}`,
+      ...change,
+    };
+    if (fromIndex !== undefined) mapped.fromIndex = fromIndex;
+    if (toIndex !== undefined) mapped.toIndex = toIndex;
+    return mapped;
+  });
+
+  // In draft order; removed steps sit where they were in the base
+  const position = (c: DraftChange<Step>) => c.toIndex ?? c.fromIndex!;
+  return [...rest, ...moves].sort((a, b) => position(a) - position(b));
+}
+
+/**
+ * diffDraft(base, draft): what applying the draft would change in the base
+ * recipe's ingredients and steps. Ingredients are matched by name, so a new
+ * amount is a modification carrying a QuantityChange.
+ */
+export function diffDraft(
+  base: { ingredients: Ingredient[]; steps: Step[] },
+  draft: { ingredients: Ingredient[]; steps: Step[] },
+): DraftDiff {
+  return {
+    ingredients: diffDraftIngredients(base.ingredients, draft.ingredients),
+    steps: diffDraftSteps(base.steps, draft.steps),
+  };
+}
+
+/** An item of the result, with its position in the draft if it has one. */
+interface Placed<T> {
+  item: T;
+  draftIndex?: number;
+}
+
+/**
+ * Inserts `item` after the placed item with the largest draft position before
+ * `draftIndex`, i.e. where the draft has it relative to its neighbours.
+ */
+function placeAt<T>(placed: Placed<T>[], item: T, draftIndex: number) {
+  let at = 0;
+  placed.forEach((entry, i) => {
+    if (entry.draftIndex !== undefined && entry.draftIndex < draftIndex) {
+      at = i + 1;
+    }
+  });
+  placed.splice(at, 0, { item, draftIndex });
+}
+
+/**
+ * Unchanged steps: the base and draft indices no change mentions, paired in
+ * order (the step diff never reorders without reporting a move).
+ */
+function unchangedSteps(
+  changes: DraftChange<Step>[],
+  baseLength: number,
+  draftLength: number,
+): Map<number, number> {
+  const changedFrom = new Set(changes.map((c) => c.fromIndex));
+  const changedTo = new Set(changes.map((c) => c.toIndex));
+  const from = [...Array(baseLength).keys()].filter((i) => !changedFrom.has(i));
+  const to = [...Array(draftLength).keys()].filter((j) => !changedTo.has(j));
+  return new Map(from.map((i, k) => [i, to[k]]));
+}
+
+/** Ingredients are matched by name, so an unchanged one may sit anywhere. */
+function unchangedIngredients(
+  base: Ingredient[],
+  draft: Ingredient[],
+): Map<number, number> {
+  const draftKeys = numberedKeys(draft);
+  return new Map(
+    numberedKeys(base)
+      .map((key, i): [number, number] => [i, draftKeys.indexOf(key)])
+      .filter(([, j]) => j !== -1),
+  );
+}
+
+/**
+ * The base list with the accepted changes applied. `aligned` maps base indices
+ * to the draft positions of their counterparts.
+ */
+function applyList<T>(
+  base: T[],
+  changes: DraftChange<T>[],
+  accepted: Set<string>,
+  aligned: Map<number, number>,
+): T[] {
+  const byFrom = new Map(
+    changes.filter((c) => c.fromIndex !== undefined).map((c) => [
+      c.fromIndex!,
+      c,
+    ]),
+  );
+
+  const placed: Placed<T>[] = [];
+  base.forEach((item, i) => {
+    const change = byFrom.get(i);
+    if (!change) {
+      placed.push({ item, draftIndex: aligned.get(i) });
+      return;
+    }
+    const take = accepted.has(change.id);
+    if (change.kind === "removed") {
+      if (!take) placed.push({ item });
+    } else if (change.kind === "modified") {
+      placed.push({
+        item: take ? change.after! : item,
+        draftIndex: change.toIndex,
+      });
+    } else if (change.kind === "moved" && !take) {
+      placed.push({ item });
+    }
+  });
+
+  // Additions and accepted moves go where the draft puts them
+  changes
+    .filter((c) =>
+      accepted.has(c.id) && (c.kind === "added" || c.kind === "moved")
+    )
+    .sort((a, b) => a.toIndex! - b.toIndex!)
+    .forEach((c) => placeAt(placed, c.after!, c.toIndex!));
+
+  return placed.map((entry) => entry.item);
+}
+
+/**
+ * applyDraftChanges(base, draft, accepted): the base recipe's ingredients and
+ * steps with only the accepted changes (by DraftChange id) of the draft applied.
+ * Added and moved items are placed next to the neighbours the draft gives them.
+ * Ids that are not in the draft's diff are returned in `unknown`.
+ */
+export function applyDraftChanges(
+  base: { ingredients: Ingredient[]; steps: Step[] },
+  draft: { ingredients: Ingredient[]; steps: Step[] },
+  accepted: string[],
+): { ingredients: Ingredient[]; steps: Step[]; unknown: string[] } {
+  const diff = diffDraft(base, draft);
+  const ids = new Set(
+    [...diff.ingredients, ...diff.steps].map((change) => change.id),
+  );
+  const acceptedIds = new Set(accepted);
+  return {
+    ingredients: applyList(
+      base.ingredients,
+      diff.ingredients,
+      acceptedIds,
+      unchangedIngredients(base.ingredients, draft.ingredients),
+    ),
+    steps: applyList(
+      base.steps,
+      diff.steps,
+      acceptedIds,
+      unchangedSteps(diff.steps, base.steps.length, draft.steps.length),
+    ),
+    unknown: accepted.filter((id) => !ids.has(id)),
+  };
+}
@@ -0,0 +1,127 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import {
+  buildRetryPrompt,
+  parseDraftResponse,
+  validateDraft,
+} from "./draftSchema.ts";
+
+const valid = {
+  title: "Vegan Pancakes",
+  ingredients: [{ name: "Oat milk", quantity: "1 cup" }],
+  steps: [{ description: "Whisk." }],
+  notes: "Swapped milk for oat milk.",
+  confidence: 0.8,
+};
+
+Deno.test("validateDraft", async (t) => {
+  await t.step("accepts a well-formed draft unchanged", () => {
+    assertEquals(validateDraft(valid), { draft: valid, repairs: [] });
+  });
+
+  await t.step("repairs numbers, unknown keys and bare steps", () => {
+    const result = validateDraft({
+      ...valid,
+      ingredients: [
+        { name: "Eggs", quantity: 2, unit: null, calories: 140 },
+      ],
+      steps: ["Whisk.", { description: "Fry.", duration: "5 min" }],
+      confidence: "0.6",
+      reasoning: "Because.",
+    });
+    assertEquals(result, {
+      draft: {
+        ...valid,
+        ingredients: [{ name: "Eggs", quantity: "2" }],
+        steps: [{ description: "Whisk." }, { description: "Fry." }],
+        confidence: 0.6,
+      },
+      repairs: [
+        "Dropped unknown field reasoning.",
+        "Dropped unknown field ingredients[0].calories.",
+        "Converted ingredients[0].quantity from a number to a string.",
+        "Dropped empty ingredients[0].unit.",
+        "Converted steps[0] from a string to a step.",
+        "Dropped unknown field steps[1].duration.",
+        "Converted confidence from a string to a number.",
+      ],
+    });
+  });
+
+  await t.step("reports every field-level problem", () => {
+    const result = validateDraft({
+      ingredients: [{ name: "Salt" }, "pepper", { name: "", quantity: "1" }],
+      steps: [],
+      confidence: 85,
+    });
+    assertEquals("errors" in result && result.errors, [
+      { path: "ingredients[0].quantity", message: "Required." },
+      {
+        path: "ingredients[1]",
+        message: "Must be an object with a name and quantity.",
+      },
+      { path: "ingredients[2].name", message: "Required." },
+      { path: "steps", message: "Must have at least one entry." },
+      { path: "notes", message: "Required." },
+      { path: "confidence", message: "Must be a number between 0 and 1." },
+    ]);
+  });
+
+  await t.step("checks the claimed constraints", () => {
+    assertEquals(validateDraft({ ...valid, satisfies: "vegan.no-dairy" }), {
+      draft: { ...valid, satisfies: ["vegan.no-dairy"] },
+      repairs: ["Converted satisfies from a string to a list."],
+    });
+    assertEquals(validateDraft({ ...valid, satisfies: [1] }), {
+      errors: [{
+        path: "satisfies",
+        message: "Must be a list of constraint ids.",
+      }],
+      repairs: [],
+    });
+  });
+
+  await t.step("leaves title and confidence optional", () => {
+    const { title: _title, confidence: _confidence, ...rest } = valid;
+    assertEquals(validateDraft(rest), { draft: rest, repairs: [] });
+  });
+});
+
+Deno.test("parseDraftResponse", async (t) => {
+  await t.step("strips code fences and surrounding prose", () => {
+    const text = "Here is your recipe:\n```json\n" + JSON.stringify(valid) +
+      "\n```\nEnjoy!";
+    assertEquals(parseDraftResponse(text), {
+      draft: valid,
+      repairs: ["Removed markdown code fences."],
+    });
+    assertEquals(parseDraftResponse(`Sure! ${JSON.stringify(valid)} Done.`), {
+      draft: valid,
+      repairs: ["Removed text around the JSON object."],
+    });
+  });
+
+  await t.step("reports invalid JSON", () => {
+    const result = parseDraftResponse('{"title": "Pancakes",');
+    if (!("errors" in result)) throw new Error("Expected errors.");
+    assertEquals(result.errors.length, 1);
+    assertEquals(result.errors[0].path, "");
+    assertStringIncludes(result.errors[0].message, "not valid JSON");
+
+    assertEquals(parseDraftResponse("[1, 2]"), {
+      errors: [{ path: "", message: "The response must be a JSON object." }],
+      repairs: [],
+    });
+  });
+});
+
+Deno.test("buildRetryPrompt lists the problems", () => {
+  const prompt = buildRetryPrompt("Make it vegan.", "{}", [
+    { path: "steps", message: "Required." },
+    { path: "", message: "The response must be a JSON object." },
+  ]);
+  assertStringIncludes(prompt, "Make it vegan.");
+  assertStringIncludes(
+    prompt,
+    "- steps: Required.\n- response: The response must be a JSON object.",
+  );
+});
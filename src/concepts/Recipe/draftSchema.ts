@@ -0,0 +1,289 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+
+/**
+ * The content of an AI draft, as a provider is asked to return it.
+ * `title` and `confidence` may be left out; the caller fills in defaults.
+ * `satisfies` lists the ids of the goal constraints the draft claims to meet.
+ */
+export interface DraftContent {
+  title?: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  notes: string;
+  confidence?: number;
+  satisfies?: string[];
+}
+
+/**
+ * One problem with a draft. `path` names the field ("ingredients[2].quantity");
+ * it is "" when the response as a whole is unusable.
+ */
+export interface DraftFieldError {
+  path: string;
+  message: string;
+}
+
+export type DraftValidation =
+  | { draft: DraftContent; repairs: string[] }
+  | { errors: DraftFieldError[]; repairs: string[] };
+
+/** The error returned when a draft is still invalid after the retry. */
+export const INVALID_DRAFT_ERROR = "The AI returned a draft that is not valid.";
+
+const INGREDIENT_KEYS = ["name", "quantity", "unit", "notes"] as const;
+const STEP_KEYS = ["description", "notes"] as const;
+const DRAFT_KEYS = [
+  "title",
+  "ingredients",
+  "steps",
+  "notes",
+  "confidence",
+  "satisfies",
+] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Collects errors and repairs while one draft is checked.
+ */
+class Checker {
+  errors: DraftFieldError[] = [];
+  repairs: string[] = [];
+
+  fail(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  /** Keeps only `allowed` keys, noting the ones dropped. */
+  known<K extends string>(
+    value: Record<string, unknown>,
+    allowed: readonly K[],
+    path: string,
+  ): Partial<Record<K, unknown>> {
+    const kept: Partial<Record<K, unknown>> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if ((allowed as readonly string[]).includes(key)) {
+        kept[key as K] = field;
+      } else {
+        this.repairs.push(`Dropped unknown field ${path}${key}.`);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * A string field. Numbers are turned into strings; an optional field that is
+   * null or empty is dropped. Returns undefined if the field is missing or unusable.
+   */
+  text(
+    value: unknown,
+    path: string,
+    required: boolean,
+  ): string | undefined {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      this.repairs.push(`Converted ${path} from a number to a string.`);
+      return String(value);
+    }
+    if (typeof value === "string" && value.trim() !== "") return value.trim();
+    if (value === undefined || value === null || value === "") {
+      if (required) this.fail(path, "Required.");
+      else if (value !== undefined) {
+        this.repairs.push(`Dropped empty ${path}.`);
+      }
+      return undefined;
+    }
+    this.fail(
+      path,
+      required ? "Must be a non-empty string." : "Must be a string.",
+    );
+    return undefined;
+  }
+
+  list(value: unknown, path: string): unknown[] | undefined {
+    if (!Array.isArray(value)) {
+      this.fail(path, value === undefined ? "Required." : "Must be a list.");
+      return undefined;
+    }
+    if (value.length === 0) {
+      this.fail(path, "Must have at least one entry.");
+      return undefined;
+    }
+    return value;
+  }
+}
+
+function checkIngredient(
+  check: Checker,
+  value: unknown,
+  path: string,
+): Ingredient | undefined {
+  if (!isRecord(value)) {
+    check.fail(path, "Must be an object with a name and quantity.");
+    return undefined;
+  }
+  const fields = check.known(value, INGREDIENT_KEYS, `${path}.`);
+  const name = check.text(fields.name, `${path}.name`, true);
+  const quantity = check.text(fields.quantity, `${path}.quantity`, true);
+  const unit = check.text(fields.unit, `${path}.unit`, false);
+  const notes = check.text(fields.notes, `${path}.notes`, false);
+  if (name === undefined || quantity === undefined) return undefined;
+  const ingredient: Ingredient = { name, quantity };
+  if (unit !== undefined) ingredient.unit = unit;
+  if (notes !== undefined) ingredient.notes = notes;
+  return ingredient;
+}
+
+function checkStep(
+  check: Checker,
+  value: unknown,
+  path: string,
+): Step | undefined {
+  if (typeof value === "string" && value.trim() !== "") {
+    check.repairs.push(`Converted ${path} from a string to a step.`);
+    return { description: value.trim() };
+  }
+  if (!isRecord(value)) {
+    check.fail(path, "Must be an object with a description.");
+    return undefined;
+  }
+  const fields = check.known(value, STEP_KEYS, `${path}.`);
+  const description = check.text(
+    fields.description,
+    `${path}.description`,
+    true,
+  );
+  const notes = check.text(fields.notes, `${path}.notes`, false);
+  if (description === undefined) return undefined;
+  const step: Step = { description };
+  if (notes !== undefined) step.notes = notes;
+  return step;
+}
+
+/**
+ * validateDraft(value): checks a parsed draft against the DraftContent shape.
+ * Small problems are repaired (numbers become strings, unknown and empty
+ * optional fields are dropped, a bare string step becomes a step); everything
+ * else is reported per field.
+ */
+export function validateDraft(
+  value: unknown,
+  repairs: string[] = [],
+): DraftValidation {
+  const check = new Checker();
+  check.repairs.push(...repairs);
+  if (!isRecord(value)) {
+    check.fail("", "The response must be a JSON object.");
+    return { errors: check.errors, repairs: check.repairs };
+  }
+
+  const fields = check.known(value, DRAFT_KEYS, "");
+  const title = check.text(fields.title, "title", false);
+  const ingredients = (check.list(fields.ingredients, "ingredients") ?? [])
+    .map((ing, i) => checkIngredient(check, ing, `ingredients[${i}]`));
+  const steps = (check.list(fields.steps, "steps") ?? [])
+    .map((step, i) => checkStep(check, step, `steps[${i}]`));
+  const notes = check.text(fields.notes, "notes", true);
+
+  let confidence = fields.confidence;
+  if (typeof confidence === "string" && confidence.trim() !== "") {
+    const parsed = Number(confidence);
+    if (Number.isFinite(parsed)) {
+      check.repairs.push("Converted confidence from a string to a number.");
+      confidence = parsed;
+    }
+  }
+  if (
+    confidence !== undefined && confidence !== null &&
+    (typeof confidence !== "number" || confidence < 0 || confidence > 1)
+  ) {
+    check.fail("confidence", "Must be a number between 0 and 1.");
+  }
+
+  let satisfies = fields.satisfies;
+  if (typeof satisfies === "string") {
+    check.repairs.push("Converted satisfies from a string to a list.");
+    satisfies = [satisfies];
+  }
+  if (
+    satisfies !== undefined && satisfies !== null &&
+    (!Array.isArray(satisfies) ||
+      satisfies.some((id) => typeof id !== "string"))
+  ) {
+    check.fail("satisfies", "Must be a list of constraint ids.");
+  }
+
+  if (check.errors.length > 0) {
+    return { errors: check.errors, repairs: check.repairs };
+  }
+  const draft: DraftContent = {
+    ingredients: ingredients as Ingredient[],
+    steps: steps as Step[],
+    notes: notes as string,
+  };
+  if (title !== undefined) draft.title = title;
+  if (typeof confidence === "number") draft.confidence = confidence;
+  if (Array.isArray(satisfies)) draft.satisfies = satisfies as string[];
+  return { draft, repairs: check.repairs };
+}
+
+/**
+ * parseDraftResponse(text): parses and validates a provider's raw answer.
+ * Markdown code fences and any prose around the JSON object are removed first.
+ */
+export function parseDraftResponse(text: string): DraftValidation {
+  const repairs: string[] = [];
+  let json = text.trim();
+
+  const fenced = json.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)\n?\s*```/);
+  if (fenced) {
+    repairs.push("Removed markdown code fences.");
+    json = fenced[1].trim();
+  }
+  const start = json.indexOf("{");
+  const end = json.lastIndexOf("}");
+  if (start !== -1 && end > start && (start > 0 || end < json.length - 1)) {
+    repairs.push("Removed text around the JSON object.");
+    json = json.slice(start, end + 1);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return {
+      errors: [{
+        path: "",
+        message: `The response is not valid JSON (${
+          e instanceof Error ? e.message : String(e)
+        }).`,
+      }],
+      repairs,
+    };
+  }
+  return validateDraft(parsed, repairs);
+}
+
+/**
+ * Builds the follow-up prompt sent once when a response could not be used:
+ * the original request, the rejected answer and what was wrong with it.
+ */
+export function buildRetryPrompt(
+  prompt: string,
+  response: string,
+  errors: DraftFieldError[],
+): string {
+  const problems = errors
+    .map((e) => `- ${e.path || "response"}: ${e.message}`)
+    .join("\n");
+  return `${prompt}
+
+Your previous answer could not be used:
+${response}
+
+Problems:
+${problems}
+
+Reply again with ONLY the corrected JSON object in the structure above.`;
+}
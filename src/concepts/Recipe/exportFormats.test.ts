@@ -0,0 +1,124 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { exportRecipe, ingredientText, toJsonLd } from "./exportFormats.ts";
+import { extractSchemaRecipe } from "./schemaOrg.ts";
+
+const cremeBrulee = {
+  title: "Crème Brûlée <Best>",
+  description: "Rich & creamy.",
+  tags: ["dessert", "french"],
+  yield: { servings: 4 },
+  ingredients: [
+    { name: "cream", quantity: "2 cups", unit: "cup" },
+    { name: "salt", quantity: "to taste" },
+    { name: "eggs", quantity: "3", notes: "yolks only" },
+  ],
+  steps: [
+    { description: "Heat the cream." },
+    { description: "Bake.", notes: "Water bath" },
+  ],
+};
+
+const annotations = [
+  { targetKind: "Step" as const, targetIndex: 1, text: "Try 150C" },
+  {
+    targetKind: "Ingredient" as const,
+    targetIndex: 9,
+    text: "Use less",
+    resolved: true,
+  },
+];
+
+Deno.test("ingredientText", () => {
+  assertEquals(ingredientText(cremeBrulee.ingredients[0]), "2 cups cream");
+  assertEquals(ingredientText(cremeBrulee.ingredients[1]), "salt, to taste");
+  assertEquals(
+    ingredientText(cremeBrulee.ingredients[2]),
+    "3 eggs, yolks only",
+  );
+});
+
+Deno.test("exportRecipe", async (t) => {
+  await t.step("renders Markdown with annotations", () => {
+    const file = exportRecipe(cremeBrulee, "markdown", annotations);
+    assertEquals(file.filename, "creme-brulee-best.md");
+    assertEquals(file.contentType, "text/markdown; charset=utf-8");
+    assertEquals(
+      file.content,
+      `# Crème Brûlée <Best>
+
+Rich & creamy.
+
+**Yield:** 4 servings  
+**Tags:** dessert, french
+
+## Ingredients
+
+- 2 cups cream
+- salt, to taste
+- 3 eggs, yolks only
+
+## Steps
+
+1. Heat the cream.
+2. Bake.
+   _Water bath_
+   > Try 150C
+
+## Notes
+
+- Use less (resolved)
+`,
+    );
+  });
+
+  await t.step("renders schema.org JSON-LD that imports back", () => {
+    const file = exportRecipe(cremeBrulee, "jsonld");
+    assertEquals(file.contentType, "application/ld+json");
+    const imported = extractSchemaRecipe(file.content);
+    if ("error" in imported) throw new Error(imported.error);
+    assertEquals(
+      imported.title,
+      "Crème Brûlée",
+      "Markup is stripped on import",
+    );
+    assertEquals(imported.tags, cremeBrulee.tags);
+    assertEquals(imported.yield, { servings: 4 });
+    assertEquals(
+      imported.ingredients.map((i) => [i.name, i.quantity, i.notes]),
+      [
+        ["cream", "2 cups", undefined],
+        ["salt", "to taste", undefined],
+        ["eggs", "3", "yolks only"],
+      ],
+    );
+    assertEquals(
+      toJsonLd(cremeBrulee, annotations).comment,
+      [
+        { "@type": "Comment", about: "Step 2", text: "Try 150C" },
+        {
+          "@type": "Comment",
+          about: "Ingredient 10",
+          text: "Use less (resolved)",
+        },
+      ],
+    );
+  });
+
+  await t.step("renders a standalone HTML page with escaped text", () => {
+    const file = exportRecipe(cremeBrulee, "html", annotations);
+    assertEquals(file.contentType, "text/html; charset=utf-8");
+    assertStringIncludes(
+      file.content,
+      "<title>Crème Brûlée &lt;Best&gt;</title>",
+    );
+    assertStringIncludes(file.content, "@media print");
+    assertStringIncludes(
+      file.content,
+      '<li>Bake.<div class="step-note">Water bath</div><div class="annotation">Try 150C</div></li>',
+    );
+    // The embedded JSON-LD makes the page importable
+    const imported = extractSchemaRecipe(file.content);
+    if ("error" in imported) throw new Error(imported.error);
+    assertEquals(imported.steps.length, 2);
+  });
+});
@@ -0,0 +1,312 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import { formatQuantity, parseQuantity } from "@utils/quantity.ts";
+import type { RecipeYield } from "./scaling.ts";
+
+export const EXPORT_FORMATS = ["markdown", "jsonld", "html"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * The parts of a recipe an export shows.
+ */
+export interface ExportableRecipe {
+  title: string;
+  description?: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  tags: string[];
+  yield?: RecipeYield;
+  created?: Date;
+  updated?: Date;
+}
+
+/**
+ * A note to print next to an ingredient or step, as stored by the Annotation concept.
+ */
+export interface ExportAnnotation {
+  targetKind: "Ingredient" | "Step";
+  targetIndex: number;
+  text: string;
+  resolved?: boolean;
+}
+
+/**
+ * A rendered export, ready to send as a file.
+ */
+export interface RecipeExport {
+  format: ExportFormat;
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const FILES: Record<ExportFormat, { extension: string; contentType: string }> =
+  {
+    markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+    jsonld: { extension: "jsonld", contentType: "application/ld+json" },
+    html: { extension: "html", contentType: "text/html; charset=utf-8" },
+  };
+
+/**
+ * "2 cups flour, sifted" for a measured ingredient, "salt, to taste" otherwise.
+ * The same form parseIngredientLine reads back.
+ */
+export function ingredientText(ingredient: Ingredient): string {
+  const parsed = ingredient.parsedQuantity ??
+    parseQuantity(ingredient.quantity, ingredient.unit);
+  const amount = formatQuantity(parsed);
+  const text = amount
+    ? `${amount} ${ingredient.name}`
+    : `${ingredient.name}, ${ingredient.quantity}`;
+  return ingredient.notes ? `${text}, ${ingredient.notes}` : text;
+}
+
+function yieldText(recipeYield: RecipeYield): string {
+  const parts: string[] = [];
+  if (recipeYield.servings !== undefined) {
+    parts.push(
+      `${recipeYield.servings} serving${recipeYield.servings === 1 ? "" : "s"}`,
+    );
+  }
+  if (recipeYield.amount) parts.push(recipeYield.amount);
+  return parts.join(", ");
+}
+
+function annotationText(annotation: ExportAnnotation): string {
+  return annotation.resolved
+    ? `${annotation.text} (resolved)`
+    : annotation.text;
+}
+
+/**
+ * Groups annotations by the ingredient or step they are on. Annotations whose
+ * target no longer exists (the recipe was edited since) are returned as `other`.
+ */
+function groupAnnotations(
+  recipe: ExportableRecipe,
+  annotations: ExportAnnotation[],
+) {
+  const ingredients = new Map<number, ExportAnnotation[]>();
+  const steps = new Map<number, ExportAnnotation[]>();
+  const other: ExportAnnotation[] = [];
+  for (const annotation of annotations) {
+    const [byIndex, length] = annotation.targetKind === "Ingredient"
+      ? [ingredients, recipe.ingredients.length]
+      : [steps, recipe.steps.length];
+    const index = annotation.targetIndex;
+    if (Number.isInteger(index) && index >= 0 && index < length) {
+      byIndex.set(index, [...(byIndex.get(index) ?? []), annotation]);
+    } else {
+      other.push(annotation);
+    }
+  }
+  return { ingredients, steps, other };
+}
+
+function slug(title: string): string {
+  return title.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "recipe";
+}
+
+/**
+ * Renders the recipe as Markdown: title, description, yield and tags, then
+ * the ingredients as a list and the steps as a numbered list. Step notes and
+ * annotations are indented under the item they belong to.
+ */
+export function toMarkdown(
+  recipe: ExportableRecipe,
+  annotations: ExportAnnotation[] = [],
+): string {
+  const notes = groupAnnotations(recipe, annotations);
+  const lines = [`# ${recipe.title}`, ""];
+  if (recipe.description) lines.push(recipe.description, "");
+  const meta: string[] = [];
+  if (recipe.yield) meta.push(`**Yield:** ${yieldText(recipe.yield)}`);
+  if (recipe.tags.length > 0) meta.push(`**Tags:** ${recipe.tags.join(", ")}`);
+  if (meta.length > 0) lines.push(meta.join("  \n"), "");
+
+  lines.push("## Ingredients", "");
+  recipe.ingredients.forEach((ingredient, i) => {
+    lines.push(`- ${ingredientText(ingredient)}`);
+    for (const note of notes.ingredients.get(i) ?? []) {
+      lines.push(`  > ${annotationText(note)}`);
+    }
+  });
+
+  lines.push("", "## Steps", "");
+  recipe.steps.forEach((step, i) => {
+    lines.push(`${i + 1}. ${step.description}`);
+    if (step.notes) lines.push(`   _${step.notes}_`);
+    for (const note of notes.steps.get(i) ?? []) {
+      lines.push(`   > ${annotationText(note)}`);
+    }
+  });
+
+  if (notes.other.length > 0) {
+    lines.push("", "## Notes", "");
+    for (const note of notes.other) lines.push(`- ${annotationText(note)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Builds a schema.org Recipe object. Step notes are appended to the step text;
+ * annotations become Comments naming the ingredient or step they are on.
+ */
+export function toJsonLd(
+  recipe: ExportableRecipe,
+  annotations: ExportAnnotation[] = [],
+): Record<string, unknown> {
+  const node: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.title,
+  };
+  if (recipe.description) node.description = recipe.description;
+  if (recipe.yield) {
+    node.recipeYield = recipe.yield.servings !== undefined
+      ? String(recipe.yield.servings)
+      : recipe.yield.amount;
+  }
+  if (recipe.tags.length > 0) node.keywords = recipe.tags.join(", ");
+  if (recipe.created) node.dateCreated = recipe.created.toISOString();
+  if (recipe.updated) node.dateModified = recipe.updated.toISOString();
+  node.recipeIngredient = recipe.ingredients.map(ingredientText);
+  node.recipeInstructions = recipe.steps.map((step, i) => ({
+    "@type": "HowToStep",
+    position: i + 1,
+    text: step.notes ? `${step.description} (${step.notes})` : step.description,
+  }));
+  if (annotations.length > 0) {
+    node.comment = annotations.map((annotation) => ({
+      "@type": "Comment",
+      about: `${annotation.targetKind} ${annotation.targetIndex + 1}`,
+      text: annotationText(annotation),
+    }));
+  }
+  return node;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const PRINT_STYLES = `
+    body { font: 16px/1.5 Georgia, serif; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; color: #111; }
+    h1 { margin-bottom: 0.25rem; }
+    .meta { color: #555; }
+    li { margin: 0.25rem 0; }
+    .step-note { font-style: italic; }
+    .annotation { margin: 0.25rem 0 0.25rem 1rem; padding-left: 0.5rem; border-left: 3px solid #bbb; color: #333; font-size: 0.9em; }
+    .resolved { color: #777; }
+    @media print {
+      body { margin: 0; max-width: none; font-size: 12pt; }
+      section { break-inside: avoid-page; }
+      li { break-inside: avoid; }
+    }`;
+
+/**
+ * Renders a standalone, print-friendly HTML page: inline styles only, no
+ * scripts except the recipe's JSON-LD, so the page can also be imported again.
+ */
+export function toHtml(
+  recipe: ExportableRecipe,
+  annotations: ExportAnnotation[] = [],
+): string {
+  const notes = groupAnnotations(recipe, annotations);
+  const renderNotes = (list: ExportAnnotation[] = []) =>
+    list.map((note) =>
+      `<div class="annotation${note.resolved ? " resolved" : ""}">${
+        escapeHtml(annotationText(note))
+      }</div>`
+    ).join("");
+
+  const meta: string[] = [];
+  if (recipe.yield) {
+    meta.push(`Yield: ${escapeHtml(yieldText(recipe.yield))}`);
+  }
+  if (recipe.tags.length > 0) {
+    meta.push(`Tags: ${escapeHtml(recipe.tags.join(", "))}`);
+  }
+  // "</" cannot appear inside a script element
+  const jsonLd = JSON.stringify(toJsonLd(recipe), null, 2).replace(
+    /<\//g,
+    "<\\/",
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(recipe.title)}</title>
+  <style>${PRINT_STYLES}
+  </style>
+  <script type="application/ld+json">
+${jsonLd}
+  </script>
+</head>
+<body>
+  <h1>${escapeHtml(recipe.title)}</h1>
+${recipe.description ? `  <p>${escapeHtml(recipe.description)}</p>\n` : ""}${
+    meta.length > 0 ? `  <p class="meta">${meta.join(" · ")}</p>\n` : ""
+  }  <section>
+    <h2>Ingredients</h2>
+    <ul>
+${
+    recipe.ingredients.map((ingredient, i) =>
+      `      <li>${escapeHtml(ingredientText(ingredient))}${
+        renderNotes(notes.ingredients.get(i))
+      }</li>`
+    ).join("\n")
+  }
+    </ul>
+  </section>
+  <section>
+    <h2>Steps</h2>
+    <ol>
+${
+    recipe.steps.map((step, i) =>
+      `      <li>${escapeHtml(step.description)}${
+        step.notes
+          ? `<div class="step-note">${escapeHtml(step.notes)}</div>`
+          : ""
+      }${renderNotes(notes.steps.get(i))}</li>`
+    ).join("\n")
+  }
+    </ol>
+  </section>
+${
+    notes.other.length > 0
+      ? `  <section>\n    <h2>Notes</h2>\n    ${
+        renderNotes(notes.other)
+      }\n  </section>\n`
+      : ""
+  }</body>
+</html>
+`;
+}
+
+/**
+ * exportRecipe(recipe, format, annotations): renders the recipe in one of the
+ * export formats, with a filename based on its title.
+ */
+export function exportRecipe(
+  recipe: ExportableRecipe,
+  format: ExportFormat,
+  annotations: ExportAnnotation[] = [],
+): RecipeExport {
+  const content = format === "markdown"
+    ? toMarkdown(recipe, annotations)
+    : format === "jsonld"
+    ? JSON.stringify(toJsonLd(recipe, annotations), null, 2) + "\n"
+    : toHtml(recipe, annotations);
+  const { extension, contentType } = FILES[format];
+  return {
+    format,
+    filename: `${slug(recipe.title)}.${extension}`,
+    contentType,
+    content,
+  };
+}
@@ -0,0 +1,58 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { GOAL_PRESETS, resolveGoal } from "./goalPresets.ts";
+import { buildDraftPrompt } from "./llm.ts";
+
+const toast = {
+  title: "Toast",
+  ingredients: [{ name: "Bread", quantity: "2 slices" }],
+  steps: [{ description: "Toast the bread." }],
+};
+
+Deno.test("resolveGoal", async (t) => {
+  await t.step("combines presets and free text", () => {
+    const resolved = resolveGoal(["Vegan", "halve", "vegan"], "Less sweet");
+    if ("error" in resolved) throw new Error(resolved.error);
+    assertEquals(resolved.goal, "Make it vegan; Halve the recipe; Less sweet");
+    assertEquals(resolved.presets, ["vegan", "halve"]);
+    assertEquals(resolved.constraints.map((c) => c.id), [
+      "vegan.no-meat",
+      "vegan.no-dairy",
+      "vegan.no-eggs",
+      "vegan.no-other-animal",
+      "halve.quantities",
+      "halve.equipment-and-times",
+    ]);
+  });
+
+  await t.step("accepts free text alone", () => {
+    assertEquals(resolveGoal([], " Spicier "), {
+      goal: "Spicier",
+      presets: [],
+      constraints: [],
+    });
+  });
+
+  await t.step("rejects unknown presets and an empty goal", () => {
+    assertEquals(resolveGoal(["keto"]), {
+      error: `Unknown goal preset(s): keto. Expected any of: ${
+        GOAL_PRESETS.map((p) => p.id).join(", ")
+      }.`,
+    });
+    assertEquals(resolveGoal([], "  "), { error: "Goal cannot be empty." });
+  });
+});
+
+Deno.test("buildDraftPrompt compiles constraints", () => {
+  const resolved = resolveGoal(["air-fryer"]);
+  if ("error" in resolved) throw new Error(resolved.error);
+  const prompt = buildDraftPrompt(toast, resolved.goal, resolved.constraints);
+  assertStringIncludes(
+    prompt,
+    "CONSTRAINTS (the modified recipe must meet every one):\n- [air-fryer.method]",
+  );
+  assertStringIncludes(prompt, '"satisfies": [');
+
+  const plain = buildDraftPrompt(toast, "Spicier");
+  assertEquals(plain.includes("CONSTRAINTS"), false);
+  assertEquals(plain.includes("satisfies"), false);
+});
@@ -0,0 +1,178 @@
+/**
+ * One requirement a draft must meet, compiled into the prompt as a rule.
+ * `id` is stable ("vegan.no-dairy") so a draft can name the ones it satisfies.
+ */
+export interface GoalConstraint {
+  id: string;
+  rule: string;
+}
+
+/**
+ * A named, reusable AI goal. `goal` is the short instruction used as the goal
+ * text (and understood by the local provider); `constraints` spell it out.
+ */
+export interface GoalPreset {
+  id: string;
+  label: string;
+  goal: string;
+  constraints: GoalConstraint[];
+}
+
+export const GOAL_PRESETS: readonly GoalPreset[] = [
+  {
+    id: "vegan",
+    label: "Vegan",
+    goal: "Make it vegan",
+    constraints: [
+      {
+        id: "vegan.no-meat",
+        rule: "Use no meat, poultry, fish, seafood or meat-based stock.",
+      },
+      {
+        id: "vegan.no-dairy",
+        rule: "Use no milk, butter, cream, cheese, yogurt or other dairy.",
+      },
+      {
+        id: "vegan.no-eggs",
+        rule: "Use no eggs; replace their binding or leavening role.",
+      },
+      {
+        id: "vegan.no-other-animal",
+        rule: "Use no honey, gelatin or other animal-derived ingredients.",
+      },
+    ],
+  },
+  {
+    id: "gluten-free",
+    label: "Gluten-free",
+    goal: "Make it gluten-free",
+    constraints: [
+      {
+        id: "gluten-free.no-gluten-grains",
+        rule:
+          "Use no wheat, barley, rye, spelt or ingredients made from them (flour, pasta, bread, couscous).",
+      },
+      {
+        id: "gluten-free.no-hidden-gluten",
+        rule:
+          "Replace soy sauce, beer, stock cubes and other common hidden sources of gluten with gluten-free versions.",
+      },
+    ],
+  },
+  {
+    id: "lower-sodium",
+    label: "Lower sodium",
+    goal: "Lower the sodium",
+    constraints: [
+      {
+        id: "lower-sodium.less-salt",
+        rule: "Cut added salt by at least half.",
+      },
+      {
+        id: "lower-sodium.low-sodium-products",
+        rule:
+          "Use low-sodium or no-salt-added versions of stock, soy sauce, canned goods and cheese.",
+      },
+      {
+        id: "lower-sodium.keep-flavor",
+        rule:
+          "Make up for the salt with acid, herbs, spices or aromatics rather than leaving the dish bland.",
+      },
+    ],
+  },
+  {
+    id: "halve",
+    label: "Halve the recipe",
+    goal: "Halve the recipe",
+    constraints: [
+      {
+        id: "halve.quantities",
+        rule:
+          "Halve every ingredient quantity, rounding to amounts that can be measured in a kitchen.",
+      },
+      {
+        id: "halve.equipment-and-times",
+        rule:
+          "Adjust pan sizes and cooking times for the smaller batch where they depend on it.",
+      },
+    ],
+  },
+  {
+    id: "high-protein",
+    label: "High protein",
+    goal: "Make it high in protein",
+    constraints: [
+      {
+        id: "high-protein.more-protein",
+        rule:
+          "Raise the protein per serving by adding or increasing protein-rich ingredients (legumes, eggs, dairy, lean meat, tofu).",
+      },
+      {
+        id: "high-protein.same-dish",
+        rule: "Keep the character and serving count of the original dish.",
+      },
+    ],
+  },
+  {
+    id: "air-fryer",
+    label: "Air-fryer adaptation",
+    goal: "Adapt it for an air fryer",
+    constraints: [
+      {
+        id: "air-fryer.method",
+        rule:
+          "Cook in an air fryer instead of deep-frying, pan-frying or the oven wherever possible.",
+      },
+      {
+        id: "air-fryer.settings",
+        rule:
+          "Give the air-fryer temperature and time for each air-fried step, and say when to shake or flip.",
+      },
+      {
+        id: "air-fryer.less-oil",
+        rule: "Use no more than 1 tbsp of oil per batch.",
+      },
+    ],
+  },
+];
+
+/**
+ * The goal for a draft built from presets plus free text: the combined goal
+ * text and the presets' constraints, in the order the presets were given.
+ */
+export interface ResolvedGoal {
+  goal: string;
+  presets: string[];
+  constraints: GoalConstraint[];
+}
+
+/**
+ * resolveGoal(presets, goal): combines preset ids (case-insensitive, repeats
+ * ignored) and an optional free-text goal into one goal.
+ */
+export function resolveGoal(
+  presets: string[] = [],
+  goal = "",
+): ResolvedGoal | { error: string } {
+  const ids = [...new Set(presets.map((id) => id.trim().toLowerCase()))];
+  const unknown = ids.filter((id) =>
+    !GOAL_PRESETS.some((preset) => preset.id === id)
+  );
+  if (unknown.length > 0) {
+    return {
+      error: `Unknown goal preset(s): ${unknown.join(", ")}. Expected any of: ${
+        GOAL_PRESETS.map((preset) => preset.id).join(", ")
+      }.`,
+    };
+  }
+
+  const chosen = ids.map((id) => GOAL_PRESETS.find((p) => p.id === id)!);
+  const parts = chosen.map((preset) => preset.goal);
+  if (goal.trim() !== "") parts.push(goal.trim());
+  if (parts.length === 0) return { error: "Goal cannot be empty." };
+  return {
+    goal: parts.join("; "),
+    presets: ids,
+    constraints: chosen.flatMap((preset) => preset.constraints),
+  };
+}
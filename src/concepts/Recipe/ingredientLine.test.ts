@@ -0,0 +1,59 @@
+import { assertEquals } from "jsr:@std/assert";
+import { parseIngredientLine } from "./ingredientLine.ts";
+
+Deno.test("parseIngredientLine", async (t) => {
+  await t.step("splits amount, unit, name and notes", () => {
+    assertEquals(parseIngredientLine("2 cups flour, sifted"), {
+      ingredient: {
+        name: "flour",
+        quantity: "2 cups",
+        unit: "cup",
+        notes: "sifted",
+      },
+      confidence: 1,
+    });
+    assertEquals(
+      parseIngredientLine("- 1 (14 oz) can tomatoes, drained")?.ingredient,
+      {
+        name: "tomatoes",
+        quantity: "1 can",
+        unit: "can",
+        notes: "drained; 14 oz",
+      },
+    );
+  });
+
+  await t.step("keeps counts without a unit", () => {
+    assertEquals(parseIngredientLine("3 large eggs"), {
+      ingredient: { name: "large eggs", quantity: "3" },
+      confidence: 0.9,
+    });
+  });
+
+  await t.step("handles lines without an amount", () => {
+    assertEquals(parseIngredientLine("Salt and pepper, to taste"), {
+      ingredient: { name: "Salt and pepper", quantity: "to taste" },
+      confidence: 0.9,
+    });
+    assertEquals(
+      parseIngredientLine("Fresh parsley for garnish")?.ingredient,
+      { name: "Fresh parsley", quantity: "for garnish" },
+    );
+    assertEquals(parseIngredientLine("Olive oil"), {
+      ingredient: { name: "Olive oil", quantity: "to taste" },
+      confidence: 0.5,
+    });
+  });
+
+  await t.step("has low confidence in lines that are not ingredients", () => {
+    assertEquals(
+      parseIngredientLine("Preheat the oven and grease the pan.")?.confidence,
+      0.4,
+    );
+    assertEquals(parseIngredientLine("2 cups")?.confidence, 0.2);
+  });
+
+  await t.step("skips blank lines", () => {
+    assertEquals(parseIngredientLine("  • "), undefined);
+  });
+});
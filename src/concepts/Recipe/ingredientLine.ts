@@ -0,0 +1,76 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import { splitLeadingQuantity } from "@utils/quantity.ts";
+
+// Phrases that stand in for an amount, at the end of a line ("Salt, to taste")
+const NO_AMOUNT_SUFFIX =
+  /,?\s*\b(to taste|as needed|as required|for serving|for garnish|for greasing|for dusting|for frying|optional)\.?$/i;
+
+// List markers pasted along with the line
+const BULLET = /^(?:[-*•▢□◦·–]|\[\s?\])\s*/;
+
+/**
+ * An ingredient read from one line of text, with how sure the parser is that
+ * the line really is an ingredient and was split correctly (0 to 1):
+ *   1    amount, unit and name
+ *   0.9  a count and a name ("3 eggs"), or a name with "to taste" and similar
+ *   0.5  a bare name; the quantity "to taste" is a guess
+ *   0.4  reads like a sentence rather than an ingredient
+ *   0.2  an amount with nothing after it
+ */
+export interface ParsedIngredientLine {
+  ingredient: Ingredient;
+  confidence: number;
+}
+
+/**
+ * parseIngredientLine(line): turns one written ingredient into its parts, e.g.
+ * "2 cups flour, sifted" -> { name: "flour", quantity: "2 cups", unit: "cup", notes: "sifted" }.
+ *
+ * Parenthesised text and anything after the first comma become notes. A line
+ * without an amount gets the quantity "to taste" (or the phrase it ends with,
+ * such as "for serving"). Returns undefined for a blank line.
+ */
+export function parseIngredientLine(
+  line: string,
+): ParsedIngredientLine | undefined {
+  let text = line.replace(/\s+/g, " ").trim().replace(BULLET, "");
+  if (text === "") return undefined;
+
+  const notes: string[] = [];
+  text = text.replace(/\s*\(([^)]*)\)/g, (_, inner: string) => {
+    if (inner.trim() !== "") notes.push(inner.trim());
+    return "";
+  }).trim();
+
+  const split = splitLeadingQuantity(text);
+  let rest = split ? split.rest : text;
+
+  let quantity = split?.quantity;
+  const suffix = rest.match(NO_AMOUNT_SUFFIX);
+  if (suffix && rest.length > suffix[0].length) {
+    rest = rest.slice(0, suffix.index).trim();
+    quantity ??= suffix[1].toLowerCase();
+  }
+
+  const comma = rest.indexOf(",");
+  if (comma > 0) {
+    notes.unshift(rest.slice(comma + 1).trim());
+    rest = rest.slice(0, comma).trim();
+  }
+
+  let confidence = split?.unit ? 1 : quantity !== undefined ? 0.9 : 0.5;
+  if (rest === "") {
+    confidence = 0.2;
+  } else if (rest.split(" ").length > 6 || /[.!?]$/.test(rest)) {
+    confidence = Math.min(confidence, 0.4);
+  }
+
+  const ingredient: Ingredient = {
+    name: rest || text,
+    quantity: quantity ?? "to taste",
+  };
+  if (split?.unit) ingredient.unit = split.unit.name;
+  const noteText = notes.filter(Boolean).join("; ");
+  if (noteText) ingredient.notes = noteText;
+  return { ingredient, confidence };
+}
@@ -0,0 +1,180 @@
+import { GoogleGenAI } from "npm:@google/genai";
+import type { RecipeSnapshot } from "./revisions.ts";
+import type { GoalConstraint } from "./goalPresets.ts";
+import { LocalRuleProvider } from "./localProvider.ts";
+
+/**
+ * What a provider is asked to do: rewrite `recipe` to achieve `goal`, meeting
+ * any preset `constraints`. `prompt` is the full text prompt for model-backed
+ * providers; rule-based providers work from the structured recipe and goal instead.
+ */
+export interface DraftRequest {
+  recipe: RecipeSnapshot;
+  goal: string;
+  constraints?: GoalConstraint[];
+  prompt: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * The provider's raw answer: a JSON object in the draft shape
+ * ({ title, ingredients, steps, notes, confidence, satisfies }) as text, which the caller parses.
+ */
+export interface LLMCompletion {
+  text: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: DraftRequest): Promise<LLMCompletion | { error: string }>;
+}
+
+/**
+ * Calls Google Gemini. The API key and model are read from the environment
+ * on every call, so a missing key only fails the AI actions.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+
+  async complete(
+    { prompt }: DraftRequest,
+  ): Promise<LLMCompletion | { error: string }> {
+    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+    const GEMINI_MODEL = Deno.env.get("GEMINI_MODEL") || "gemini-2.0-flash-exp";
+
+    if (!GEMINI_API_KEY) {
+      return {
+        error:
+          "GEMINI_API_KEY environment variable is not set. Cannot generate AI draft.",
+      };
+    }
+
+    try {
+      const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
+      const result = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+      });
+
+      // Extract text from Gemini API response
+      const responseText = result.candidates?.[0]?.content?.parts?.[0]?.text ||
+        result.text;
+
+      if (!responseText) {
+        console.error(
+          "Failed to extract text from response. Full result:",
+          JSON.stringify(result, null, 2),
+        );
+        return {
+          error: `No response from AI model. Debug info logged to console.`,
+        };
+      }
+
+      return {
+        text: responseText,
+        usage: {
+          inputTokens: result.usageMetadata?.promptTokenCount ?? 0,
+          outputTokens: result.usageMetadata?.candidatesTokenCount ?? 0,
+        },
+      };
+    } catch (error) {
+      console.error("Error calling Gemini API:", error);
+      return {
+        error: `Failed to call AI service: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+}
+
+export const LLM_PROVIDERS = ["gemini", "local"] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+/**
+ * Creates the provider named by the LLM_PROVIDER environment variable
+ * ("gemini" by default; "local" for the offline rule-based provider).
+ * @throws if the name is not a known provider
+ */
+export function createLLMProvider(
+  name: string = Deno.env.get("LLM_PROVIDER") || "gemini",
+): LLMProvider {
+  switch (name.trim().toLowerCase()) {
+    case "gemini":
+      return new GeminiProvider();
+    case "local":
+      return new LocalRuleProvider();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}". Expected one of: ${
+          LLM_PROVIDERS.join(", ")
+        }.`,
+      );
+  }
+}
+
+/**
+ * Builds the text prompt asking a model to rewrite `recipe` for `goal`.
+ * Constraints are listed as rules, and the model is asked which ones it met.
+ */
+export function buildDraftPrompt(
+  recipe: RecipeSnapshot,
+  goal: string,
+  constraints: GoalConstraint[] = [],
+): string {
+  const ingredientsText = recipe.ingredients
+    .map((ing) => {
+      let text = `- ${ing.name}: ${ing.quantity}`;
+      if (ing.unit) text += ` ${ing.unit}`;
+      if (ing.notes) text += ` (${ing.notes})`;
+      return text;
+    })
+    .join("\n");
+
+  const stepsText = recipe.steps
+    .map((step, idx) => {
+      let text = `${idx + 1}. ${step.description}`;
+      if (step.notes) text += ` (${step.notes})`;
+      return text;
+    })
+    .join("\n");
+
+  const constraintsText = constraints.length > 0
+    ? `
+CONSTRAINTS (the modified recipe must meet every one):
+${constraints.map((c) => `- [${c.id}] ${c.rule}`).join("\n")}
+`
+    : "";
+
+  return `You are a professional chef assistant. A user wants to modify the following recipe.
+
+ORIGINAL RECIPE: "${recipe.title}"
+${recipe.description ? `Description: ${recipe.description}` : ""}
+
+INGREDIENTS:
+${ingredientsText}
+
+STEPS:
+${stepsText}
+
+USER'S GOAL: ${goal}
+${constraintsText}
+Please provide a modified version of this recipe that achieves the user's goal. Return ONLY a JSON object with this exact structure (no markdown, no explanation):
+{
+  "title": "string",
+  "ingredients": [{"name": "string", "quantity": "string", "unit": "string (optional)", "notes": "string (optional)"}],
+  "steps": [{"description": "string", "notes": "string (optional)"}],
+  "notes": "Brief summary of changes made",
+  "confidence": 0.0-1.0${
+    constraints.length > 0
+      ? `,
+  "satisfies": ["ids of the constraints the modified recipe meets"]`
+      : ""
+  }
+}`;
+}
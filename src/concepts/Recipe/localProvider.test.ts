@@ -0,0 +1,135 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "jsr:@std/assert";
+import { createLLMProvider, GeminiProvider } from "./llm.ts";
+import { draftLocally, LocalRuleProvider } from "./localProvider.ts";
+
+const pancakes = {
+  title: "Pancakes",
+  ingredients: [
+    { name: "Flour", quantity: "1 1/2 cups", unit: "cup" },
+    { name: "Sugar", quantity: "1/4 cup", unit: "cup" },
+    { name: "Whole milk", quantity: "1 1/4 cups", unit: "cup" },
+    { name: "Eggs", quantity: "2" },
+    {
+      name: "Butter",
+      quantity: "3 tbsp",
+      unit: "tbsp",
+      notes: "melted",
+      parsedQuantity: { kind: "exact" as const, amount: 3, unit: "tbsp" },
+    },
+    { name: "Peanut butter", quantity: "2 tbsp" },
+  ],
+  steps: [
+    { description: "Whisk the flour and sugar." },
+    { description: "Beat the eggs into the milk, then add the butter." },
+    { description: "Fry in a buttered pan." },
+  ],
+};
+
+Deno.test("draftLocally", async (t) => {
+  await t.step("substitutes animal products for a vegan goal", () => {
+    const draft = draftLocally(pancakes, "Make it vegan please");
+    assertEquals(draft.title, "Vegan Pancakes");
+    assertEquals(draft.ingredients.map((ing) => ing.name), [
+      "Flour",
+      "Sugar",
+      "Oat milk",
+      "Flax eggs",
+      "Vegan butter",
+      "Peanut butter",
+    ]);
+    assertEquals(draft.ingredients[3], {
+      name: "Flax eggs",
+      quantity: "2",
+      notes: "1 tbsp ground flaxseed + 3 tbsp water per egg",
+    });
+    assertEquals(
+      draft.ingredients[4],
+      {
+        name: "Vegan butter",
+        quantity: "3 tbsp",
+        unit: "tbsp",
+        notes: "melted",
+      },
+      "Quantities are kept; derived fields are dropped.",
+    );
+    assertEquals(
+      draft.steps[1].description,
+      "Beat the flax eggs into the oat milk, then add the vegan butter.",
+    );
+    assertEquals(draft.steps[2].description, "Fry in a buttered pan.");
+    assertEquals(draft.confidence, 0.9);
+  });
+
+  await t.step("scales named ingredients", () => {
+    const draft = draftLocally(pancakes, "Halve the sugar and double the eggs");
+    assertEquals(draft.ingredients[1].quantity, "2 tbsp");
+    assertEquals(draft.ingredients[1].unit, "tbsp");
+    assertEquals(draft.ingredients[3].quantity, "4");
+    assertEquals(draft.ingredients[0].quantity, "1 1/2 cups");
+    assertEquals(draft.title, "Pancakes");
+    assertEquals(
+      draft.notes,
+      'Local draft for "Halve the sugar and double the eggs": halve the sugar; double the eggs.',
+    );
+  });
+
+  await t.step("understands other phrasings and the whole recipe", () => {
+    const cut = draftLocally(pancakes, "cut the milk in half");
+    assertEquals(cut.ingredients[2].quantity, "10 tbsp");
+
+    const reduced = draftLocally(pancakes, "reduce the butter by 50%");
+    assertEquals(reduced.ingredients[4].quantity, "1 1/2 tbsp");
+
+    const doubled = draftLocally(pancakes, "double the recipe");
+    assertEquals(doubled.ingredients[0].quantity, "3 cups");
+    assertEquals(doubled.ingredients[3].quantity, "4");
+  });
+
+  await t.step("is deterministic", () => {
+    const goal = "gluten-free, and halve the sugar";
+    assertEquals(draftLocally(pancakes, goal), draftLocally(pancakes, goal));
+    assertEquals(
+      draftLocally(pancakes, goal).ingredients[0].name,
+      "Gluten-free flour blend",
+    );
+  });
+
+  await t.step("leaves the recipe unchanged for unknown goals", () => {
+    const draft = draftLocally(pancakes, "make it fancier");
+    assertEquals(draft.ingredients.map((ing) => ing.quantity), [
+      "1 1/2 cups",
+      "1/4 cup",
+      "1 1/4 cups",
+      "2",
+      "3 tbsp",
+      "2 tbsp",
+    ]);
+    assertEquals(draft.confidence, 0.1);
+
+    const partial = draftLocally(pancakes, "halve the saffron, double it");
+    assertEquals(partial.confidence, 0.5);
+    assertEquals(
+      partial.notes.endsWith("No ingredient matched: saffron."),
+      true,
+    );
+  });
+});
+
+Deno.test("LocalRuleProvider answers with the draft as JSON", async () => {
+  const completion = await new LocalRuleProvider().complete({
+    recipe: pancakes,
+    goal: "vegan",
+    prompt: "ignored",
+  });
+  assertEquals(JSON.parse(completion.text), draftLocally(pancakes, "vegan"));
+});
+
+Deno.test("createLLMProvider picks the provider by name", () => {
+  assertInstanceOf(createLLMProvider("gemini"), GeminiProvider);
+  assertInstanceOf(createLLMProvider(" Local "), LocalRuleProvider);
+  assertThrows(
+    () => createLLMProvider("gpt"),
+    Error,
+    'Unknown LLM_PROVIDER "gpt". Expected one of: gemini, local.',
+  );
+});
@@ -0,0 +1,323 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import type { DraftRequest, LLMCompletion, LLMProvider } from "./llm.ts";
+import type { RecipeSnapshot } from "./revisions.ts";
+import { scaleIngredient } from "./scaling.ts";
+
+/**
+ * One substitution: an ingredient whose name contains `match` (as whole words)
+ * is replaced by `replacement`, keeping its quantity. Names containing any of
+ * `unless` are left alone ("peanut butter" is not dairy).
+ */
+interface Substitution {
+  match: string;
+  replacement: string;
+  unless?: string[];
+  notes?: string;
+}
+
+const PLANT_MILKS = ["coconut", "oat", "almond", "soy", "rice", "cashew"];
+
+const MEAT: Substitution[] = [
+  { match: "chicken stock", replacement: "vegetable stock" },
+  { match: "chicken broth", replacement: "vegetable broth" },
+  { match: "beef stock", replacement: "mushroom stock" },
+  { match: "beef broth", replacement: "mushroom broth" },
+  { match: "fish sauce", replacement: "soy sauce" },
+  { match: "ground beef", replacement: "plant-based mince" },
+  { match: "bacon", replacement: "smoked tempeh" },
+  { match: "chicken", replacement: "extra-firm tofu" },
+  { match: "beef", replacement: "seitan" },
+  { match: "pork", replacement: "jackfruit" },
+  { match: "sausage", replacement: "plant-based sausage" },
+  { match: "anchovies", replacement: "capers" },
+  { match: "gelatin", replacement: "agar agar", notes: "use half as much" },
+];
+
+const DAIRY: Substitution[] = [
+  {
+    match: "butter",
+    replacement: "vegan butter",
+    unless: ["peanut", "almond", "cocoa", "nut", "vegan"],
+  },
+  { match: "heavy cream", replacement: "coconut cream" },
+  { match: "cream", replacement: "coconut cream", unless: ["coconut"] },
+  { match: "milk", replacement: "oat milk", unless: PLANT_MILKS },
+  {
+    match: "yogurt",
+    replacement: "plant-based yogurt",
+    unless: ["plant", "soy", "coconut"],
+  },
+  { match: "parmesan", replacement: "nutritional yeast" },
+  { match: "cheese", replacement: "vegan cheese", unless: ["vegan"] },
+];
+
+const OTHER_ANIMAL: Substitution[] = [
+  {
+    match: "eggs",
+    replacement: "flax eggs",
+    notes: "1 tbsp ground flaxseed + 3 tbsp water per egg",
+  },
+  {
+    match: "egg",
+    replacement: "flax egg",
+    notes: "1 tbsp ground flaxseed + 3 tbsp water",
+  },
+  { match: "honey", replacement: "maple syrup" },
+];
+
+const GLUTEN: Substitution[] = [
+  {
+    match: "flour",
+    replacement: "gluten-free flour blend",
+    unless: ["gluten-free", "almond", "rice", "coconut", "corn"],
+  },
+  { match: "soy sauce", replacement: "tamari" },
+  { match: "breadcrumbs", replacement: "gluten-free breadcrumbs" },
+  { match: "pasta", replacement: "gluten-free pasta", unless: ["gluten-free"] },
+  {
+    match: "spaghetti",
+    replacement: "gluten-free spaghetti",
+    unless: ["gluten-free"],
+  },
+];
+
+/**
+ * Diets the local provider understands, in the order they are applied.
+ * `pattern` is matched against the goal.
+ */
+const DIETS: Array<{
+  label: string;
+  pattern: RegExp;
+  substitutions: Substitution[];
+}> = [
+  {
+    label: "Vegan",
+    pattern: /\bvegan\b/,
+    substitutions: [...MEAT, ...DAIRY, ...OTHER_ANIMAL],
+  },
+  { label: "Vegetarian", pattern: /\bvegetarian\b/, substitutions: MEAT },
+  {
+    label: "Dairy-Free",
+    pattern: /\b(dairy|lactose)[- ]free\b/,
+    substitutions: DAIRY,
+  },
+  {
+    label: "Gluten-Free",
+    pattern: /\bgluten[- ]free\b/,
+    substitutions: GLUTEN,
+  },
+];
+
+const SCALE_WORDS: Record<string, number> = {
+  halve: 0.5,
+  half: 0.5,
+  quarter: 0.25,
+  double: 2,
+  triple: 3,
+};
+
+/** Targets that mean "every ingredient". */
+const WHOLE_RECIPE = new Set(["recipe", "everything", "it", "all", "batch"]);
+
+interface ScaleRule {
+  target: string;
+  factor: number;
+  phrase: string;
+}
+
+/**
+ * Finds quantity changes in the goal: "halve the sugar", "double the garlic",
+ * "cut the butter in half", "reduce the salt by 25%".
+ */
+function parseScaleRules(goal: string): ScaleRule[] {
+  const end = String.raw`(?=$|[,.;!]|\s+and\b|\s+but\b)`;
+  const target = String.raw`(?:the\s+)?(?<target>[a-z][a-z -]*?)`;
+  const patterns: Array<[RegExp, (m: RegExpExecArray) => number]> = [
+    [
+      new RegExp(
+        String
+          .raw`\b(?<word>halve|half|quarter|double|triple)\s+${target}${end}`,
+        "g",
+      ),
+      (m) => SCALE_WORDS[m.groups!.word],
+    ],
+    [
+      new RegExp(String.raw`\bcut\s+${target}\s+in\s+half${end}`, "g"),
+      () => 0.5,
+    ],
+    [
+      new RegExp(
+        String.raw`\breduce\s+${target}\s+by\s+(?<percent>\d{1,2})\s*%${end}`,
+        "g",
+      ),
+      (m) => 1 - Number(m.groups!.percent) / 100,
+    ],
+  ];
+
+  const rules: ScaleRule[] = [];
+  for (const [pattern, factorOf] of patterns) {
+    for (const m of goal.matchAll(pattern)) {
+      rules.push({
+        target: m.groups!.target.trim(),
+        factor: factorOf(m),
+        phrase: m[0].trim(),
+      });
+    }
+  }
+  return rules;
+}
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const wordPattern = (text: string) =>
+  new RegExp(String.raw`\b${escape(text)}\b`, "i");
+const singular = (word: string) => word.replace(/(es|s)$/, "");
+
+/** Keeps the capitalization of the name being replaced. */
+function matchCase(original: string, replacement: string): string {
+  return /^[A-Z]/.test(original)
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+function findSubstitution(
+  name: string,
+  substitutions: Substitution[],
+): Substitution | undefined {
+  const lower = name.toLowerCase();
+  return substitutions.find((sub) =>
+    wordPattern(sub.match).test(lower) &&
+    !(sub.unless ?? []).some((word) => lower.includes(word))
+  );
+}
+
+/** True if every word of a scale rule's target is in the name ("sugar" matches "Brown sugar", "eggs" matches "Egg"). */
+function targets(ingredient: Ingredient, target: string): boolean {
+  const words = ingredient.name.toLowerCase().split(/\W+/).map(singular);
+  return target.split(/\s+/).every((word) => words.includes(singular(word)));
+}
+
+function plainIngredient(ingredient: Ingredient): Ingredient {
+  const plain: Ingredient = {
+    name: ingredient.name,
+    quantity: ingredient.quantity,
+  };
+  if (ingredient.unit) plain.unit = ingredient.unit;
+  if (ingredient.notes) plain.notes = ingredient.notes;
+  return plain;
+}
+
+/**
+ * The draft the local provider produces, in the same shape a model is asked for.
+ */
+export interface LocalDraft {
+  title: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  notes: string;
+  confidence: number;
+}
+
+/**
+ * draftLocally(recipe, goal): rewrites a recipe with fixed substitution tables
+ * and quantity rules. The same input always gives the same draft. Goals it
+ * does not understand leave the recipe unchanged with a low confidence.
+ */
+export function draftLocally(recipe: RecipeSnapshot, goal: string): LocalDraft {
+  const lowerGoal = goal.toLowerCase();
+  let ingredients = recipe.ingredients.map(plainIngredient);
+  let steps = recipe.steps.map((step) => ({ ...step }));
+  const changes: string[] = [];
+  const labels: string[] = [];
+
+  for (const diet of DIETS) {
+    if (!diet.pattern.test(lowerGoal)) continue;
+    labels.push(diet.label);
+    ingredients = ingredients.map((ing) => {
+      const sub = findSubstitution(ing.name, diet.substitutions);
+      if (!sub) return ing;
+      const name = matchCase(ing.name, sub.replacement);
+      changes.push(`replaced ${ing.name} with ${name}`);
+      // Mention the new ingredient wherever the steps named the old one
+      const oldNames = new RegExp(
+        String.raw`\b(${escape(ing.name)}|${escape(sub.match)})\b`,
+        "gi",
+      );
+      steps = steps.map((step) => ({
+        ...step,
+        description: step.description.replace(
+          oldNames,
+          (found) => matchCase(found, sub.replacement),
+        ),
+      }));
+      const replaced: Ingredient = { ...ing, name };
+      if (sub.notes) {
+        replaced.notes = ing.notes ? `${ing.notes}; ${sub.notes}` : sub.notes;
+      }
+      return replaced;
+    });
+  }
+
+  const unmatchedTargets: string[] = [];
+  for (const rule of parseScaleRules(lowerGoal)) {
+    const wholeRecipe = WHOLE_RECIPE.has(rule.target);
+    let matched = false;
+    ingredients = ingredients.map((ing) => {
+      if (!wholeRecipe && !targets(ing, rule.target)) return ing;
+      matched = true;
+      const scaled = scaleIngredient(ing, rule.factor);
+      if (!scaled.scaled) return ing;
+      const result: Ingredient = { ...ing, quantity: scaled.quantity };
+      if (ing.unit && scaled.unit) result.unit = scaled.unit;
+      return result;
+    });
+    if (matched) {
+      changes.push(rule.phrase);
+    } else {
+      unmatchedTargets.push(rule.target);
+    }
+  }
+
+  const title = labels.length > 0
+    ? `${labels.join(" ")} ${recipe.title}`
+    : recipe.title;
+  const notesParts: string[] = [];
+  if (changes.length > 0) {
+    notesParts.push(
+      `Local draft for "${goal}": ${changes.join("; ")}.`,
+    );
+  } else {
+    notesParts.push(
+      `No local rule matched "${goal}"; the recipe is unchanged.`,
+    );
+  }
+  if (unmatchedTargets.length > 0) {
+    notesParts.push(`No ingredient matched: ${unmatchedTargets.join(", ")}.`);
+  }
+
+  return {
+    title,
+    ingredients,
+    steps,
+    notes: notesParts.join(" "),
+    confidence: changes.length === 0
+      ? 0.1
+      : unmatchedTargets.length > 0
+      ? 0.5
+      : 0.9,
+  };
+}
+
+/**
+ * An offline, deterministic provider for development and tests. It ignores
+ * the prompt text and answers with draftLocally's result as JSON.
+ */
+export class LocalRuleProvider implements LLMProvider {
+  readonly name = "local";
+
+  complete({ recipe, goal }: DraftRequest): Promise<LLMCompletion> {
+    return Promise.resolve({
+      text: JSON.stringify(draftLocally(recipe, goal)),
+    });
+  }
+}
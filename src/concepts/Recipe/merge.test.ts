@@ -0,0 +1,182 @@
+import { assertEquals } from "jsr:@std/assert";
+import { threeWayMerge } from "./merge.ts";
+
+const base = {
+  title: "Chili",
+  ingredients: [
+    { name: "Beef", quantity: "1 lb" },
+    { name: "Beans", quantity: "1 can" },
+    { name: "Chili powder", quantity: "2 tbsp" },
+  ],
+  steps: [
+    { description: "Brown the beef." },
+    { description: "Add everything else." },
+    { description: "Simmer 30 minutes." },
+  ],
+};
+
+Deno.test("threeWayMerge", async (t) => {
+  await t.step("applies non-overlapping changes from both sides", () => {
+    const ours = {
+      ...base,
+      title: "Bob's Chili",
+      ingredients: [
+        { name: "Turkey", quantity: "1 lb" },
+        ...base.ingredients.slice(1),
+      ],
+    };
+    const theirs = {
+      ...base,
+      ingredients: [
+        ...base.ingredients.slice(0, 2),
+        { name: "Cumin", quantity: "1 tsp" },
+        { name: "Chili powder", quantity: "3 tbsp" },
+      ],
+      steps: [
+        ...base.steps.slice(0, 2),
+        { description: "Simmer 45 minutes." },
+      ],
+    };
+
+    const { merged, conflicts } = threeWayMerge(base, ours, theirs);
+    assertEquals(conflicts, []);
+    assertEquals(merged.title, "Bob's Chili");
+    assertEquals(
+      merged.ingredients.map((ing) => `${ing.quantity} ${ing.name}`),
+      ["1 lb Turkey", "1 can Beans", "1 tsp Cumin", "3 tbsp Chili powder"],
+    );
+    assertEquals(merged.steps[2].description, "Simmer 45 minutes.");
+  });
+
+  await t.step("reports conflicting edits with stable ids", () => {
+    const ours = {
+      ...base,
+      title: "Mild Chili",
+      ingredients: [
+        base.ingredients[0],
+        base.ingredients[1],
+        { name: "Chili powder", quantity: "1 tbsp" },
+      ],
+      steps: [
+        ...base.steps.slice(0, 2),
+        { description: "Simmer 20 minutes." },
+      ],
+    };
+    const theirs = {
+      ...base,
+      title: "Texas Chili",
+      ingredients: [base.ingredients[0], {
+        name: "Chili powder",
+        quantity: "4 tbsp",
+      }],
+      steps: [
+        ...base.steps.slice(0, 2),
+        { description: "Simmer 1 hour." },
+      ],
+    };
+
+    const { merged, conflicts } = threeWayMerge(base, ours, theirs);
+    assertEquals(conflicts.map((c) => c.id), [
+      "title",
+      "ingredient:chili powder",
+      "steps:1",
+    ]);
+    assertEquals(conflicts[2].ours, [{ description: "Simmer 20 minutes." }]);
+    assertEquals(conflicts[2].theirs, [{ description: "Simmer 1 hour." }]);
+    // The parent's removal of beans did not conflict with anything
+    assertEquals(
+      merged.ingredients.map((ing) => ing.name),
+      ["Beef", "Chili powder"],
+    );
+    assertEquals(merged.title, "Mild Chili", "Unresolved: keep the fork's.");
+  });
+
+  await t.step("applies resolutions", () => {
+    const ours = { ...base, title: "Mild Chili" };
+    const theirs = {
+      ...base,
+      title: "Texas Chili",
+      ingredients: base.ingredients.slice(1),
+    };
+    const edited = {
+      ...ours,
+      ingredients: [
+        { name: "Beef", quantity: "2 lb" },
+        ...base.ingredients.slice(1),
+      ],
+    };
+
+    const unresolved = threeWayMerge(base, edited, theirs);
+    assertEquals(unresolved.conflicts.map((c) => c.id), [
+      "title",
+      "ingredient:beef",
+    ]);
+    assertEquals(unresolved.conflicts[1].theirs, undefined, "Parent deleted.");
+
+    const { merged, conflicts } = threeWayMerge(base, edited, theirs, [
+      { conflict: "title", value: "Mild Texas Chili" },
+      { conflict: "ingredient:beef", take: "theirs" },
+    ]);
+    assertEquals(conflicts, []);
+    assertEquals(merged.title, "Mild Texas Chili");
+    assertEquals(
+      merged.ingredients.map((ing) => ing.name),
+      ["Beans", "Chili powder"],
+    );
+  });
+
+  await t.step("merges sections by name", () => {
+    const sectioned = {
+      ...base,
+      ingredients: [
+        ...base.ingredients,
+        { name: "Cornbread mix", quantity: "1 box", section: "Cornbread" },
+      ],
+      sections: [
+        { name: "Cornbread" },
+        { name: "Topping", component: { recipe: "recipe:salsa" } },
+      ],
+    };
+    const ours = {
+      ...sectioned,
+      sections: [
+        { name: "Cornbread" },
+        { name: "Topping", component: { recipe: "recipe:salsa", scale: 2 } },
+      ],
+    };
+    const theirs = {
+      ...sectioned,
+      sections: [{ name: "Topping", component: { recipe: "recipe:salsa" } }],
+    };
+    const onlyComponent = {
+      ...sectioned,
+      sections: [
+        { name: "Cornbread", component: { recipe: "recipe:cornbread" } },
+        sectioned.sections[1],
+      ],
+    };
+
+    const fromParent = threeWayMerge(sectioned, sectioned, onlyComponent);
+    assertEquals(fromParent.conflicts, []);
+    assertEquals(fromParent.merged.sections, onlyComponent.sections);
+
+    // The parent removed a section the fork's ingredients are still in
+    const kept = threeWayMerge(sectioned, ours, theirs);
+    assertEquals(kept.conflicts, []);
+    assertEquals(kept.merged.sections, ours.sections);
+
+    const edited = {
+      ...sectioned,
+      sections: [
+        sectioned.sections[0],
+        { name: "Topping", component: { recipe: "recipe:guacamole" } },
+      ],
+    };
+    const unresolved = threeWayMerge(sectioned, ours, edited);
+    assertEquals(unresolved.conflicts.map((c) => c.id), ["section:Topping"]);
+    const { merged } = threeWayMerge(sectioned, ours, edited, [
+      { conflict: "section:Topping", take: "theirs" },
+    ]);
+    assertEquals(merged.sections, edited.sections);
+  });
+});
@@ -0,0 +1,396 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import type { RecipeSection } from "./composition.ts";
+import type { RecipeYield } from "./scaling.ts";
+import { ingredientKey, type RecipeSnapshot } from "./revisions.ts";
+
+/**
+ * A change made on both sides of a three-way merge that cannot be combined automatically.
+ *
+ * `id` identifies the conflict in a follow-up call and is stable as long as the
+ * fork and its parent do not change in between:
+ * - "title", "description", "yield"
+ * - "ingredient:<name>" (lower-cased; "#2", "#3", ... for repeated names)
+ * - "steps:<n>" for the n-th conflicting run of steps (1-based)
+ * - "section:<name>"
+ *
+ * For steps, `base`/`ours`/`theirs` are the competing runs of steps (possibly empty).
+ * A missing `ours` or `theirs` on other conflicts means that side deleted the item.
+ */
+export interface MergeConflict {
+  id: string;
+  field:
+    | "title"
+    | "description"
+    | "yield"
+    | "ingredients"
+    | "steps"
+    | "sections";
+  base?: unknown;
+  ours?: unknown; // the fork's version
+  theirs?: unknown; // the parent's version
+}
+
+/**
+ * How to settle one conflict: keep one side's version, or supply a replacement `value`
+ * (a string for title/description, a RecipeYield, an Ingredient, a list of Steps, or a
+ * RecipeSection).
+ */
+export interface MergeResolution {
+  conflict: string;
+  take?: "ours" | "theirs" | "base";
+  value?: unknown;
+}
+
+export interface MergeResult {
+  merged: RecipeSnapshot;
+  conflicts: MergeConflict[]; // conflicts not covered by a resolution
+}
+
+const stripDerived = (ing: Ingredient): Ingredient => {
+  const { parsedQuantity: _derived, ...rest } = ing;
+  return rest;
+};
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+const sameIngredient = (a?: Ingredient, b?: Ingredient) =>
+  same(a && stripDerived(a), b && stripDerived(b));
+const sameStep = (a: Step, b: Step) =>
+  a.description.trim() === b.description.trim() &&
+  (a.notes ?? "") === (b.notes ?? "");
+
+type Pick3<T> =
+  | { ok: true; value: T | undefined }
+  | { ok: false };
+
+/**
+ * The three-way rule: a side that did not change defers to the side that did;
+ * identical changes agree; different changes conflict.
+ */
+function pick3<T>(
+  base: T | undefined,
+  ours: T | undefined,
+  theirs: T | undefined,
+  equal: (a?: T, b?: T) => boolean,
+): Pick3<T> {
+  if (equal(ours, theirs)) return { ok: true, value: ours };
+  if (equal(ours, base)) return { ok: true, value: theirs };
+  if (equal(theirs, base)) return { ok: true, value: ours };
+  return { ok: false };
+}
+
+/**
+ * Resolves a conflict from the caller's resolutions, or returns undefined if
+ * the caller has not resolved it.
+ */
+function resolve(
+  conflict: MergeConflict,
+  resolutions: Map<string, MergeResolution>,
+): { value: unknown } | undefined {
+  const resolution = resolutions.get(conflict.id);
+  if (!resolution) return undefined;
+  if (resolution.value !== undefined) return { value: resolution.value };
+  if (resolution.take === "ours") return { value: conflict.ours };
+  if (resolution.take === "theirs") return { value: conflict.theirs };
+  if (resolution.take === "base") return { value: conflict.base };
+  return undefined;
+}
+
+/**
+ * Keys ingredients by name, numbering repeats ("salt", "salt#2").
+ */
+function keyIngredients(list: Ingredient[]): Map<string, Ingredient> {
+  const keyed = new Map<string, Ingredient>();
+  const seen = new Map<string, number>();
+  for (const ing of list) {
+    const name = ingredientKey(ing);
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    keyed.set(count === 1 ? name : `${name}#${count}`, ing);
+  }
+  return keyed;
+}
+
+/**
+ * The order of a keyed merge result: the fork's order, with the parent's
+ * additions placed after the item that precedes them in the parent.
+ */
+function mergedOrder(
+  ours: Iterable<string>,
+  theirs: Iterable<string>,
+): string[] {
+  const order = [...ours];
+  let previous: string | undefined;
+  for (const key of theirs) {
+    if (!order.includes(key)) {
+      const at = previous === undefined ? 0 : order.indexOf(previous) + 1;
+      order.splice(at, 0, key);
+    }
+    previous = key;
+  }
+  return order;
+}
+
+function mergeIngredients(
+  base: Ingredient[],
+  ours: Ingredient[],
+  theirs: Ingredient[],
+  resolutions: Map<string, MergeResolution>,
+  conflicts: MergeConflict[],
+): Ingredient[] {
+  const baseByKey = keyIngredients(base);
+  const oursByKey = keyIngredients(ours);
+  const theirsByKey = keyIngredients(theirs);
+  const order = mergedOrder(oursByKey.keys(), theirsByKey.keys());
+
+  const merged: Ingredient[] = [];
+  for (const key of order) {
+    const picked = pick3(
+      baseByKey.get(key),
+      oursByKey.get(key),
+      theirsByKey.get(key),
+      sameIngredient,
+    );
+    let value: Ingredient | undefined;
+    if (picked.ok) {
+      value = picked.value;
+    } else {
+      const conflict: MergeConflict = {
+        id: `ingredient:${key}`,
+        field: "ingredients",
+        base: baseByKey.get(key),
+        ours: oursByKey.get(key),
+        theirs: theirsByKey.get(key),
+      };
+      const resolved = resolve(conflict, resolutions);
+      if (!resolved) {
+        conflicts.push(conflict);
+        value = oursByKey.get(key) ?? theirsByKey.get(key);
+      } else {
+        value = resolved.value as Ingredient | undefined;
+      }
+    }
+    if (value) merged.push(value);
+  }
+  return merged;
+}
+
+/**
+ * Longest-common-subsequence matches between two step lists, as index pairs.
+ */
+function matchSteps(a: Step[], b: Step[]): Array<[number, number]> {
+  const lengths = Array.from(
+    { length: a.length + 1 },
+    () => new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = sameStep(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (sameStep(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * diff3 over steps: base steps kept by both sides are stable anchors; each run
+ * between anchors is merged with the three-way rule as a whole.
+ */
+function mergeSteps(
+  base: Step[],
+  ours: Step[],
+  theirs: Step[],
+  resolutions: Map<string, MergeResolution>,
+  conflicts: MergeConflict[],
+): Step[] {
+  const oursAt = new Map(matchSteps(base, ours));
+  const theirsAt = new Map(matchSteps(base, theirs));
+  const anchors: Array<[number, number, number]> = [];
+  for (let b = 0; b < base.length; b++) {
+    const o = oursAt.get(b);
+    const t = theirsAt.get(b);
+    if (o !== undefined && t !== undefined) anchors.push([b, o, t]);
+  }
+  anchors.push([base.length, ours.length, theirs.length]);
+
+  const sameRun = (x?: Step[], y?: Step[]) =>
+    (x ?? []).length === (y ?? []).length &&
+    (x ?? []).every((step, i) => sameStep(step, (y ?? [])[i]));
+
+  const merged: Step[] = [];
+  let [b, o, t] = [0, 0, 0];
+  let conflictCount = 0;
+  for (const [nb, no, nt] of anchors) {
+    const baseRun = base.slice(b, nb);
+    const oursRun = ours.slice(o, no);
+    const theirsRun = theirs.slice(t, nt);
+    const picked = pick3(baseRun, oursRun, theirsRun, sameRun);
+    if (picked.ok) {
+      merged.push(...(picked.value ?? []));
+    } else {
+      conflictCount++;
+      const conflict: MergeConflict = {
+        id: `steps:${conflictCount}`,
+        field: "steps",
+        base: baseRun,
+        ours: oursRun,
+        theirs: theirsRun,
+      };
+      const resolved = resolve(conflict, resolutions);
+      if (!resolved) {
+        conflicts.push(conflict);
+        merged.push(...oursRun);
+      } else {
+        merged.push(...((resolved.value as Step[] | undefined) ?? []));
+      }
+    }
+    if (nb < base.length) merged.push(ours[no]);
+    [b, o, t] = [nb + 1, no + 1, nt + 1];
+  }
+  return merged;
+}
+
+/**
+ * Sections are merged by name. A section the merged ingredients or steps are
+ * still in is kept, even if one side removed it.
+ */
+function mergeSections(
+  base: RecipeSection[],
+  ours: RecipeSection[],
+  theirs: RecipeSection[],
+  used: Set<string>,
+  resolutions: Map<string, MergeResolution>,
+  conflicts: MergeConflict[],
+): RecipeSection[] {
+  const byName = (list: RecipeSection[]) =>
+    new Map(list.map((section) => [section.name, section]));
+  const baseByName = byName(base);
+  const oursByName = byName(ours);
+  const theirsByName = byName(theirs);
+
+  const merged: RecipeSection[] = [];
+  for (const name of mergedOrder(oursByName.keys(), theirsByName.keys())) {
+    const picked = pick3(
+      baseByName.get(name),
+      oursByName.get(name),
+      theirsByName.get(name),
+      same,
+    );
+    let value: RecipeSection | undefined;
+    if (picked.ok) {
+      value = picked.value;
+    } else {
+      const conflict: MergeConflict = {
+        id: `section:${name}`,
+        field: "sections",
+        base: baseByName.get(name),
+        ours: oursByName.get(name),
+        theirs: theirsByName.get(name),
+      };
+      const resolved = resolve(conflict, resolutions);
+      if (!resolved) {
+        conflicts.push(conflict);
+        value = oursByName.get(name) ?? theirsByName.get(name);
+      } else {
+        value = resolved.value as RecipeSection | undefined;
+      }
+    }
+    if (!value && used.has(name)) {
+      value = oursByName.get(name) ?? theirsByName.get(name);
+    }
+    if (value) merged.push(value);
+  }
+  return merged;
+}
+
+/**
+ * threeWayMerge(base, ours, theirs, resolutions): merges the parent's changes
+ * (base -> theirs) into the fork (base -> ours).
+ *
+ * Edits made on only one side are applied; identical edits on both sides agree.
+ * Everything else becomes a conflict unless `resolutions` settles it. While
+ * conflicts remain, `merged` holds the fork's version at those places.
+ */
+export function threeWayMerge(
+  base: RecipeSnapshot,
+  ours: RecipeSnapshot,
+  theirs: RecipeSnapshot,
+  resolutions: MergeResolution[] = [],
+): MergeResult {
+  const byId = new Map(resolutions.map((r) => [r.conflict, r]));
+  const conflicts: MergeConflict[] = [];
+
+  const scalar = <T>(
+    field: "title" | "description" | "yield",
+    pickFrom: (s: RecipeSnapshot) => T | undefined,
+  ): T | undefined => {
+    const picked = pick3(
+      pickFrom(base),
+      pickFrom(ours),
+      pickFrom(theirs),
+      same,
+    );
+    if (picked.ok) return picked.value;
+    const conflict: MergeConflict = {
+      id: field,
+      field,
+      base: pickFrom(base),
+      ours: pickFrom(ours),
+      theirs: pickFrom(theirs),
+    };
+    const resolved = resolve(conflict, byId);
+    if (resolved) return resolved.value as T | undefined;
+    conflicts.push(conflict);
+    return pickFrom(ours);
+  };
+
+  const merged: RecipeSnapshot = {
+    title: scalar<string>("title", (s) => s.title) ?? ours.title,
+    ingredients: mergeIngredients(
+      base.ingredients,
+      ours.ingredients,
+      theirs.ingredients,
+      byId,
+      conflicts,
+    ),
+    steps: mergeSteps(base.steps, ours.steps, theirs.steps, byId, conflicts),
+  };
+  const description = scalar<string>(
+    "description",
+    (s) => s.description ?? undefined,
+  );
+  if (description !== undefined) merged.description = description;
+  const recipeYield = scalar<RecipeYield>("yield", (s) => s.yield ?? undefined);
+  if (recipeYield !== undefined) merged.yield = recipeYield;
+  const used = new Set(
+    [...merged.ingredients, ...merged.steps].flatMap(({ section }) =>
+      section === undefined ? [] : [section]
+    ),
+  );
+  const sections = mergeSections(
+    base.sections ?? [],
+    ours.sections ?? [],
+    theirs.sections ?? [],
+    used,
+    byId,
+    conflicts,
+  );
+  if (sections.length > 0) merged.sections = sections;
+
+  return { merged, conflicts };
+}
@@ -0,0 +1,60 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  covers,
+  matchPantry,
+  normalizeIngredientName,
+  pantryPattern,
+} from "./pantry.ts";
+
+Deno.test("normalizeIngredientName: case, plurals and preparation words", () => {
+  assertEquals(
+    normalizeIngredientName("Cherry Tomatoes (halved)"),
+    "cherry tomato",
+  );
+  assertEquals(normalizeIngredientName("fresh blueberries"), "blueberry");
+  assertEquals(normalizeIngredientName("Eggs, beaten"), "egg");
+  assertEquals(normalizeIngredientName("3 garlic cloves"), "garlic");
+  assertEquals(normalizeIngredientName("Jalapeño"), "jalapeno");
+  assertEquals(normalizeIngredientName("bay leaves"), "bay leaf");
+  assertEquals(normalizeIngredientName("  "), "");
+});
+
+Deno.test("normalizeIngredientName: synonyms share one name", () => {
+  assertEquals(normalizeIngredientName("Green Onions"), "scallion");
+  assertEquals(normalizeIngredientName("spring onion"), "scallion");
+  assertEquals(normalizeIngredientName("courgettes"), "zucchini");
+  assertEquals(
+    normalizeIngredientName("confectioners' sugar"),
+    "powdered sugar",
+  );
+});
+
+Deno.test("covers: the last word must agree", () => {
+  assertEquals(covers("flour", "all purpose flour"), true);
+  assertEquals(covers("cheddar cheese", "cheese"), true);
+  assertEquals(covers("garlic", "garlic powder"), false);
+  assertEquals(covers("red onion", "white onion"), false);
+});
+
+Deno.test("matchPantry: coverage, missing names and staples", () => {
+  const onHand = ["Eggs", "scallions", "butter"].map(normalizeIngredientName);
+  const match = matchPantry(onHand, [
+    "eggs",
+    "green onion",
+    "Salt",
+    "cheddar cheese",
+    "Egg",
+  ]);
+  assertEquals(match.matched, ["eggs", "green onion", "Salt"]);
+  assertEquals(match.missing, ["cheddar cheese"]);
+  assertEquals(match.coverage, 0.75);
+  assertEquals(matchPantry(onHand, []).coverage, 0);
+});
+
+Deno.test("pantryPattern: finds raw names the on-hand names may cover", () => {
+  const pattern = pantryPattern(["blueberry", "scallion"])!;
+  assertEquals(pattern.test("Fresh Blueberries"), true);
+  assertEquals(pattern.test("spring onions"), true);
+  assertEquals(pattern.test("carrots"), false);
+  assertEquals(pantryPattern([]), undefined);
+});
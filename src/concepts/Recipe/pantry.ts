@@ -0,0 +1,200 @@
+/**
+ * Matching recipe ingredients against the ingredients a user has on hand.
+ * Ingredient names are free text, so both sides are normalized first: case,
+ * accents, punctuation, preparation words ("fresh", "chopped"), plurals and
+ * common synonyms ("green onion" and "spring onion" are both "scallion").
+ */
+
+// Words that describe how an ingredient is prepared or sized, not what it is
+const DESCRIPTORS = new Set([
+  "fresh",
+  "freshly",
+  "dried",
+  "chopped",
+  "diced",
+  "minced",
+  "sliced",
+  "grated",
+  "shredded",
+  "crushed",
+  "peeled",
+  "large",
+  "medium",
+  "small",
+  "ripe",
+  "whole",
+  "finely",
+  "roughly",
+  "thinly",
+  "organic",
+  "of",
+  "a",
+  "the",
+]);
+
+// How an ingredient is counted out; dropped after a name ("garlic cloves" is garlic)
+const FORMS = new Set(["clove", "sprig", "bunch", "stalk", "head", "can"]);
+
+// Singular forms the suffix rules below get wrong
+const IRREGULAR_SINGULARS: Record<string, string> = {
+  leaves: "leaf",
+  halves: "half",
+  loaves: "loaf",
+  knives: "knife",
+  potatoes: "potato",
+  tomatoes: "tomato",
+  mangoes: "mango",
+  cloves: "clove",
+  olives: "olive",
+  chives: "chive",
+  anchovies: "anchovy",
+  molasses: "molasses",
+  hummus: "hummus",
+  couscous: "couscous",
+  asparagus: "asparagus",
+  lentils: "lentil",
+};
+
+/**
+ * Groups of names for the same ingredient; every name in a group normalizes
+ * to the first one. Names are written already normalized (singular, lowercase).
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ["scallion", "green onion", "spring onion"],
+  ["cilantro", "coriander leaf"],
+  ["zucchini", "courgette"],
+  ["eggplant", "aubergine"],
+  ["chickpea", "garbanzo bean", "garbanzo"],
+  ["bell pepper", "capsicum", "sweet pepper"],
+  ["powdered sugar", "icing sugar", "confectioner sugar"],
+  ["cornstarch", "cornflour", "corn starch"],
+  ["heavy cream", "double cream", "whipping cream", "heavy whipping cream"],
+  ["baking soda", "bicarbonate soda", "bicarb soda", "sodium bicarbonate"],
+  ["all purpose flour", "plain flour", "ap flour"],
+  ["shrimp", "prawn"],
+  ["arugula", "rocket"],
+  ["beet", "beetroot"],
+  ["ground beef", "beef mince"],
+  ["romaine", "cos lettuce", "romaine lettuce"],
+];
+
+const SYNONYMS = new Map<string, string>(
+  SYNONYM_GROUPS.flatMap((group) => group.map((name) => [name, group[0]])),
+);
+
+/**
+ * Ingredients assumed to be on hand, so a recipe is not marked as missing them.
+ */
+export const PANTRY_STAPLES = ["water", "salt", "black pepper", "ice"];
+
+function singular(word: string): string {
+  if (IRREGULAR_SINGULARS[word]) return IRREGULAR_SINGULARS[word];
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (/(ch|sh|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("oes")) return word.slice(0, -2);
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * normalizeIngredientName(name): the comparable form of an ingredient name,
+ * e.g. "Fresh Green Onions" -> "scallion", "Cherry Tomatoes (halved)" ->
+ * "cherry tomato".
+ * Returns "" when nothing is left.
+ */
+export function normalizeIngredientName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/\([^)]*\)/g, " ")
+    .split(",")[0]
+    .replace(/[^a-z\s-]/g, " ")
+    .replace(/-/g, " ")
+    .split(/\s+/)
+    .filter((word) => word !== "" && !DESCRIPTORS.has(word))
+    .map(singular);
+  if (words.length > 1 && FORMS.has(words[words.length - 1])) words.pop();
+  const phrase = words.join(" ");
+  return SYNONYMS.get(phrase) ?? phrase;
+}
+
+/**
+ * Whether something on hand covers what a recipe calls for. Either may be the
+ * more specific name, as long as they name the same kind of thing: the last
+ * word must agree ("flour" covers "all purpose flour", but "garlic" does not
+ * cover "garlic powder").
+ */
+export function covers(onHand: string, needed: string): boolean {
+  if (onHand === "" || needed === "") return false;
+  if (onHand === needed) return true;
+  const have = onHand.split(" ");
+  const need = needed.split(" ");
+  if (have[have.length - 1] !== need[need.length - 1]) return false;
+  const [shorter, longer] = have.length <= need.length
+    ? [have, need]
+    : [need, have];
+  return shorter.every((word) => longer.includes(word));
+}
+
+export interface PantryMatch {
+  coverage: number; // share of the recipe's ingredients on hand, 0 to 1
+  matched: string[]; // recipe ingredient names that are on hand
+  missing: string[]; // recipe ingredient names that are not
+}
+
+const STAPLES = PANTRY_STAPLES.map(normalizeIngredientName);
+
+/**
+ * matchPantry(onHand, ingredientNames): which of a recipe's ingredients are
+ * covered by the normalized on-hand names. Staples count as on hand; an
+ * ingredient listed twice counts once.
+ */
+export function matchPantry(
+  onHand: string[],
+  ingredientNames: string[],
+): PantryMatch {
+  const available = [...onHand, ...STAPLES];
+  const seen = new Set<string>();
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const name of ingredientNames) {
+    const normalized = normalizeIngredientName(name);
+    if (normalized === "" || seen.has(normalized)) continue;
+    seen.add(normalized);
+    if (available.some((have) => covers(have, normalized))) {
+      matched.push(name);
+    } else {
+      missing.push(name);
+    }
+  }
+  const total = matched.length + missing.length;
+  return {
+    coverage: total === 0 ? 0 : matched.length / total,
+    matched,
+    missing,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A case-insensitive pattern that matches any raw ingredient name that might
+ * be covered by the on-hand names: the stem of the last word of each name and
+ * of its synonyms. Used to narrow the database query before exact matching.
+ */
+export function pantryPattern(onHand: string[]): RegExp | undefined {
+  const stems = new Set<string>();
+  for (const name of onHand) {
+    const group = SYNONYM_GROUPS.find((names) => names[0] === name) ?? [name];
+    for (const variant of group) {
+      const head = variant.split(" ").pop() ?? "";
+      // "berry" also finds "berries", "leaf" finds "leaves"
+      const stem = head.length > 3 ? head.replace(/[yfe]$/, "") : head;
+      if (stem !== "") stems.add(escapeRegExp(stem));
+    }
+  }
+  return stems.size === 0 ? undefined : new RegExp([...stems].join("|"), "i");
+}
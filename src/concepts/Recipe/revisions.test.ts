@@ -0,0 +1,172 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  diffHasChanges,
+  diffIngredients,
+  diffSections,
+  diffSnapshots,
+  diffSteps,
+} from "./revisions.ts";
+
+Deno.test("diffIngredients", async (t) => {
+  await t.step("matches ingredients by name", () => {
+    const changes = diffIngredients(
+      [
+        { name: "Flour", quantity: "2 cups" },
+        { name: "Sugar", quantity: "1 cup" },
+        { name: "Eggs", quantity: "2" },
+      ],
+      [
+        { name: "Eggs", quantity: "2" },
+        { name: "flour", quantity: "2 1/2 cups" },
+        { name: "Vanilla", quantity: "1 tsp" },
+      ],
+    );
+    assertEquals(changes, [
+      {
+        kind: "modified",
+        fromIndex: 0,
+        toIndex: 1,
+        before: { name: "Flour", quantity: "2 cups" },
+        after: { name: "flour", quantity: "2 1/2 cups" },
+        fields: ["name", "quantity"],
+      },
+      {
+        kind: "added",
+        toIndex: 2,
+        after: { name: "Vanilla", quantity: "1 tsp" },
+      },
+      {
+        kind: "removed",
+        fromIndex: 1,
+        before: { name: "Sugar", quantity: "1 cup" },
+      },
+    ]);
+  });
+
+  await t.step("ignores derived parsedQuantity", () => {
+    assertEquals(
+      diffIngredients(
+        [{ name: "Salt", quantity: "1 tsp" }],
+        [{
+          name: "Salt",
+          quantity: "1 tsp",
+          parsedQuantity: { kind: "exact", amount: 1, unit: "tsp" },
+        }],
+      ),
+      [],
+    );
+  });
+});
+
+Deno.test("diffSteps", async (t) => {
+  const mix = { description: "Mix." };
+  const bake = { description: "Bake for 20 minutes." };
+  const cool = { description: "Cool." };
+
+  await t.step(
+    "reports inserted and removed steps around unchanged ones",
+    () => {
+      const rest = { description: "Rest the dough." };
+      assertEquals(diffSteps([mix, bake, cool], [mix, rest, bake]), [
+        { kind: "added", toIndex: 1, after: rest },
+        { kind: "removed", fromIndex: 2, before: cool },
+      ]);
+    },
+  );
+
+  await t.step("pairs rewritten steps in place as modifications", () => {
+    const longer = { description: "Bake for 25 minutes." };
+    assertEquals(diffSteps([mix, bake, cool], [mix, longer, cool]), [
+      {
+        kind: "modified",
+        fromIndex: 1,
+        toIndex: 1,
+        before: bake,
+        after: longer,
+        fields: ["description"],
+      },
+    ]);
+  });
+
+  await t.step("notices note-only changes", () => {
+    const withNote = { description: "Mix.", notes: "Do not overmix." };
+    assertEquals(diffSteps([mix], [withNote]), [
+      {
+        kind: "modified",
+        fromIndex: 0,
+        toIndex: 0,
+        before: mix,
+        after: withNote,
+        fields: ["notes"],
+      },
+    ]);
+  });
+});
+
+Deno.test("diffSnapshots only reports changed scalar fields", () => {
+  const base = {
+    title: "Bread",
+    ingredients: [{ name: "Flour", quantity: "500 g" }],
+    steps: [{ description: "Knead." }],
+    yield: { amount: "1 loaf" },
+  };
+  assertEquals(diffSnapshots(base, { ...base }), {
+    ingredients: [],
+    steps: [],
+  });
+  assertEquals(diffHasChanges(diffSnapshots(base, { ...base })), false);
+  assertEquals(
+    diffSnapshots(base, {
+      ...base,
+      title: "Rye Bread",
+      description: "Dense.",
+      yield: { amount: "2 loaves" },
+    }),
+    {
+      ingredients: [],
+      steps: [],
+      title: { before: "Bread", after: "Rye Bread" },
+      description: { before: undefined, after: "Dense." },
+      yield: { before: { amount: "1 loaf" }, after: { amount: "2 loaves" } },
+    },
+  );
+});
+
+Deno.test("diffSnapshots reports section changes", () => {
+  const base = {
+    title: "Pie",
+    ingredients: [{ name: "Apples", quantity: "6", section: "Filling" }],
+    steps: [{ description: "Bake." }],
+    sections: [
+      { name: "Filling" },
+      { name: "Crust", component: { recipe: "recipe:dough" } },
+    ],
+  };
+  const crust = { name: "Crust", component: { recipe: "recipe:shortcrust" } };
+  const diff = diffSnapshots(base, {
+    ...base,
+    sections: [base.sections[0], crust],
+  });
+  assertEquals(diff, {
+    ingredients: [],
+    steps: [],
+    sections: [{
+      kind: "modified",
+      fromIndex: 1,
+      toIndex: 1,
+      before: base.sections[1],
+      after: crust,
+      fields: ["component"],
+    }],
+  });
+  assertEquals(diffHasChanges(diff), true);
+
+  const topping = { name: "Topping" };
+  assertEquals(
+    diffSections(base.sections, [topping, base.sections[1]]),
+    [
+      { kind: "added", toIndex: 0, after: topping },
+      { kind: "removed", fromIndex: 0, before: base.sections[0] },
+    ],
+  );
+});
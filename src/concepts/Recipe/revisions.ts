@@ -0,0 +1,304 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import type { RecipeYield } from "./scaling.ts";
+import type { RecipeSection } from "./composition.ts";
+
+/**
+ * Why a revision was recorded.
+ * - create:     the recipe was created (or forked)
+ * - baseline:   the state of a recipe that predates revision history, captured before its first tracked change
+ * - manualEdit: updateRecipeDetails
+ * - aiDraft:    applyDraft
+ * - revert:     revertToRevision
+ * - merge:      mergeFromParent
+ */
+export type RevisionCause =
+  | "create"
+  | "baseline"
+  | "manualEdit"
+  | "aiDraft"
+  | "revert"
+  | "merge";
+
+/**
+ * The versioned content of a recipe. Ownership, tags and fork links are
+ * metadata and are not part of a revision.
+ */
+export interface RecipeSnapshot {
+  title: string;
+  description?: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  yield?: RecipeYield;
+  sections?: RecipeSection[];
+}
+
+/**
+ * One entry in a structured list diff. Indices refer to the position in the
+ * "before" list (fromIndex) and the "after" list (toIndex).
+ */
+export interface ListChange<T> {
+  kind: "added" | "removed" | "modified";
+  fromIndex?: number;
+  toIndex?: number;
+  before?: T;
+  after?: T;
+  fields?: string[]; // for "modified": which fields differ
+}
+
+export interface FieldChange<T> {
+  before?: T;
+  after?: T;
+}
+
+export interface RecipeDiff {
+  title?: FieldChange<string>;
+  description?: FieldChange<string>;
+  yield?: FieldChange<RecipeYield>;
+  ingredients: ListChange<Ingredient>[];
+  steps: ListChange<Step>[];
+  sections?: ListChange<RecipeSection>[]; // only when sections changed
+}
+
+/**
+ * Copies the versioned fields out of a recipe document.
+ */
+export function snapshotOf(recipe: RecipeSnapshot): RecipeSnapshot {
+  const snapshot: RecipeSnapshot = {
+    title: recipe.title,
+    ingredients: recipe.ingredients,
+    steps: recipe.steps,
+  };
+  // Optional fields may be stored as null; leave them out of the snapshot instead
+  if (recipe.description != null) snapshot.description = recipe.description;
+  if (recipe.yield != null) snapshot.yield = recipe.yield;
+  if (recipe.sections && recipe.sections.length > 0) {
+    snapshot.sections = recipe.sections;
+  }
+  return snapshot;
+}
+
+const INGREDIENT_FIELDS = [
+  "name",
+  "quantity",
+  "unit",
+  "notes",
+  "section",
+] as const;
+const STEP_FIELDS = ["description", "notes", "section"] as const;
+
+function changedFields<T extends object>(
+  before: T,
+  after: T,
+  fields: readonly (keyof T & string)[],
+): string[] {
+  return fields.filter((field) =>
+    (before[field] ?? "") !== (after[field] ?? "")
+  );
+}
+
+export function ingredientKey(ingredient: Ingredient): string {
+  return ingredient.name.trim().toLowerCase();
+}
+
+/**
+ * Ingredients are matched by name (case-insensitive), so a changed quantity
+ * shows up as "modified" rather than a removal plus an addition.
+ * Duplicate names are paired in order of appearance.
+ */
+export function diffIngredients(
+  before: Ingredient[],
+  after: Ingredient[],
+): ListChange<Ingredient>[] {
+  const changes: ListChange<Ingredient>[] = [];
+  const unmatched = new Map<string, number[]>();
+  before.forEach((ing, index) => {
+    const key = ingredientKey(ing);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), index]);
+  });
+
+  after.forEach((ing, toIndex) => {
+    const fromIndex = unmatched.get(ingredientKey(ing))?.shift();
+    if (fromIndex === undefined) {
+      changes.push({ kind: "added", toIndex, after: ing });
+      return;
+    }
+    const fields = changedFields(before[fromIndex], ing, INGREDIENT_FIELDS);
+    if (fields.length > 0) {
+      changes.push({
+        kind: "modified",
+        fromIndex,
+        toIndex,
+        before: before[fromIndex],
+        after: ing,
+        fields,
+      });
+    }
+  });
+
+  for (const indices of unmatched.values()) {
+    for (const fromIndex of indices) {
+      changes.push({ kind: "removed", fromIndex, before: before[fromIndex] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Sections are matched by name, so a section whose component changed shows up
+ * as "modified".
+ */
+export function diffSections(
+  before: RecipeSection[],
+  after: RecipeSection[],
+): ListChange<RecipeSection>[] {
+  const changes: ListChange<RecipeSection>[] = [];
+  const remaining = new Map(
+    before.map((section, index) => [section.name, index]),
+  );
+  after.forEach((section, toIndex) => {
+    const fromIndex = remaining.get(section.name);
+    if (fromIndex === undefined) {
+      changes.push({ kind: "added", toIndex, after: section });
+      return;
+    }
+    remaining.delete(section.name);
+    if (
+      JSON.stringify(before[fromIndex].component ?? null) !==
+        JSON.stringify(section.component ?? null)
+    ) {
+      changes.push({
+        kind: "modified",
+        fromIndex,
+        toIndex,
+        before: before[fromIndex],
+        after: section,
+        fields: ["component"],
+      });
+    }
+  });
+  for (const fromIndex of remaining.values()) {
+    changes.push({ kind: "removed", fromIndex, before: before[fromIndex] });
+  }
+  return changes;
+}
+
+/**
+ * Steps are aligned on their description with a longest-common-subsequence
+ * pass. Unaligned steps that sit between the same anchors are reported as
+ * modified; any surplus on either side is added or removed.
+ */
+export function diffSteps(before: Step[], after: Step[]): ListChange<Step>[] {
+  const pairs = alignSteps(before, after);
+  const changes: ListChange<Step>[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [anchorI, anchorJ] of [...pairs, [before.length, after.length]]) {
+    // Unaligned run before this anchor
+    while (i < anchorI && j < anchorJ) {
+      changes.push({
+        kind: "modified",
+        fromIndex: i,
+        toIndex: j,
+        before: before[i],
+        after: after[j],
+        fields: changedFields(before[i], after[j], STEP_FIELDS),
+      });
+      i++;
+      j++;
+    }
+    for (; i < anchorI; i++) {
+      changes.push({ kind: "removed", fromIndex: i, before: before[i] });
+    }
+    for (; j < anchorJ; j++) {
+      changes.push({ kind: "added", toIndex: j, after: after[j] });
+    }
+    if (anchorI < before.length && anchorJ < after.length) {
+      // Same description; the notes may still differ
+      const fields = changedFields(
+        before[anchorI],
+        after[anchorJ],
+        STEP_FIELDS,
+      );
+      if (fields.length > 0) {
+        changes.push({
+          kind: "modified",
+          fromIndex: anchorI,
+          toIndex: anchorJ,
+          before: before[anchorI],
+          after: after[anchorJ],
+          fields,
+        });
+      }
+      i = anchorI + 1;
+      j = anchorJ + 1;
+    }
+  }
+  return changes;
+}
+
+function alignSteps(before: Step[], after: Step[]): Array<[number, number]> {
+  const text = (step: Step) => step.description.trim();
+  const lengths = Array.from(
+    { length: before.length + 1 },
+    () => new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = text(before[i]) === text(after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (text(before[i]) === text(after[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * diffSnapshots(before, after): a structured diff of two recipe snapshots.
+ * Scalar fields and sections appear only when they changed; list changes are
+ * in before-to-after order.
+ */
+export function diffSnapshots(
+  before: RecipeSnapshot,
+  after: RecipeSnapshot,
+): RecipeDiff {
+  const diff: RecipeDiff = {
+    ingredients: diffIngredients(before.ingredients, after.ingredients),
+    steps: diffSteps(before.steps, after.steps),
+  };
+  if (before.title !== after.title) {
+    diff.title = { before: before.title, after: after.title };
+  }
+  if ((before.description ?? "") !== (after.description ?? "")) {
+    diff.description = { before: before.description, after: after.description };
+  }
+  if (JSON.stringify(before.yield) !== JSON.stringify(after.yield)) {
+    diff.yield = { before: before.yield, after: after.yield };
+  }
+  const sections = diffSections(before.sections ?? [], after.sections ?? []);
+  if (sections.length > 0) diff.sections = sections;
+  return diff;
+}
+
+/**
+ * True if the diff records any change at all.
+ */
+export function diffHasChanges(diff: RecipeDiff): boolean {
+  return diff.ingredients.length > 0 || diff.steps.length > 0 ||
+    diff.title !== undefined || diff.description !== undefined ||
+    diff.yield !== undefined || diff.sections !== undefined;
+}
@@ -0,0 +1,85 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  baseYieldCount,
+  scaleIngredient,
+  scaleYield,
+  validateYield,
+} from "./scaling.ts";
+
+Deno.test("scaleIngredient", async (t) => {
+  await t.step("multiplies and promotes units", () => {
+    const butter = scaleIngredient({ name: "Butter", quantity: "8 tbsp" }, 2);
+    assertEquals(butter.quantity, "1 cup", "16 tbsp should become 1 cup.");
+    assertEquals(butter.unit, "cup");
+    assertEquals(butter.originalQuantity, "8 tbsp");
+    assertEquals(butter.scaled, true);
+
+    const flour = scaleIngredient({ name: "Flour", quantity: "750 g" }, 2);
+    assertEquals(flour.quantity, "1.5 kg");
+
+    const vanilla = scaleIngredient({ name: "Vanilla", quantity: "1 tsp" }, 3);
+    assertEquals(vanilla.quantity, "1 tbsp", "3 tsp should become 1 tbsp.");
+  });
+
+  await t.step("keeps readable units when promotion would be awkward", () => {
+    const oil = scaleIngredient({ name: "Oil", quantity: "3 tbsp" }, 2);
+    assertEquals(oil.quantity, "6 tbsp", "6 tbsp is clearer than 3/8 cup.");
+
+    const sugar = scaleIngredient({ name: "Sugar", quantity: "1/4 cup" }, 0.5);
+    assertEquals(sugar.quantity, "2 tbsp", "1/8 cup should drop to tbsp.");
+  });
+
+  await t.step("rounds to kitchen fractions", () => {
+    const milk = scaleIngredient({ name: "Milk", quantity: "1 cup" }, 1.5);
+    assertEquals(milk.quantity, "1 1/2 cups");
+
+    const eggs = scaleIngredient({ name: "Eggs", quantity: "3 large" }, 1 / 3);
+    assertEquals(eggs.quantity, "1 large");
+  });
+
+  await t.step("scales both ends of a range", () => {
+    const garlic = scaleIngredient(
+      { name: "Garlic", quantity: "2-3 cloves" },
+      2,
+    );
+    assertEquals(garlic.quantity, "4-6 cloves");
+  });
+
+  await t.step("scales a hyphenated mixed number as one amount", () => {
+    const flour = scaleIngredient({ name: "Flour", quantity: "1-1/2 cups" }, 2);
+    assertEquals(flour.quantity, "3 cups");
+  });
+
+  await t.step("passes non-scalable items through untouched", () => {
+    const salt = scaleIngredient({ name: "Salt", quantity: "to taste" }, 4);
+    assertEquals(salt.quantity, "to taste");
+    assertEquals(salt.scaled, false);
+
+    const splash = scaleIngredient(
+      { name: "Vinegar", quantity: "a generous splash" },
+      4,
+    );
+    assertEquals(splash.quantity, "a generous splash");
+    assertEquals(splash.scaled, false);
+  });
+});
+
+Deno.test("yield helpers", () => {
+  assertEquals(baseYieldCount({ servings: 4 }), 4);
+  assertEquals(baseYieldCount({ amount: "1 loaf" }), 1);
+  assertEquals(baseYieldCount({ amount: "a big batch" }), undefined);
+  assertEquals(scaleYield({ amount: "1 loaf" }, 2), { amount: "2 loaves" });
+  assertEquals(scaleYield({ servings: 4, amount: "24 cookies" }, 0.5), {
+    servings: 2,
+    amount: "12 cookies",
+  });
+  assertEquals(validateYield({ servings: 4 }), undefined);
+  assertEquals(
+    validateYield({ servings: -1 }),
+    "Yield servings must be a positive number.",
+  );
+  assertEquals(
+    validateYield({}),
+    "Yield must specify servings or an amount.",
+  );
+});
@@ -0,0 +1,202 @@
+import {
+  formatQuantity,
+  normalizeUnit,
+  type ParsedQuantity,
+  parseQuantity,
+  roundAmount,
+  unitByName,
+} from "@utils/quantity.ts";
+
+/**
+ * How much a recipe makes: a number of servings and/or a free-form amount
+ * such as "1 loaf" or "24 cookies". At least one of the two is set.
+ */
+export interface RecipeYield {
+  servings?: number;
+  amount?: string;
+}
+
+interface ScalableIngredient {
+  name: string;
+  quantity: string;
+  unit?: string;
+  notes?: string;
+  parsedQuantity?: ParsedQuantity;
+}
+
+export type ScaledIngredient<T extends ScalableIngredient> = T & {
+  unit?: string;
+  parsedQuantity?: ParsedQuantity;
+  originalQuantity: string; // the unscaled quantity text
+  scaled: boolean; // false for "to taste" and other non-numeric quantities
+};
+
+/**
+ * Validates a yield supplied by a client.
+ * @returns an error message, or undefined if the yield is well-formed
+ */
+export function validateYield(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null) {
+    return "Yield must be an object with servings and/or amount.";
+  }
+  const { servings, amount } = value as RecipeYield;
+  if (servings === undefined && amount === undefined) {
+    return "Yield must specify servings or an amount.";
+  }
+  if (
+    servings !== undefined &&
+    (typeof servings !== "number" || !Number.isFinite(servings) ||
+      servings <= 0)
+  ) {
+    return "Yield servings must be a positive number.";
+  }
+  if (
+    amount !== undefined && (typeof amount !== "string" || amount.trim() === "")
+  ) {
+    return "Yield amount must be a non-empty string.";
+  }
+  return undefined;
+}
+
+/**
+ * Reads a written yield such as "4", "Serves 4", "4 servings" or "1 loaf".
+ * A bare number or a number of servings/people/portions becomes servings;
+ * any other text is kept as an amount.
+ */
+export function parseYield(text: string): RecipeYield | undefined {
+  const trimmed = text.replace(/\s+/g, " ").trim();
+  const servings = trimmed.match(
+    /^(?:serves\s+|makes\s+)?(\d+)(?:\s*(?:servings?|people|persons?|portions?))?$/i,
+  );
+  if (servings && Number(servings[1]) > 0) {
+    return { servings: Number(servings[1]) };
+  }
+  return trimmed ? { amount: trimmed } : undefined;
+}
+
+/**
+ * The number a target is scaled against: servings if known, otherwise the
+ * leading number of the yield amount ("1 loaf" -> 1, "24 cookies" -> 24).
+ */
+export function baseYieldCount(recipeYield: RecipeYield): number | undefined {
+  if (recipeYield.servings !== undefined) return recipeYield.servings;
+  if (recipeYield.amount === undefined) return undefined;
+  const parsed = parseQuantity(recipeYield.amount);
+  return parsed.amount && parsed.amount > 0 ? parsed.amount : undefined;
+}
+
+/**
+ * Scales the yield itself so the response reads "2 loaves" rather than "1 loaf".
+ */
+export function scaleYield(
+  recipeYield: RecipeYield,
+  factor: number,
+): RecipeYield {
+  const scaled: RecipeYield = {};
+  if (recipeYield.servings !== undefined) {
+    scaled.servings = roundAmount(recipeYield.servings * factor);
+  }
+  if (recipeYield.amount !== undefined) {
+    scaled.amount = scaleText(recipeYield.amount, factor) ??
+      recipeYield.amount;
+  }
+  return scaled;
+}
+
+/**
+ * Scales a single ingredient by `factor`.
+ *
+ * Measured amounts are multiplied, rounded to kitchen-friendly values and
+ * promoted or demoted to a readable unit (16 tbsp -> 1 cup). Quantities with
+ * no numeric amount ("to taste", unparsed text) pass through unchanged.
+ */
+export function scaleIngredient<T extends ScalableIngredient>(
+  ingredient: T,
+  factor: number,
+): ScaledIngredient<T> {
+  const parsed = ingredient.parsedQuantity ??
+    parseQuantity(ingredient.quantity, ingredient.unit);
+  const unchanged = {
+    ...ingredient,
+    originalQuantity: ingredient.quantity,
+    scaled: false,
+  };
+  if (
+    parsed.amount === undefined ||
+    (parsed.kind !== "exact" && parsed.kind !== "range")
+  ) {
+    return unchanged;
+  }
+
+  const unit = unitByName(parsed.unit);
+  if (!unit) {
+    // Unitless counts ("2 large"): scale the number, keep the descriptive text.
+    const quantity = scaleText(ingredient.quantity, factor);
+    if (quantity === undefined) return unchanged;
+    return {
+      ...ingredient,
+      quantity,
+      parsedQuantity: scaleParsed(parsed, factor),
+      originalQuantity: ingredient.quantity,
+      scaled: true,
+    };
+  }
+
+  const low = normalizeUnit(parsed.amount * factor, unit);
+  const result: ParsedQuantity = {
+    kind: parsed.kind,
+    amount: roundAmount(low.amount, low.unit),
+    unit: low.unit.name,
+    dimension: low.unit.dimension,
+  };
+  if (parsed.kind === "range" && parsed.maxAmount !== undefined) {
+    // Express both ends of a range in the unit chosen for the lower bound.
+    const high = (parsed.maxAmount * factor * unit.toBase) / low.unit.toBase;
+    result.maxAmount = roundAmount(high, low.unit);
+  }
+
+  return {
+    ...ingredient,
+    quantity: formatQuantity(result) ?? ingredient.quantity,
+    unit: low.unit.name,
+    parsedQuantity: result,
+    originalQuantity: ingredient.quantity,
+    scaled: true,
+  };
+}
+
+function scaleParsed(parsed: ParsedQuantity, factor: number): ParsedQuantity {
+  const scaled: ParsedQuantity = { ...parsed };
+  if (parsed.amount !== undefined) {
+    scaled.amount = roundAmount(parsed.amount * factor);
+  }
+  if (parsed.maxAmount !== undefined) {
+    scaled.maxAmount = roundAmount(parsed.maxAmount * factor);
+  }
+  return scaled;
+}
+
+/**
+ * Replaces the leading amount in free text, keeping whatever follows it:
+ * scaleText("2 large", 1.5) -> "3 large".
+ */
+function scaleText(text: string, factor: number): string | undefined {
+  const parsed = parseQuantity(text);
+  if (parsed.amount === undefined) return undefined;
+  const rest = text.replace(
+    /^\s*[\d\s./½⅓⅔¼¾⅕⅛⅜⅝⅞]+(?:\s*(?:-|–|to)\s*[\d\s./½⅓⅔¼¾⅕⅛⅜⅝⅞]+)?/,
+    "",
+  ).trim();
+  const scaled = scaleParsed(parsed, factor);
+  const amountText = formatQuantity({ ...scaled, unit: undefined }) ?? "";
+  return rest ? `${amountText} ${pluralizeRest(rest, scaled)}` : amountText;
+}
+
+// "1 loaf" scaled to 2 should read "2 loaves", using the unit table where it knows the word.
+function pluralizeRest(rest: string, scaled: ParsedQuantity): string {
+  const [first, ...others] = rest.split(/\s+/);
+  const unit = unitByName(scaled.unit);
+  if (!unit || unit.name !== first) return rest;
+  const amount = scaled.maxAmount ?? scaled.amount ?? 1;
+  return [amount > 1 && unit.plural ? unit.plural : first, ...others].join(" ");
+}
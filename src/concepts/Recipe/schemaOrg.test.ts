@@ -0,0 +1,92 @@
+import { assertEquals, assertObjectMatch } from "jsr:@std/assert";
+import { extractSchemaRecipe } from "./schemaOrg.ts";
+
+const pancakes = {
+  "@context": "https://schema.org",
+  "@type": "Recipe",
+  name: "Buttermilk Pancakes",
+  description: "Fluffy <b>weekend</b> pancakes &amp; syrup.",
+  keywords: "breakfast, Pancakes, breakfast",
+  recipeCategory: "Brunch",
+  recipeYield: ["4", "4 servings"],
+  recipeIngredient: ["2 cups flour", "2 eggs", "Butter, for serving"],
+  recipeInstructions: [
+    {
+      "@type": "HowToSection",
+      name: "Batter",
+      itemListElement: [
+        { "@type": "HowToStep", text: "Whisk the flour and eggs." },
+        { "@type": "HowToTip", text: "Lumps are fine." },
+      ],
+    },
+    { "@type": "HowToStep", text: "Cook on a hot griddle." },
+  ],
+};
+
+Deno.test("extractSchemaRecipe", async (t) => {
+  await t.step("reads a JSON-LD Recipe", () => {
+    const recipe = extractSchemaRecipe(JSON.stringify(pancakes));
+    if ("error" in recipe) throw new Error(recipe.error);
+    assertObjectMatch({ ...recipe }, {
+      title: "Buttermilk Pancakes",
+      description: "Fluffy weekend pancakes & syrup.",
+      tags: ["breakfast", "pancakes", "brunch"],
+      yield: { servings: 4 },
+      warnings: [],
+    });
+    assertEquals(recipe.ingredients[0], {
+      name: "flour",
+      quantity: "2 cups",
+      unit: "cup",
+    });
+    assertEquals(recipe.ingredients[2].quantity, "for serving");
+    assertEquals(recipe.steps, [
+      {
+        description: "Whisk the flour and eggs.",
+        notes: "Batter; Lumps are fine.",
+      },
+      { description: "Cook on a hot griddle." },
+    ]);
+  });
+
+  await t.step("finds the Recipe in an HTML page's @graph", () => {
+    const html = `<html><head>
+      <script type="application/ld+json">{ not json</script>
+      <script type="application/ld+json">${
+      JSON.stringify({
+        "@graph": [
+          { "@type": "WebPage", name: "Home" },
+          {
+            ...pancakes,
+            "@type": ["Recipe", "NewsArticle"],
+            recipeInstructions: "Mix.\nCook.",
+          },
+        ],
+      })
+    }</script></head><body></body></html>`;
+    const recipe = extractSchemaRecipe(html);
+    if ("error" in recipe) throw new Error(recipe.error);
+    assertEquals(recipe.title, "Buttermilk Pancakes");
+    assertEquals(recipe.steps, [{ description: "Mix." }, {
+      description: "Cook.",
+    }]);
+    assertEquals(recipe.warnings, [
+      "Skipped a JSON-LD script that is not valid JSON.",
+    ]);
+  });
+
+  await t.step("rejects documents without a usable Recipe", () => {
+    assertEquals(extractSchemaRecipe("<html></html>"), {
+      error: "No schema.org Recipe found in the document.",
+    });
+    assertEquals(extractSchemaRecipe("{"), {
+      error: "Document is not valid JSON-LD.",
+    });
+    assertEquals(
+      extractSchemaRecipe(
+        JSON.stringify({ ...pancakes, recipeInstructions: [] }),
+      ),
+      { error: "The schema.org Recipe has no instructions." },
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import { parseIngredientLine } from "./ingredientLine.ts";
+import { parseYield, type RecipeYield } from "./scaling.ts";
+
+/**
+ * A recipe read from a schema.org Recipe, ready to preview or pass to createRecipe.
+ * `warnings` lists what was skipped or could not be read.
+ */
+export interface ImportedRecipe {
+  title: string;
+  description?: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  tags: string[];
+  yield?: RecipeYield;
+  warnings: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const LD_JSON_SCRIPT =
+  /<script\b[^>]*\btype\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  deg: "°",
+  ndash: "–",
+  mdash: "—",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  hellip: "…",
+};
+
+/**
+ * Strips HTML tags and decodes entities, collapsing whitespace.
+ */
+function plainText(value: string): string {
+  return value
+    .replace(/<br\s*\/?>|<\/p>|<\/li>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(
+      /&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi,
+      (entity, code: string) => {
+        if (code[0] === "#") {
+          const point = code[1] === "x" || code[1] === "X"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+          return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+      },
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(node: JsonObject, type: string): boolean {
+  const types = Array.isArray(node["@type"]) ? node["@type"] : [node["@type"]];
+  return types.some((t) =>
+    typeof t === "string" && t.replace(/^schema:/, "") === type
+  );
+}
+
+/**
+ * Finds the first Recipe node in a JSON-LD value: the value itself, an
+ * element of a list, or a node in an @graph (searched depth-first).
+ */
+function findRecipeNode(value: unknown): JsonObject | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findRecipeNode(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (!isObject(value)) return undefined;
+  if (hasType(value, "Recipe")) return value;
+  return findRecipeNode(value["@graph"]);
+}
+
+function textOf(value: unknown): string {
+  if (typeof value === "string") return plainText(value);
+  if (typeof value === "number") return String(value);
+  if (isObject(value)) return textOf(value.text ?? value.name);
+  return "";
+}
+
+/**
+ * Reads recipeInstructions, which sites write as one string, a list of
+ * strings, HowToSteps, or HowToSections of HowToSteps. A section's name is
+ * kept as a note on its steps; a HowToTip becomes a note on the step before it.
+ */
+function readInstructions(
+  value: unknown,
+  steps: Step[],
+  warnings: string[],
+  section?: string,
+): void {
+  if (typeof value === "string") {
+    // A single block: one step per line or paragraph
+    const lines = value.split(/\r?\n|<br\s*\/?>|<\/p>/i).map(plainText)
+      .filter(Boolean);
+    for (const line of lines) addStep(steps, line, section);
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) readInstructions(item, steps, warnings, section);
+    return;
+  }
+  if (!isObject(value)) return;
+
+  if (hasType(value, "HowToSection")) {
+    const name = textOf(value.name) || section;
+    readInstructions(
+      value.itemListElement ?? value.steps,
+      steps,
+      warnings,
+      name,
+    );
+    return;
+  }
+  if (hasType(value, "HowToTip")) {
+    const tip = textOf(value);
+    const previous = steps[steps.length - 1];
+    if (!tip) return;
+    if (previous) {
+      previous.notes = previous.notes ? `${previous.notes}; ${tip}` : tip;
+    } else {
+      warnings.push(`Skipped a tip that comes before any step: "${tip}".`);
+    }
+    return;
+  }
+  if (value.itemListElement !== undefined) {
+    readInstructions(value.itemListElement, steps, warnings, section);
+    return;
+  }
+  const text = textOf(value);
+  if (text) addStep(steps, text, section);
+}
+
+function addStep(steps: Step[], description: string, section?: string) {
+  const step: Step = { description };
+  if (section) step.notes = section;
+  steps.push(step);
+}
+
+function readTags(node: JsonObject): string[] {
+  const values = [node.keywords, node.recipeCategory, node.recipeCuisine]
+    .flatMap((value) => Array.isArray(value) ? value : [value])
+    .filter((value): value is string => typeof value === "string")
+    .flatMap((value) => value.split(","))
+    .map((tag) => plainText(tag).toLowerCase())
+    .filter(Boolean);
+  return [...new Set(values)];
+}
+
+/**
+ * Reads recipeYield ("4", 4, "Serves 4", ["4", "4 servings"], "1 loaf"),
+ * using the first value that parses.
+ */
+function readYield(value: unknown): RecipeYield | undefined {
+  const candidates = Array.isArray(value) ? value : [value];
+  for (const candidate of candidates) {
+    if (typeof candidate === "number" && candidate > 0) {
+      return { servings: candidate };
+    }
+    if (typeof candidate !== "string") continue;
+    const parsed = parseYield(plainText(candidate));
+    if (parsed) return parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Parses a JSON-LD document, or every JSON-LD script in an HTML page, into
+ * the values that may hold a Recipe.
+ */
+function readJsonLd(
+  document: string,
+  warnings: string[],
+): unknown[] | { error: string } {
+  const trimmed = document.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return [JSON.parse(trimmed)];
+    } catch {
+      return { error: "Document is not valid JSON-LD." };
+    }
+  }
+
+  const values: unknown[] = [];
+  for (const match of trimmed.matchAll(LD_JSON_SCRIPT)) {
+    try {
+      values.push(JSON.parse(match[1].trim()));
+    } catch {
+      warnings.push("Skipped a JSON-LD script that is not valid JSON.");
+    }
+  }
+  return values;
+}
+
+/**
+ * extractSchemaRecipe(document): reads the first schema.org Recipe in a JSON-LD
+ * document or an HTML page's JSON-LD scripts. Nothing is fetched; the caller
+ * supplies the document body.
+ */
+export function extractSchemaRecipe(
+  document: string,
+): ImportedRecipe | { error: string } {
+  if (typeof document !== "string" || document.trim() === "") {
+    return { error: "Document cannot be empty." };
+  }
+
+  const warnings: string[] = [];
+  const values = readJsonLd(document, warnings);
+  if ("error" in values) return values;
+  const node = findRecipeNode(values);
+  if (!node) return { error: "No schema.org Recipe found in the document." };
+
+  const title = textOf(node.name) || textOf(node.headline);
+  if (!title) return { error: "The schema.org Recipe has no name." };
+
+  const ingredientLines = node.recipeIngredient ?? node.ingredients;
+  const ingredients =
+    (Array.isArray(ingredientLines) ? ingredientLines : [ingredientLines])
+      .map((line) => parseIngredientLine(textOf(line))?.ingredient)
+      .filter((ingredient): ingredient is Ingredient =>
+        ingredient !== undefined
+      );
+  if (ingredients.length === 0) {
+    return { error: "The schema.org Recipe has no ingredients." };
+  }
+
+  const steps: Step[] = [];
+  readInstructions(node.recipeInstructions, steps, warnings);
+  if (steps.length === 0) {
+    return { error: "The schema.org Recipe has no instructions." };
+  }
+
+  const recipe: ImportedRecipe = {
+    title,
+    ingredients,
+    steps,
+    tags: readTags(node),
+    warnings,
+  };
+  const description = textOf(node.description);
+  if (description) recipe.description = description;
+  const recipeYield = readYield(node.recipeYield);
+  if (recipeYield) recipe.yield = recipeYield;
+  return recipe;
+}
@@ -0,0 +1,93 @@
+import { assertEquals } from "jsr:@std/assert";
+import { buildSearchFilter, DEFAULT_SEARCH_LIMIT } from "./search.ts";
+
+Deno.test("buildSearchFilter: no criteria matches everything", () => {
+  assertEquals(buildSearchFilter({}), {
+    filter: {},
+    limit: DEFAULT_SEARCH_LIMIT,
+  });
+  assertEquals(buildSearchFilter({ text: "  " }), {
+    filter: {},
+    limit: DEFAULT_SEARCH_LIMIT,
+  });
+});
+
+Deno.test("buildSearchFilter: keeps $text at the top level", () => {
+  const built = buildSearchFilter({ text: " lemon cake ", owner: "user:ann" });
+  assertEquals(built, {
+    filter: {
+      $text: { $search: "lemon cake" },
+      $and: [{ owner: "user:ann" }],
+    },
+    limit: DEFAULT_SEARCH_LIMIT,
+  });
+});
+
+Deno.test("buildSearchFilter: tags match any or all", () => {
+  assertEquals(buildSearchFilter({ tags: ["vegan", " quick "] }), {
+    filter: { $and: [{ tags: { $in: ["vegan", "quick"] } }] },
+    limit: DEFAULT_SEARCH_LIMIT,
+  });
+  assertEquals(buildSearchFilter({ tags: ["vegan"], tagMode: "all" }), {
+    filter: { $and: [{ tags: { $all: ["vegan"] } }] },
+    limit: DEFAULT_SEARCH_LIMIT,
+  });
+  assertEquals(buildSearchFilter({ tagMode: "some" as "any" }), {
+    error: 'Tag mode must be "any" or "all".',
+  });
+});
+
+Deno.test("buildSearchFilter: ingredient names match case-insensitively as text", () => {
+  const built = buildSearchFilter({
+    includeIngredients: ["Tomato", "1.5% milk"],
+    excludeIngredients: ["nuts"],
+  });
+  if ("error" in built) throw new Error(built.error);
+  const [tomato, milk, nuts] = built.filter.$and as Array<
+    Record<string, unknown>
+  >;
+  const tomatoPattern = tomato["ingredients.name"] as RegExp;
+  assertEquals(tomatoPattern.test("cherry tomatoes"), true);
+  const milkPattern = milk["ingredients.name"] as RegExp;
+  assertEquals(milkPattern.test("1.5% milk"), true);
+  assertEquals(milkPattern.test("105% milk"), false);
+  const excluded = nuts["ingredients.name"] as { $nin: RegExp[] };
+  assertEquals(excluded.$nin[0].test("Pine Nuts"), true);
+});
+
+Deno.test("buildSearchFilter: forks and date ranges", () => {
+  assertEquals(
+    buildSearchFilter({
+      forksOnly: true,
+      createdFrom: "2024-01-01",
+      updatedTo: "2024-06-30T00:00:00.000Z",
+    }),
+    {
+      filter: {
+        $and: [
+          { forkedFrom: { $type: "string" } },
+          { created: { $gte: new Date("2024-01-01") } },
+          { updated: { $lte: new Date("2024-06-30T00:00:00.000Z") } },
+        ],
+      },
+      limit: DEFAULT_SEARCH_LIMIT,
+    },
+  );
+  assertEquals(buildSearchFilter({ createdFrom: "yesterday" }), {
+    error: "Created range must use valid dates.",
+  });
+  assertEquals(
+    buildSearchFilter({ updatedFrom: "2024-02-01", updatedTo: "2024-01-01" }),
+    { error: "Updated range must start before it ends." },
+  );
+});
+
+Deno.test("buildSearchFilter: validates lists and the limit", () => {
+  assertEquals(buildSearchFilter({ tags: "vegan" as unknown as string[] }), {
+    error: "Tags must be a list of strings.",
+  });
+  assertEquals(buildSearchFilter({ limit: 0 }), {
+    error: "Limit must be a whole number from 1 to 100.",
+  });
+  assertEquals(buildSearchFilter({ limit: 5 }), { filter: {}, limit: 5 });
+});
@@ -0,0 +1,159 @@
+import type { Filter } from "npm:mongodb";
+
+/**
+ * The recipe text index, created by the concept constructor. With these
+ * weights a word in the title counts ten times as much as a word in a step.
+ */
+export const TEXT_INDEX_NAME = "recipe_text_search";
+export const TEXT_INDEX_FIELDS = {
+  title: "text",
+  description: "text",
+  "ingredients.name": "text",
+  "steps.description": "text",
+} as const;
+export const TEXT_INDEX_WEIGHTS = {
+  title: 10,
+  "ingredients.name": 5,
+  description: 3,
+  "steps.description": 1,
+};
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * What _searchRecipes accepts. Every field is optional; the filters that are
+ * given must all match.
+ */
+export interface RecipeSearch {
+  text?: string; // words or "quoted phrases" in title, description, ingredient names or steps; -word excludes
+  tags?: string[];
+  tagMode?: "any" | "all"; // default "any"
+  owner?: string;
+  includeIngredients?: string[]; // every one must appear in an ingredient name
+  excludeIngredients?: string[]; // none may appear in an ingredient name
+  forksOnly?: boolean;
+  createdFrom?: string | Date;
+  createdTo?: string | Date;
+  updatedFrom?: string | Date;
+  updatedTo?: string | Date;
+  limit?: number;
+}
+
+// The stored fields the filter refers to
+interface SearchableRecipe {
+  owner: string;
+  tags: string[];
+  ingredients: Array<{ name: string }>;
+  forkedFrom?: string;
+  created: Date;
+  updated: Date;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function ingredientPattern(name: string): RegExp {
+  return new RegExp(escapeRegExp(name.trim()), "i");
+}
+
+function cleanList(value: unknown, field: string): string[] | string {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) {
+    return `${field} must be a list of strings.`;
+  }
+  return value.map((v) => v.trim()).filter(Boolean);
+}
+
+function dateRange(
+  from: unknown,
+  to: unknown,
+  field: string,
+): { $gte?: Date; $lte?: Date } | undefined | string {
+  const range: { $gte?: Date; $lte?: Date } = {};
+  for (const [key, value] of [["$gte", from], ["$lte", to]] as const) {
+    if (value === undefined || value === "") continue;
+    const date = new Date(value as string | Date);
+    if (Number.isNaN(date.getTime())) {
+      return `${field} range must use valid dates.`;
+    }
+    range[key] = date;
+  }
+  if (range.$gte && range.$lte && range.$gte > range.$lte) {
+    return `${field} range must start before it ends.`;
+  }
+  return range.$gte || range.$lte ? range : undefined;
+}
+
+/**
+ * buildSearchFilter(search): turns a RecipeSearch into a MongoDB filter and
+ * the result limit, or explains which field is invalid. Ingredient names match
+ * case-insensitively anywhere in the name, so "tomato" finds "cherry tomatoes".
+ */
+export function buildSearchFilter<T extends SearchableRecipe>(
+  search: RecipeSearch,
+): { filter: Filter<T>; limit: number } | { error: string } {
+  const filter: Record<string, unknown> = {};
+  const conditions: Record<string, unknown>[] = [];
+
+  if (search.text !== undefined) {
+    if (typeof search.text !== "string") {
+      return { error: "Search text must be a string." };
+    }
+    // $text has to stay at the top level of the filter
+    if (search.text.trim() !== "") {
+      filter.$text = { $search: search.text.trim() };
+    }
+  }
+
+  const tags = cleanList(search.tags, "Tags");
+  if (typeof tags === "string") return { error: tags };
+  const tagMode = search.tagMode ?? "any";
+  if (tagMode !== "any" && tagMode !== "all") {
+    return { error: 'Tag mode must be "any" or "all".' };
+  }
+  if (tags.length > 0) {
+    conditions.push({
+      tags: tagMode === "all" ? { $all: tags } : { $in: tags },
+    });
+  }
+
+  if (search.owner !== undefined && search.owner !== "") {
+    conditions.push({ owner: search.owner });
+  }
+
+  const include = cleanList(search.includeIngredients, "Included ingredients");
+  if (typeof include === "string") return { error: include };
+  for (const name of include) {
+    conditions.push({ "ingredients.name": ingredientPattern(name) });
+  }
+  const exclude = cleanList(search.excludeIngredients, "Excluded ingredients");
+  if (typeof exclude === "string") return { error: exclude };
+  if (exclude.length > 0) {
+    conditions.push({
+      "ingredients.name": { $nin: exclude.map(ingredientPattern) },
+    });
+  }
+
+  if (search.forksOnly === true) {
+    conditions.push({ forkedFrom: { $type: "string" } });
+  }
+
+  const created = dateRange(search.createdFrom, search.createdTo, "Created");
+  if (typeof created === "string") return { error: created };
+  if (created) conditions.push({ created });
+  const updated = dateRange(search.updatedFrom, search.updatedTo, "Updated");
+  if (typeof updated === "string") return { error: updated };
+  if (updated) conditions.push({ updated });
+
+  const limit = search.limit ?? DEFAULT_SEARCH_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    return {
+      error: `Limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}.`,
+    };
+  }
+
+  if (conditions.length > 0) filter.$and = conditions;
+  return { filter: filter as Filter<T>, limit };
+}
@@ -0,0 +1,96 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  checkIngredientUsage,
+  relinkSteps,
+  stepIngredientUses,
+  validateStepIngredients,
+} from "./stepIngredients.ts";
+
+const ingredients = [
+  { name: "Butter", quantity: "1/2 cup" },
+  { name: "Sugar", quantity: "1 cup" },
+  { name: "Eggs", quantity: "2 large" },
+];
+
+Deno.test("validateStepIngredients: indices in range, portions up to 1", () => {
+  const step = (ingredients: unknown) =>
+    [{ description: "Mix.", ingredients }] as Parameters<
+      typeof validateStepIngredients
+    >[0];
+  assertEquals(
+    validateStepIngredients(step([{ ingredient: 0, portion: 0.5 }]), 3),
+    undefined,
+  );
+  assertEquals(
+    validateStepIngredients(step([{ ingredient: 3 }]), 3),
+    "Each step ingredient must be the index of one of the recipe's ingredients.",
+  );
+  assertEquals(
+    validateStepIngredients(step([{ ingredient: 1 }, { ingredient: 1 }]), 3),
+    "A step cannot use the same ingredient twice.",
+  );
+  assertEquals(
+    validateStepIngredients(step([{ ingredient: 1, portion: 1.5 }]), 3),
+    "A step ingredient's portion must be greater than 0 and at most 1.",
+  );
+});
+
+Deno.test("relinkSteps: follows reordered ingredients and drops removed ones", () => {
+  const steps = [
+    {
+      description: "Cream the butter and sugar.",
+      ingredients: [{ ingredient: 0, portion: 0.5 }, { ingredient: 1 }],
+    },
+    { description: "Beat in the eggs.", ingredients: [{ ingredient: 2 }] },
+  ];
+  const reordered = [
+    { name: "large eggs", quantity: "2" },
+    { name: "sugar", quantity: "1 cup" },
+  ];
+  assertEquals(relinkSteps(steps, ingredients, reordered), [
+    {
+      description: "Cream the butter and sugar.",
+      ingredients: [{ ingredient: 1 }],
+    },
+    { description: "Beat in the eggs.", ingredients: [{ ingredient: 0 }] },
+  ]);
+});
+
+Deno.test("stepIngredientUses: a portion scales the quantity", () => {
+  const step = {
+    description: "Melt half the butter.",
+    ingredients: [{ ingredient: 0, portion: 0.5 }, { ingredient: 2 }],
+  };
+  assertEquals(stepIngredientUses(step, ingredients), [
+    {
+      ingredient: 0,
+      name: "Butter",
+      quantity: "1/4 cup",
+      unit: "cup",
+      portion: 0.5,
+    },
+    { ingredient: 2, name: "Eggs", quantity: "2 large" },
+  ]);
+});
+
+Deno.test("checkIngredientUsage: unused, unlisted and overused ingredients", () => {
+  const usage = checkIngredientUsage(ingredients, [
+    {
+      description: "Melt the butter with the vanilla.",
+      ingredients: [{ ingredient: 0, portion: 0.75 }],
+    },
+    {
+      description: "Brush the pan with olive oil.",
+      ingredients: [{ ingredient: 0, portion: 0.5 }],
+    },
+    { description: "Whisk the egg yolks." },
+  ]);
+  assertEquals(usage.unused, [{ ingredient: 1, name: "Sugar" }]);
+  assertEquals(usage.unlisted, [
+    { step: 0, name: "vanilla" },
+    { step: 1, name: "olive oil" },
+  ]);
+  assertEquals(usage.overused, [
+    { ingredient: 0, name: "Butter", portion: 1.25 },
+  ]);
+});
@@ -0,0 +1,354 @@
+import { covers, normalizeIngredientName } from "./pantry.ts";
+import { scaleIngredient } from "./scaling.ts";
+import type { ParsedQuantity } from "@utils/quantity.ts";
+
+/**
+ * Links from a step to the ingredients it uses. A step names ingredients by
+ * their index in the recipe's ingredient list; `portion` is the share of the
+ * ingredient the step uses, e.g. 0.5 for "half the butter" (all of it when
+ * absent).
+ */
+export interface StepIngredientRef {
+  ingredient: number;
+  portion?: number;
+}
+
+interface LinkedIngredient {
+  name: string;
+  quantity: string;
+  unit?: string;
+  parsedQuantity?: ParsedQuantity;
+}
+
+interface LinkedStep {
+  description: string;
+  ingredients?: StepIngredientRef[];
+}
+
+/**
+ * What goes into a step, for cook mode: the ingredient's index and name, and
+ * the amount the step uses (the portion of its quantity, when partial).
+ */
+export interface StepIngredientUse {
+  ingredient: number;
+  name: string;
+  quantity: string;
+  unit?: string;
+  portion?: number;
+}
+
+/**
+ * The report of checkIngredientUsage: ingredients no step uses, ingredients
+ * steps mention that the ingredient list lacks, and ingredients whose step
+ * portions add up to more than all of it.
+ */
+export interface IngredientUsage {
+  unused: Array<{ ingredient: number; name: string }>;
+  unlisted: Array<{ step: number; name: string }>;
+  overused: Array<{ ingredient: number; name: string; portion: number }>;
+}
+
+/**
+ * Common ingredients looked for in step text, written already normalized (see
+ * normalizeIngredientName). Water is left out, as recipes rarely list it, and
+ * so are words that are also verbs in steps ("cream the butter", "zest").
+ */
+const KNOWN_INGREDIENTS = [
+  "butter",
+  "sugar",
+  "brown sugar",
+  "powdered sugar",
+  "flour",
+  "egg",
+  "egg yolk",
+  "egg white",
+  "milk",
+  "buttermilk",
+  "heavy cream",
+  "sour cream",
+  "cream cheese",
+  "yogurt",
+  "cheese",
+  "parmesan",
+  "salt",
+  "pepper",
+  "oil",
+  "olive oil",
+  "vinegar",
+  "garlic",
+  "onion",
+  "scallion",
+  "shallot",
+  "ginger",
+  "lemon",
+  "lime",
+  "honey",
+  "maple syrup",
+  "vanilla",
+  "cinnamon",
+  "nutmeg",
+  "cumin",
+  "paprika",
+  "oregano",
+  "basil",
+  "thyme",
+  "rosemary",
+  "parsley",
+  "cilantro",
+  "baking soda",
+  "baking powder",
+  "yeast",
+  "cornstarch",
+  "chocolate",
+  "cocoa",
+  "rice",
+  "pasta",
+  "noodle",
+  "bread",
+  "breadcrumb",
+  "tomato",
+  "potato",
+  "carrot",
+  "celery",
+  "mushroom",
+  "spinach",
+  "bell pepper",
+  "chicken",
+  "beef",
+  "pork",
+  "bacon",
+  "sausage",
+  "shrimp",
+  "salmon",
+  "tofu",
+  "stock",
+  "broth",
+  "wine",
+  "soy sauce",
+  "mustard",
+  "mayonnaise",
+  "ketchup",
+  "nut",
+  "almond",
+  "walnut",
+  "raisin",
+];
+
+// Longest first, so "olive oil" is found before (and instead of) "oil"
+const MENTION_PATTERNS = [...KNOWN_INGREDIENTS]
+  .sort((a, b) => b.length - a.length)
+  .map((name) => ({
+    name,
+    pattern: new RegExp(
+      String.raw`\b${name.replace(/y$/, "(?:y|ies)")}(?:s|es)?\b`,
+      "gi",
+    ),
+  }));
+
+/**
+ * validateStepIngredients(steps, ingredientCount): checks the ingredient
+ * references of steps supplied by a client.
+ * @returns an error message, or undefined if every reference is well-formed
+ */
+export function validateStepIngredients(
+  steps: LinkedStep[],
+  ingredientCount: number,
+): string | undefined {
+  for (const step of steps) {
+    if (step.ingredients === undefined) continue;
+    if (!Array.isArray(step.ingredients)) {
+      return "Step ingredients must be a list of ingredient references.";
+    }
+    const seen = new Set<number>();
+    for (const ref of step.ingredients) {
+      const index = ref?.ingredient;
+      if (
+        !Number.isInteger(index) || index < 0 || index >= ingredientCount
+      ) {
+        return "Each step ingredient must be the index of one of the recipe's ingredients.";
+      }
+      if (seen.has(index)) {
+        return "A step cannot use the same ingredient twice.";
+      }
+      seen.add(index);
+      if (
+        ref.portion !== undefined &&
+        (typeof ref.portion !== "number" || !(ref.portion > 0) ||
+          ref.portion > 1)
+      ) {
+        return "A step ingredient's portion must be greater than 0 and at most 1.";
+      }
+    }
+  }
+  return undefined;
+}
+
+function withRefs<T extends LinkedStep>(
+  step: T,
+  refs: StepIngredientRef[],
+): T {
+  const { ingredients: _refs, ...rest } = step;
+  return (refs.length > 0 ? { ...rest, ingredients: refs } : rest) as T;
+}
+
+/**
+ * relinkSteps(steps, before, after): the steps with their ingredient
+ * references moved from the `before` ingredient list to `after`, e.g. when an
+ * edit reorders or removes ingredients. An ingredient is found again by its
+ * name, exactly (case aside) or else by its normalized name; references to
+ * ingredients that are gone are dropped.
+ */
+export function relinkSteps<T extends LinkedStep>(
+  steps: T[],
+  before: LinkedIngredient[],
+  after: LinkedIngredient[],
+): T[] {
+  const moved = new Map<number, number>();
+  const claimed = new Set<number>();
+  const exact = (ing: LinkedIngredient) => ing.name.trim().toLowerCase();
+  const loose = (ing: LinkedIngredient) => normalizeIngredientName(ing.name);
+  for (const key of [exact, loose]) {
+    before.forEach((ingredient, from) => {
+      if (moved.has(from)) return;
+      const to = after.findIndex((candidate, index) =>
+        !claimed.has(index) && key(candidate) === key(ingredient)
+      );
+      if (to === -1) return;
+      moved.set(from, to);
+      claimed.add(to);
+    });
+  }
+  return steps.map((step) => {
+    if (step.ingredients === undefined) return step;
+    const refs = step.ingredients.flatMap((ref) => {
+      const to = moved.get(ref.ingredient);
+      return to === undefined ? [] : [{ ...ref, ingredient: to }];
+    });
+    return withRefs(step, refs);
+  });
+}
+
+/**
+ * linkedOnly(steps, ingredientCount): the steps without references past the
+ * end of the ingredient list, for content put together from different
+ * versions of a recipe (a merge).
+ */
+export function linkedOnly<T extends LinkedStep>(
+  steps: T[],
+  ingredientCount: number,
+): T[] {
+  return steps.map((step) =>
+    step.ingredients === undefined ? step : withRefs(
+      step,
+      step.ingredients.filter((ref) => ref.ingredient < ingredientCount),
+    )
+  );
+}
+
+/**
+ * stepIngredientUses(step, ingredients): what goes into the step. A partial
+ * portion scales the ingredient's quantity, so half of "1/2 cup" reads "1/4 cup".
+ */
+export function stepIngredientUses(
+  step: LinkedStep,
+  ingredients: LinkedIngredient[],
+): StepIngredientUse[] {
+  return (step.ingredients ?? []).flatMap((ref) => {
+    const ingredient = ingredients[ref.ingredient];
+    if (!ingredient) return [];
+    const amount = ref.portion === undefined
+      ? ingredient
+      : scaleIngredient(ingredient, ref.portion);
+    const use: StepIngredientUse = {
+      ingredient: ref.ingredient,
+      name: ingredient.name,
+      quantity: amount.quantity,
+    };
+    if (amount.unit) use.unit = amount.unit;
+    if (ref.portion !== undefined) use.portion = ref.portion;
+    return [use];
+  });
+}
+
+/**
+ * The known ingredients a step's text mentions, normalized.
+ */
+function mentions(text: string): string[] {
+  let rest = text.toLowerCase();
+  const found: string[] = [];
+  for (const { name, pattern } of MENTION_PATTERNS) {
+    const remaining = rest.replace(pattern, " ");
+    if (remaining === rest) continue;
+    found.push(name);
+    rest = remaining;
+  }
+  return found;
+}
+
+/**
+ * Whether a listed ingredient accounts for a mention: one covers the other, or
+ * one's words are all in the other ("lemon" for "lemon juice").
+ */
+function accountsFor(listed: string, mention: string): boolean {
+  if (covers(listed, mention)) return true;
+  const a = listed.split(" ");
+  const b = mention.split(" ");
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.every((word) => longer.includes(word));
+}
+
+/**
+ * checkIngredientUsage(ingredients, steps): flags ingredients that no step
+ * uses and ingredients that steps mention but the list lacks. A step uses an
+ * ingredient it references or names in its text ("Cream the butter").
+ * Mentions are looked for among common ingredients only.
+ */
+export function checkIngredientUsage(
+  ingredients: LinkedIngredient[],
+  steps: LinkedStep[],
+): IngredientUsage {
+  const names = ingredients.map((ing) => normalizeIngredientName(ing.name));
+  const used = new Set<number>();
+  const portions = new Map<number, number>();
+  const unlisted: IngredientUsage["unlisted"] = [];
+
+  steps.forEach((step, stepIndex) => {
+    for (const ref of step.ingredients ?? []) {
+      used.add(ref.ingredient);
+      portions.set(
+        ref.ingredient,
+        (portions.get(ref.ingredient) ?? 0) + (ref.portion ?? 1),
+      );
+    }
+    const text = step.description ?? "";
+    const mentioned = mentions(text);
+    names.forEach((name, index) => {
+      // "eggs" names "egg"; "the lemon" names "lemon juice"
+      const head = name.split(" ").pop() ?? "";
+      if (
+        head !== "" &&
+        (new RegExp(String.raw`\b${head}`, "i").test(text) ||
+          mentioned.some((mention) => accountsFor(name, mention)))
+      ) {
+        used.add(index);
+      }
+    });
+    for (const mention of mentioned) {
+      if (!names.some((name) => name !== "" && accountsFor(name, mention))) {
+        unlisted.push({ step: stepIndex, name: mention });
+      }
+    }
+  });
+
+  return {
+    unused: ingredients.flatMap((ing, index) =>
+      used.has(index) ? [] : [{ ingredient: index, name: ing.name }]
+    ),
+    unlisted,
+    overused: [...portions].flatMap(([index, portion]) =>
+      portion > 1 + 1e-9 && ingredients[index]
+        ? [{ ingredient: index, name: ingredients[index].name, portion }]
+        : []
+    ),
+  };
+}
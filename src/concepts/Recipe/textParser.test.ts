@@ -0,0 +1,103 @@
+import { assertEquals, assertObjectMatch } from "jsr:@std/assert";
+import { parseRecipeText } from "./textParser.ts";
+
+Deno.test("parseRecipeText", async (t) => {
+  await t.step("follows headings and numbered steps", () => {
+    const parsed = parseRecipeText(`# Banana Bread
+A moist loaf for old bananas.
+Serves 8
+
+Ingredients:
+- 3 ripe bananas, mashed
+- 2 cups flour, sifted
+- Butter for greasing
+
+Method
+1. Preheat the oven to 180C.
+2. Mix everything together
+   until just combined.
+3. Bake for 1 hour.`);
+    if ("error" in parsed) throw new Error(parsed.error);
+    assertObjectMatch({ ...parsed }, {
+      title: "Banana Bread",
+      description: "A moist loaf for old bananas.",
+      yield: { servings: 8 },
+      ingredients: [
+        { name: "ripe bananas", quantity: "3", notes: "mashed" },
+        { name: "flour", quantity: "2 cups", unit: "cup", notes: "sifted" },
+        { name: "Butter", quantity: "for greasing" },
+      ],
+      steps: [
+        { description: "Preheat the oven to 180C." },
+        { description: "Mix everything together until just combined." },
+        { description: "Bake for 1 hour." },
+      ],
+    });
+    assertEquals(
+      parsed.lines.map(({ line, kind, index }) => [line, kind, index]),
+      [
+        [1, "title", undefined],
+        [2, "description", undefined],
+        [3, "yield", undefined],
+        [5, "heading", undefined],
+        [6, "ingredient", 0],
+        [7, "ingredient", 1],
+        [8, "ingredient", 2],
+        [10, "heading", undefined],
+        [11, "step", 0],
+        [12, "step", 1],
+        [13, "step", 1],
+        [14, "step", 2],
+      ],
+    );
+  });
+
+  await t.step("infers sections and paragraph steps without headings", () => {
+    const parsed = parseRecipeText(`Soup
+2 l water
+1 onion
+Salt
+Simmer the water with the onion.
+Season.
+
+Garnish:
+Top with herbs.`);
+    if ("error" in parsed) throw new Error(parsed.error);
+    assertEquals(parsed.ingredients.map((i) => i.name), [
+      "water",
+      "onion",
+      "Salt",
+    ]);
+    assertEquals(parsed.steps, [
+      { description: "Simmer the water with the onion. Season." },
+      { description: "Top with herbs.", notes: "Garnish" },
+    ]);
+    assertEquals(
+      parsed.lines.map(({ text, confidence }) => [text, confidence]),
+      [
+        ["Soup", 1],
+        ["2 l water", 1],
+        ["1 onion", 0.9],
+        ["Salt", 0.5],
+        ["Simmer the water with the onion.", 0.7],
+        ["Season.", 0.7],
+        ["Garnish:", 0.9],
+        ["Top with herbs.", 0.7],
+      ],
+    );
+  });
+
+  await t.step("flags ingredient-looking lines among the steps", () => {
+    const parsed = parseRecipeText(`Toast
+Directions
+Toast the bread.
+1 tbsp butter`);
+    if ("error" in parsed) throw new Error(parsed.error);
+    assertEquals(parsed.ingredients, []);
+    assertEquals(parsed.lines.at(-1)?.confidence, 0.5);
+  });
+
+  await t.step("rejects empty text", () => {
+    assertEquals(parseRecipeText("  \n "), { error: "Text cannot be empty." });
+  });
+});
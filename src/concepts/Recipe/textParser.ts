@@ -0,0 +1,228 @@
+import type { Ingredient } from "@concepts/Ingredient.ts";
+import type { Step } from "@concepts/Step.ts";
+import { parseIngredientLine } from "./ingredientLine.ts";
+import { parseYield, type RecipeYield } from "./scaling.ts";
+
+export type TextLineKind =
+  | "title"
+  | "description"
+  | "yield"
+  | "heading"
+  | "ingredient"
+  | "step";
+
+/**
+ * How one non-blank line of the pasted text was read. `index` points into the
+ * result's ingredients or steps for those kinds (several lines can make up one
+ * step). `confidence` runs from 0 to 1; lines at 0.5 or below were guesses the
+ * user should check.
+ */
+export interface ParsedTextLine {
+  line: number; // 1-based line number in the pasted text
+  text: string;
+  kind: TextLineKind;
+  index?: number;
+  confidence: number;
+}
+
+export interface ParsedRecipeText {
+  title: string;
+  description?: string;
+  ingredients: Ingredient[];
+  steps: Step[];
+  yield?: RecipeYield;
+  lines: ParsedTextLine[];
+}
+
+const INGREDIENTS_HEADING =
+  /^(?:ingredients?|what you(?:'|’)?ll need|you(?:'|’)?ll need|shopping list)$/i;
+const STEPS_HEADING =
+  /^(?:method|directions?|instructions?|steps?|preparation|how to make(?: it)?)$/i;
+// "For the sauce", "Topping:", "## Glaze" - a group within the ingredients or steps
+const SUBHEADING_TEXT = /^[\p{L}][\p{L}\s'’&-]{0,40}$/u;
+const YIELD_LINE = /^(?:serves|servings|yields?|makes)\b\s*:?\s*(.+)$/i;
+// "1. Preheat", "2) Mix", "Step 3: Bake"
+const NUMBERED = /^(?:step\s*)?\d{1,2}\s*[.):]\s+(.+)$/i;
+const BULLET = /^(?:[-*•◦·–])\s+(.+)$/;
+
+/**
+ * Strips markdown heading and emphasis markers and a trailing colon.
+ */
+function headingText(line: string): string {
+  return line.replace(/^#+\s*/, "").replace(/\*\*|__/g, "").replace(/:$/, "")
+    .trim();
+}
+
+function isSubheading(line: string, heading: string): boolean {
+  if (/^for the /i.test(heading)) return true;
+  const marked = /:$/.test(line) || /^#/.test(line) ||
+    /^\*\*.+\*\*$/.test(line);
+  return marked && SUBHEADING_TEXT.test(heading);
+}
+
+/**
+ * parseRecipeText(text): splits a pasted recipe into a title, ingredients and
+ * steps. Deterministic: the same text always gives the same result.
+ *
+ * The first line is the title. "Ingredients" and "Method"/"Directions"/...
+ * headings switch sections; without them, lines with an amount are read as
+ * ingredients, numbered lines as steps, and a sentence after the ingredients
+ * starts the steps. In the steps, each numbered or bulleted line starts a step,
+ * and unnumbered lines form one step per paragraph. A subheading among the
+ * steps becomes the note of the steps under it.
+ */
+export function parseRecipeText(
+  text: string,
+): ParsedRecipeText | { error: string } {
+  if (typeof text !== "string" || text.trim() === "") {
+    return { error: "Text cannot be empty." };
+  }
+
+  const result: ParsedRecipeText = {
+    title: "",
+    ingredients: [],
+    steps: [],
+    lines: [],
+  };
+  const description: string[] = [];
+  let section: "intro" | "ingredients" | "steps" = "intro";
+  let fromHeading = false; // whether the current section was announced by a heading
+  let stepGroup: string | undefined;
+  let inParagraph = false; // the previous line belongs to the current step's paragraph
+  let stepConfidence = 0; // of the step the paragraph belongs to
+
+  const record = (
+    line: number,
+    text: string,
+    kind: TextLineKind,
+    confidence: number,
+    index?: number,
+  ) => {
+    const entry: ParsedTextLine = { line, text, kind, confidence };
+    if (index !== undefined) entry.index = index;
+    result.lines.push(entry);
+  };
+  const addStep = (
+    line: number,
+    text: string,
+    description: string,
+    confidence: number,
+  ) => {
+    const step: Step = { description };
+    if (stepGroup) step.notes = stepGroup;
+    result.steps.push(step);
+    stepConfidence = confidence;
+    record(line, text, "step", confidence, result.steps.length - 1);
+  };
+
+  const rawLines = text.split(/\r?\n/);
+  for (const [i, raw] of rawLines.entries()) {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (trimmed === "") {
+      inParagraph = false;
+      continue;
+    }
+    const heading = headingText(trimmed);
+
+    if (INGREDIENTS_HEADING.test(heading)) {
+      section = "ingredients";
+      fromHeading = true;
+      record(line, trimmed, "heading", 1);
+      continue;
+    }
+    if (STEPS_HEADING.test(heading)) {
+      section = "steps";
+      fromHeading = true;
+      stepGroup = undefined;
+      inParagraph = false;
+      record(line, trimmed, "heading", 1);
+      continue;
+    }
+
+    const parsed = parseIngredientLine(trimmed);
+    if (result.lines.length === 0 && !(parsed && parsed.confidence >= 0.9)) {
+      result.title = heading;
+      const sentence = heading.split(" ").length > 12 || /\.$/.test(heading);
+      record(line, trimmed, "title", sentence ? 0.5 : 1);
+      continue;
+    }
+
+    const yieldLine = section !== "steps" && trimmed.match(YIELD_LINE);
+    if (yieldLine && !result.yield) {
+      const recipeYield = parseYield(yieldLine[1]);
+      if (recipeYield) {
+        result.yield = recipeYield;
+        record(line, trimmed, "yield", recipeYield.servings ? 1 : 0.8);
+        continue;
+      }
+    }
+
+    if (isSubheading(trimmed, heading)) {
+      if (section === "steps") {
+        stepGroup = heading;
+        inParagraph = false;
+      }
+      record(line, trimmed, "heading", 0.9);
+      continue;
+    }
+
+    const numbered = trimmed.match(NUMBERED);
+    if (section !== "steps") {
+      const item = numbered ? parseIngredientLine(numbered[1]) : parsed;
+      const isIngredient = item !== undefined &&
+        (section === "ingredients"
+          ? (item.confidence > 0.4 ||
+            (fromHeading && !/[.!?]$/.test(trimmed))) &&
+            !(numbered && item.confidence < 0.9)
+          : item.confidence >= 0.9 || BULLET.test(trimmed));
+      if (item && isIngredient) {
+        section = "ingredients";
+        result.ingredients.push(item.ingredient);
+        record(
+          line,
+          trimmed,
+          "ingredient",
+          item.confidence,
+          result.ingredients.length - 1,
+        );
+        continue;
+      }
+      if (section === "intro" && !numbered) {
+        description.push(trimmed);
+        record(line, trimmed, "description", 0.7);
+        continue;
+      }
+      // A numbered line or a sentence after the ingredients starts the steps
+      section = "steps";
+      fromHeading = false;
+      inParagraph = false;
+    }
+
+    const bullet = trimmed.match(BULLET);
+    // An ingredient-looking line among the steps is probably misplaced
+    const misplaced = parsed !== undefined && parsed.confidence >= 0.9 &&
+      trimmed.split(" ").length <= 5;
+    if (numbered) {
+      addStep(line, trimmed, numbered[1], 1);
+    } else if (bullet) {
+      addStep(line, trimmed, bullet[1], misplaced ? 0.5 : 0.9);
+    } else if (inParagraph && !misplaced) {
+      const index = result.steps.length - 1;
+      const step = result.steps[index];
+      step.description = `${step.description} ${trimmed}`;
+      record(line, trimmed, "step", stepConfidence, index);
+    } else {
+      addStep(
+        line,
+        trimmed,
+        trimmed,
+        misplaced ? 0.5 : fromHeading ? 0.9 : 0.7,
+      );
+    }
+    inParagraph = true;
+  }
+
+  if (description.length > 0) result.description = description.join(" ");
+  return result;
+}
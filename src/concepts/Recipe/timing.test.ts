@@ -0,0 +1,119 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  buildTimeline,
+  DEFAULT_PREHEAT_MINUTES,
+  extractStepTiming,
+  recipeTimes,
+  validateStepTiming,
+  withStepTiming,
+} from "./timing.ts";
+
+Deno.test("extractStepTiming: ranges, temperatures and passive verbs", () => {
+  assertEquals(extractStepTiming("Bake at 180°C for 25-30 minutes."), {
+    passiveTime: { minutes: 25, maxMinutes: 30 },
+    temperature: { value: 180, unit: "C" },
+  });
+  assertEquals(extractStepTiming("Sauté the onions for 5 minutes."), {
+    activeTime: { minutes: 5 },
+  });
+  assertEquals(
+    extractStepTiming("Knead for 10 minutes, then let rise 1 to 1 1/2 hours."),
+    {
+      activeTime: { minutes: 10 },
+      passiveTime: { minutes: 60, maxMinutes: 90 },
+    },
+  );
+  assertEquals(extractStepTiming("Simmer 1 hour 15 minutes at 350 degrees."), {
+    passiveTime: { minutes: 75 },
+    temperature: { value: 350, unit: "F" },
+  });
+});
+
+Deno.test("extractStepTiming: frequencies, overnight and preheating", () => {
+  assertEquals(extractStepTiming("Stir every 5 minutes until thick."), {});
+  assertEquals(extractStepTiming("Cover and refrigerate overnight."), {
+    passiveTime: { minutes: 8 * 60 },
+  });
+  assertEquals(extractStepTiming("Preheat the oven to 425F."), {
+    passiveTime: { minutes: DEFAULT_PREHEAT_MINUTES },
+    temperature: { value: 425, unit: "F" },
+  });
+  assertEquals(extractStepTiming("Whisk for half an hour"), {
+    activeTime: { minutes: 30 },
+  });
+});
+
+Deno.test("withStepTiming: author timing is kept, extracted timing redone", () => {
+  const manual = withStepTiming({
+    description: "Bake 20 minutes",
+    passiveTime: { minutes: 45 },
+  });
+  assertEquals(manual.passiveTime, { minutes: 45 });
+  assertEquals(manual.timingSource, "manual");
+
+  const edited = withStepTiming({
+    description: "Bake 40 minutes",
+    passiveTime: { minutes: 20 },
+    timingSource: "text" as const,
+  });
+  assertEquals(edited.passiveTime, { minutes: 40 });
+  assertEquals(edited.timingSource, "text");
+
+  assertEquals(withStepTiming({ description: "Serve warm." }), {
+    description: "Serve warm.",
+  });
+});
+
+Deno.test("validateStepTiming: checks durations and temperature", () => {
+  assertEquals(validateStepTiming({ activeTime: { minutes: 5 } }), undefined);
+  assertEquals(
+    validateStepTiming({ passiveTime: { minutes: 30, maxMinutes: 20 } }),
+    "Step passiveTime must have minutes of at least 0, and maxMinutes no less than minutes.",
+  );
+  assertEquals(
+    validateStepTiming({
+      temperature: { value: 180, unit: "K" as "C" },
+    }),
+    'Step temperature must have a numeric value and a unit of "C" or "F".',
+  );
+});
+
+Deno.test("buildTimeline: parallel steps and preheating", () => {
+  const steps = [
+    "Preheat the oven to 200°C.",
+    "Chop the vegetables, about 15 minutes.",
+    "Roast for 30-35 minutes.",
+    "Meanwhile, whisk the dressing for 5 minutes.",
+    "Toss and serve.",
+  ].map((description) => withStepTiming({ description }));
+  const { entries, totalMinutes } = buildTimeline(steps);
+
+  assertEquals(
+    entries.map(({ start, end }) => [start, end]),
+    [[0, 10], [0, 15], [15, 50], [15, 20], [50, 50]],
+  );
+  assertEquals(entries[0].parallelWith, [1]);
+  assertEquals(entries[2].parallelWith, [3]);
+  assertEquals(entries[2].temperature, undefined);
+  assertEquals(totalMinutes, 50);
+
+  assertEquals(recipeTimes(steps), {
+    prepMinutes: 20,
+    cookMinutes: 35,
+    totalMinutes: 50,
+  });
+});
+
+Deno.test("buildTimeline: oven steps wait for the preheat", () => {
+  const steps = [
+    { description: "Preheat the oven to 180°C." },
+    { description: "Bake 20 minutes." },
+  ].map(withStepTiming);
+  const { entries } = buildTimeline(steps);
+  assertEquals(entries[1].start, DEFAULT_PREHEAT_MINUTES);
+  assertEquals(recipeTimes([{ description: "Serve." }]), {
+    prepMinutes: 0,
+    cookMinutes: 0,
+    totalMinutes: 0,
+  });
+});
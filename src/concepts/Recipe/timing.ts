@@ -0,0 +1,453 @@
+/**
+ * Step timing: how long each step takes, split into active time (the cook is
+ * busy: chopping, stirring, kneading) and passive time (the food needs no
+ * attention: baking, simmering, resting), plus an oven or water temperature.
+ *
+ * Timing is either given explicitly by the author or extracted from the step
+ * text ("Bake at 180°C for 25-30 minutes"). Explicit timing always wins; an
+ * extracted one is redone whenever the step is written, so it follows edits.
+ */
+
+/**
+ * A duration in minutes; a range such as "25-30 minutes" is 25 with a
+ * maxMinutes of 30.
+ */
+export interface StepDuration {
+  minutes: number;
+  maxMinutes?: number;
+}
+
+export type TemperatureUnit = "C" | "F";
+
+export interface StepTemperature {
+  value: number;
+  unit: TemperatureUnit;
+}
+
+/**
+ * The optional timing fields of a step. `timingSource` tells whether they
+ * were set by the author ("manual") or read from the description ("text").
+ */
+export interface StepTiming {
+  activeTime?: StepDuration;
+  passiveTime?: StepDuration;
+  temperature?: StepTemperature;
+  timingSource?: "manual" | "text";
+}
+
+interface TimedStep extends StepTiming {
+  description: string;
+}
+
+/**
+ * Recipe-level times in minutes, derived from the steps on every write:
+ *
+ * - prepMinutes:  the durations of steps that do not cook anything
+ * - cookMinutes:  the durations of steps that heat the food (or set a temperature)
+ * - totalMinutes: start to finish on the cook timeline, so steps that run in
+ *                 parallel count once; it may be less than prep plus cook
+ *
+ * Ranges count at their upper end. All three are 0 when no step is timed.
+ */
+export interface RecipeTimes {
+  prepMinutes: number;
+  cookMinutes: number;
+  totalMinutes: number;
+}
+
+// Verbs of clauses where the food is left alone for the stated time
+const PASSIVE_VERBS = [
+  "bake",
+  "roast",
+  "simmer",
+  "braise",
+  "rest",
+  "stand",
+  "sit",
+  "chill",
+  "refrigerate",
+  "freeze",
+  "marinate",
+  "rise",
+  "prove",
+  "proof",
+  "cool",
+  "soak",
+  "steep",
+  "set",
+  "preheat",
+  "slow cook",
+];
+
+// Verbs of steps that heat the food, counted as cook time
+const COOK_VERBS = [
+  "bake",
+  "roast",
+  "simmer",
+  "braise",
+  "boil",
+  "fry",
+  "saute",
+  "sear",
+  "grill",
+  "broil",
+  "toast",
+  "cook",
+  "steam",
+  "poach",
+  "heat",
+];
+
+// Verbs of steps that need the oven, and so wait for a preheat
+const OVEN_VERBS = ["bake", "roast", "broil"];
+
+// Openings of steps done while an earlier step is still going
+const CONCURRENT_OPENINGS = [
+  "meanwhile",
+  "in the meantime",
+  "at the same time",
+  "while",
+];
+
+// Preheating an oven rarely states a time; assume this long
+export const DEFAULT_PREHEAT_MINUTES = 10;
+
+const OVERNIGHT_MINUTES = 8 * 60;
+
+const UNIT_MINUTES: Record<string, number> = {
+  h: 60,
+  hr: 60,
+  hrs: 60,
+  hour: 60,
+  hours: 60,
+  m: 1,
+  min: 1,
+  mins: 1,
+  minute: 1,
+  minutes: 1,
+  s: 1 / 60,
+  sec: 1 / 60,
+  secs: 1 / 60,
+  second: 1 / 60,
+  seconds: 1 / 60,
+};
+
+const AMOUNT = String
+  .raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?|an?|one|half an?)`;
+const UNIT = String.raw`(?:hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)`;
+
+// "25-30 minutes", "1 to 2 hours", "an hour", "1 hour 15 minutes", "overnight"
+const DURATION_PATTERN = new RegExp(
+  String
+    .raw`(every\s+)?\b(${AMOUNT})(?:\s*(?:-|–|to)\s*(${AMOUNT}))?\s*(${UNIT})\b` +
+    String.raw`(?:\s*(?:and\s+)?(\d+)\s*(minutes?|mins?|m)\b)?|\b(overnight)\b`,
+  "gi",
+);
+
+// "180°C", "350 °F", "200 degrees C", "425F"; a bare "180°" is read by its size
+const TEMPERATURE_PATTERN =
+  /\b(\d{2,3})\s*(?:°|º|degrees?\b)\s*(C|F|celsius|fahrenheit)?\b|\b(\d{2,3})(C|F)\b/i;
+
+function amountValue(text: string): number {
+  const word = text.toLowerCase();
+  if (word === "a" || word === "an" || word === "one") return 1;
+  if (word.startsWith("half")) return 0.5;
+  // "1 1/2" and "1/2"
+  return word.split(/\s+/).reduce((sum, part) => {
+    const [numerator, denominator] = part.split("/");
+    return sum + Number(numerator) / Number(denominator ?? 1);
+  }, 0);
+}
+
+function roundMinutes(minutes: number): number {
+  return Math.round(minutes * 100) / 100;
+}
+
+// Whether the text names one of the verbs, in any form ("sautéed" names "saute")
+function hasWord(text: string, words: string[]): boolean {
+  const plain = text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+  return words.some((word) =>
+    new RegExp(String.raw`\b${word}(?:s|es|ed|ing|d)?\b`, "i").test(plain)
+  );
+}
+
+function addDuration(
+  total: StepDuration | undefined,
+  extra: StepDuration,
+): StepDuration {
+  if (!total) return extra;
+  const minutes = total.minutes + extra.minutes;
+  const maxMinutes = (total.maxMinutes ?? total.minutes) +
+    (extra.maxMinutes ?? extra.minutes);
+  return maxMinutes > minutes
+    ? { minutes: roundMinutes(minutes), maxMinutes: roundMinutes(maxMinutes) }
+    : { minutes: roundMinutes(minutes) };
+}
+
+/**
+ * The durations stated in one clause, summed. "Stir every 5 minutes" is a
+ * frequency, not a duration, and is skipped.
+ */
+function clauseDuration(clause: string): StepDuration | undefined {
+  let total: StepDuration | undefined;
+  for (const match of clause.matchAll(DURATION_PATTERN)) {
+    const [, every, from, to, unit, extra, extraUnit, overnight] = match;
+    if (every) continue;
+    let duration: StepDuration;
+    if (overnight) {
+      duration = { minutes: OVERNIGHT_MINUTES };
+    } else {
+      const perUnit = UNIT_MINUTES[unit.toLowerCase()];
+      const extraMinutes = extra
+        ? Number(extra) * UNIT_MINUTES[extraUnit.toLowerCase()]
+        : 0;
+      const minutes = amountValue(from) * perUnit + extraMinutes;
+      const maxMinutes = to ? amountValue(to) * perUnit + extraMinutes : 0;
+      duration = maxMinutes > minutes
+        ? {
+          minutes: roundMinutes(minutes),
+          maxMinutes: roundMinutes(maxMinutes),
+        }
+        : { minutes: roundMinutes(minutes) };
+    }
+    total = addDuration(total, duration);
+  }
+  return total;
+}
+
+/**
+ * extractTemperature(text): the first temperature in a step's text. Without a
+ * unit, values above 260 are taken as Fahrenheit (no oven goes that hot in
+ * Celsius) and the rest as Celsius.
+ */
+export function extractTemperature(text: string): StepTemperature | undefined {
+  const match = TEMPERATURE_PATTERN.exec(text);
+  if (!match) return undefined;
+  const value = Number(match[1] ?? match[3]);
+  const unit = (match[2] ?? match[4])?.[0].toUpperCase();
+  if (unit === "C" || unit === "F") return { value, unit };
+  return { value, unit: value > 260 ? "F" : "C" };
+}
+
+/**
+ * extractStepTiming(text): the timing stated in a step's text. The text is
+ * split into sentences and "then" clauses ("Knead 10 minutes, then let rise
+ * 1 hour"); a clause's durations are passive when it names a passive verb
+ * (bake, rest, chill, ...) and active otherwise.
+ */
+export function extractStepTiming(text: string): StepTiming {
+  const timing: StepTiming = {};
+  const clauses = text.split(
+    /[.;!?](?:\s+|$)|,?\s+then\s+|,?\s+and\s+(?=let\b)/i,
+  );
+  for (const clause of clauses) {
+    const duration = clauseDuration(clause);
+    if (!duration) continue;
+    if (hasWord(clause, PASSIVE_VERBS)) {
+      timing.passiveTime = addDuration(timing.passiveTime, duration);
+    } else {
+      timing.activeTime = addDuration(timing.activeTime, duration);
+    }
+  }
+  if (
+    isPreheat(text) && !timing.activeTime && !timing.passiveTime
+  ) {
+    timing.passiveTime = { minutes: DEFAULT_PREHEAT_MINUTES };
+  }
+  const temperature = extractTemperature(text);
+  if (temperature) timing.temperature = temperature;
+  return timing;
+}
+
+function hasTiming(step: StepTiming): boolean {
+  return step.activeTime !== undefined || step.passiveTime !== undefined ||
+    step.temperature !== undefined;
+}
+
+/**
+ * withStepTiming(step): a copy of the step with its timing filled in. Timing
+ * the author set is kept (and marked "manual"); otherwise any previously
+ * extracted timing is dropped and extracted again from the description.
+ */
+export function withStepTiming<T extends TimedStep>(step: T): T & StepTiming {
+  if (
+    step.timingSource === "manual" ||
+    (step.timingSource === undefined && hasTiming(step))
+  ) {
+    return { ...step, timingSource: "manual" };
+  }
+  const {
+    activeTime: _active,
+    passiveTime: _passive,
+    temperature: _temperature,
+    timingSource: _source,
+    ...rest
+  } = step;
+  const timing = extractStepTiming(step.description ?? "");
+  if (!hasTiming(timing)) return rest as T;
+  return { ...rest, ...timing, timingSource: "text" } as T & StepTiming;
+}
+
+function durationError(
+  duration: unknown,
+  field: string,
+): string | undefined {
+  if (duration === undefined) return undefined;
+  const { minutes, maxMinutes } = (duration ?? {}) as StepDuration;
+  if (
+    typeof minutes !== "number" || !Number.isFinite(minutes) || minutes < 0 ||
+    (maxMinutes !== undefined &&
+      (typeof maxMinutes !== "number" || !Number.isFinite(maxMinutes) ||
+        maxMinutes < minutes))
+  ) {
+    return `Step ${field} must have minutes of at least 0, and maxMinutes no less than minutes.`;
+  }
+  return undefined;
+}
+
+/**
+ * validateStepTiming(step): checks timing supplied by a client.
+ * @returns an error message, or undefined if the timing is well-formed
+ */
+export function validateStepTiming(step: StepTiming): string | undefined {
+  const error = durationError(step.activeTime, "activeTime") ??
+    durationError(step.passiveTime, "passiveTime");
+  if (error) return error;
+  if (step.temperature !== undefined) {
+    const { value, unit } = (step.temperature ?? {}) as StepTemperature;
+    if (
+      typeof value !== "number" || !Number.isFinite(value) ||
+      (unit !== "C" && unit !== "F")
+    ) {
+      return 'Step temperature must have a numeric value and a unit of "C" or "F".';
+    }
+  }
+  if (
+    step.timingSource !== undefined && step.timingSource !== "manual" &&
+    step.timingSource !== "text"
+  ) {
+    return 'Step timingSource must be "manual" or "text".';
+  }
+  return undefined;
+}
+
+function upperMinutes(duration: StepDuration | undefined): number {
+  return duration ? duration.maxMinutes ?? duration.minutes : 0;
+}
+
+function isPreheat(text: string): boolean {
+  return /^\s*(?:preheat|heat the oven)\b/i.test(text);
+}
+
+function isConcurrent(text: string): boolean {
+  const opening = text.trim().toLowerCase();
+  return CONCURRENT_OPENINGS.some((words) =>
+    new RegExp(String.raw`^${words}\b`).test(opening)
+  );
+}
+
+function usesOven(step: TimedStep): boolean {
+  return step.temperature !== undefined ||
+    hasWord(step.description, OVEN_VERBS);
+}
+
+/**
+ * One step on the cook timeline; times are minutes from the start of cooking.
+ * The cook is busy from `start` to `activeEnd`; the step is done at `end`.
+ */
+export interface TimelineEntry {
+  step: number; // index in the recipe's steps
+  description: string;
+  start: number;
+  activeEnd: number;
+  end: number;
+  temperature?: StepTemperature;
+  parallelWith: number[]; // indices of steps whose time overlaps this one
+}
+
+export interface CookTimeline {
+  entries: TimelineEntry[];
+  totalMinutes: number;
+}
+
+/**
+ * buildTimeline(steps): schedules the steps for cook mode. Steps run in order,
+ * each once the previous one is done, except:
+ *
+ * - a step opening with "meanwhile", "while", ... starts as soon as the cook
+ *   is free, during the previous step's passive time
+ * - a preheat runs in the background; only oven steps wait for it
+ *
+ * Ranges count at their upper end; untimed steps take no time.
+ */
+export function buildTimeline(steps: TimedStep[]): CookTimeline {
+  const entries: TimelineEntry[] = [];
+  let cookFree = 0; // when the cook's hands are free
+  let ready = 0; // when the work so far is done
+  let ovenReady = 0;
+  steps.forEach((step, index) => {
+    const preheat = isPreheat(step.description);
+    let start = preheat || isConcurrent(step.description)
+      ? cookFree
+      : Math.max(ready, cookFree);
+    if (!preheat && usesOven(step)) start = Math.max(start, ovenReady);
+    const activeEnd = start + upperMinutes(step.activeTime);
+    const end = activeEnd + upperMinutes(step.passiveTime);
+    cookFree = activeEnd;
+    if (preheat) {
+      ovenReady = end;
+    } else if (isConcurrent(step.description)) {
+      ready = Math.max(ready, end);
+    } else {
+      ready = end;
+    }
+    const entry: TimelineEntry = {
+      step: index,
+      description: step.description,
+      start: roundMinutes(start),
+      activeEnd: roundMinutes(activeEnd),
+      end: roundMinutes(end),
+      parallelWith: [],
+    };
+    if (step.temperature) entry.temperature = step.temperature;
+    entries.push(entry);
+  });
+  for (const entry of entries) {
+    entry.parallelWith = entries
+      .filter((other) =>
+        other !== entry && other.start < entry.end && entry.start < other.end
+      )
+      .map((other) => other.step);
+  }
+  return {
+    entries,
+    totalMinutes: Math.max(0, ...entries.map((entry) => entry.end)),
+  };
+}
+
+/**
+ * recipeTimes(steps): the prep, cook and total minutes of a recipe's steps.
+ * A step is cook time when it heats the food or sets a temperature; a preheat
+ * counts toward neither, only toward the total.
+ */
+export function recipeTimes(steps: TimedStep[]): RecipeTimes {
+  let prepMinutes = 0;
+  let cookMinutes = 0;
+  for (const step of steps) {
+    if (isPreheat(step.description)) continue;
+    const minutes = upperMinutes(step.activeTime) +
+      upperMinutes(step.passiveTime);
+    if (
+      step.temperature !== undefined || hasWord(step.description, COOK_VERBS)
+    ) {
+      cookMinutes += minutes;
+    } else {
+      prepMinutes += minutes;
+    }
+  }
+  return {
+    prepMinutes: roundMinutes(prepMinutes),
+    cookMinutes: roundMinutes(cookMinutes),
+    totalMinutes: buildTimeline(steps).totalMinutes,
+  };
+}
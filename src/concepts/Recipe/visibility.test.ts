@@ -0,0 +1,61 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import type { Filter } from "npm:mongodb";
+import {
+  accessFilter,
+  canView,
+  isVisibility,
+  newShareToken,
+  visibleOnly,
+} from "./visibility.ts";
+
+const recipe = (
+  visibility?: "private" | "notebook" | "unlisted" | "public",
+) => ({
+  _id: "recipe:1",
+  owner: "user:ann",
+  visibility,
+});
+
+Deno.test("canView: the owner always, others by visibility", () => {
+  const member = { viewer: "user:bob", shared: ["recipe:1"] };
+  const stranger = { viewer: "user:cat", shared: [] };
+  assertEquals(canView(recipe("private"), { viewer: "user:ann" }), true);
+  assertEquals(canView(recipe("private"), member), false);
+  assertEquals(canView(recipe("notebook"), member), true);
+  assertEquals(canView(recipe("unlisted"), member), true);
+  assertEquals(canView(recipe("unlisted"), stranger), false);
+  assertEquals(canView(recipe("public"), {}), true);
+  // Recipes stored before visibility existed are notebook-only
+  assertEquals(canView(recipe(), member), true);
+  assertEquals(canView(recipe(), stranger), false);
+});
+
+Deno.test("accessFilter: public, own and shared recipes", () => {
+  assertEquals(accessFilter({}), { $or: [{ visibility: "public" }] });
+  assertEquals(accessFilter({ viewer: "user:bob", shared: ["recipe:1"] }), {
+    $or: [
+      { visibility: "public" },
+      { owner: "user:bob" },
+      {
+        _id: { $in: ["recipe:1"] },
+        visibility: { $in: ["notebook", "unlisted", null] },
+      },
+    ],
+  });
+});
+
+Deno.test("visibleOnly: leaves the filter alone without an access", () => {
+  const filter: Filter<{ tags: string[] }> = { tags: "soup" };
+  assertEquals(visibleOnly(filter), filter);
+  assertEquals(visibleOnly(filter, {}), {
+    $and: [filter, { $or: [{ visibility: "public" }] }],
+  });
+});
+
+Deno.test("isVisibility and newShareToken", () => {
+  assertEquals(isVisibility("unlisted"), true);
+  assertEquals(isVisibility("friends"), false);
+  const token = newShareToken();
+  assertEquals(/^[A-Za-z0-9_-]{24}$/.test(token), true);
+  assertNotEquals(token, newShareToken());
+});
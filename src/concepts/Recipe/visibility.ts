@@ -0,0 +1,91 @@
+/**
+ * Who may read a recipe, from most to least restricted:
+ *
+ * - private:  only the owner
+ * - notebook: the owner and members of notebooks the recipe is shared in
+ * - unlisted: as notebook, plus anyone holding the recipe's share link
+ * - public:   anyone, including people who are not logged in
+ *
+ * Recipes stored before visibility existed count as DEFAULT_VISIBILITY.
+ */
+export const VISIBILITIES = [
+  "private",
+  "notebook",
+  "unlisted",
+  "public",
+] as const;
+export type Visibility = typeof VISIBILITIES[number];
+export const DEFAULT_VISIBILITY: Visibility = "notebook";
+
+/**
+ * Who is reading, as the read syncs work it out from the session: the user
+ * (absent when not logged in) and the recipes shared in their notebooks.
+ * Queries that take an access only return recipes it may see.
+ */
+export interface RecipeAccess {
+  viewer?: string;
+  shared?: string[];
+}
+
+// The stored fields visibility depends on
+interface VisibleRecipe {
+  _id: string;
+  owner: string;
+  visibility?: Visibility;
+}
+
+export function isVisibility(value: unknown): value is Visibility {
+  return VISIBILITIES.includes(value as Visibility);
+}
+
+/**
+ * canView(recipe, access): whether the reader may see the recipe. Share links
+ * are checked separately, by _getSharedRecipe.
+ */
+export function canView(recipe: VisibleRecipe, access: RecipeAccess): boolean {
+  const visibility = recipe.visibility ?? DEFAULT_VISIBILITY;
+  if (visibility === "public") return true;
+  if (access.viewer !== undefined && recipe.owner === access.viewer) {
+    return true;
+  }
+  return visibility !== "private" &&
+    (access.shared ?? []).includes(recipe._id);
+}
+
+/**
+ * accessFilter(access): the MongoDB condition matching the recipes canView
+ * allows, to combine with a query's own filter.
+ */
+export function accessFilter(access: RecipeAccess): Record<string, unknown> {
+  const allowed: Record<string, unknown>[] = [{ visibility: "public" }];
+  if (access.viewer !== undefined) allowed.push({ owner: access.viewer });
+  if (access.shared && access.shared.length > 0) {
+    allowed.push({
+      _id: { $in: access.shared },
+      // null also matches recipes stored without a visibility
+      visibility: { $in: ["notebook", "unlisted", null] },
+    });
+  }
+  return { $or: allowed };
+}
+
+/**
+ * visibleOnly(filter, access): narrows a query's filter to the recipes the
+ * reader may see. Without an access the filter is returned unchanged.
+ */
+export function visibleOnly<T extends object>(
+  filter: T,
+  access?: RecipeAccess,
+): T {
+  if (!access) return filter;
+  return { $and: [filter, accessFilter(access)] } as unknown as T;
+}
+
+/**
+ * A new unguessable share link token for an unlisted recipe.
+ */
+export function newShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(18));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
@@ -1,9 +1,11 @@
 import { Hono } from "jsr:@hono/hono";
 import { cors } from "jsr:@hono/hono/cors";
+import { getCookie } from "jsr:@hono/hono/cookie";
 import type { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import type { ID } from "@utils/types.ts";
-import { exclusions, inclusions } from "./passthrough.ts";
+import { withDefaultLimit } from "@utils/pagination.ts";
+import { downloads, exclusions, inclusions, paged } from "./passthrough.ts";
 import "jsr:@std/dotenv/load";
 
 /**
@@ -47,6 +49,15 @@ interface RequestDoc {
   createdAt: Date;
 }
 
+/**
+ * A file in a response to a download route, sent as the response body.
+ */
+interface DownloadFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
 /**
  * Represents an in-flight request waiting for a response.
  * This state is not persisted and lives only in memory.
@@ -269,7 +280,8 @@ export function startRequestingServer(
       app.post(route, async (c) => {
         try {
           const body = await c.req.json().catch(() => ({})); // Handle empty body
-          const result = await concept[method](body);
+          const input = paged.includes(route) ? withDefaultLimit(body) : body;
+          const result = await concept[method](input);
           return c.json(result);
         } catch (e) {
           console.error(`Error in ${conceptName}.${method}:`, e);
@@ -337,6 +349,64 @@ export function startRequestingServer(
     }
   });
 
+  /**
+   * DOWNLOAD ROUTES
+   *
+   * GET versions of the Requesting routes listed in `downloads`. The query
+   * string is the request input, and a `file` in the response is sent as a
+   * file download (or shown in the browser with `inline=true`).
+   *
+   * The session comes from an `Authorization: Bearer <session>` header or a
+   * `session` cookie. A session in the query string is refused: URLs end up in
+   * browser history, server logs and Referer headers.
+   */
+
+  for (const route of Object.keys(downloads)) {
+    app.get(route, async (c) => {
+      try {
+        const { session: inQuery, ...query } = c.req.query();
+        if (inQuery !== undefined) {
+          return c.json({
+            error:
+              "Send the session in an Authorization header or a cookie, not in the URL.",
+          }, 400);
+        }
+        const bearer = c.req.header("Authorization")?.match(
+          /^Bearer\s+(\S+)$/i,
+        );
+        const session = bearer?.[1] ?? getCookie(c, "session");
+        const inputs = {
+          ...query,
+          ...(session ? { session } : {}),
+          path: route.substring(REQUESTING_BASE_URL.length),
+        };
+        console.log(`[Requesting] Received download for path: ${inputs.path}`);
+
+        const { request } = await Requesting.request(inputs);
+        const [{ response }] = await Requesting._awaitResponse({ request });
+        const file = (response as { file?: DownloadFile } | undefined)?.file;
+        if (!file) return c.json(response);
+
+        const disposition = c.req.query("inline") === "true"
+          ? "inline"
+          : "attachment";
+        return c.body(file.content, 200, {
+          "Content-Type": file.contentType,
+          "Content-Disposition": `${disposition}; filename="${
+            file.filename.replace(/["\\]/g, "")
+          }"`,
+        });
+      } catch (e) {
+        if (e instanceof Error && e.message.includes("timed out")) {
+          return c.json({ error: "Request timed out." }, 504);
+        }
+        console.error(`[Requesting] Error processing download:`, e);
+        return c.json({ error: "An internal server error occurred." }, 500);
+      }
+    });
+    console.log(`  -> GET ${route}`);
+  }
+
   console.log(
     `\n🚀 Requesting server listening for POST requests at base path of ${routePath}`,
   );
@@ -13,6 +13,8 @@
  * for passthrough routes:
  * - inclusions: those that you can justify their inclusion
  * - exclusions: those to exclude, using Requesting routes instead
+ * - downloads: Requesting routes that may also be fetched with GET
+ * - paged: included list queries whose limit defaults to DEFAULT_PAGE_LIMIT
  */
 
 /**
@@ -37,18 +39,16 @@ export const inclusions: Record<string, string> = {
   "/api/Sessioning/_getUser": "internal query - used by syncs for authentication",
   "/api/Sessioning/_refreshSession": "internal query - session management",
 
-  // Recipe concept - all queries
-  "/api/Recipe/_getRecipeById": "public query to view recipe details",
-  "/api/Recipe/_listRecipesByOwner": "public query to browse recipes by owner",
-  "/api/Recipe/_searchRecipesByTag": "public query to search recipes by tag",
+  // Recipe concept - queries that show no recipe content (the rest are served by read syncs)
   "/api/Recipe/_getForkCount": "public query to get fork statistics",
-  "/api/Recipe/_listForksOfRecipe": "public query to list recipe forks",
+  "/api/Recipe/_listGoalPresets":
+    "public query to list the AI goal presets and their constraints",
+  "/api/Recipe/_previewImport":
+    "public query to parse a client-supplied schema.org document without saving it",
   "/api/Recipe/addTag": "NOT IMPLEMENTED - no syncs, not in use",
   "/api/Recipe/removeTag": "NOT IMPLEMENTED - no syncs, not in use",
 
   // Annotation concept - queries and internal actions
-  "/api/Annotation/_getAnnotationsForRecipe":
-    "public query to view recipe annotations",
   "/api/Annotation/_getAnnotationById":
     "public query to view specific annotation",
   "/api/Annotation/deleteByRecipe": "internal action - used by cascade deletion sync",
@@ -60,6 +60,10 @@ export const inclusions: Record<string, string> = {
     "query to view notebooks where user is member",
   "/api/Notebook/_getNotebooksContainingRecipe":
     "query to find notebooks containing a recipe",
+
+  // Nutrition concept - the bundled nutrient table is public
+  "/api/Nutrition/_searchFoods":
+    "public query to search the bundled nutrient table for manual mappings",
 };
 
 /**
@@ -83,12 +87,53 @@ export const exclusions: Array<string> = [
   "/api/Recipe/updateRecipeDetails",
   "/api/Recipe/draftRecipeWithAI",
   "/api/Recipe/applyDraft",
+  "/api/Recipe/rejectDraft",
+  "/api/Recipe/importRecipe",
+  "/api/Recipe/importRecipes", // Called by the notebook import syncs
+  "/api/Recipe/_parseText", // Served as /Recipe/parseText by ParseTextRequest
+  "/api/Recipe/_whatCanICook", // Served as /Recipe/whatCanICook by WhatCanICookRequest
+  "/api/Recipe/setVisibility",
+  "/api/Recipe/createShareLink",
+  "/api/Recipe/revokeShareLink",
+  "/api/Recipe/_getSharedRecipe", // Served as /Recipe/getSharedRecipe by GetSharedRecipeRequest
+  "/api/Recipe/markComponentMissing", // Called by FlagMissingComponentOnRecipeDeletion
+  "/api/Recipe/_listRecipesUsingComponent", // Used by the recipe deletion syncs
+
+  // Recipe concept - read queries, served at the same paths by the read syncs in
+  // recipe.sync.ts so that each recipe's visibility applies
+  "/api/Recipe/_getRecipeById",
+  "/api/Recipe/_getRecipesByIds",
+  "/api/Recipe/_listRecipesByOwner",
+  "/api/Recipe/_searchRecipesByTag",
+  "/api/Recipe/_searchRecipes",
+  "/api/Recipe/_listForksOfRecipe",
+  "/api/Recipe/_scaleRecipe",
+  "/api/Recipe/_convertRecipe",
+  "/api/Recipe/_getCookTimeline",
+  "/api/Recipe/_checkIngredientUsage",
+  "/api/Recipe/_getExpandedRecipe",
+  "/api/Recipe/_listRevisions",
+  "/api/Recipe/_getRevision",
+  "/api/Recipe/_diffRevisions",
+  "/api/Recipe/_getForkTree",
+  "/api/Recipe/_getUpstreamChanges",
+  "/api/Recipe/_listDraftsForRecipe",
+  "/api/Recipe/_getDraft",
+  "/api/Recipe/_diffDraft",
+  "/api/Recipe/_exportRecipe",
+  "/api/Recipe/revertToRevision",
+  "/api/Recipe/mergeFromParent",
+  "/api/Recipe/backfillParsedQuantities", // Maintenance only: run backfill-quantities.ts
 
   // Annotation concept - state-modifying actions
   "/api/Annotation/annotate",
   "/api/Annotation/editAnnotation",
   "/api/Annotation/resolveAnnotation",
   "/api/Annotation/deleteAnnotation",
+  "/api/Annotation/importAnnotations", // Called by the notebook import syncs
+  // Annotation reads are served by recipe read syncs, which check the recipe's visibility
+  "/api/Annotation/_getAnnotationsForRecipe",
+  "/api/Annotation/_getAnnotationsForRecipes",
 
   // Notebook concept - state-modifying actions
   "/api/Notebook/createNotebook",
@@ -97,4 +142,52 @@ export const exclusions: Array<string> = [
   "/api/Notebook/shareRecipe",
   "/api/Notebook/unshareRecipe",
   "/api/Notebook/deleteNotebook",
+  "/api/Notebook/importNotebook",
+
+  // AIUsage concept - usage is recorded by sync and read for the session's user only
+  "/api/AIUsage/recordUsage",
+  "/api/AIUsage/reserveCalls",
+  "/api/AIUsage/settleUsage",
+  "/api/AIUsage/releaseReservation",
+  "/api/AIUsage/_getUsage",
+
+  // Nutrition concept - mappings belong to the session's user; recipe estimates check visibility
+  "/api/Nutrition/mapIngredient",
+  "/api/Nutrition/unmapIngredient",
+  "/api/Nutrition/_listMappings",
+  "/api/Nutrition/_estimateNutrition",
+];
+
+/**
+ * DOWNLOADS
+ *
+ * Requesting routes that also accept GET, so a browser can download the
+ * response directly. The query string becomes the request input, and the
+ * session comes from an Authorization header or a cookie instead. When the
+ * response holds a `file` ({ filename, contentType, content }), its content is
+ * sent as the body with that content type instead of as JSON. Only list
+ * read-only routes: a GET must never change anything.
+ *
+ * downloads = {"route": "justification"}
+ */
+
+export const downloads: Record<string, string> = {
+  "/api/Recipe/export":
+    "read-only recipe export (Markdown, JSON-LD or printable HTML)",
+};
+
+/**
+ * PAGED
+ *
+ * Included list queries that take PageOptions. Requests that give no limit
+ * get DEFAULT_PAGE_LIMIT rows; syncs still get every row by calling the query
+ * directly.
+ *
+ * paged = ["route"]
+ */
+
+export const paged: Array<string> = [
+  "/api/Notebook/_getNotebooksByOwner",
+  "/api/Notebook/_getNotebooksWithMember",
+  "/api/Notebook/_getNotebooksContainingRecipe",
 ];
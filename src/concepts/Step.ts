@@ -1,5 +1,7 @@
 import type { Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
+import type { StepDuration, StepTemperature } from "@concepts/Recipe/timing.ts";
+import type { StepIngredientRef } from "@concepts/Recipe/stepIngredients.ts";
 
 /**
  * Concept: Step
@@ -53,4 +55,42 @@ export interface Step {
    * Represented as an optional string, meaning it can be `undefined`.
    */
   notes?: string;
+
+  /**
+   * activeTime : Optional[StepDuration] (e.g., { minutes: 10 } for "knead for 10 minutes")
+   * How long the cook is busy with the step.
+   */
+  activeTime?: StepDuration;
+
+  /**
+   * passiveTime : Optional[StepDuration] (e.g., { minutes: 25, maxMinutes: 30 } for "bake 25-30 minutes")
+   * How long the step takes without attention: baking, simmering, resting.
+   */
+  passiveTime?: StepDuration;
+
+  /**
+   * temperature : Optional[StepTemperature] (e.g., { value: 180, unit: "C" })
+   * The oven or cooking temperature of the step.
+   */
+  temperature?: StepTemperature;
+
+  /**
+   * timingSource : Optional["manual" | "text"]
+   * Whether the timing was set by the author or extracted from the description.
+   * Extracted timing is redone whenever the step is written.
+   */
+  timingSource?: "manual" | "text";
+
+  /**
+   * ingredients : Optional[List[StepIngredientRef]] (e.g., [{ ingredient: 0, portion: 0.5 }] for "half the butter")
+   * The ingredients the step uses, by their index in the recipe's ingredient list.
+   * Kept pointing at the same ingredients when the list is reordered or shortened.
+   */
+  ingredients?: StepIngredientRef[];
+
+  /**
+   * section : Optional[String] (e.g., "For the filling")
+   * The name of the recipe section the step is in; absent for steps of the recipe itself.
+   */
+  section?: string;
 }
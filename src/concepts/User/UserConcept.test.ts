@@ -396,6 +396,44 @@ Deno.test("UserConcept: Core User Lifecycle", async (t) => {
       },
     );
 
+    await t.step(
+      "should only accept metric or imperial as the unitSystem preference",
+      async () => {
+        console.log("\nTest: Setting the unitSystem preference");
+        const registerResult = await userConcept.registerUser({
+          name: "Frank",
+          username: "frank_units",
+          password: "pwd",
+        });
+        const frankId = (registerResult as { user: ID }).user;
+
+        const okResult = await userConcept.updateProfile({
+          user: frankId,
+          newPreferences: { unitSystem: "metric" },
+        });
+        assertEquals(okResult, {}, "A valid unit system should be saved.");
+
+        const badResult = await userConcept.updateProfile({
+          user: frankId,
+          newPreferences: { unitSystem: "cubits" },
+        });
+        assertEquals(badResult, [{
+          error: 'Preference unitSystem must be "metric" or "imperial".',
+        }]);
+
+        const details = await userConcept._getUserDetails({ user: frankId });
+        assertObjectMatch(
+          (
+            details as Array<{
+              user: { preferences: Record<string, unknown> };
+            }>
+          )[0].user.preferences,
+          { unitSystem: "metric" },
+          "The rejected update should leave the preference unchanged.",
+        );
+      },
+    );
+
     await t.step("should prevent updating a non-existent user", async () => {
       console.log("\nTest: Attempting to update a non-existent user");
       const nonExistentId = "nonexistent_user_id" as ID;
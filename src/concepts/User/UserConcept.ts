@@ -1,6 +1,7 @@
 import type { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import type { Empty, ID } from "@utils/types.ts";
+import { asUnitSystem } from "@utils/conversion.ts";
 
 /**
  * @concept User
@@ -20,7 +21,7 @@ interface UserDoc {
   // (e.g., using bcrypt) and never stored in plain text.
   // For the purpose of this exercise, we store it as a string.
   passwordHash: string;
-  preferences: Record<string, unknown>; // Map[String, Any]
+  preferences: Record<string, unknown>; // Map[String, Any], e.g. { unitSystem: "metric" | "imperial" }
 }
 
 export default class UserConcept {
@@ -102,6 +103,7 @@ export default class UserConcept {
    * updateProfile (user: ID, newName?: String, newUsername?: String, newPreferences?: Map[String, Any]): Empty
    *
    * @requires the `user` identified by `user: ID` must exist. If `newUsername` is provided, it must be unique among other users.
+   *           If `newPreferences.unitSystem` is provided, it must be "metric" or "imperial".
    * @effects updates the `name`, `username`, and/or `preferences` for the specified user.
    *          Returns an empty object on success.
    */
@@ -148,6 +150,14 @@ export default class UserConcept {
       if (typeof newPreferences !== "object" || newPreferences === null) {
         return [{ error: "New preferences must be a valid object." }];
       }
+      if (
+        newPreferences.unitSystem !== undefined &&
+        !asUnitSystem(newPreferences.unitSystem)
+      ) {
+        return [{
+          error: 'Preference unitSystem must be "metric" or "imperial".',
+        }];
+      }
       updateFields.preferences = {
         ...existingUser.preferences,
         ...newPreferences,
@@ -0,0 +1,133 @@
+// Synchronizations for AI usage tracking and quotas.
+// Calls are reserved against the quotas in DraftRecipeWithAIRequest (recipe.sync.ts);
+// the syncs below settle each reservation once the draft is done.
+
+import { AIUsage, Recipe, Requesting, Sessioning } from "@concepts";
+import { actions, Frames, type Sync } from "@engine";
+import type { DraftUsage } from "@concepts/Recipe/RecipeConcept.ts";
+
+function cloneFrame(frame: Record<PropertyKey, unknown>) {
+  const clone: Record<PropertyKey, unknown> = {};
+  for (const key of Reflect.ownKeys(frame)) {
+    clone[key as keyof typeof frame] = frame[key as keyof typeof frame];
+  }
+  return clone;
+}
+
+/**
+ * Sync SettleAIDraftUsage
+ * Whenever Recipe.draftRecipeWithAI reports usage (successful or not, once the provider
+ * has answered), settle the calls reserved for it with AIUsage.settleUsage, replacing the
+ * reserved calls with the actual calls, tokens and characters.
+ */
+export const SettleAIDraftUsage: Sync = ({
+  reservation,
+  usage,
+  calls,
+  inputTokens,
+  outputTokens,
+  characters,
+}) => ({
+  when: actions(
+    [AIUsage.reserveCalls, {}, { reservation }],
+    [Recipe.draftRecipeWithAI, {}, { usage }],
+  ),
+  where: (frames) =>
+    frames.map(($) => {
+      const counts = $[usage] as DraftUsage;
+      const frame = cloneFrame($);
+      frame[calls] = counts.calls;
+      frame[inputTokens] = counts.inputTokens;
+      frame[outputTokens] = counts.outputTokens;
+      frame[characters] = counts.characters;
+      return frame;
+    }),
+  then: actions([
+    AIUsage.settleUsage,
+    { reservation, calls, inputTokens, outputTokens, characters },
+  ]),
+});
+
+/**
+ * Sync ReleaseAIDraftReservation
+ * When Recipe.draftRecipeWithAI fails, release the calls reserved for it. A failure that
+ * still reached the provider reports usage too, and AIUsage.releaseReservation leaves a
+ * reservation SettleAIDraftUsage settled alone, whichever of the two runs first.
+ */
+export const ReleaseAIDraftReservation: Sync = ({ reservation, error }) => ({
+  when: actions(
+    [AIUsage.reserveCalls, {}, { reservation }],
+    [Recipe.draftRecipeWithAI, {}, { error }],
+  ),
+  then: actions([AIUsage.releaseReservation, { reservation }]),
+});
+
+/**
+ * Sync GetUsageRequest
+ * When a Requesting.request for /AIUsage/_getUsage comes in with a valid session,
+ * respond with the session user's usage and remaining allowance.
+ */
+export const GetUsageRequest: Sync = ({
+  request,
+  session,
+  user,
+  usage,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/AIUsage/_getUsage", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = frames.filter(($) => typeof $[user] === "string");
+    if (frames.length === 0) return frames;
+
+    const original = frames[0];
+    const usageFrames = await frames.query(
+      AIUsage._getUsage,
+      { user },
+      { usage, error },
+    );
+    const found = usageFrames.find(($) => $[usage] !== undefined);
+    if (found) return new Frames(found);
+    const frameWithError = cloneFrame(original);
+    frameWithError[error] = usageFrames[0]?.[error] ??
+      "Failed to get AI usage.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, usage, error }]),
+});
+
+/**
+ * Sync GetUsageSessionErrorResponse
+ * Responds with an error when the session of a /AIUsage/_getUsage request is invalid.
+ */
+export const GetUsageSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/AIUsage/_getUsage", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
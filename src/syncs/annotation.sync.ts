@@ -323,7 +323,8 @@ export const DeleteAnnotationSessionErrorResponse: Sync = (
 // NOTE: Query syncs removed - annotation queries are PASSTHROUGH routes
 // ==============================================================================
 // The following query endpoints work via passthrough (configured in passthrough.ts):
-// - /api/Annotation/_getAnnotationsForRecipe
 // - /api/Annotation/_getAnnotationById
 //
 // No syncs are needed - requests go directly to the concept query methods.
+// _getAnnotationsForRecipe and _getAnnotationsForRecipes are served by recipe read
+// syncs (recipe.sync.ts), so annotations are only read on recipes the reader can see.
@@ -1,9 +1,19 @@
 // These help you declare synchronizations and work with frames
 
 // Import core concepts
-import { Notebook, Recipe, Requesting, Sessioning } from "@concepts";
+import {
+  Annotation,
+  Notebook,
+  Recipe,
+  Requesting,
+  Sessioning,
+} from "@concepts";
 // These two help you declare synchronizations
 import { actions, Frames, type Sync } from "@engine";
+import {
+  buildNotebookArchive,
+  readNotebookArchive,
+} from "@concepts/Notebook/archive.ts";
 
 /**
  * Utility to check if a frame contains an 'error' key, following the convention
@@ -318,6 +328,8 @@ export const InviteMemberResponse_Error: Sync = ({ request, error }) => ({
  * - Recipe exists
  * - Notebook exists
  * - Requester is either the recipe owner OR a member of the notebook
+ * - A requester who does not own the recipe can only share it if it is public,
+ *   since sharing lets the notebook's members read it
  */
 export const ShareRecipeRequest_SuccessPath: Sync = ({
   request,
@@ -388,6 +400,17 @@ export const ShareRecipeRequest_SuccessPath: Sync = ({
         }),
       );
     }
+    frames = frames.filter(($) => {
+      const shared = $[recipeDoc] as { owner: string; visibility?: string };
+      return $[sharer] === shared.owner || shared.visibility === "public";
+    });
+    if (frames.length === 0) {
+      return new Frames(
+        frameWith(originalFrame, {
+          error: "Only the recipe owner can share a recipe that is not public.",
+        }),
+      );
+    }
 
     return frames;
   },
@@ -417,7 +440,9 @@ export const ShareRecipeRequest_PreconditionError: Sync = ({
         $[error] === "Recipe not found." ||
         $[error] === "Notebook not found." ||
         $[error] ===
-          "Only the recipe owner or notebook members can share this recipe.",
+          "Only the recipe owner or notebook members can share this recipe." ||
+        $[error] ===
+          "Only the recipe owner can share a recipe that is not public.",
     ),
   then: actions([Requesting.respond, { request, error }]),
 });
@@ -861,3 +886,421 @@ export const DeleteNotebookResponse_Error: Sync = ({ request, error }) => ({
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
+
+// --- Synchronizations for Exporting a Notebook ---
+
+/**
+ * **Export Notebook**
+ * Responds to a request to export a notebook with a versioned JSON archive of the
+ * notebook, its recipes and their annotations (see `archive.ts`). Any member may export.
+ * Precondition failures and query errors are answered by this sync as well.
+ */
+export const ExportNotebookRequest: Sync = ({
+  request,
+  session,
+  notebook,
+  requesterUser,
+  notebookDoc,
+  recipeIds,
+  recipeDoc,
+  annotation,
+  queryError,
+  archive,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Notebook/exportNotebook", session, notebook },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    // 1. Get the current user from the session
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: requesterUser },
+    );
+    frames = frames.filter(($) => typeof $[requesterUser] === "string");
+    if (frames.length === 0) {
+      return new Frames(
+        frameWith(originalFrame, {
+          [error]: "Session invalid or user not found.",
+        }),
+      );
+    }
+
+    // 2. Get the notebook document and check membership
+    frames = await frames.query(
+      Notebook._getNotebookById,
+      { notebook },
+      { notebook: notebookDoc },
+    );
+    frames = frames.filter(($) => $[notebookDoc] !== undefined);
+    if (frames.length === 0) {
+      return new Frames(
+        frameWith(originalFrame, { [error]: "Notebook not found." }),
+      );
+    }
+    const frame = frames[0];
+    const notebookValue = frame[notebookDoc] as {
+      title: string;
+      description?: string;
+      members: string[];
+      recipes: string[];
+      created: Date;
+    };
+    if (!notebookValue.members.includes(frame[requesterUser] as string)) {
+      return new Frames(
+        frameWith(originalFrame, {
+          [error]: "Only notebook members can export the notebook.",
+        }),
+      );
+    }
+
+    // 3. Load the shared recipes and their annotations
+    const withIds = new Frames(
+      frameWith(frame, { [recipeIds]: notebookValue.recipes }),
+    );
+    // Members see the notebook's recipes unless their owners made them private
+    const recipeFrames = await withIds.query(
+      Recipe._getRecipesByIds,
+      {
+        recipes: recipeIds,
+        access: {
+          viewer: frame[requesterUser] as string,
+          shared: notebookValue.recipes,
+        },
+      },
+      { recipe: recipeDoc, error: queryError },
+    );
+    const annotationFrames = await withIds.query(
+      Annotation._getAnnotationsForRecipes,
+      { recipes: recipeIds },
+      { annotation, error: queryError },
+    );
+    const failed = [...recipeFrames, ...annotationFrames].find(($) =>
+      $[queryError] !== undefined
+    );
+    if (failed) {
+      return new Frames(
+        frameWith(originalFrame, { [error]: failed[queryError] }),
+      );
+    }
+
+    return new Frames(
+      frameWith(originalFrame, {
+        [archive]: buildNotebookArchive(
+          notebookValue,
+          recipeFrames.map(($) =>
+            $[recipeDoc] as Parameters<typeof buildNotebookArchive>[1][number]
+          ),
+          annotationFrames.map(($) =>
+            $[annotation] as Parameters<typeof buildNotebookArchive>[2][number]
+          ),
+        ),
+      }),
+    );
+  },
+  then: actions([Requesting.respond, { request, archive, error }]),
+});
+
+// --- Synchronizations for Importing a Notebook ---
+
+/**
+ * **Import Notebook (Success Path)**
+ * Handles a request to import a notebook archive. Once the session and the archive
+ * check out, the archive's recipes are recreated under the requester with fresh IDs;
+ * `ImportNotebook_CreateNotebook` continues once they exist.
+ */
+export const ImportNotebookRequest_SuccessPath: Sync = ({
+  request,
+  session,
+  archive,
+  requesterUser,
+  archiveRecipes,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Notebook/importNotebook", session, archive },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: requesterUser },
+    );
+    return frames
+      .filter(($) => typeof $[requesterUser] === "string")
+      .flatMap(($) => {
+        const parsed = readNotebookArchive($[archive]);
+        if ("error" in parsed) return [];
+        return [frameWith($, { [archiveRecipes]: parsed.recipes })];
+      });
+  },
+  then: actions([
+    Recipe.importRecipes,
+    { owner: requesterUser, recipes: archiveRecipes },
+  ]),
+});
+
+/**
+ * **Import Notebook (Precondition Error Path)**
+ * Responds with an error if the session is invalid or the archive cannot be imported.
+ */
+export const ImportNotebookRequest_PreconditionError: Sync = ({
+  request,
+  session,
+  archive,
+  requesterUser,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Notebook/importNotebook", session, archive },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: requesterUser },
+    );
+    if (!userFrames.some(($) => typeof $[requesterUser] === "string")) {
+      return new Frames(
+        frameWith(originalFrame, {
+          [error]: "Session invalid or user not found.",
+        }),
+      );
+    }
+    const parsed = readNotebookArchive(originalFrame[archive]);
+    if ("error" in parsed) {
+      return new Frames(frameWith(originalFrame, { [error]: parsed.error }));
+    }
+    return new Frames();
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * One frame per recipe the import created, in `recipe`, to delete it again.
+ */
+function importedRecipeFrames(
+  frames: Frames,
+  recipes: symbol,
+  recipe: symbol,
+): Frames {
+  return frames.flatMap(($) =>
+    Object.values($[recipes] as Record<string, string>).map((id) =>
+      frameWith($, { [recipe]: id })
+    )
+  );
+}
+
+/**
+ * **Import Notebook (Create Notebook)**
+ * After the archive's recipes are imported, creates the notebook holding them;
+ * `ImportNotebook_ImportAnnotations` continues once it exists.
+ */
+export const ImportNotebook_CreateNotebook: Sync = ({
+  request,
+  session,
+  archive,
+  recipes,
+  requesterUser,
+  title,
+  description,
+  recipeList,
+}) => ({
+  when: actions(
+    [
+      Requesting.request,
+      { path: "/Notebook/importNotebook", session, archive },
+      { request },
+    ],
+    [Recipe.importRecipes, {}, { recipes }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: requesterUser },
+    );
+    return frames
+      .filter(($) => typeof $[requesterUser] === "string")
+      .flatMap(($) => {
+        const parsed = readNotebookArchive($[archive]);
+        if ("error" in parsed) return [];
+        const ids = $[recipes] as Record<string, string>;
+        const updates: Record<PropertyKey, unknown> = {
+          [title]: parsed.notebook.title,
+          // Keep the archive's recipe order
+          [recipeList]: parsed.recipes.map((recipe) => ids[recipe.id]),
+        };
+        // An absent key is left out of the action; an undefined one is an error
+        if (parsed.notebook.description !== undefined) {
+          updates[description] = parsed.notebook.description;
+        }
+        return [frameWith($, updates)];
+      });
+  },
+  then: actions([
+    Notebook.importNotebook,
+    { owner: requesterUser, title, description, recipes: recipeList },
+  ]),
+});
+
+/**
+ * **Import Notebook (Import Annotations)**
+ * After the notebook is created, recreates the archive's annotations on the new
+ * recipe IDs, authored by the requester.
+ */
+export const ImportNotebook_ImportAnnotations: Sync = ({
+  request,
+  archive,
+  recipes,
+  notebook,
+  requesterUser,
+  annotations,
+}) => ({
+  when: actions(
+    [
+      Requesting.request,
+      { path: "/Notebook/importNotebook", archive },
+      { request },
+    ],
+    [Recipe.importRecipes, {}, { recipes }],
+    [Notebook.importNotebook, { owner: requesterUser }, { notebook }],
+  ),
+  where: (frames) =>
+    frames.flatMap(($) => {
+      const parsed = readNotebookArchive($[archive]);
+      if ("error" in parsed) return [];
+      const ids = $[recipes] as Record<string, string>;
+      return [frameWith($, {
+        [annotations]: parsed.annotations.map((annotation) => ({
+          ...annotation,
+          recipe: ids[annotation.recipe],
+        })),
+      })];
+    }),
+  then: actions([
+    Annotation.importAnnotations,
+    { author: requesterUser, annotations },
+  ]),
+});
+
+/**
+ * **Import Notebook (Action Success Response)**
+ * Responds with the new notebook and the new ID of each archived recipe once the
+ * annotations are recreated too.
+ */
+export const ImportNotebookResponse_Success: Sync = ({
+  request,
+  recipes,
+  notebook,
+  annotations,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notebook/importNotebook" }, { request }],
+    [Recipe.importRecipes, {}, { recipes }],
+    [Notebook.importNotebook, {}, { notebook }],
+    [Annotation.importAnnotations, {}, { annotations }],
+  ),
+  then: actions([Requesting.respond, { request, notebook, recipes }]),
+});
+
+/**
+ * **Import Notebook (Recipe Import Error Response)**
+ * Handles errors returned by `Recipe.importRecipes`; nothing was created.
+ */
+export const ImportNotebookResponse_RecipeError: Sync = ({
+  request,
+  error,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notebook/importNotebook" }, { request }],
+    [Recipe.importRecipes, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * **Import Notebook (Action Error Response)**
+ * Handles errors returned by `Notebook.importNotebook`; the imported recipes are
+ * deleted again by `ImportNotebook_RollbackRecipes`.
+ */
+export const ImportNotebookResponse_Error: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notebook/importNotebook" }, { request }],
+    [Notebook.importNotebook, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * **Import Notebook (Annotation Import Error Response)**
+ * Handles errors returned by `Annotation.importAnnotations`; the new notebook is
+ * deleted again, and with it the imported recipes (see
+ * `ImportNotebook_RollbackRecipesWithNotebook`).
+ */
+export const ImportNotebookResponse_AnnotationError: Sync = ({
+  request,
+  requesterUser,
+  notebook,
+  error,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notebook/importNotebook" }, { request }],
+    [Notebook.importNotebook, { owner: requesterUser }, { notebook }],
+    [Annotation.importAnnotations, {}, { error }],
+  ),
+  then: actions(
+    [Notebook.deleteNotebook, { owner: requesterUser, notebook }],
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * **Import Notebook (Roll Back Recipes)**
+ * When the notebook cannot be created, deletes the recipes the import created, so a
+ * failed import leaves nothing behind.
+ */
+export const ImportNotebook_RollbackRecipes: Sync = ({
+  request,
+  requesterUser,
+  recipes,
+  recipe,
+  error,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notebook/importNotebook" }, { request }],
+    [Recipe.importRecipes, { owner: requesterUser }, { recipes }],
+    [Notebook.importNotebook, {}, { error }],
+  ),
+  where: (frames) => importedRecipeFrames(frames, recipes, recipe),
+  then: actions([Recipe.deleteRecipe, { requester: requesterUser, recipe }]),
+});
+
+/**
+ * **Import Notebook (Roll Back Recipes With Notebook)**
+ * When the new notebook is deleted because its annotations could not be recreated,
+ * deletes the recipes the import created too.
+ */
+export const ImportNotebook_RollbackRecipesWithNotebook: Sync = ({
+  request,
+  requesterUser,
+  recipes,
+  recipe,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notebook/importNotebook" }, { request }],
+    [Recipe.importRecipes, { owner: requesterUser }, { recipes }],
+    [Notebook.deleteNotebook, {}, {}],
+  ),
+  where: (frames) => importedRecipeFrames(frames, recipes, recipe),
+  then: actions([Recipe.deleteRecipe, { requester: requesterUser, recipe }]),
+});
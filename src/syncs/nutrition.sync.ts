@@ -0,0 +1,251 @@
+// Synchronizations for a user's ingredient mappings in nutrition estimates.
+// Recipe estimates are served by EstimateRecipeNutritionRequest (recipe.sync.ts).
+
+import { Nutrition, Requesting, Sessioning } from "@concepts";
+import { actions, Frames, type Sync } from "@engine";
+
+function cloneFrame(frame: Record<PropertyKey, unknown>) {
+  const clone: Record<PropertyKey, unknown> = {};
+  for (const key of Reflect.ownKeys(frame)) {
+    clone[key as keyof typeof frame] = frame[key as keyof typeof frame];
+  }
+  return clone;
+}
+
+// --- Map Ingredient Synchronizations ---
+
+/**
+ * Sync MapIngredientRequest
+ * When a Requesting.request for /Nutrition/mapIngredient comes in with a valid session,
+ * call Nutrition.mapIngredient for the session's user.
+ */
+export const MapIngredientRequest: Sync = ({
+  request,
+  session,
+  name,
+  food,
+  user,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Nutrition/mapIngredient", session, name, food },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames.filter(($) => typeof $[user] === "string");
+  },
+  then: actions([Nutrition.mapIngredient, { user, name, food }]),
+});
+
+/**
+ * Sync MapIngredientSessionErrorResponse
+ * Responds with an error when the session of a /Nutrition/mapIngredient request is invalid.
+ */
+export const MapIngredientSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Nutrition/mapIngredient", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync MapIngredientResponse
+ * Responds to a successful Nutrition.mapIngredient with the mapping's ID.
+ */
+export const MapIngredientResponse: Sync = ({ request, mapping }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Nutrition/mapIngredient" }, { request }],
+    [Nutrition.mapIngredient, {}, { mapping }],
+  ),
+  then: actions([Requesting.respond, { request, mapping }]),
+});
+
+/**
+ * Sync MapIngredientErrorResponse
+ * Handles errors returned by Nutrition.mapIngredient.
+ */
+export const MapIngredientErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Nutrition/mapIngredient" }, { request }],
+    [Nutrition.mapIngredient, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// --- Unmap Ingredient Synchronizations ---
+
+/**
+ * Sync UnmapIngredientRequest
+ * When a Requesting.request for /Nutrition/unmapIngredient comes in with a valid session,
+ * call Nutrition.unmapIngredient for the session's user.
+ */
+export const UnmapIngredientRequest: Sync = ({
+  request,
+  session,
+  name,
+  user,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Nutrition/unmapIngredient", session, name },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames.filter(($) => typeof $[user] === "string");
+  },
+  then: actions([Nutrition.unmapIngredient, { user, name }]),
+});
+
+/**
+ * Sync UnmapIngredientSessionErrorResponse
+ * Responds with an error when the session of a /Nutrition/unmapIngredient request is invalid.
+ */
+export const UnmapIngredientSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Nutrition/unmapIngredient", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync UnmapIngredientResponse
+ * Responds to a successful Nutrition.unmapIngredient.
+ */
+export const UnmapIngredientResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Nutrition/unmapIngredient" }, { request }],
+    [Nutrition.unmapIngredient, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+/**
+ * Sync UnmapIngredientErrorResponse
+ * Handles errors returned by Nutrition.unmapIngredient.
+ */
+export const UnmapIngredientErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Nutrition/unmapIngredient" }, { request }],
+    [Nutrition.unmapIngredient, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// --- List Mappings Synchronizations ---
+
+/**
+ * Sync ListMappingsRequest
+ * When a Requesting.request for /Nutrition/_listMappings comes in with a valid session,
+ * respond with the session user's ingredient mappings.
+ */
+export const ListMappingsRequest: Sync = ({
+  request,
+  session,
+  user,
+  mapping,
+  results,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Nutrition/_listMappings", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = frames.filter(($) => typeof $[user] === "string");
+    if (frames.length === 0) return frames;
+
+    const original = frames[0];
+    const mappingFrames = await frames.query(
+      Nutrition._listMappings,
+      { user },
+      { mapping, error },
+    );
+    const response = cloneFrame(original);
+    const failed = mappingFrames.find(($) => typeof $[error] === "string");
+    if (failed) {
+      response[error] = failed[error];
+    } else {
+      response[results] = mappingFrames.map(($) => $[mapping]);
+    }
+    return new Frames(response);
+  },
+  then: actions([Requesting.respond, { request, results, error }]),
+});
+
+/**
+ * Sync ListMappingsSessionErrorResponse
+ * Responds with an error when the session of a /Nutrition/_listMappings request is invalid.
+ */
+export const ListMappingsSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Nutrition/_listMappings", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
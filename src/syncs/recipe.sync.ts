@@ -2,13 +2,21 @@
 
 // Choose whatever concepts you have
 import {
+  AIUsage,
   Annotation,
   Notebook,
+  Nutrition,
   Recipe,
   Requesting,
   Sessioning,
+  User,
 } from "@concepts";
 import { actions, Frames, type Sync } from "@engine";
+import { INVALID_DRAFT_ERROR } from "@concepts/Recipe/draftSchema.ts";
+import { MAX_DRAFT_CALLS } from "@concepts/Recipe/RecipeConcept.ts";
+import type { RecipeAccess } from "@concepts/Recipe/visibility.ts";
+import { withDefaultLimit } from "@utils/pagination.ts";
+import type { ID } from "@utils/types.ts";
 
 function cloneFrame(frame: Record<PropertyKey, unknown>) {
   const clone: Record<PropertyKey, unknown> = {};
@@ -18,12 +26,88 @@ function cloneFrame(frame: Record<PropertyKey, unknown>) {
   return clone;
 }
 
+/**
+ * Loads the input of the original request, so syncs can read optional fields
+ * that cannot appear in a `when` pattern (a missing key would stop the match).
+ */
+async function getRequestInput(
+  frames: Frames,
+  request: symbol,
+  requestDoc: symbol,
+): Promise<Record<string, unknown>> {
+  type GetRequestByIdFn = (args: {
+    request: unknown;
+  }) => Promise<
+    | Array<{ requestDoc: { input?: Record<string, unknown> } }>
+    | Array<{ error: string }>
+  >;
+  const getRequestById = (Requesting as unknown as Record<string, unknown>)[
+    "_getRequestById"
+  ] as GetRequestByIdFn;
+  const withRequest = await frames.query(
+    getRequestById,
+    { request },
+    { requestDoc },
+  );
+  const requestRecord = withRequest[0]?.[requestDoc] as
+    | { input?: Record<string, unknown> }
+    | undefined;
+  return requestRecord?.input ?? {};
+}
+
+/**
+ * Works out who is reading from a request's optional session: the user and the
+ * recipes shared in notebooks they belong to. Without a session the reader is
+ * anonymous and only sees public recipes; a session that is given must be valid.
+ */
+async function getReadAccess(
+  frames: Frames,
+  session: unknown,
+  user: symbol,
+  notebook: symbol,
+): Promise<{ access: RecipeAccess } | { error: string }> {
+  if (session === undefined || session === "") return { access: {} };
+  const userFrames = (await frames.query(
+    Sessioning._getUser,
+    { session },
+    { user },
+  )).filter(($) => typeof $[user] === "string");
+  if (userFrames.length === 0) {
+    return { error: "Session invalid or expired." };
+  }
+  const notebookFrames = await userFrames.query(
+    Notebook._getNotebooksWithMember,
+    { member: user },
+    { notebook },
+  );
+  const shared = new Set<string>();
+  for (const $ of notebookFrames) {
+    const doc = $[notebook] as { recipes?: string[] } | undefined;
+    for (const id of doc?.recipes ?? []) shared.add(id);
+  }
+  return {
+    access: { viewer: userFrames[0][user] as string, shared: [...shared] },
+  };
+}
+
+/**
+ * Reads an ID from a request's input: a non-empty string, or undefined for anything
+ * else, such as an object that would act as a MongoDB operator in a filter.
+ */
+function inputId(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
 // --- Create Recipe Synchronizations ---
 
 /**
  * Sync CreateRecipeRequest
  * When a Requesting.request for /recipes/create comes in,
  * authenticate the session to get the owner, then call Recipe.createRecipe.
+ * The recipe is given either as title, ingredients and steps, or as pasted `text`
+ * (or both, with the given fields taking precedence over the parsed ones).
+ * An optional `visibility` sets who can read the recipe (notebook members by default),
+ * and optional `sections` group its ingredients and steps (see Recipe.createRecipe).
  */
 export const CreateRecipeRequest: Sync = ({
   request,
@@ -32,17 +116,16 @@ export const CreateRecipeRequest: Sync = ({
   title,
   ingredients,
   steps,
+  recipeYield,
+  text,
+  visibility,
+  sections,
+  requestDoc,
   error,
 }) => ({
   when: actions([
     Requesting.request,
-    {
-      path: "/Recipe/createRecipe",
-      session,
-      title,
-      ingredients,
-      steps,
-    },
+    { path: "/Recipe/createRecipe", session },
     { request },
   ]),
   where: async (frames) => {
@@ -59,7 +142,25 @@ export const CreateRecipeRequest: Sync = ({
       frameWithError[error] = "Session invalid or expired.";
       return new Frames(frameWithError);
     }
-    return frames;
+
+    // Optional fields are not part of the `when` pattern, so read them from the stored request
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const finalFrame = cloneFrame(frames[0]);
+    const optional = {
+      title,
+      ingredients,
+      steps,
+      yield: recipeYield,
+      text,
+      visibility,
+      sections,
+    };
+    for (const [field, symbol] of Object.entries(optional)) {
+      if (requestInput[field] !== undefined) {
+        finalFrame[symbol] = requestInput[field];
+      }
+    }
+    return new Frames(finalFrame);
   },
   then: actions([
     Recipe.createRecipe,
@@ -70,6 +171,10 @@ export const CreateRecipeRequest: Sync = ({
       steps,
       description: undefined,
       forkedFrom: undefined,
+      yield: recipeYield,
+      text,
+      visibility,
+      sections,
     },
   ]),
 });
@@ -118,17 +223,456 @@ export const CreateRecipeSessionErrorResponse: Sync = ({
   then: actions([Requesting.respond, { request, error }]),
 });
 
+// --- Parse Text Synchronizations ---
+
+/**
+ * Sync ParseTextRequest
+ * When a Requesting.request for /Recipe/parseText comes in, parse the pasted text
+ * with Recipe._parseText and respond with the result or the error. No session is
+ * needed: nothing is stored.
+ */
+export const ParseTextRequest: Sync = ({ request, text, parsed, error }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/parseText", text },
+    { request },
+  ]),
+  where: async (frames) =>
+    await frames.query(Recipe._parseText, { text }, { parsed, error }),
+  then: actions([Requesting.respond, { request, parsed, error }]),
+});
+
+// --- Export Synchronizations ---
+
+/**
+ * Sync ExportRecipeRequest
+ * When a Requesting.request for /Recipe/export comes in (by POST, or by GET as a download),
+ * render the recipe with Recipe._exportRecipe and respond with the file or the error.
+ * With `annotations` set to true (or "true" in a query string), the recipe's annotations
+ * from Annotation._getAnnotationsForRecipe are included. An optional `session` identifies
+ * the reader; the recipe must be visible to them (or public, without a session).
+ */
+export const ExportRecipeRequest: Sync = ({
+  request,
+  recipe,
+  format,
+  requestDoc,
+  user,
+  notebook,
+  recipeDoc,
+  annotation,
+  annotations,
+  file,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/export", recipe, format },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const withError = (message: string) => {
+      const frameWithError = cloneFrame(originalFrame);
+      frameWithError[error] = message;
+      return new Frames(frameWithError);
+    };
+    // The recipe reaches MongoDB filters, so anything but a string is refused
+    if (inputId(originalFrame[recipe]) === undefined) {
+      return withError("Recipe ID must be provided.");
+    }
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const reader = await getReadAccess(
+      frames,
+      requestInput.session,
+      user,
+      notebook,
+    );
+    if ("error" in reader) return withError(reader.error);
+    const visible = await frames.query(
+      Recipe._getRecipeById,
+      { recipe, access: reader.access },
+      { recipe: recipeDoc, error },
+    );
+    if (visible[0]?.[recipeDoc] === undefined) return visible;
+
+    const include = requestInput.annotations === true ||
+      requestInput.annotations === "true";
+
+    const found: unknown[] = [];
+    if (include) {
+      const annotationFrames = await frames.query(
+        Annotation._getAnnotationsForRecipe,
+        { recipe },
+        { annotation, error },
+      );
+      const failed = annotationFrames.find(($) => $[error] !== undefined);
+      if (failed) return new Frames(failed);
+      for (const $ of annotationFrames) found.push($[annotation]);
+    }
+
+    const frameWithAnnotations = cloneFrame(originalFrame);
+    frameWithAnnotations[annotations] = found;
+    return await new Frames(frameWithAnnotations).query(
+      Recipe._exportRecipe,
+      { recipe, format, annotations },
+      { file, error },
+    );
+  },
+  then: actions([Requesting.respond, { request, file, error }]),
+});
+
+// --- Import Recipe Synchronizations ---
+
+/**
+ * Sync ImportRecipeRequest
+ * When a Requesting.request for /Recipe/importRecipe comes in with a valid session,
+ * call Recipe.importRecipe with the supplied schema.org document as the session's user.
+ */
+export const ImportRecipeRequest: Sync = ({
+  request,
+  session,
+  document,
+  owner,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/importRecipe", session, document },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: owner },
+    );
+    return frames.filter(($) => typeof $[owner] === "string");
+  },
+  then: actions([Recipe.importRecipe, { owner, document }]),
+});
+
+/**
+ * Sync ImportRecipeSessionErrorResponse
+ * Responds with an error when the session of a /Recipe/importRecipe request is invalid.
+ */
+export const ImportRecipeSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/importRecipe", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync ImportRecipeResponse
+ * Responds with the new recipe's ID and any import warnings.
+ */
+export const ImportRecipeResponse: Sync = ({ request, recipe, warnings }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/importRecipe" }, { request }],
+    [Recipe.importRecipe, {}, { recipe, warnings }],
+  ),
+  then: actions([Requesting.respond, { request, recipe, warnings }]),
+});
+
+/**
+ * Sync ImportRecipeErrorResponse
+ * Handles errors returned by Recipe.importRecipe.
+ */
+export const ImportRecipeErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/importRecipe" }, { request }],
+    [Recipe.importRecipe, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
 // ==============================================================================
-// NOTE: Query syncs removed - Recipe queries are PASSTHROUGH routes
+// Recipe read queries
 // ==============================================================================
-// The following query endpoints work via passthrough (configured in passthrough.ts):
-// - /api/Recipe/_getRecipeById
-// - /api/Recipe/_listRecipesByOwner
-// - /api/Recipe/_searchRecipesByTag
+// Queries that show no recipe content stay PASSTHROUGH routes (see passthrough.ts):
 // - /api/Recipe/_getForkCount
-// - /api/Recipe/_listForksOfRecipe
+// - /api/Recipe/_listGoalPresets
+// - /api/Recipe/_previewImport
 //
-// No syncs are needed - requests go directly to the concept query methods.
+// Every query that returns a recipe, or something derived from one, is excluded from
+// passthrough and served below at the same path, so the recipe's visibility applies.
+
+// --- Recipe Read Synchronizations ---
+
+type RecipeReadQuery<Args> = (
+  args: Args,
+) => Promise<Array<Record<string, unknown>>>;
+
+interface RecipeReadRoute {
+  // Which input names the recipe the reader must be able to see: the recipe itself,
+  // or a draft of it; or "recipes", a list of which only the visible ones are kept
+  checks?: "recipe" | "draft" | "recipes";
+  // Whether the query takes the reader's access and leaves out what it may not see
+  filters?: boolean;
+  // Whether the query takes PageOptions; the route then pages even without a limit
+  pages?: boolean;
+}
+
+/**
+ * Makes the sync that serves a recipe read query at its own path (e.g. /Recipe/_getRecipeById).
+ * The request body is the query's input plus an optional `session`; without one the reader only
+ * sees public recipes. A recipe the reader may not see is reported as not found. Responds with
+ * the query's rows as `results`, or with its error.
+ */
+function recipeReadSync<Args extends object>(
+  path: string,
+  query: RecipeReadQuery<Args>,
+  route: RecipeReadRoute,
+): Sync {
+  return ({
+    request,
+    requestDoc,
+    user,
+    notebook,
+    recipeDoc,
+    draftDoc,
+    results,
+    error,
+  }) => ({
+    when: actions([Requesting.request, { path }, { request }]),
+    where: async (frames) => {
+      const originalFrame = frames[0];
+      const respondWith = (key: symbol, value: unknown) => {
+        const response = cloneFrame(originalFrame);
+        response[key] = value;
+        return new Frames(response);
+      };
+
+      const requestInput = await getRequestInput(frames, request, requestDoc);
+      const reader = await getReadAccess(
+        frames,
+        requestInput.session,
+        user,
+        notebook,
+      );
+      if ("error" in reader) return respondWith(error, reader.error);
+      const { access } = reader;
+
+      const args: Record<string, unknown> = { ...requestInput };
+      // IDs reach MongoDB filters, so anything but a string is refused before any check
+      if ("recipe" in requestInput || route.checks === "recipe") {
+        args.recipe = inputId(requestInput.recipe);
+        if (args.recipe === undefined) {
+          return respondWith(error, "Recipe ID must be provided.");
+        }
+      }
+      if ("draft" in requestInput || route.checks === "draft") {
+        args.draft = inputId(requestInput.draft);
+        if (args.draft === undefined) {
+          return respondWith(error, "Draft ID must be provided.");
+        }
+      }
+
+      let target = args.recipe;
+      if (route.checks === "draft") {
+        const draftFrames = await frames.query(
+          Recipe._getDraft,
+          { draft: args.draft },
+          { draft: draftDoc },
+        );
+        const draft = draftFrames[0]?.[draftDoc] as
+          | { baseRecipe: string }
+          | undefined;
+        if (!draft) return respondWith(error, "Draft not found.");
+        target = draft.baseRecipe;
+      }
+      if (route.checks === "recipes" && Array.isArray(requestInput.recipes)) {
+        const visible = await frames.query(
+          Recipe._getRecipesByIds,
+          { recipes: requestInput.recipes, access },
+          { recipe: recipeDoc },
+        );
+        args.recipes = visible.map(($) =>
+          ($[recipeDoc] as { _id: string })._id
+        );
+      } else if (route.checks && target !== undefined) {
+        const visible = await frames.query(
+          Recipe._getRecipeById,
+          { recipe: target, access },
+          { recipe: recipeDoc },
+        );
+        if (visible[0]?.[recipeDoc] === undefined) {
+          return respondWith(
+            error,
+            route.checks === "draft" ? "Draft not found." : "Recipe not found.",
+          );
+        }
+      }
+
+      // The rest of the input goes to the query; the access always comes from the session
+      for (const key of ["path", "session", "access"]) delete args[key];
+      if (route.filters) args.access = access;
+      const input = route.pages ? withDefaultLimit(args) : args;
+      // Called directly rather than through frames.query, to keep every row whatever its fields;
+      // the query checks the request's input itself
+      const rows = await query(input as Args);
+      if (rows.length > 0 && typeof rows[0].error === "string") {
+        return respondWith(error, rows[0].error);
+      }
+      return respondWith(results, rows);
+    },
+    then: actions([Requesting.respond, { request, results, error }]),
+  });
+}
+
+export const GetRecipeByIdRequest = recipeReadSync(
+  "/Recipe/_getRecipeById",
+  Recipe._getRecipeById,
+  { filters: true },
+);
+export const GetRecipesByIdsRequest = recipeReadSync(
+  "/Recipe/_getRecipesByIds",
+  Recipe._getRecipesByIds,
+  { filters: true },
+);
+export const ListRecipesByOwnerRequest = recipeReadSync(
+  "/Recipe/_listRecipesByOwner",
+  Recipe._listRecipesByOwner,
+  { filters: true, pages: true },
+);
+export const SearchRecipesByTagRequest = recipeReadSync(
+  "/Recipe/_searchRecipesByTag",
+  Recipe._searchRecipesByTag,
+  { filters: true, pages: true },
+);
+export const SearchRecipesRequest = recipeReadSync(
+  "/Recipe/_searchRecipes",
+  Recipe._searchRecipes,
+  { filters: true },
+);
+export const ListForksOfRecipeRequest = recipeReadSync(
+  "/Recipe/_listForksOfRecipe",
+  Recipe._listForksOfRecipe,
+  { checks: "recipe", filters: true, pages: true },
+);
+export const GetForkTreeRequest = recipeReadSync(
+  "/Recipe/_getForkTree",
+  Recipe._getForkTree,
+  { checks: "recipe", filters: true },
+);
+export const GetUpstreamChangesRequest = recipeReadSync(
+  "/Recipe/_getUpstreamChanges",
+  Recipe._getUpstreamChanges,
+  { checks: "recipe", filters: true },
+);
+export const ScaleRecipeRequest = recipeReadSync(
+  "/Recipe/_scaleRecipe",
+  Recipe._scaleRecipe,
+  { checks: "recipe" },
+);
+export const ConvertRecipeRequest = recipeReadSync(
+  "/Recipe/_convertRecipe",
+  Recipe._convertRecipe,
+  { checks: "recipe" },
+);
+export const GetCookTimelineRequest = recipeReadSync(
+  "/Recipe/_getCookTimeline",
+  Recipe._getCookTimeline,
+  { checks: "recipe" },
+);
+export const GetExpandedRecipeRequest = recipeReadSync(
+  "/Recipe/_getExpandedRecipe",
+  Recipe._getExpandedRecipe,
+  { checks: "recipe", filters: true },
+);
+
+export const CheckIngredientUsageRequest = recipeReadSync(
+  "/Recipe/_checkIngredientUsage",
+  Recipe._checkIngredientUsage,
+  { checks: "recipe" },
+);
+export const GetAnnotationsForRecipeRequest = recipeReadSync(
+  "/Annotation/_getAnnotationsForRecipe",
+  Annotation._getAnnotationsForRecipe,
+  { checks: "recipe", pages: true },
+);
+export const GetAnnotationsForRecipesRequest = recipeReadSync(
+  "/Annotation/_getAnnotationsForRecipes",
+  Annotation._getAnnotationsForRecipes,
+  { checks: "recipes" },
+);
+export const ExportRecipeQueryRequest = recipeReadSync(
+  "/Recipe/_exportRecipe",
+  Recipe._exportRecipe,
+  { checks: "recipe" },
+);
+export const ListRevisionsRequest = recipeReadSync(
+  "/Recipe/_listRevisions",
+  Recipe._listRevisions,
+  { checks: "recipe" },
+);
+export const GetRevisionRequest = recipeReadSync(
+  "/Recipe/_getRevision",
+  Recipe._getRevision,
+  { checks: "recipe" },
+);
+export const DiffRevisionsRequest = recipeReadSync(
+  "/Recipe/_diffRevisions",
+  Recipe._diffRevisions,
+  { checks: "recipe" },
+);
+export const ListDraftsForRecipeRequest = recipeReadSync(
+  "/Recipe/_listDraftsForRecipe",
+  Recipe._listDraftsForRecipe,
+  { checks: "recipe", filters: true },
+);
+export const GetDraftRequest = recipeReadSync(
+  "/Recipe/_getDraft",
+  Recipe._getDraft,
+  { checks: "draft", filters: true },
+);
+export const DiffDraftRequest = recipeReadSync(
+  "/Recipe/_diffDraft",
+  Recipe._diffDraft,
+  { checks: "draft", filters: true },
+);
+
+/**
+ * Sync GetSharedRecipeRequest
+ * When a Requesting.request for /Recipe/getSharedRecipe comes in with a share link token,
+ * respond with the unlisted recipe it points to. No session is needed: the link is the permission.
+ */
+export const GetSharedRecipeRequest: Sync = ({
+  request,
+  token,
+  recipe,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/getSharedRecipe", token },
+    { request },
+  ]),
+  where: async (frames) =>
+    await frames.query(Recipe._getSharedRecipe, { token }, { recipe, error }),
+  then: actions([Requesting.respond, { request, recipe, error }]),
+});
 
 // --- Delete Recipe Synchronizations ---
 
@@ -187,16 +731,33 @@ export const DeleteRecipeRequest: Sync = (
 
 /**
  * Sync DeleteRecipeResponse
- * Responds to a successful recipe deletion.
+ * Responds to a successful recipe deletion, with a `warning` if other recipes used
+ * the deleted one as a component (FlagMissingComponentOnRecipeDeletion marks them).
  */
-export const DeleteRecipeResponse: Sync = ({ request }) => ({
+export const DeleteRecipeResponse: Sync = ({ request, recipe, warning }) => ({
   when: actions(
     [Requesting.request, { path: "/Recipe/deleteRecipe" }, { request }],
-    [Recipe.deleteRecipe, {}, {}], // deleteRecipe action returns empty on success
+    [Recipe.deleteRecipe, { recipe }, {}], // deleteRecipe action returns empty on success
   ),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    // Called directly rather than through frames.query, which would drop the frame when nothing used it
+    const rows = await Recipe._listRecipesUsingComponent({
+      component: originalFrame[recipe] as ID,
+    });
+    const titles = rows.flatMap((row) =>
+      "recipe" in row ? [`"${row.recipe.title}"`] : []
+    );
+    if (titles.length === 0) return frames;
+    const response = cloneFrame(originalFrame);
+    response[warning] = `The deleted recipe was a component of ${
+      titles.join(", ")
+    }; it now shows as missing there.`;
+    return new Frames(response);
+  },
   then: actions([
     Requesting.respond,
-    { request },
+    { request, warning },
   ]),
 });
 
@@ -296,6 +857,46 @@ export const CascadeNotebookUnshareOnRecipeDeletion: Sync = ({
   ]),
 });
 
+/**
+ * Sync FlagMissingComponentOnRecipeDeletion
+ * Ensures that when a recipe is deleted, recipes that used it as a component mark
+ * that section missing, so expanding them warns instead of failing.
+ */
+export const FlagMissingComponentOnRecipeDeletion: Sync = ({
+  recipe,
+  parentDoc,
+  parentId,
+}) => ({
+  when: actions([Recipe.deleteRecipe, { recipe }, {}]),
+  where: async (frames) => {
+    frames = await frames.query(
+      Recipe._listRecipesUsingComponent,
+      { component: recipe },
+      { recipe: parentDoc },
+    );
+
+    frames = frames.map(($) => {
+      const clone = cloneFrame($);
+      const value = clone[parentDoc];
+      if (
+        value &&
+        typeof value === "object" &&
+        "_id" in value &&
+        typeof (value as { _id?: unknown })._id === "string"
+      ) {
+        clone[parentId] = (value as { _id: string })._id;
+      }
+      return clone;
+    });
+
+    return frames.filter(($) => typeof $[parentId] === "string");
+  },
+  then: actions([
+    Recipe.markComponentMissing,
+    { recipe: parentId, component: recipe },
+  ]),
+});
+
 // --- Other Recipe Actions (Examples for update, addTag, etc.) ---
 // You would follow similar patterns for other actions.
 
@@ -311,6 +912,8 @@ export const UpdateRecipeDetailsRequest: Sync = ({
   newDescription,
   newIngredients,
   newSteps,
+  newYield,
+  newSections,
   recipeDoc,
   requester,
   requestDoc,
@@ -420,6 +1023,21 @@ export const UpdateRecipeDetailsRequest: Sync = ({
         delete finalFrame[newSteps];
       }
 
+      const maybeYield = (requestInput as { newYield?: unknown }).newYield;
+      if (maybeYield !== undefined) {
+        finalFrame[newYield] = maybeYield;
+      } else {
+        delete finalFrame[newYield];
+      }
+
+      const maybeSections = (requestInput as { newSections?: unknown })
+        .newSections;
+      if (maybeSections !== undefined) {
+        finalFrame[newSections] = maybeSections;
+      } else {
+        delete finalFrame[newSections];
+      }
+
       return new Frames(finalFrame);
     },
     then: actions([
@@ -431,6 +1049,8 @@ export const UpdateRecipeDetailsRequest: Sync = ({
         newDescription,
         newIngredients,
         newSteps,
+        newYield,
+        newSections,
       },
     ]),
   };
@@ -494,71 +1114,360 @@ export const UpdateRecipeDetailsCustomErrorResponse: Sync = ({
   };
 };
 
-// --- AI Draft Generation Synchronizations ---
+// --- Revert To Revision Synchronizations ---
 
 /**
- * Sync DraftRecipeWithAIRequest
- * When a Requesting.request for /recipes/draftWithAI comes in,
- * authenticate the session to get the author, then call Recipe.draftRecipeWithAI.
+ * Sync RevertToRevisionRequest
+ * When a Requesting.request for /Recipe/revertToRevision comes in with a valid session,
+ * call Recipe.revertToRevision as the session's user. Ownership is checked by the action.
  */
-export const DraftRecipeWithAIRequest: Sync = ({
+export const RevertToRevisionRequest: Sync = ({
   request,
   session,
   recipe,
-  goal,
-  author,
+  revision,
+  owner,
 }) => ({
   when: actions([
     Requesting.request,
-    { path: "/Recipe/draftRecipeWithAI", session, recipe, goal },
+    { path: "/Recipe/revertToRevision", session, recipe, revision },
     { request },
   ]),
   where: async (frames) => {
-    // Authenticate user session to get the author
-    const originalFrame = frames[0];
     frames = await frames.query(
       Sessioning._getUser,
       { session },
-      { user: author },
+      { user: owner },
     );
-    if (frames.length === 0) {
-      return new Frames({ ...originalFrame, error: "Invalid session" });
-    }
-    return frames;
+    return frames.filter(($) => typeof $[owner] === "string");
   },
-  then: actions([Recipe.draftRecipeWithAI, { author, recipe, goal }]),
+  then: actions([Recipe.revertToRevision, { owner, recipe, revision }]),
 });
 
 /**
- * Sync DraftRecipeWithAIResponse
- * When a Requesting.request for /recipes/draftWithAI successfully leads to Recipe.draftRecipeWithAI,
- * respond to the original request with the draft details.
+ * Sync RevertToRevisionSessionErrorResponse
+ * Responds with an error when the session of a /Recipe/revertToRevision request is invalid.
  */
-export const DraftRecipeWithAIResponse: Sync = (
-  {
-    request,
-    draftId,
-    baseRecipe,
-    requester,
-    goal,
-    title,
-    ingredients,
-    steps,
-    notes,
-    confidence,
-    created,
-    expires,
+export const RevertToRevisionSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/revertToRevision", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
   },
-) => ({
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync RevertToRevisionResponse
+ * Responds with the number of the new "revert" revision.
+ */
+export const RevertToRevisionResponse: Sync = ({ request, revision }) => ({
   when: actions(
-    [Requesting.request, { path: "/Recipe/draftRecipeWithAI" }, { request }],
-    [Recipe.draftRecipeWithAI, {}, {
-      draftId,
-      baseRecipe,
-      requester,
-      goal,
-      title,
-      ingredients,
+    [Requesting.request, { path: "/Recipe/revertToRevision" }, { request }],
+    [Recipe.revertToRevision, {}, { revision }],
+  ),
+  then: actions([Requesting.respond, { request, revision }]),
+});
+
+/**
+ * Sync RevertToRevisionErrorResponse
+ * Handles errors returned by Recipe.revertToRevision (not found, not the owner, ...).
+ */
+export const RevertToRevisionErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/revertToRevision" }, { request }],
+    [Recipe.revertToRevision, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// --- Merge From Parent Synchronizations ---
+
+/**
+ * Sync MergeFromParentRequest
+ * When a Requesting.request for /Recipe/mergeFromParent comes in with a valid session,
+ * call Recipe.mergeFromParent as the session's user, passing along optional `resolutions`
+ * from a follow-up call and the user's read access, so a parent they can no longer see is not
+ * merged in. Ownership and fork checks are done by the action.
+ */
+export const MergeFromParentRequest: Sync = ({
+  request,
+  session,
+  recipe,
+  owner,
+  resolutions,
+  access,
+  user,
+  notebook,
+  requestDoc,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/mergeFromParent", session, recipe },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: owner },
+    );
+    frames = frames.filter(($) => typeof $[owner] === "string");
+    if (frames.length === 0) return frames;
+
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const reader = await getReadAccess(
+      frames,
+      frames[0][session],
+      user,
+      notebook,
+    );
+    if ("error" in reader) return new Frames();
+    const finalFrame = cloneFrame(frames[0]);
+    finalFrame[access] = reader.access;
+    if (requestInput.resolutions !== undefined) {
+      finalFrame[resolutions] = requestInput.resolutions;
+    }
+    return new Frames(finalFrame);
+  },
+  then: actions([
+    Recipe.mergeFromParent,
+    { owner, recipe, resolutions, access },
+  ]),
+});
+
+/**
+ * Sync MergeFromParentSessionErrorResponse
+ * Responds with an error when the session of a /Recipe/mergeFromParent request is invalid.
+ */
+export const MergeFromParentSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/mergeFromParent", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync MergeFromParentResponse
+ * Responds with the number of the new "merge" revision.
+ */
+export const MergeFromParentResponse: Sync = ({ request, revision }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/mergeFromParent" }, { request }],
+    [Recipe.mergeFromParent, {}, { revision }],
+  ),
+  then: actions([Requesting.respond, { request, revision }]),
+});
+
+/**
+ * Sync MergeFromParentConflictResponse
+ * Responds with the conflicts the owner must resolve; nothing was written.
+ */
+export const MergeFromParentConflictResponse: Sync = ({
+  request,
+  conflicts,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/mergeFromParent" }, { request }],
+    [Recipe.mergeFromParent, {}, { conflicts }],
+  ),
+  then: actions([Requesting.respond, { request, conflicts }]),
+});
+
+/**
+ * Sync MergeFromParentErrorResponse
+ * Handles errors returned by Recipe.mergeFromParent.
+ */
+export const MergeFromParentErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/mergeFromParent" }, { request }],
+    [Recipe.mergeFromParent, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// --- AI Draft Generation Synchronizations ---
+
+/**
+ * Sync DraftRecipeWithAIRequest
+ * When a Requesting.request for /recipes/draftWithAI comes in, authenticate the session to
+ * get the author and reserve the provider calls the draft may make (MAX_DRAFT_CALLS, a retry
+ * included) against the author's daily and monthly AI quotas. The reservation is made before
+ * the provider is called, so parallel requests cannot all pass the same remaining allowance;
+ * DraftRecipeWithAIReserved continues once it is made, and the syncs in ai_usage.sync.ts
+ * settle it with the actual usage.
+ */
+export const DraftRecipeWithAIRequest: Sync = ({
+  request,
+  session,
+  recipe,
+  author,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/draftRecipeWithAI", session, recipe },
+    { request },
+  ]),
+  where: async (frames) => {
+    // Authenticate user session to get the author
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: author },
+    );
+    return frames.filter(($) => typeof $[author] === "string");
+  },
+  then: actions([
+    AIUsage.reserveCalls,
+    { user: author, calls: MAX_DRAFT_CALLS },
+  ]),
+});
+
+/**
+ * Sync DraftRecipeWithAIReserved
+ * Once the author's AI calls are reserved, call Recipe.draftRecipeWithAI with the optional
+ * free-text `goal` and goal `presets`, and the author's read access, so only recipes the
+ * author can see are sent to the provider.
+ */
+export const DraftRecipeWithAIReserved: Sync = ({
+  request,
+  session,
+  recipe,
+  goal,
+  presets,
+  author,
+  reservation,
+  access,
+  user,
+  notebook,
+  requestDoc,
+}) => ({
+  when: actions(
+    [
+      Requesting.request,
+      { path: "/Recipe/draftRecipeWithAI", session, recipe },
+      { request },
+    ],
+    [AIUsage.reserveCalls, { user: author }, { reservation }],
+  ),
+  where: async (frames) => {
+    // The author may only draft from recipes they can see
+    const reader = await getReadAccess(
+      frames,
+      frames[0][session],
+      user,
+      notebook,
+    );
+    if ("error" in reader) return new Frames();
+
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const finalFrame = cloneFrame(frames[0]);
+    finalFrame[access] = reader.access;
+    if (requestInput.goal !== undefined) finalFrame[goal] = requestInput.goal;
+    if (requestInput.presets !== undefined) {
+      finalFrame[presets] = requestInput.presets;
+    }
+    return new Frames(finalFrame);
+  },
+  then: actions([
+    Recipe.draftRecipeWithAI,
+    { author, recipe, goal, presets, access },
+  ]),
+});
+
+/**
+ * Sync DraftRecipeWithAIQuotaErrorResponse
+ * Responds with an error when the AI calls of a valid /Recipe/draftRecipeWithAI request
+ * cannot be reserved: the author has used up their daily or monthly AI quota (or their
+ * usage could not be read).
+ */
+export const DraftRecipeWithAIQuotaErrorResponse: Sync = ({
+  request,
+  error,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/draftRecipeWithAI" }, { request }],
+    [AIUsage.reserveCalls, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync DraftRecipeWithAIResponse
+ * When a Requesting.request for /recipes/draftWithAI successfully leads to Recipe.draftRecipeWithAI,
+ * respond to the original request with the draft details.
+ */
+export const DraftRecipeWithAIResponse: Sync = (
+  {
+    request,
+    draftId,
+    baseRecipe,
+    requester,
+    goal,
+    presets,
+    constraints,
+    satisfies,
+    title,
+    ingredients,
+    steps,
+    notes,
+    confidence,
+    created,
+    expires,
+  },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/draftRecipeWithAI" }, { request }],
+    [Recipe.draftRecipeWithAI, {}, {
+      draftId,
+      baseRecipe,
+      requester,
+      goal,
+      presets,
+      constraints,
+      satisfies,
+      title,
+      ingredients,
       steps,
       notes,
       confidence,
@@ -574,6 +1483,9 @@ export const DraftRecipeWithAIResponse: Sync = (
       baseRecipe,
       requester,
       goal,
+      presets,
+      constraints,
+      satisfies,
       title,
       ingredients,
       steps,
@@ -588,30 +1500,66 @@ export const DraftRecipeWithAIResponse: Sync = (
 /**
  * Sync DraftRecipeWithAIErrorResponse
  * When a Requesting.request for /recipes/draftWithAI results in an error from Recipe.draftRecipeWithAI,
- * respond to the original request with the error.
+ * respond to the original request with the error. Invalid drafts are handled by
+ * DraftRecipeWithAIInvalidDraftResponse, which also sends the field errors.
  */
 export const DraftRecipeWithAIErrorResponse: Sync = ({ request, error }) => ({
   when: actions(
     [Requesting.request, { path: "/Recipe/draftRecipeWithAI" }, { request }],
     [Recipe.draftRecipeWithAI, {}, { error }],
   ),
+  where: (frames) => frames.filter(($) => $[error] !== INVALID_DRAFT_ERROR),
   then: actions([Requesting.respond, { request, error }]),
 });
 
+/**
+ * Sync DraftRecipeWithAIInvalidDraftResponse
+ * When the AI's answer is still invalid after the retry, respond with the error and
+ * the field-level problems ({ path, message }) so the client can show them.
+ */
+export const DraftRecipeWithAIInvalidDraftResponse: Sync = ({
+  request,
+  fieldErrors,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/draftRecipeWithAI" }, { request }],
+    [Recipe.draftRecipeWithAI, {}, { error: INVALID_DRAFT_ERROR, fieldErrors }],
+  ),
+  then: actions([
+    Requesting.respond,
+    { request, error: INVALID_DRAFT_ERROR, fieldErrors },
+  ]),
+});
+
 /**
  * Sync DraftRecipeWithAISessionErrorResponse
- * Catches session-related errors propagated from the `where` clause of `DraftRecipeWithAIRequest`.
+ * Responds with an error when the session of a /Recipe/draftRecipeWithAI request is invalid.
  */
 export const DraftRecipeWithAISessionErrorResponse: Sync = ({
   request,
+  session,
+  user,
   error,
 }) => ({
   when: actions([
     Requesting.request,
-    { path: "/Recipe/draftRecipeWithAI" },
+    { path: "/Recipe/draftRecipeWithAI", session },
     { request },
   ]),
-  where: (frames) => frames.filter(($) => $[error] === "Invalid session"),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
   then: actions([Requesting.respond, { request, error }]),
 });
 
@@ -619,84 +1567,90 @@ export const DraftRecipeWithAISessionErrorResponse: Sync = ({
 
 /**
  * Sync ApplyDraftRequest
- * When a Requesting.request for /recipes/applyDraft comes in,
- * authenticate the session and authorize the user as the recipe owner, then call Recipe.applyDraft.
+ * When a Requesting.request for /Recipe/applyDraft comes in with a valid session,
+ * call Recipe.applyDraft with the stored draft's ID as the session's user, passing along
+ * the optional `accepted` change IDs for a selective apply.
+ * Ownership of the draft's recipe and the draft's expiry are checked by the action.
  */
 export const ApplyDraftRequest: Sync = ({
   request,
   session,
-  recipe,
-  draftDetails,
-  _owner,
-  recipeDoc,
-  requester,
+  draft,
+  owner,
+  accepted,
+  requestDoc,
 }) => ({
   when: actions([
     Requesting.request,
-    { path: "/Recipe/applyDraft", session, recipe, draftDetails },
+    { path: "/Recipe/applyDraft", session, draft },
     { request },
   ]),
   where: async (frames) => {
-    const originalFrame = frames[0];
-
-    // 1. Authenticate user session to get the requester
     frames = await frames.query(
       Sessioning._getUser,
       { session },
-      { user: requester },
+      { user: owner },
     );
-    if (frames.length === 0) {
-      return new Frames({ ...originalFrame, error: "Invalid session" });
-    }
+    frames = frames.filter(($) => typeof $[owner] === "string");
+    if (frames.length === 0) return frames;
 
-    // 2. Get recipe details to check ownership
-    const frameAfterRequester = frames[0];
-    frames = await frames.query(
-      Recipe._getRecipeById,
-      { recipe },
-      { recipe: recipeDoc },
-    );
-    if (frames.length === 0) {
-      return new Frames({ ...frameAfterRequester, error: "Recipe not found" });
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const finalFrame = cloneFrame(frames[0]);
+    if (requestInput.accepted !== undefined) {
+      finalFrame[accepted] = requestInput.accepted;
     }
+    return new Frames(finalFrame);
+  },
+  then: actions([Recipe.applyDraft, { owner, draft, accepted }]),
+});
 
-    // 3. Filter frames where requester is the recipe owner
-    frames = frames.filter(($) =>
-      $[requester] === ($[recipeDoc] as any)?.owner
+/**
+ * Sync ApplyDraftSessionErrorResponse
+ * Responds with an error when the session of a /Recipe/applyDraft request is invalid.
+ */
+export const ApplyDraftSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/applyDraft", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
     );
-    if (frames.length === 0) {
-      return new Frames({
-        ...frameAfterRequester,
-        error: "Unauthorized to apply draft to this recipe",
-      });
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
     }
-
-    return frames;
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
   },
-  then: actions([
-    Recipe.applyDraft,
-    { owner: requester, recipe, draftDetails },
-  ]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
 /**
  * Sync ApplyDraftResponse
- * Responds to a successful draft application.
+ * Responds to a successful draft application with the updated recipe's ID.
  */
-export const ApplyDraftResponse: Sync = ({ request }) => ({
+export const ApplyDraftResponse: Sync = ({ request, recipe }) => ({
   when: actions(
     [Requesting.request, { path: "/Recipe/applyDraft" }, { request }],
-    [Recipe.applyDraft, {}, {}], // applyDraft action returns empty on success
+    [Recipe.applyDraft, {}, { recipe }],
   ),
-  then: actions([
-    Requesting.respond,
-    { request },
-  ]),
+  then: actions([Requesting.respond, { request, recipe }]),
 });
 
 /**
  * Sync ApplyDraftErrorResponse
- * Handles errors returned directly by the Recipe.applyDraft action.
+ * Handles errors returned by Recipe.applyDraft (expired, already applied, not the owner, ...).
  */
 export const ApplyDraftErrorResponse: Sync = ({ request, error }) => ({
   when: actions(
@@ -706,23 +1660,603 @@ export const ApplyDraftErrorResponse: Sync = ({ request, error }) => ({
   then: actions([Requesting.respond, { request, error }]),
 });
 
+// --- Reject Draft Synchronizations ---
+
 /**
- * Sync ApplyDraftCustomErrorResponse
- * Handles specific errors (invalid session, not found, unauthorized) propagated from `ApplyDraftRequest`.
+ * Sync RejectDraftRequest
+ * When a Requesting.request for /Recipe/rejectDraft comes in with a valid session,
+ * call Recipe.rejectDraft as the session's user. The action checks that the user
+ * requested the draft or owns its recipe.
  */
-export const ApplyDraftCustomErrorResponse: Sync = ({ request, error }) => ({
+export const RejectDraftRequest: Sync = ({
+  request,
+  session,
+  draft,
+  requester,
+}) => ({
   when: actions([
     Requesting.request,
-    { path: "/Recipe/applyDraft" },
+    { path: "/Recipe/rejectDraft", session, draft },
     { request },
   ]),
-  where: (frames) => {
-    return frames.filter(
-      ($) =>
-        $[error] === "Invalid session" ||
-        $[error] === "Recipe not found" ||
-        $[error] === "Unauthorized to apply draft to this recipe",
-    );
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: requester },
+    );
+    return frames.filter(($) => typeof $[requester] === "string");
+  },
+  then: actions([Recipe.rejectDraft, { requester, draft }]),
+});
+
+/**
+ * Sync RejectDraftSessionErrorResponse
+ * Responds with an error when the session of a /Recipe/rejectDraft request is invalid.
+ */
+export const RejectDraftSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/rejectDraft", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync RejectDraftResponse
+ * Responds to a successful rejection.
+ */
+export const RejectDraftResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/rejectDraft" }, { request }],
+    [Recipe.rejectDraft, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+/**
+ * Sync RejectDraftErrorResponse
+ * Handles errors returned by Recipe.rejectDraft.
+ */
+export const RejectDraftErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/rejectDraft" }, { request }],
+    [Recipe.rejectDraft, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// --- Visibility Synchronizations ---
+
+/**
+ * Sync SetVisibilityRequest
+ * When a Requesting.request for /Recipe/setVisibility comes in with a valid session,
+ * call Recipe.setVisibility as the session's user. The action checks that the user owns the recipe.
+ */
+export const SetVisibilityRequest: Sync = ({
+  request,
+  session,
+  recipe,
+  visibility,
+  owner,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/setVisibility", session, recipe, visibility },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: owner },
+    );
+    return frames.filter(($) => typeof $[owner] === "string");
+  },
+  then: actions([Recipe.setVisibility, { owner, recipe, visibility }]),
+});
+
+/**
+ * Sync SetVisibilitySessionErrorResponse
+ * Responds with an error when the session of a /Recipe/setVisibility request is invalid.
+ */
+export const SetVisibilitySessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/setVisibility", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
   },
   then: actions([Requesting.respond, { request, error }]),
 });
+
+/**
+ * Sync SetVisibilityResponse
+ * Responds to a successful Recipe.setVisibility.
+ */
+export const SetVisibilityResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/setVisibility" }, { request }],
+    [Recipe.setVisibility, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+/**
+ * Sync SetVisibilityErrorResponse
+ * Handles errors returned by Recipe.setVisibility.
+ */
+export const SetVisibilityErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/setVisibility" }, { request }],
+    [Recipe.setVisibility, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync CreateShareLinkRequest
+ * When a Requesting.request for /Recipe/createShareLink comes in with a valid session,
+ * call Recipe.createShareLink as the session's user. The action checks that the user owns the recipe
+ * and that it is unlisted or public.
+ */
+export const CreateShareLinkRequest: Sync = ({
+  request,
+  session,
+  recipe,
+  owner,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/createShareLink", session, recipe },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: owner },
+    );
+    return frames.filter(($) => typeof $[owner] === "string");
+  },
+  then: actions([Recipe.createShareLink, { owner, recipe }]),
+});
+
+/**
+ * Sync CreateShareLinkSessionErrorResponse
+ * Responds with an error when the session of a /Recipe/createShareLink request is invalid.
+ */
+export const CreateShareLinkSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/createShareLink", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync CreateShareLinkResponse
+ * Responds to a successful Recipe.createShareLink.
+ */
+export const CreateShareLinkResponse: Sync = ({ request, token }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/createShareLink" }, { request }],
+    [Recipe.createShareLink, {}, { token }],
+  ),
+  then: actions([Requesting.respond, { request, token }]),
+});
+
+/**
+ * Sync CreateShareLinkErrorResponse
+ * Handles errors returned by Recipe.createShareLink.
+ */
+export const CreateShareLinkErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/createShareLink" }, { request }],
+    [Recipe.createShareLink, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync RevokeShareLinkRequest
+ * When a Requesting.request for /Recipe/revokeShareLink comes in with a valid session,
+ * call Recipe.revokeShareLink as the session's user. The action checks that the user owns the recipe.
+ */
+export const RevokeShareLinkRequest: Sync = ({
+  request,
+  session,
+  recipe,
+  owner,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/revokeShareLink", session, recipe },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user: owner },
+    );
+    return frames.filter(($) => typeof $[owner] === "string");
+  },
+  then: actions([Recipe.revokeShareLink, { owner, recipe }]),
+});
+
+/**
+ * Sync RevokeShareLinkSessionErrorResponse
+ * Responds with an error when the session of a /Recipe/revokeShareLink request is invalid.
+ */
+export const RevokeShareLinkSessionErrorResponse: Sync = ({
+  request,
+  session,
+  user,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/revokeShareLink", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const userFrames = await frames.query(
+      Sessioning._getUser,
+      { session },
+      { user },
+    );
+    if (userFrames.some(($) => typeof $[user] === "string")) {
+      return new Frames();
+    }
+    const frameWithError = cloneFrame(originalFrame);
+    frameWithError[error] = "Session invalid or expired.";
+    return new Frames(frameWithError);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Sync RevokeShareLinkResponse
+ * Responds to a successful Recipe.revokeShareLink.
+ */
+export const RevokeShareLinkResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/revokeShareLink" }, { request }],
+    [Recipe.revokeShareLink, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+/**
+ * Sync RevokeShareLinkErrorResponse
+ * Handles errors returned by Recipe.revokeShareLink.
+ */
+export const RevokeShareLinkErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Recipe/revokeShareLink" }, { request }],
+    [Recipe.revokeShareLink, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// --- Preferred Unit System Synchronizations ---
+
+/**
+ * Sync ConvertRecipeToPreferredUnitsRequest
+ * When a Requesting.request for /Recipe/convertToPreferredUnits comes in,
+ * authenticate the session, pick the unit system (an explicit `system` in the request,
+ * otherwise the user's `unitSystem` preference), run Recipe._convertRecipe and respond.
+ * The recipe must be visible to the user.
+ * Either the converted ingredients or an error is bound; the response omits whichever is missing.
+ */
+export const ConvertRecipeToPreferredUnitsRequest: Sync = ({
+  request,
+  session,
+  recipe,
+  user,
+  userDetails,
+  notebook,
+  recipeDoc,
+  requestDoc,
+  system,
+  ingredients,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/convertToPreferredUnits", session, recipe },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const withError = (message: string) => {
+      const frameWithError = cloneFrame(originalFrame);
+      frameWithError[error] = message;
+      return new Frames(frameWithError);
+    };
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = frames.filter(($) => typeof $[user] === "string");
+    if (frames.length === 0) {
+      return withError("Session invalid or expired.");
+    }
+
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const reader = await getReadAccess(
+      frames,
+      requestInput.session,
+      user,
+      notebook,
+    );
+    if ("error" in reader) return withError(reader.error);
+    const visible = await frames.query(
+      Recipe._getRecipeById,
+      { recipe, access: reader.access },
+      { recipe: recipeDoc },
+    );
+    if (visible[0]?.[recipeDoc] === undefined) {
+      return withError("Recipe not found.");
+    }
+
+    let requested = requestInput.system;
+    if (requested === undefined) {
+      frames = await frames.query(
+        User._getUserDetails,
+        { user },
+        { user: userDetails },
+      );
+      const details = frames[0]?.[userDetails] as
+        | { preferences?: Record<string, unknown> }
+        | undefined;
+      requested = details?.preferences?.unitSystem;
+    }
+    if (requested === undefined) {
+      return withError(
+        "No unit system requested and no unitSystem preference set.",
+      );
+    }
+
+    const frameWithSystem = cloneFrame(frames[0]);
+    frameWithSystem[system] = requested;
+    // _convertRecipe returns either the converted ingredients or an error; bind both.
+    return await new Frames(frameWithSystem).query(
+      Recipe._convertRecipe,
+      { recipe, system },
+      { system, ingredients, error },
+    );
+  },
+  then: actions([
+    Requesting.respond,
+    { request, recipe, system, ingredients, error },
+  ]),
+});
+
+// --- What Can I Cook Synchronizations ---
+
+const PANTRY_SCOPES = ["mine", "notebooks", "all"];
+
+/**
+ * Sync WhatCanICookRequest
+ * When a Requesting.request for /Recipe/whatCanICook comes in with the ingredients on hand,
+ * authenticate the session and run Recipe._whatCanICook over the requested scope:
+ * "mine" (the user's own recipes), "notebooks" (recipes shared in notebooks the user belongs to)
+ * or "all" (every recipe the user can see; the default). The first two need a logged-in user.
+ * Optional minCoverage and limit are passed through.
+ * Responds with the ranked results, or an error.
+ */
+export const WhatCanICookRequest: Sync = ({
+  request,
+  session,
+  ingredients,
+  user,
+  requestDoc,
+  notebook,
+  recipe,
+  coverage,
+  matched,
+  missing,
+  results,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Recipe/whatCanICook", session, ingredients },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const withError = (message: string) => {
+      const frameWithError = cloneFrame(originalFrame);
+      frameWithError[error] = message;
+      return new Frames(frameWithError);
+    };
+
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const reader = await getReadAccess(
+      frames,
+      requestInput.session,
+      user,
+      notebook,
+    );
+    if ("error" in reader) return withError(reader.error);
+    const { access } = reader;
+    const scope = requestInput.scope ?? "all";
+    if (typeof scope !== "string" || !PANTRY_SCOPES.includes(scope)) {
+      return withError('Scope must be "mine", "notebooks" or "all".');
+    }
+    if (scope !== "all" && access.viewer === undefined) {
+      return withError("Log in to search your own recipes.");
+    }
+
+    const args: Record<string, unknown> = { ingredients, access };
+    if (scope === "mine") args.owner = access.viewer;
+    if (scope === "notebooks") args.recipes = access.shared;
+    for (const option of ["minCoverage", "limit"]) {
+      if (requestInput[option] !== undefined) {
+        args[option] = requestInput[option];
+      }
+    }
+
+    const matches = await frames.query(
+      Recipe._whatCanICook,
+      args,
+      { recipe, coverage, matched, missing, error },
+    );
+    const failed = matches.find(($) => typeof $[error] === "string");
+    if (failed) return withError(failed[error] as string);
+
+    const response = cloneFrame(originalFrame);
+    response[results] = matches.map(($) => ({
+      recipe: $[recipe],
+      coverage: $[coverage],
+      matched: $[matched],
+      missing: $[missing],
+    }));
+    return new Frames(response);
+  },
+  then: actions([Requesting.respond, { request, results, error }]),
+});
+
+// --- Nutrition Synchronizations ---
+
+/**
+ * Sync EstimateRecipeNutritionRequest
+ * When a Requesting.request for /Nutrition/estimateRecipe comes in, estimate the nutrients of a
+ * recipe the reader can see (an optional session, as for recipe reads) with
+ * Nutrition._estimateNutrition. Components are expanded first, so their ingredients count, and the
+ * reader's ingredient mappings are used. Per-serving values come from the recipe's yield, or from
+ * `servings` in the request. Responds with the report and any warnings about missing components,
+ * or an error.
+ */
+export const EstimateRecipeNutritionRequest: Sync = ({
+  request,
+  recipe,
+  requestDoc,
+  user,
+  notebook,
+  recipeDoc,
+  report,
+  warnings,
+  error,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Nutrition/estimateRecipe", recipe },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+    const withError = (message: string) => {
+      const frameWithError = cloneFrame(originalFrame);
+      frameWithError[error] = message;
+      return new Frames(frameWithError);
+    };
+    if (inputId(originalFrame[recipe]) === undefined) {
+      return withError("Recipe ID must be provided.");
+    }
+
+    const requestInput = await getRequestInput(frames, request, requestDoc);
+    const reader = await getReadAccess(
+      frames,
+      requestInput.session,
+      user,
+      notebook,
+    );
+    if ("error" in reader) return withError(reader.error);
+    const { access } = reader;
+
+    const visible = await frames.query(
+      Recipe._getRecipeById,
+      { recipe, access },
+      { recipe: recipeDoc },
+    );
+    const doc = visible[0]?.[recipeDoc] as
+      | { yield?: { servings?: number } }
+      | undefined;
+    if (doc === undefined) return withError("Recipe not found.");
+
+    const [expanded] = await Recipe._getExpandedRecipe({
+      recipe: originalFrame[recipe] as ID,
+      access,
+    });
+    if ("error" in expanded) return withError(expanded.error);
+
+    const [estimate] = await Nutrition._estimateNutrition({
+      user: access.viewer as ID | undefined,
+      ingredients: expanded.ingredients,
+      // Nutrition checks the servings a client sends
+      servings: (requestInput.servings as number | undefined) ??
+        doc.yield?.servings,
+    });
+    if ("error" in estimate) return withError(estimate.error);
+
+    const response = cloneFrame(originalFrame);
+    response[report] = estimate.report;
+    response[warnings] = expanded.warnings;
+    return new Frames(response);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, recipe, report, warnings, error },
+  ]),
+});
@@ -21,7 +21,7 @@ export const VersionFeatureNotAvailable: Sync = ({ request }) => ({
     {
       request,
       error:
-        "Version feature is not available. AI modifications are now handled via Recipe.draftRecipeWithAI and Recipe.applyDraft instead.",
+        "Version feature is not available. Recipe history is now available via Recipe._listRevisions, Recipe._diffRevisions and Recipe.revertToRevision.",
     },
   ]),
 });
@@ -40,7 +40,7 @@ export const VersionDraftFeatureNotAvailable: Sync = ({ request }) => ({
     {
       request,
       error:
-        "VersionDraft feature is not available. AI modifications are now handled via Recipe.draftRecipeWithAI and Recipe.applyDraft instead.",
+        "VersionDraft feature is not available. AI drafts are now stored by Recipe.draftRecipeWithAI and read via Recipe._getDraft instead.",
     },
   ]),
 });
@@ -0,0 +1,125 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  asUnitSystem,
+  convertIngredient,
+  findDensity,
+  toGrams,
+} from "./conversion.ts";
+
+Deno.test("convertIngredient", async (t) => {
+  await t.step("converts dry goods between cups and grams", () => {
+    const flour = convertIngredient(
+      { name: "All-purpose flour", quantity: "2 cups" },
+      "metric",
+    );
+    assertEquals(flour.quantity, "250 g");
+    assertEquals(flour.unit, "g");
+    assertEquals(flour.originalQuantity, "2 cups");
+    assertEquals(flour.converted, true);
+
+    const sugar = convertIngredient(
+      { name: "Granulated sugar", quantity: "100 g" },
+      "imperial",
+    );
+    assertEquals(sugar.quantity, "1/2 cup");
+  });
+
+  await t.step("keeps liquids volumetric in metric", () => {
+    const milk = convertIngredient(
+      { name: "Milk", quantity: "1 cup" },
+      "metric",
+    );
+    assertEquals(milk.quantity, "235 ml");
+
+    const stock = convertIngredient(
+      { name: "Chicken stock", quantity: "1 quart" },
+      "metric",
+    );
+    assertEquals(stock.quantity, "945 ml");
+  });
+
+  await t.step("converts within a dimension without a density", () => {
+    const chicken = convertIngredient(
+      { name: "Chicken thighs", quantity: "1.5", unit: "lb" },
+      "metric",
+    );
+    assertEquals(chicken.quantity, "680 g");
+
+    const pasta = convertIngredient(
+      { name: "Spaghetti", quantity: "500 g" },
+      "imperial",
+    );
+    assertEquals(pasta.quantity, "1 1/8 lb", "17.6 oz should read in pounds.");
+
+    const mystery = convertIngredient(
+      { name: "Mystery powder", quantity: "3 tbsp" },
+      "metric",
+    );
+    assertEquals(mystery.quantity, "44 ml");
+  });
+
+  await t.step("converts both ends of a range", () => {
+    const water = convertIngredient(
+      { name: "Water", quantity: "1-2 cups" },
+      "metric",
+    );
+    assertEquals(water.quantity, "235-475 ml");
+  });
+
+  await t.step("leaves counts, to-taste and same-system items alone", () => {
+    for (
+      const [ingredient, system] of [
+        [{ name: "Eggs", quantity: "2 large" }, "metric"],
+        [{ name: "Garlic", quantity: "3 cloves" }, "metric"],
+        [{ name: "Salt", quantity: "to taste" }, "imperial"],
+        [{ name: "Butter", quantity: "2 tbsp" }, "imperial"],
+        [{ name: "Rice", quantity: "200 g" }, "metric"],
+      ] as const
+    ) {
+      const result = convertIngredient(ingredient, system);
+      assertEquals(result.quantity, ingredient.quantity);
+      assertEquals(result.converted, false);
+    }
+  });
+});
+
+Deno.test("findDensity prefers the most specific match", () => {
+  assertEquals(findDensity("Light brown sugar, packed")?.gPerMl, 0.93);
+  assertEquals(findDensity("Sugar")?.gPerMl, 0.85);
+  assertEquals(findDensity("Buttercup squash"), undefined);
+});
+
+Deno.test("toGrams", async (t) => {
+  await t.step("weighs masses, and volumes by density", () => {
+    assertEquals(toGrams({ name: "Sugar", quantity: "200 g" }), 200);
+    assertEquals(toGrams({ name: "Butter", quantity: "1 lb" }), 453.592);
+    assertEquals(
+      toGrams({ name: "Flour", quantity: "1 cup" }, { gPerMl: 0.5 }),
+      118.294,
+    );
+    assertEquals(
+      Math.round(toGrams({ name: "Milk", quantity: "1 cup" })!),
+      244,
+    );
+  });
+
+  await t.step("weighs counts by the weights given", () => {
+    const weights = { each: 50, units: { clove: 3 } };
+    assertEquals(toGrams({ name: "Eggs", quantity: "2 large" }, weights), 100);
+    assertEquals(toGrams({ name: "Garlic", quantity: "3 cloves" }, weights), 9);
+    assertEquals(toGrams({ name: "Salt", quantity: "1 pinch" }), 0.36);
+    assertEquals(toGrams({ name: "Eggs", quantity: "2 large" }), undefined);
+  });
+
+  await t.step("takes the middle of a range, and skips to-taste", () => {
+    assertEquals(toGrams({ name: "Rice", quantity: "100-200 g" }), 150);
+    assertEquals(toGrams({ name: "Salt", quantity: "to taste" }), undefined);
+    assertEquals(toGrams({ name: "Mystery", quantity: "1 cup" }), undefined);
+  });
+});
+
+Deno.test("asUnitSystem", () => {
+  assertEquals(asUnitSystem("metric"), "metric");
+  assertEquals(asUnitSystem("Metric"), undefined);
+  assertEquals(asUnitSystem(undefined), undefined);
+});
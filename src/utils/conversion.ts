@@ -0,0 +1,257 @@
+/**
+ * Metric/imperial conversion for ingredient quantities.
+ *
+ * Converting within a dimension (cups -> ml, oz -> g) only needs the unit
+ * table. Crossing between volume and mass (cups of flour -> grams) needs the
+ * ingredient's density, which comes from the table below.
+ */
+import {
+  formatQuantity,
+  normalizeUnit,
+  type ParsedQuantity,
+  parseQuantity,
+  roundAmount,
+  unitByName,
+  type UnitDefinition,
+  type UnitSystem,
+} from "./quantity.ts";
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+/**
+ * Approximate densities in grams per millilitre.
+ * `liquid` items stay volumetric in metric (ml, not g), as most metric recipes write them.
+ * Keys are matched as whole words inside the ingredient name; the longest match wins,
+ * so "brown sugar" beats "sugar".
+ */
+export const DENSITIES: Record<string, { gPerMl: number; liquid?: boolean }> = {
+  "flour": { gPerMl: 0.53 },
+  "all-purpose flour": { gPerMl: 0.53 },
+  "plain flour": { gPerMl: 0.53 },
+  "bread flour": { gPerMl: 0.55 },
+  "cake flour": { gPerMl: 0.48 },
+  "whole wheat flour": { gPerMl: 0.51 },
+  "almond flour": { gPerMl: 0.41 },
+  "cornstarch": { gPerMl: 0.54 },
+  "cornmeal": { gPerMl: 0.6 },
+  "sugar": { gPerMl: 0.85 },
+  "granulated sugar": { gPerMl: 0.85 },
+  "brown sugar": { gPerMl: 0.93 },
+  "powdered sugar": { gPerMl: 0.51 },
+  "icing sugar": { gPerMl: 0.51 },
+  "confectioners sugar": { gPerMl: 0.51 },
+  "cocoa powder": { gPerMl: 0.42 },
+  "cocoa": { gPerMl: 0.42 },
+  "chocolate chips": { gPerMl: 0.72 },
+  "butter": { gPerMl: 0.96 },
+  "peanut butter": { gPerMl: 1.08 },
+  "honey": { gPerMl: 1.42 },
+  "maple syrup": { gPerMl: 1.32 },
+  "molasses": { gPerMl: 1.4 },
+  "salt": { gPerMl: 1.22 },
+  "kosher salt": { gPerMl: 0.6 },
+  "baking soda": { gPerMl: 0.97 },
+  "baking powder": { gPerMl: 0.81 },
+  "yeast": { gPerMl: 0.6 },
+  "cinnamon": { gPerMl: 0.53 },
+  "rolled oats": { gPerMl: 0.38 },
+  "oats": { gPerMl: 0.38 },
+  "rice": { gPerMl: 0.79 },
+  "breadcrumbs": { gPerMl: 0.46 },
+  "raisins": { gPerMl: 0.63 },
+  "nuts": { gPerMl: 0.5 },
+  "walnuts": { gPerMl: 0.5 },
+  "almonds": { gPerMl: 0.6 },
+  "parmesan": { gPerMl: 0.42 },
+  "cheese": { gPerMl: 0.47 },
+  "yogurt": { gPerMl: 1.04 },
+  "sour cream": { gPerMl: 1.0 },
+  "cream cheese": { gPerMl: 0.96 },
+  "water": { gPerMl: 1.0, liquid: true },
+  "milk": { gPerMl: 1.03, liquid: true },
+  "buttermilk": { gPerMl: 1.03, liquid: true },
+  "cream": { gPerMl: 1.0, liquid: true },
+  "heavy cream": { gPerMl: 1.0, liquid: true },
+  "oil": { gPerMl: 0.92, liquid: true },
+  "olive oil": { gPerMl: 0.91, liquid: true },
+  "vegetable oil": { gPerMl: 0.92, liquid: true },
+  "vinegar": { gPerMl: 1.01, liquid: true },
+  "soy sauce": { gPerMl: 1.15, liquid: true },
+  "stock": { gPerMl: 1.0, liquid: true },
+  "broth": { gPerMl: 1.0, liquid: true },
+  "juice": { gPerMl: 1.04, liquid: true },
+  "wine": { gPerMl: 0.99, liquid: true },
+  "vanilla extract": { gPerMl: 0.88, liquid: true },
+};
+
+const DENSITY_KEYS = Object.keys(DENSITIES).sort((a, b) => b.length - a.length);
+
+/**
+ * Finds the density entry for an ingredient name, e.g. "Light brown sugar, packed".
+ */
+export function findDensity(
+  name: string,
+): { gPerMl: number; liquid?: boolean } | undefined {
+  const normalized = ` ${
+    name.toLowerCase().replace(/[^a-z\s-]/g, " ").replace(/\s+/g, " ")
+  } `;
+  const key = DENSITY_KEYS.find((k) => normalized.includes(` ${k} `));
+  return key ? DENSITIES[key] : undefined;
+}
+
+/**
+ * The unit each system prefers for a dimension, before normalization picks
+ * the most readable size (ml -> l, tsp -> cup, ...).
+ */
+const TARGET_UNITS: Record<UnitSystem, { volume: string; mass: string }> = {
+  metric: { volume: "ml", mass: "g" },
+  imperial: { volume: "tsp", mass: "oz" },
+};
+
+interface ConvertibleIngredient {
+  name: string;
+  quantity: string;
+  unit?: string;
+  parsedQuantity?: ParsedQuantity;
+}
+
+export type ConvertedIngredient<T extends ConvertibleIngredient> = T & {
+  unit?: string;
+  parsedQuantity?: ParsedQuantity;
+  originalQuantity: string; // the quantity text before conversion
+  converted: boolean; // false when the quantity was already in the target system or cannot be converted
+};
+
+/**
+ * Converts a base amount (ml or g) of an ingredient into the target system.
+ * Dry goods with a known density switch between volume and mass so that each
+ * system gets its customary measure: grams for metric baking, cups for imperial.
+ */
+function chooseTarget(
+  dimension: "volume" | "mass",
+  baseAmount: number,
+  system: UnitSystem,
+  density: { gPerMl: number; liquid?: boolean } | undefined,
+): { amount: number; unit: UnitDefinition } | undefined {
+  let targetDimension = dimension;
+  let amount = baseAmount;
+  if (density && !density.liquid) {
+    if (system === "metric" && dimension === "volume") {
+      targetDimension = "mass";
+      amount = baseAmount * density.gPerMl;
+    } else if (system === "imperial" && dimension === "mass") {
+      targetDimension = "volume";
+      amount = baseAmount / density.gPerMl;
+    }
+  }
+  const unit = unitByName(TARGET_UNITS[system][targetDimension]);
+  if (!unit) return undefined;
+  return normalizeUnit(amount / unit.toBase, unit, true);
+}
+
+/**
+ * convertIngredient(ingredient, system): renders an ingredient's quantity in the
+ * requested unit system. Count units, "to taste" and unparsed quantities, and
+ * quantities already in the target system are returned unchanged.
+ */
+export function convertIngredient<T extends ConvertibleIngredient>(
+  ingredient: T,
+  system: UnitSystem,
+): ConvertedIngredient<T> {
+  const parsed = ingredient.parsedQuantity ??
+    parseQuantity(ingredient.quantity, ingredient.unit);
+  const unchanged = {
+    ...ingredient,
+    originalQuantity: ingredient.quantity,
+    converted: false,
+  };
+  const unit = unitByName(parsed.unit);
+  if (
+    parsed.amount === undefined || !unit || unit.dimension === "count" ||
+    unit.system === system
+  ) {
+    return unchanged;
+  }
+
+  const density = findDensity(ingredient.name);
+  const low = chooseTarget(
+    unit.dimension,
+    parsed.amount * unit.toBase,
+    system,
+    density,
+  );
+  if (!low) return unchanged;
+
+  const result: ParsedQuantity = {
+    kind: parsed.kind,
+    amount: roundAmount(low.amount, low.unit),
+    unit: low.unit.name,
+    dimension: low.unit.dimension,
+  };
+  if (parsed.kind === "range" && parsed.maxAmount !== undefined) {
+    const ratio = parsed.maxAmount / parsed.amount;
+    result.maxAmount = roundAmount(low.amount * ratio, low.unit);
+  }
+
+  return {
+    ...ingredient,
+    quantity: formatQuantity(result) ?? ingredient.quantity,
+    unit: low.unit.name,
+    parsedQuantity: result,
+    originalQuantity: ingredient.quantity,
+    converted: true,
+  };
+}
+
+/**
+ * What one measure of an ingredient weighs, for quantities that are not
+ * already a mass: grams per millilitre, grams of one item ("2 eggs"), and
+ * grams per count unit ("3 cloves").
+ */
+export interface GramWeights {
+  gPerMl?: number;
+  each?: number;
+  units?: Record<string, number>;
+}
+
+// Count units that weigh about the same whatever they measure
+const COUNT_UNIT_GRAMS: Record<string, number> = { pinch: 0.36, dash: 0.6 };
+
+/**
+ * toGrams(ingredient, weights): the weight of an ingredient's quantity in
+ * grams, a range counting as its midpoint. Volumes use `weights.gPerMl`, or
+ * else the density table; counts use `weights`. Undefined when the quantity
+ * has no amount ("to taste") or nothing says what its unit weighs.
+ */
+export function toGrams(
+  ingredient: ConvertibleIngredient,
+  weights: GramWeights = {},
+): number | undefined {
+  const parsed = ingredient.parsedQuantity ??
+    parseQuantity(ingredient.quantity, ingredient.unit);
+  if (parsed.amount === undefined) return undefined;
+  const amount = parsed.maxAmount === undefined
+    ? parsed.amount
+    : (parsed.amount + parsed.maxAmount) / 2;
+  const unit = unitByName(parsed.unit);
+  if (!unit) {
+    return parsed.dimension === "count" && weights.each !== undefined
+      ? amount * weights.each
+      : undefined;
+  }
+  if (unit.dimension === "mass") return amount * unit.toBase;
+  if (unit.dimension === "volume") {
+    const gPerMl = weights.gPerMl ?? findDensity(ingredient.name)?.gPerMl;
+    return gPerMl === undefined ? undefined : amount * unit.toBase * gPerMl;
+  }
+  const each = weights.units?.[unit.name] ?? COUNT_UNIT_GRAMS[unit.name] ??
+    (unit.name === "piece" ? weights.each : undefined);
+  return each === undefined ? undefined : amount * each;
+}
+
+/**
+ * Reads a unit system from an untyped value (e.g. a user preference).
+ */
+export function asUnitSystem(value: unknown): UnitSystem | undefined {
+  return UNIT_SYSTEMS.find((system) => system === value);
+}
@@ -0,0 +1,116 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import type { ID } from "@utils/types.ts";
+import {
+  DEFAULT_PAGE_LIMIT,
+  type Page,
+  pageQuery,
+  pageResults,
+  paginate,
+  readPage,
+  withDefaultLimit,
+} from "./pagination.ts";
+
+const SORTS = { created: "created", title: "title" };
+
+function page(options: Parameters<typeof readPage>[0]): Page {
+  const result = readPage(options, SORTS, "created");
+  if ("error" in result) throw new Error(result.error);
+  return result;
+}
+
+const docs = [1, 2, 3, 4, 5].map((n) => ({
+  _id: `doc:${n}` as ID,
+  title: `Title ${n}`,
+  created: new Date(Date.UTC(2024, 0, n)),
+}));
+
+Deno.test("readPage: without a limit or cursor nothing is paged", () => {
+  const unpaged = page({});
+  assertEquals(unpaged.paged, false);
+  assertEquals(pageQuery(unpaged), {
+    filter: {},
+    sort: { created: 1, _id: 1 },
+    limit: 0,
+  });
+  assertEquals(paginate(docs, unpaged, "doc").length, 5);
+  assertEquals("nextCursor" in paginate(docs, unpaged, "doc")[0], false);
+});
+
+Deno.test("readPage: validates sort, direction and limit", () => {
+  assertEquals(readPage({ sort: "rating" }, SORTS, "created"), {
+    error: "Sort must be one of: created, title.",
+  });
+  assertEquals(
+    readPage({ direction: "up" as "asc" }, SORTS, "created"),
+    { error: 'Direction must be "asc" or "desc".' },
+  );
+  assertEquals(readPage({ limit: 101 }, SORTS, "created"), {
+    error: "Limit must be a whole number from 1 to 100.",
+  });
+  assertEquals(readPage({ cursor: "not-a-cursor" }, SORTS, "created"), {
+    error: "Cursor is not valid.",
+  });
+});
+
+Deno.test("pageResults: asks for one extra row to find the next page", () => {
+  const first = page({ limit: 2 });
+  assertEquals(pageQuery(first).limit, 3);
+
+  const { items, nextCursor } = pageResults(docs.slice(0, 3), first);
+  assertEquals(items.map((doc) => doc._id), ["doc:1", "doc:2"]);
+  assertNotEquals(nextCursor, null);
+
+  const last = pageResults(docs.slice(3, 5), first);
+  assertEquals(last.nextCursor, null);
+});
+
+Deno.test("pageQuery: a cursor continues after the last row, ties by _id", () => {
+  const first = page({ limit: 2, direction: "desc" });
+  const { nextCursor } = pageResults([docs[4], docs[3], docs[2]], first);
+  const next = page({ limit: 2, direction: "desc", cursor: nextCursor! });
+  assertEquals(pageQuery(next), {
+    filter: {
+      $or: [
+        { created: { $lt: docs[3].created } },
+        { created: docs[3].created, _id: { $lt: "doc:4" } },
+      ],
+    },
+    sort: { created: -1, _id: -1 },
+    limit: 3,
+  });
+});
+
+Deno.test("readPage: a cursor alone pages with the default limit", () => {
+  const { nextCursor } = pageResults(docs, page({ limit: 1, sort: "title" }));
+  const next = page({ cursor: nextCursor!, sort: "title" });
+  assertEquals(next.limit, DEFAULT_PAGE_LIMIT);
+  assertEquals(next.after, { value: "Title 1", id: "doc:1" as ID });
+});
+
+Deno.test("withDefaultLimit: fills in the limit a client left out", () => {
+  assertEquals(withDefaultLimit({ sort: "title" }), {
+    sort: "title",
+    limit: DEFAULT_PAGE_LIMIT,
+  });
+  assertEquals(withDefaultLimit({ limit: 5 }), { limit: 5 });
+  assertEquals(page(withDefaultLimit({})).paged, true);
+});
+
+Deno.test("readPage: rejects a cursor from a different sort", () => {
+  const { nextCursor } = pageResults(docs, page({ limit: 1 }));
+  assertEquals(
+    readPage({ cursor: nextCursor!, sort: "title" }, SORTS, "created"),
+    { error: "Cursor does not match the requested sort." },
+  );
+  assertEquals(
+    readPage({ cursor: nextCursor!, direction: "desc" }, SORTS, "created"),
+    { error: "Cursor does not match the requested sort." },
+  );
+});
+
+Deno.test("paginate: every row of a page carries the next cursor", () => {
+  const rows = paginate(docs.slice(0, 3), page({ limit: 2 }), "doc");
+  assertEquals(rows.length, 2);
+  assertEquals(rows[0].nextCursor, rows[1].nextCursor);
+  assertEquals(rows[0].doc._id, "doc:1");
+});
@@ -0,0 +1,197 @@
+import type { ID } from "@utils/types.ts";
+
+/**
+ * The pagination contract shared by list queries. Every field is optional:
+ *
+ * - limit:     page size, 1 to MAX_PAGE_LIMIT (default DEFAULT_PAGE_LIMIT when a cursor is given)
+ * - cursor:    the `nextCursor` of the previous page; opaque to clients
+ * - sort:      one of the query's sort keys (each query documents its own and its default)
+ * - direction: "asc" or "desc" (default "asc")
+ *
+ * A query only pages when a limit or cursor is given; then each returned row
+ * carries `nextCursor` (the same value on every row, null on the last page).
+ * Without either, the query returns every match in the requested order, which
+ * syncs that need the full list rely on. Routes always page (see withDefaultLimit).
+ */
+export interface PageOptions {
+  limit?: number;
+  cursor?: string;
+  sort?: string;
+  direction?: "asc" | "desc";
+}
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 100;
+
+type SortValue = string | number | Date;
+
+/**
+ * withDefaultLimit(options): a route's input to a list query, with the limit
+ * set to DEFAULT_PAGE_LIMIT when the client gave none, so no request can read
+ * a whole collection at once.
+ */
+export function withDefaultLimit<T extends PageOptions>(
+  options: T,
+): T & { limit: number } {
+  return { ...options, limit: options.limit ?? DEFAULT_PAGE_LIMIT };
+}
+
+/**
+ * A validated page request for one query. `field` is the document field the
+ * sort key orders by; ties are broken by `_id` so pages never overlap.
+ */
+export interface Page {
+  paged: boolean;
+  limit: number; // 0 when not paged
+  sort: string;
+  field: string;
+  direction: 1 | -1;
+  after?: { value: SortValue; id: ID };
+}
+
+// What a cursor encodes; the short keys keep cursors short
+interface CursorData {
+  s: string; // sort key
+  d: "asc" | "desc";
+  v: string | number; // sort value of the last row (dates as ISO strings)
+  t?: "date";
+  i: ID; // _id of the last row
+}
+
+function encodeCursor(data: CursorData): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-")
+    .replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string): CursorData | undefined {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+    const data = JSON.parse(new TextDecoder().decode(bytes));
+    const valid = typeof data === "object" && data !== null &&
+      typeof data.s === "string" && (data.d === "asc" || data.d === "desc") &&
+      (typeof data.v === "string" || typeof data.v === "number") &&
+      typeof data.i === "string";
+    return valid ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * readPage(options, sortFields, defaultSort): checks a query's pagination
+ * options against its sort keys (`sortFields` maps each key to the field it
+ * orders by). A cursor must come from the same sort key and direction.
+ */
+export function readPage(
+  options: PageOptions,
+  sortFields: Record<string, string>,
+  defaultSort: string,
+): Page | { error: string } {
+  const { limit, cursor, sort = defaultSort, direction = "asc" } = options;
+  if (!(sort in sortFields)) {
+    return {
+      error: `Sort must be one of: ${Object.keys(sortFields).join(", ")}.`,
+    };
+  }
+  if (direction !== "asc" && direction !== "desc") {
+    return { error: 'Direction must be "asc" or "desc".' };
+  }
+  if (
+    limit !== undefined &&
+    (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT)
+  ) {
+    return {
+      error: `Limit must be a whole number from 1 to ${MAX_PAGE_LIMIT}.`,
+    };
+  }
+
+  const page: Page = {
+    paged: limit !== undefined || (cursor !== undefined && cursor !== ""),
+    limit: limit ?? 0,
+    sort,
+    field: sortFields[sort],
+    direction: direction === "asc" ? 1 : -1,
+  };
+  if (page.paged && page.limit === 0) page.limit = DEFAULT_PAGE_LIMIT;
+
+  if (cursor !== undefined && cursor !== "") {
+    const data = typeof cursor === "string" ? decodeCursor(cursor) : undefined;
+    if (!data) return { error: "Cursor is not valid." };
+    if (data.s !== sort || data.d !== direction) {
+      return { error: "Cursor does not match the requested sort." };
+    }
+    page.after = {
+      value: data.t === "date" ? new Date(data.v) : data.v,
+      id: data.i,
+    };
+  }
+  return page;
+}
+
+/**
+ * pageQuery(page): the filter (rows after the cursor), sort and limit to add
+ * to a find. A limit of one more than the page size tells whether more rows follow.
+ */
+export function pageQuery(page: Page): {
+  filter: Record<string, unknown>;
+  sort: Record<string, 1 | -1>;
+  limit: number;
+} {
+  const sort = { [page.field]: page.direction, _id: page.direction };
+  const limit = page.paged ? page.limit + 1 : 0;
+  if (!page.after) return { filter: {}, sort, limit };
+  const beyond = page.direction === 1 ? "$gt" : "$lt";
+  return {
+    filter: {
+      $or: [
+        { [page.field]: { [beyond]: page.after.value } },
+        { [page.field]: page.after.value, _id: { [beyond]: page.after.id } },
+      ],
+    },
+    sort,
+    limit,
+  };
+}
+
+/**
+ * pageResults(docs, page): trims the extra row pageQuery asked for and makes
+ * the cursor for the next page (null when this is the last page).
+ */
+export function pageResults<T extends { _id: ID }>(
+  docs: T[],
+  page: Page,
+): { items: T[]; nextCursor: string | null } {
+  if (!page.paged || docs.length <= page.limit) {
+    return { items: docs, nextCursor: null };
+  }
+  const items = docs.slice(0, page.limit);
+  const last = items[items.length - 1] as T & Record<string, unknown>;
+  const value = last[page.field] as SortValue;
+  const data: CursorData = {
+    s: page.sort,
+    d: page.direction === 1 ? "asc" : "desc",
+    v: value instanceof Date ? value.toISOString() : value,
+    i: last._id,
+  };
+  if (value instanceof Date) data.t = "date";
+  return { items, nextCursor: encodeCursor(data) };
+}
+
+/**
+ * paginate(docs, page, key): the rows a list query returns, each document under
+ * `key`, with `nextCursor` added to every row when the query is paged.
+ */
+export function paginate<T extends { _id: ID }, K extends string>(
+  docs: T[],
+  page: Page,
+  key: K,
+): Array<Record<K, T> & { nextCursor?: string | null }> {
+  const { items, nextCursor } = pageResults(docs, page);
+  return items.map((doc) => {
+    const row = { [key]: doc } as Record<K, T> & { nextCursor?: string | null };
+    if (page.paged) row.nextCursor = nextCursor;
+    return row;
+  });
+}
@@ -0,0 +1,124 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  findUnit,
+  parseQuantity,
+  splitLeadingQuantity,
+  withParsedQuantity,
+} from "./quantity.ts";
+
+Deno.test("parseQuantity", async (t) => {
+  await t.step("parses whole numbers, decimals and fractions", () => {
+    assertEquals(parseQuantity("2 cups"), {
+      kind: "exact",
+      amount: 2,
+      unit: "cup",
+      dimension: "volume",
+    });
+    assertEquals(parseQuantity("1.5", "tbsp").amount, 1.5);
+    assertEquals(parseQuantity("3/4 cup").amount, 0.75);
+    assertEquals(
+      parseQuantity("1 1/2 cups").amount,
+      1.5,
+      "Mixed numbers should be summed.",
+    );
+    assertEquals(parseQuantity("1½ cups").amount, 1.5);
+    assertEquals(parseQuantity("½", "tsp").amount, 0.5);
+  });
+
+  await t.step("parses ranges", () => {
+    assertEquals(parseQuantity("2-3", "tbsp"), {
+      kind: "range",
+      amount: 2,
+      maxAmount: 3,
+      unit: "tbsp",
+      dimension: "volume",
+    });
+    const wordRange = parseQuantity("1 to 2 cloves");
+    assertEquals(wordRange.kind, "range");
+    assertEquals(wordRange.unit, "clove");
+  });
+
+  await t.step("reads a hyphenated mixed number as one amount", () => {
+    assertEquals(parseQuantity("1-1/2", "cups"), {
+      kind: "exact",
+      amount: 1.5,
+      unit: "cup",
+      dimension: "volume",
+    });
+    assertEquals(parseQuantity("1-1/2 to 2 cups"), {
+      kind: "range",
+      amount: 1.5,
+      maxAmount: 2,
+      unit: "cup",
+      dimension: "volume",
+    });
+    assertEquals(parseQuantity("1/2-3/4 cup").maxAmount, 0.75);
+  });
+
+  await t.step("recognises to-taste and unparseable quantities", () => {
+    assertEquals(parseQuantity("to taste"), { kind: "toTaste" });
+    assertEquals(parseQuantity("As needed"), { kind: "toTaste" });
+    assertEquals(parseQuantity("a generous splash"), { kind: "unparsed" });
+    assertEquals(parseQuantity(""), { kind: "unparsed" });
+  });
+
+  await t.step("prefers the explicit unit field over text units", () => {
+    const parsed = parseQuantity("2 cups", "g");
+    assertEquals(parsed.unit, "g");
+    assertEquals(parsed.dimension, "mass");
+  });
+
+  await t.step("treats unitless amounts and bare count units as counts", () => {
+    assertEquals(parseQuantity("2 large"), {
+      kind: "exact",
+      amount: 2,
+      dimension: "count",
+    });
+    assertEquals(parseQuantity("pinch"), {
+      kind: "exact",
+      amount: 1,
+      unit: "pinch",
+      dimension: "count",
+    });
+  });
+});
+
+Deno.test("findUnit", () => {
+  assertEquals(findUnit("Tablespoons")?.name, "tbsp");
+  assertEquals(findUnit("T")?.name, "tbsp", "Capital T means tablespoon.");
+  assertEquals(findUnit("t")?.name, "tsp", "Lowercase t means teaspoon.");
+  assertEquals(findUnit("fl oz")?.name, "fl oz");
+  assertEquals(findUnit("handfuls")?.name, "handful");
+  assertEquals(findUnit("large"), undefined);
+});
+
+Deno.test("splitLeadingQuantity", () => {
+  const flour = splitLeadingQuantity("2 1/2 cups all-purpose flour, sifted");
+  assertEquals(flour?.quantity, "2 1/2 cups");
+  assertEquals(flour?.unit?.name, "cup");
+  assertEquals(flour?.rest, "all-purpose flour, sifted");
+
+  assertEquals(splitLeadingQuantity("200g butter")?.quantity, "200 g");
+  assertEquals(splitLeadingQuantity("2-3 Tbsp. olive oil")?.rest, "olive oil");
+  assertEquals(splitLeadingQuantity("3 large eggs"), {
+    quantity: "3",
+    unit: undefined,
+    rest: "large eggs",
+  });
+  assertEquals(splitLeadingQuantity("a pinch of salt")?.rest, "salt");
+  assertEquals(splitLeadingQuantity("Pinch of nutmeg")?.quantity, "Pinch");
+  assertEquals(splitLeadingQuantity("a splash of milk"), undefined);
+  assertEquals(splitLeadingQuantity("Salt to taste"), undefined);
+});
+
+Deno.test("withParsedQuantity keeps the original text", () => {
+  const ingredient = withParsedQuantity({
+    name: "Flour",
+    quantity: "2 1/4 cups",
+    notes: "sifted",
+  });
+  assertEquals(ingredient.quantity, "2 1/4 cups");
+  assertEquals(ingredient.notes, "sifted");
+  assertEquals(ingredient.parsedQuantity.amount, 2.25);
+  assertEquals(ingredient.parsedQuantity.unit, "cup");
+});
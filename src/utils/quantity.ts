@@ -0,0 +1,554 @@
+/**
+ * Quantity parsing for free-form ingredient amounts.
+ *
+ * Ingredients store their quantity as text ("1 1/2 cups", "2-3", "to taste").
+ * This module turns that text (plus the optional `unit` field) into a
+ * structured amount with a canonical unit so that scaling, conversion and
+ * nutrition can do arithmetic on it. The original text is never discarded.
+ */
+
+export type UnitDimension = "volume" | "mass" | "count";
+export type UnitSystem = "metric" | "imperial";
+
+/**
+ * A known unit of measure.
+ * `toBase` converts one of this unit into the dimension's base unit
+ * (millilitres for volume, grams for mass, 1 for count units).
+ */
+export interface UnitDefinition {
+  name: string; // canonical name, e.g. "tbsp"
+  dimension: UnitDimension;
+  toBase: number;
+  system?: UnitSystem; // undefined for count units and system-neutral units
+  plural?: string; // label for amounts other than 1, if different from name
+  aliases: string[];
+}
+
+/**
+ * The structured form of an ingredient quantity.
+ *
+ * - exact:    a single amount, e.g. "1 1/2 cups"
+ * - range:    a lower and upper amount, e.g. "2-3 tbsp"
+ * - toTaste:  no measurable amount, e.g. "to taste", "as needed"
+ * - unparsed: text we could not interpret; callers should fall back to the original string
+ */
+export interface ParsedQuantity {
+  kind: "exact" | "range" | "toTaste" | "unparsed";
+  amount?: number; // the amount, or the lower bound of a range
+  maxAmount?: number; // upper bound for ranges
+  unit?: string; // canonical unit name, if one was recognised
+  dimension?: UnitDimension;
+}
+
+export const UNITS: UnitDefinition[] = [
+  // Volume (base: ml)
+  {
+    name: "tsp",
+    dimension: "volume",
+    toBase: 4.92892,
+    system: "imperial",
+    aliases: ["t", "tsp", "tsps", "teaspoon", "teaspoons"],
+  },
+  {
+    name: "tbsp",
+    dimension: "volume",
+    toBase: 14.7868,
+    system: "imperial",
+    aliases: ["T", "tbsp", "tbsps", "tbs", "tbl", "tablespoon", "tablespoons"],
+  },
+  {
+    name: "fl oz",
+    dimension: "volume",
+    toBase: 29.5735,
+    system: "imperial",
+    aliases: [
+      "fl oz",
+      "fl. oz",
+      "fl. oz.",
+      "floz",
+      "fluid ounce",
+      "fluid ounces",
+    ],
+  },
+  {
+    name: "cup",
+    plural: "cups",
+    dimension: "volume",
+    toBase: 236.588,
+    system: "imperial",
+    aliases: ["c", "cup", "cups"],
+  },
+  {
+    name: "pint",
+    plural: "pints",
+    dimension: "volume",
+    toBase: 473.176,
+    system: "imperial",
+    aliases: ["pt", "pint", "pints"],
+  },
+  {
+    name: "quart",
+    plural: "quarts",
+    dimension: "volume",
+    toBase: 946.353,
+    system: "imperial",
+    aliases: ["qt", "quart", "quarts"],
+  },
+  {
+    name: "gallon",
+    plural: "gallons",
+    dimension: "volume",
+    toBase: 3785.41,
+    system: "imperial",
+    aliases: ["gal", "gallon", "gallons"],
+  },
+  {
+    name: "ml",
+    dimension: "volume",
+    toBase: 1,
+    system: "metric",
+    aliases: [
+      "ml",
+      "mL",
+      "milliliter",
+      "milliliters",
+      "millilitre",
+      "millilitres",
+    ],
+  },
+  {
+    name: "l",
+    dimension: "volume",
+    toBase: 1000,
+    system: "metric",
+    aliases: ["l", "L", "liter", "liters", "litre", "litres"],
+  },
+  // Mass (base: g)
+  {
+    name: "g",
+    dimension: "mass",
+    toBase: 1,
+    system: "metric",
+    aliases: ["g", "gr", "gram", "grams", "gramme", "grammes"],
+  },
+  {
+    name: "kg",
+    dimension: "mass",
+    toBase: 1000,
+    system: "metric",
+    aliases: ["kg", "kgs", "kilogram", "kilograms"],
+  },
+  {
+    name: "mg",
+    dimension: "mass",
+    toBase: 0.001,
+    system: "metric",
+    aliases: ["mg", "milligram", "milligrams"],
+  },
+  {
+    name: "oz",
+    dimension: "mass",
+    toBase: 28.3495,
+    system: "imperial",
+    aliases: ["oz", "ounce", "ounces"],
+  },
+  {
+    name: "lb",
+    dimension: "mass",
+    toBase: 453.592,
+    system: "imperial",
+    aliases: ["lb", "lbs", "pound", "pounds"],
+  },
+  // Count-like units (no conversion between them)
+  ...[
+    ["pinch", "pinches"],
+    ["dash", "dashes"],
+    ["clove", "cloves"],
+    ["can", "cans"],
+    ["slice", "slices"],
+    ["piece", "pieces", "pc", "pcs"],
+    ["stick", "sticks"],
+    ["bunch", "bunches"],
+    ["sprig", "sprigs"],
+    ["package", "packages", "pkg", "pack", "packs"],
+    ["handful", "handfuls"],
+    ["head", "heads"],
+    ["loaf", "loaves"],
+  ].map(([name, ...plurals]): UnitDefinition => ({
+    name,
+    plural: plurals[0],
+    dimension: "count",
+    toBase: 1,
+    aliases: [name, ...plurals],
+  })),
+];
+
+// Aliases are matched case-insensitively, except for the few where case matters ("T" vs "t").
+const CASE_SENSITIVE_ALIASES = new Set(["T", "t"]);
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const unit of UNITS) {
+  for (const alias of unit.aliases) {
+    const key = CASE_SENSITIVE_ALIASES.has(alias) ? alias : alias.toLowerCase();
+    UNIT_LOOKUP.set(key, unit);
+  }
+}
+
+/**
+ * Looks up a unit by any of its spellings ("Tablespoons", "tbsp.", "T").
+ * @returns the unit definition, or undefined if the unit is unknown
+ */
+export function findUnit(raw: string | undefined): UnitDefinition | undefined {
+  if (!raw) return undefined;
+  const trimmed = raw.trim().replace(/\.$/, "");
+  if (trimmed === "") return undefined;
+  if (CASE_SENSITIVE_ALIASES.has(trimmed)) return UNIT_LOOKUP.get(trimmed);
+  return UNIT_LOOKUP.get(trimmed.toLowerCase());
+}
+
+/**
+ * Looks up a unit by its canonical name (as stored in ParsedQuantity.unit).
+ */
+export function unitByName(
+  name: string | undefined,
+): UnitDefinition | undefined {
+  if (!name) return undefined;
+  return UNITS.find((u) => u.name === name);
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+  "⅕": 1 / 5,
+  "⅛": 1 / 8,
+  "⅜": 3 / 8,
+  "⅝": 5 / 8,
+  "⅞": 7 / 8,
+};
+
+const TO_TASTE_PATTERN =
+  /^(to taste|as needed|as required|optional|for serving|for garnish|some)$/i;
+
+// A single number: mixed numbers ("1 1/2", "1½"), fractions, decimals, integers, or "a"/"an".
+const FRACTION_CHARS = "½⅓⅔¼¾⅕⅛⅜⅝⅞";
+const NUMBER_SOURCE = [
+  String.raw`\d+\s+\d+\s*\/\s*\d+`,
+  String.raw`\d+\s*[${FRACTION_CHARS}]`,
+  String.raw`\d+\s*\/\s*\d+`,
+  String.raw`\d*[.,]\d+`,
+  String.raw`\d+`,
+  `[${FRACTION_CHARS}]`,
+  String.raw`an?\b`,
+].join("|");
+const RANGE_SEPARATOR = String.raw`\s*(?:-|–|—|to|or)\s*`;
+const RANGE_PATTERN = new RegExp(
+  `^(${NUMBER_SOURCE})${RANGE_SEPARATOR}(${NUMBER_SOURCE})\\s*(.*)$`,
+  "i",
+);
+const SINGLE_PATTERN = new RegExp(String.raw`^(${NUMBER_SOURCE})\s*(.*)$`, "i");
+// A mixed number written with a hyphen ("1-1/2"), which would otherwise read as a range
+const HYPHENATED_MIXED_PATTERN = /(?<![\d/.,])(\d+)-(\d+\s*\/\s*\d+)/g;
+
+/**
+ * Parses one numeric token (see NUMBER_SOURCE) into a number.
+ */
+export function parseNumber(token: string): number | undefined {
+  const text = token.trim().toLowerCase();
+  if (text === "a" || text === "an") return 1;
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    if (denominator === 0) return undefined;
+    return Number(mixed[1]) + Number(mixed[2]) / denominator;
+  }
+
+  const mixedUnicode = text.match(/^(\d*)\s*([½⅓⅔¼¾⅕⅛⅜⅝⅞])$/);
+  if (mixedUnicode) {
+    const whole = mixedUnicode[1] ? Number(mixedUnicode[1]) : 0;
+    return whole + UNICODE_FRACTIONS[mixedUnicode[2]];
+  }
+
+  const fraction = text.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    if (denominator === 0) return undefined;
+    return Number(fraction[1]) / denominator;
+  }
+
+  const decimal = text.replace(",", ".");
+  if (/^\d*\.?\d+$/.test(decimal)) return Number(decimal);
+
+  return undefined;
+}
+
+/**
+ * Splits the text that follows a number into a recognised unit, if any.
+ * Tries the longest alias first so "fl oz" wins over "fl".
+ */
+function splitUnit(rest: string): UnitDefinition | undefined {
+  const words = rest.trim().split(/\s+/).filter((w) => w !== "");
+  for (let n = Math.min(3, words.length); n > 0; n--) {
+    const unit = findUnit(words.slice(0, n).join(" "));
+    if (unit) return unit;
+  }
+  return undefined;
+}
+
+/**
+ * parseQuantity (quantity: String, unit?: String): ParsedQuantity
+ *
+ * Interprets a free-form quantity. An explicit `unit` takes precedence over a
+ * unit written inside the quantity text ("2 cups" with unit "cup").
+ *
+ * Examples:
+ *   "1 1/2 cups"  -> { kind: "exact", amount: 1.5, unit: "cup", dimension: "volume" }
+ *   "1-1/2 cups"  -> the same mixed number, not a range
+ *   "2-3", "tbsp" -> { kind: "range", amount: 2, maxAmount: 3, unit: "tbsp", ... }
+ *   "2 large"     -> { kind: "exact", amount: 2, dimension: "count" }
+ *   "to taste"    -> { kind: "toTaste" }
+ */
+export function parseQuantity(
+  quantity: string,
+  unit?: string,
+): ParsedQuantity {
+  const text = (quantity ?? "").trim().replace(/\s+/g, " ")
+    .replace(HYPHENATED_MIXED_PATTERN, "$1 $2");
+  if (text === "") return { kind: "unparsed" };
+  if (TO_TASTE_PATTERN.test(text)) return { kind: "toTaste" };
+
+  const explicitUnit = findUnit(unit);
+
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    const low = parseNumber(range[1]);
+    const high = parseNumber(range[2]);
+    if (low !== undefined && high !== undefined) {
+      const resolved = explicitUnit ?? splitUnit(range[3]);
+      return {
+        kind: "range",
+        amount: Math.min(low, high),
+        maxAmount: Math.max(low, high),
+        ...unitFields(resolved),
+      };
+    }
+  }
+
+  const single = text.match(SINGLE_PATTERN);
+  if (single) {
+    const amount = parseNumber(single[1]);
+    const resolved = explicitUnit ?? splitUnit(single[2]);
+    // "a"/"an" only counts as 1 when it introduces a unit ("a pinch"), not prose ("a splash").
+    const isArticle = /^an?$/i.test(single[1].trim());
+    if (amount !== undefined && (!isArticle || resolved)) {
+      return { kind: "exact", amount, ...unitFields(resolved) };
+    }
+  }
+
+  // Quantities like "pinch" or "dash" with no number mean one of that unit.
+  const bareUnit = splitUnit(text);
+  if (bareUnit && bareUnit.dimension === "count") {
+    return { kind: "exact", amount: 1, ...unitFields(bareUnit) };
+  }
+
+  return { kind: "unparsed" };
+}
+
+function unitFields(
+  unit: UnitDefinition | undefined,
+): Pick<ParsedQuantity, "unit" | "dimension"> {
+  if (!unit) return { dimension: "count" };
+  return { unit: unit.name, dimension: unit.dimension };
+}
+
+/**
+ * Returns a copy of the ingredient with `parsedQuantity` derived from its
+ * `quantity` and `unit` fields. Any previously stored parse is replaced.
+ */
+export function withParsedQuantity<
+  T extends { quantity: string; unit?: string },
+>(ingredient: T): T & { parsedQuantity: ParsedQuantity } {
+  return {
+    ...ingredient,
+    parsedQuantity: parseQuantity(ingredient.quantity, ingredient.unit),
+  };
+}
+
+const LEADING_AMOUNT_PATTERN = new RegExp(
+  `^(?:${NUMBER_SOURCE})(?:${RANGE_SEPARATOR}(?:${NUMBER_SOURCE}))?`,
+  "i",
+);
+
+/**
+ * Splits the amount and unit off the start of an ingredient line, e.g.
+ * "2 1/2 cups flour" -> { quantity: "2 1/2 cups", unit: cup, rest: "flour" }
+ * and "a pinch of salt" -> { quantity: "a pinch", unit: pinch, rest: "salt" }.
+ * A bare count unit followed by "of" ("pinch of salt") counts as one.
+ * @returns undefined if the line does not start with an amount
+ */
+export function splitLeadingQuantity(
+  line: string,
+): { quantity: string; unit?: UnitDefinition; rest: string } | undefined {
+  const text = line.trim().replace(/\s+/g, " ");
+  const amount = text.match(LEADING_AMOUNT_PATTERN)?.[0].trim() ?? "";
+  const afterAmount = text.slice(amount.length).trim();
+
+  // Try the longest unit first, as splitUnit does; "cups." and "cups," count too
+  const words = afterAmount.split(" ").filter((w) => w !== "");
+  let unit: UnitDefinition | undefined;
+  let unitWords = 0;
+  for (let n = Math.min(3, words.length); n > 0 && !unit; n--) {
+    unit = findUnit(words.slice(0, n).join(" ").replace(/[.,]$/, ""));
+    if (unit) unitWords = n;
+  }
+
+  const rest = words.slice(unitWords).join(" ");
+  const restAfterOf = rest.replace(/^of\s+/i, "");
+  if (amount === "") {
+    // "pinch of salt", but not "head chef" or "can"
+    if (!unit || unit.dimension !== "count" || rest === restAfterOf) {
+      return undefined;
+    }
+  } else if (/^an?$/i.test(amount) && !unit) {
+    return undefined; // "a splash of milk" is prose, not an amount
+  }
+
+  const unitText = words.slice(0, unitWords).join(" ").replace(/[.,]$/, "");
+  return {
+    quantity: [amount, unitText].filter(Boolean).join(" "),
+    unit,
+    rest: restAfterOf,
+  };
+}
+
+// --- Formatting and unit normalization ---
+
+const NICE_FRACTIONS: Array<[number, string]> = [
+  [0, ""],
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [3 / 8, "3/8"],
+  [1 / 2, "1/2"],
+  [5 / 8, "5/8"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+  [7 / 8, "7/8"],
+  [1, ""],
+];
+
+/**
+ * Rounds an amount to a value a cook can measure in the given unit:
+ * kitchen fractions for imperial and count units, sensible decimals for metric.
+ */
+export function roundAmount(amount: number, unit?: UnitDefinition): number {
+  if (amount <= 0) return 0;
+  if (unit?.system === "metric") {
+    if (unit.toBase >= 1000) return Math.round(amount * 100) / 100; // kg, l
+    if (amount < 10) return Math.round(amount * 10) / 10;
+    if (amount < 100) return Math.round(amount);
+    return Math.round(amount / 5) * 5;
+  }
+  if (amount >= 20) return Math.round(amount);
+  if (amount >= 10) return Math.round(amount * 2) / 2;
+  const whole = Math.floor(amount);
+  const fraction = amount - whole;
+  let best = NICE_FRACTIONS[0][0];
+  for (const [value] of NICE_FRACTIONS) {
+    if (Math.abs(fraction - value) < Math.abs(fraction - best)) best = value;
+  }
+  const rounded = whole + best;
+  // Never round a small non-zero amount down to nothing.
+  return rounded === 0 ? 1 / 8 : rounded;
+}
+
+/**
+ * Formats an amount as kitchen text: "1 1/2", "3/4", "250", "1.25".
+ */
+export function formatAmount(amount: number, unit?: UnitDefinition): string {
+  const rounded = roundAmount(amount, unit);
+  if (unit?.system === "metric") return String(rounded);
+  const whole = Math.floor(rounded + 1e-9);
+  const fraction = rounded - whole;
+  const match = NICE_FRACTIONS.find(([value]) =>
+    Math.abs(value - fraction) < 1e-6
+  );
+  const fractionText = match ? match[1] : "";
+  if (!match) return String(Math.round(rounded * 100) / 100);
+  if (whole === 0) return fractionText || "0";
+  return fractionText ? `${whole} ${fractionText}` : String(whole);
+}
+
+/**
+ * Returns the label for a unit at the given amount ("cup" vs "cups").
+ */
+export function unitLabel(unit: UnitDefinition, amount: number): string {
+  return amount > 1 && unit.plural ? unit.plural : unit.name;
+}
+
+/**
+ * Formats a parsed quantity back into text, e.g. "1 1/2 cups" or "2-3 tbsp".
+ * Returns undefined for quantities without a numeric amount.
+ */
+export function formatQuantity(parsed: ParsedQuantity): string | undefined {
+  if (parsed.amount === undefined) return undefined;
+  const unit = unitByName(parsed.unit);
+  const upper = parsed.kind === "range" ? parsed.maxAmount : undefined;
+  const amountText = upper !== undefined
+    ? `${formatAmount(parsed.amount, unit)}-${formatAmount(upper, unit)}`
+    : formatAmount(parsed.amount, unit);
+  if (!unit) return amountText;
+  return `${amountText} ${unitLabel(unit, upper ?? parsed.amount)}`;
+}
+
+// Units a measurement may be promoted or demoted between, smallest first.
+// Each entry says how "round" an amount must be to be expressed in that unit.
+const UNIT_LADDERS: Array<Array<{ name: string; min: number; grid: number }>> =
+  [
+    [
+      { name: "tsp", min: 0, grid: 0 },
+      { name: "tbsp", min: 1, grid: 2 }, // whole or half tablespoons
+      { name: "cup", min: 1 / 4, grid: 12 }, // quarters and thirds of a cup
+    ],
+    [{ name: "ml", min: 0, grid: 0 }, { name: "l", min: 1, grid: 0 }],
+    [
+      { name: "mg", min: 0, grid: 0 },
+      { name: "g", min: 1, grid: 0 },
+      { name: "kg", min: 1, grid: 0 },
+    ],
+    [{ name: "oz", min: 0, grid: 0 }, { name: "lb", min: 1, grid: 4 }],
+  ];
+
+/**
+ * Re-expresses an amount in the most readable unit of the same family,
+ * e.g. 16 tbsp -> 1 cup, 1500 g -> 1.5 kg, 1/8 cup -> 2 tbsp.
+ * Units outside a known ladder (counts, fl oz, pints) are returned unchanged.
+ * Pass `approximate` when the amount is already an estimate (e.g. a unit
+ * conversion) to skip the "lands on a clean fraction" check.
+ */
+export function normalizeUnit(
+  amount: number,
+  unit: UnitDefinition,
+  approximate = false,
+): { amount: number; unit: UnitDefinition } {
+  const ladder = UNIT_LADDERS.find((l) => l.some((s) => s.name === unit.name));
+  if (!ladder) return { amount, unit };
+  const base = amount * unit.toBase;
+  for (let i = ladder.length - 1; i >= 0; i--) {
+    const step = ladder[i];
+    const candidate = unitByName(step.name);
+    if (!candidate) continue;
+    const value = base / candidate.toBase;
+    if (i === 0) return { amount: value, unit: candidate };
+    // The toBase factors are rounded, so 3 tsp is 0.99997 tbsp rather than 1.
+    if (value < step.min * 0.999) continue;
+    if (step.grid > 0 && !approximate) {
+      const onGrid = Math.round(value * step.grid) / step.grid;
+      if (Math.abs(onGrid - value) > value * 0.02) continue;
+    }
+    return { amount: value, unit: candidate };
+  }
+  return { amount, unit };
+}